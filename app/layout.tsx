@@ -27,12 +27,9 @@ export default function RootLayout({
         <div id="root" className="min-h-screen">
             {children}
         </div>
+        {/* Served from public/vendor (scripts/copy-vendor.mjs) so it works without internet access */}
         <Script 
-          src="https://cdn.jsdelivr.net/npm/hanzi-writer@3.5/dist/hanzi-writer.min.js" 
-          strategy="beforeInteractive" 
-        />
-        <Script 
-          src="https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js" 
+          src="/vendor/hanzi-writer.min.js" 
           strategy="beforeInteractive" 
         />
       </body>
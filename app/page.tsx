@@ -1,30 +1,30 @@
 "use client";
 
-import { useState } from 'react';
+import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { LoginScreen } from '@/components/LoginScreen';
-import { Student } from '@/types';
+import { getCurrentSession } from '@/lib/services/auth';
+import { AuthSession } from '@/types';
 
 
 export default function Home() {
   const router = useRouter();
 
-  const handleTutorSelect = () => {
-    router.push('/tutor/dashboard');
+  const goToDashboard = (session: AuthSession) => {
+    router.push(session.role === 'tutor' ? '/tutor/dashboard' : '/student/dashboard');
   };
 
-  const handleStudentLogin = (student: Student) => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('currentUser', student.name);
-      localStorage.setItem('currentUserId', student.id);
-    }
-    router.push('/student/dashboard');
-  };
+  // Already signed in (or returning from a magic link): skip the login screen
+  useEffect(() => {
+    getCurrentSession().then(session => {
+      if (session) goToDashboard(session);
+    });
+  }, []);
 
   return (
     <LoginScreen 
-      onTutorSelect={handleTutorSelect} 
-      onStudentLogin={handleStudentLogin} 
+      onTutorLogin={goToDashboard} 
+      onStudentLogin={goToDashboard} 
     />
   );
 }
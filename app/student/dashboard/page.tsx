@@ -2,45 +2,46 @@
 
 import { useRouter } from 'next/navigation';
 import { StudentDashboard } from '@/components/StudentDashboard';
+import { useAuth } from '@/components/AuthGuard';
+import { signOut } from '@/lib/services/auth';
+import { getSyncStatus } from '@/lib/services/sync';
 import { AssignedLesson } from '@/types';
-import { useEffect, useState } from 'react';
 
 export default function StudentDashboardPage() {
   const router = useRouter();
-  const [studentName, setStudentName] = useState<string>('');
-
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const stored = localStorage.getItem('currentUser');
-      if (stored) {
-        setStudentName(stored);
-      } else {
-        router.push('/');
-      }
-    }
-  }, [router]);
-
-  if (!studentName) return null;
+  const session = useAuth();
 
   const handleSelectLesson = (lesson: AssignedLesson) => {
     router.push(`/student/lesson/${lesson.id}`);
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('currentUser');
-    router.push('/');
+  const handleLogout = async () => {
+    try {
+      const { parked } = getSyncStatus();
+      if (parked > 0 && !confirm(`${parked} change${parked === 1 ? " was" : "s were"} refused by the cloud and will be discarded. Sign out anyway?`)) return;
+      await signOut();
+      router.push('/');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Could not sign out.');
+    }
   };
 
   const handlePracticeVocab = () => {
     router.push('/student/vocab');
   };
 
+  const handleMockExam = () => {
+    router.push('/student/exam');
+  };
+
   return (
     <StudentDashboard 
-      studentName={studentName} 
+      studentName={session.name} 
+      studentId={session.studentId || ''}
       onSelectLesson={handleSelectLesson}
       onLogout={handleLogout}
       onPracticeVocab={handlePracticeVocab}
+      onMockExam={handleMockExam}
     />
   );
 }
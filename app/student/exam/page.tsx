@@ -0,0 +1,20 @@
+"use client";
+
+import { useRouter } from 'next/navigation';
+import { MockExamView } from '@/components/MockExamView';
+import { useAuth } from '@/components/AuthGuard';
+
+export default function StudentExamPage() {
+  const router = useRouter();
+  const session = useAuth();
+
+  if (!session.studentId) return null;
+
+  return (
+    <MockExamView
+      studentId={session.studentId}
+      studentName={session.name}
+      onBack={() => router.push('/student/dashboard')}
+    />
+  );
+}
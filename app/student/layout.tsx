@@ -0,0 +1,13 @@
+"use client";
+
+import { AuthGuard } from '@/components/AuthGuard';
+import { SyncStatusIndicator } from '@/components/SyncStatusIndicator';
+
+export default function StudentLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <AuthGuard role="student">
+      {children}
+      <SyncStatusIndicator />
+    </AuthGuard>
+  );
+}
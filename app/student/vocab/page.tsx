@@ -2,32 +2,18 @@
 
 import { useRouter } from 'next/navigation';
 import { StudentVocabPractice } from '@/components/StudentVocabPractice';
-import { useEffect, useState } from 'react';
+import { useAuth } from '@/components/AuthGuard';
 
 export default function StudentVocabPage() {
   const router = useRouter();
-  const [studentName, setStudentName] = useState<string>('');
-  const [studentId, setStudentId] = useState<string>('');
+  const session = useAuth();
 
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const storedName = localStorage.getItem('currentUser');
-      const storedId = localStorage.getItem('currentUserId');
-      if (storedName && storedId) {
-        setStudentName(storedName);
-        setStudentId(storedId);
-      } else {
-        router.push('/');
-      }
-    }
-  }, [router]);
-
-  if (!studentName || !studentId) return null;
+  if (!session.studentId) return null;
 
   return (
     <StudentVocabPractice 
-      studentId={studentId}
-      studentName={studentName}
+      studentId={session.studentId}
+      studentName={session.name}
       onBack={() => router.push('/student/dashboard')}
     />
   );
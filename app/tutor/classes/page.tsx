@@ -0,0 +1,12 @@
+"use client";
+
+import { useRouter } from 'next/navigation';
+import { ClassManagement } from '@/components/ClassManagement';
+
+export default function TutorClassesPage() {
+  const router = useRouter();
+
+  return (
+    <ClassManagement onBack={() => router.push('/tutor/dashboard')} />
+  );
+}
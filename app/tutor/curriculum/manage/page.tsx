@@ -0,0 +1,12 @@
+"use client";
+
+import { useRouter } from 'next/navigation';
+import { CurriculumManager } from '@/components/CurriculumManager';
+
+export default function TutorCurriculumManagePage() {
+  const router = useRouter();
+
+  return (
+    <CurriculumManager onBack={() => router.push('/tutor/dashboard')} />
+  );
+}
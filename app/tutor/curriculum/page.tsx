@@ -2,7 +2,7 @@
 
 import { useRouter, useSearchParams } from 'next/navigation';
 import { StageCurriculum } from '@/components/StageCurriculum';
-import { Stage, Topic, LearningPoint } from '@/types';
+import { Stage, Topic, LearningPoint, LessonTemplate } from '@/types';
 import { Suspense } from 'react';
 
 function CurriculumContent() {
@@ -24,11 +24,24 @@ function CurriculumContent() {
     router.push(`/tutor/editor/${stage.id}/${topic.id}/${point.id}?${params.toString()}`);
   };
 
+  // Open a banked lesson in the editor without regenerating it
+  const handleSelectTemplate = (template: LessonTemplate) => {
+    const params = new URLSearchParams({
+      student: studentName,
+      template: template.id
+    });
+    if (studentId) {
+      params.append('studentId', studentId);
+    }
+    router.push(`/tutor/editor/${template.stageId}/${template.topicId}/${template.pointId}?${params.toString()}`);
+  };
+
   return (
     <StageCurriculum 
       stageId={parseInt(stageId)} 
       studentName={studentName}
       onSelectPoint={handleSelectPoint}
+      onSelectTemplate={handleSelectTemplate}
       onBack={() => router.push('/tutor/onboarding')}
     />
   );
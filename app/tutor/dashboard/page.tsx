@@ -2,6 +2,8 @@
 
 import { useRouter } from 'next/navigation';
 import { TutorDashboard } from '@/components/TutorDashboard';
+import { signOut } from '@/lib/services/auth';
+import { getSyncStatus } from '@/lib/services/sync';
 
 export default function TutorDashboardPage() {
   const router = useRouter();
@@ -10,10 +12,21 @@ export default function TutorDashboardPage() {
     <TutorDashboard 
       onPlanLesson={() => router.push('/tutor/onboarding')}
       onViewProgress={() => router.push('/tutor/progress')}
-      onBack={() => router.push('/')}
+      onSignOut={async () => {
+        try {
+          const { parked } = getSyncStatus();
+          if (parked > 0 && !confirm(`${parked} change${parked === 1 ? " was" : "s were"} refused by the cloud and will be discarded. Sign out anyway?`)) return;
+          await signOut();
+          router.push('/');
+        } catch (error) {
+          alert(error instanceof Error ? error.message : 'Could not sign out.');
+        }
+      }}
       onSettings={() => router.push('/tutor/settings')}
       onManageVocab={() => router.push('/tutor/vocab')}
-      onCurriculum={() => router.push('/tutor/curriculum')}
+      onCurriculum={() => router.push('/tutor/curriculum/manage')}
+      onManageStudents={() => router.push('/tutor/students')}
+      onManageClasses={() => router.push('/tutor/classes')}
     />
   );
 }
@@ -2,29 +2,34 @@
 
 import { useRouter, useSearchParams } from 'next/navigation';
 import { LessonEditor } from '@/components/LessonEditor';
-import { CURRICULUM } from '@/data/curriculum';
+import { getCurriculum } from '@/lib/services/storage';
+import { findCurriculumPoint } from '@/lib/curriculum';
 import { Stage, Topic, LearningPoint } from '@/types';
-import { Suspense, useMemo } from 'react';
+import { Suspense, useEffect, useState } from 'react';
 
 function EditorContent({ params }: { params: { stageId: string, topicId: string, pointId: string } }) {
   const router = useRouter();
   const searchParams = useSearchParams();
   const studentName = searchParams.get('student') || 'Student';
   const studentId = searchParams.get('studentId') || undefined;
+  const templateId = searchParams.get('template') || undefined;
 
   const { stageId, topicId, pointId } = params;
 
-  // Find the exact objects
-  const data = useMemo(() => {
-    const stage = CURRICULUM.find(s => s.id === parseInt(stageId));
-    if (!stage) return null;
-    const topic = stage.topics.find(t => t.id === topicId);
-    if (!topic) return null;
-    const point = topic.points.find(p => p.id === pointId);
-    if (!point) return null;
-    return { stage, topic, point };
+  // Find the exact objects in the tutor's curriculum
+  const [data, setData] = useState<{ stage: Stage; topic: Topic; point: LearningPoint } | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchPoint = async () => {
+      const curriculum = await getCurriculum();
+      setData(findCurriculumPoint(curriculum.stages, parseInt(stageId), topicId, pointId));
+      setLoading(false);
+    };
+    fetchPoint();
   }, [stageId, topicId, pointId]);
 
+  if (loading) return <div>Loading editor...</div>;
   if (!data) return <div>Curriculum point not found</div>;
 
   const handleBack = () => {
@@ -40,12 +45,13 @@ function EditorContent({ params }: { params: { stageId: string, topicId: string,
 
   return (
     <LessonEditor 
-      key={data.point.id}
+      key={`${data.point.id}-${templateId || ''}`}
       stage={data.stage}
       topic={data.topic}
       point={data.point}
       studentName={studentName}
       studentId={studentId}
+      templateId={templateId}
       onBack={handleBack}
     />
   );
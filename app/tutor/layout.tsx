@@ -0,0 +1,13 @@
+"use client";
+
+import { AuthGuard } from '@/components/AuthGuard';
+import { SyncStatusIndicator } from '@/components/SyncStatusIndicator';
+
+export default function TutorLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <AuthGuard role="tutor">
+      {children}
+      <SyncStatusIndicator />
+    </AuthGuard>
+  );
+}
@@ -0,0 +1,12 @@
+"use client";
+
+import { useRouter } from 'next/navigation';
+import { StudentAccessManager } from '@/components/StudentAccessManager';
+
+export default function TutorStudentsPage() {
+  const router = useRouter();
+
+  return (
+    <StudentAccessManager onBack={() => router.push('/tutor/dashboard')} />
+  );
+}
@@ -0,0 +1,42 @@
+import React from 'react';
+import { diffAnswer } from '@/lib/answerDiff';
+
+interface Props {
+  expected: string;
+  given: string;
+}
+
+// The student's answer with corrections: wrong and extra characters struck through in red,
+// the model answer's characters in green where they were substituted or left out
+export const AnswerDiffView: React.FC<Props> = ({ expected, given }) => {
+  const diff = diffAnswer(expected, given);
+
+  return (
+    <div>
+      <p className="text-lg chinese-text leading-loose">
+        {diff.segments.map((seg, idx) => {
+          switch (seg.op) {
+            case 'equal':
+              return <span key={idx} className="text-slate-700">{seg.given}</span>;
+            case 'extra':
+              return <span key={idx} className="text-red-600 line-through decoration-2" title="Not in the model answer">{seg.given}</span>;
+            case 'missing':
+              return <span key={idx} className="text-green-700 bg-green-100 rounded px-0.5 border-b-2 border-dashed border-green-500" title="Missing">{seg.expected}</span>;
+            case 'substituted':
+              return (
+                <span key={idx} title={`${seg.given} → ${seg.expected}`}>
+                  <span className="text-red-600 line-through decoration-2">{seg.given}</span>
+                  <span className="text-green-700 bg-green-100 rounded px-0.5">{seg.expected}</span>
+                </span>
+              );
+          }
+        })}
+      </p>
+      <div className="flex flex-wrap gap-3 mt-1 text-[11px] text-slate-500">
+        <span><span className="text-red-600 line-through">字</span> wrong or extra</span>
+        <span><span className="text-green-700 bg-green-100 rounded px-0.5">字</span> correct character</span>
+        <span><span className="text-green-700 border-b-2 border-dashed border-green-500">字</span> missing</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2 } from 'lucide-react';
+import { AuthSession, UserRole } from '@/types';
+import { getCurrentSession, onAuthSessionChange } from '@/lib/services/auth';
+import { claimLocalData } from '@/lib/services/sync';
+
+const AuthContext = createContext<AuthSession | null>(null);
+
+// Signed-in user for pages rendered inside an AuthGuard
+export const useAuth = (): AuthSession => {
+  const session = useContext(AuthContext);
+  if (!session) {
+    throw new Error('useAuth must be used inside an AuthGuard');
+  }
+  return session;
+};
+
+interface Props {
+  role: UserRole;
+  children: React.ReactNode;
+}
+
+// Renders children only for a signed-in user with the given role, otherwise back to login
+export const AuthGuard: React.FC<Props> = ({ role, children }) => {
+  const router = useRouter();
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [checking, setChecking] = useState(true);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const applySession = (next: AuthSession | null) => {
+      if (!mounted) return;
+      if (next && next.role === role) {
+        setSession(next);
+        setChecking(false);
+      } else {
+        setSession(null);
+        router.replace('/');
+      }
+    };
+
+    // Local data cached for someone else on this device is dropped before any page reads it
+    getCurrentSession()
+      .then(async next => {
+        if (next) await claimLocalData(next.userId);
+        return next;
+      })
+      .then(applySession)
+      .catch(() => applySession(null));
+
+    const unsubscribe = onAuthSessionChange(next => {
+      // Token refreshes keep the same user; only react to sign-out or a different role
+      if (!next || next.role !== role) applySession(null);
+    });
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, [role, router]);
+
+  if (checking || !session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-slate-400">
+        <Loader2 className="animate-spin" size={32} />
+      </div>
+    );
+  }
+
+  return <AuthContext.Provider value={session}>{children}</AuthContext.Provider>;
+};
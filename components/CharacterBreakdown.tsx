@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { ComponentNode, Decomposer, PhoneticHint, loadDecomposition } from '@/lib/decomposition';
+
+interface Props {
+  word: string;
+  listWords: string[]; // Words in the student's lists, for components they have met before
+}
+
+const PHONETIC_TEXT: Record<PhoneticHint['match'], string> = {
+  same: 'sounds exactly the same',
+  tone: 'same sound, different tone',
+  rhyme: 'rhymes with it',
+  none: 'the sound has changed over time, so use it only as a rough clue',
+};
+
+const ComponentTree: React.FC<{ node: ComponentNode }> = ({ node }) => (
+  <li>
+    {node.component ? (
+      <span className="inline-flex items-baseline gap-1.5">
+        <span className={`text-lg chinese-text ${
+          node.role === 'semantic' ? 'text-emerald-700' : node.role === 'phonetic' ? 'text-indigo-700' : 'text-slate-800'
+        }`}>{node.component}</span>
+        {node.pinyin && <span className="text-xs text-slate-400">{node.pinyin}</span>}
+        {node.meaning && <span className="text-xs text-slate-500 truncate max-w-[16rem]">{node.meaning}</span>}
+        {node.role && (
+          <span className={`text-[10px] font-semibold uppercase px-1.5 rounded ${
+            node.role === 'semantic' ? 'bg-emerald-50 text-emerald-700' : 'bg-indigo-50 text-indigo-700'
+          }`}>{node.role === 'semantic' ? 'meaning' : 'sound'}</span>
+        )}
+      </span>
+    ) : (
+      <span className="text-xs text-slate-400 italic">{node.layout}</span>
+    )}
+    {node.children.length > 0 && (
+      <ul className="ml-4 pl-3 border-l border-slate-200 space-y-1 mt-1">
+        {node.component && node.layout && <li className="text-[11px] text-slate-400 italic">{node.layout}</li>}
+        {node.children.map((child, i) => <ComponentTree key={i} node={child} />)}
+      </ul>
+    )}
+  </li>
+);
+
+// Components, radical, sound clue and related characters for each character of a word,
+// so students learn to recognise characters from their parts
+export const CharacterBreakdown: React.FC<Props> = ({ word, listWords }) => {
+  const [decomposer, setDecomposer] = useState<Decomposer | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let mounted = true;
+    loadDecomposition().then(result => {
+      if (!mounted) return;
+      setDecomposer(result);
+      setLoading(false);
+    });
+    return () => { mounted = false; };
+  }, []);
+
+  if (loading) return null;
+  const characters = decomposer
+    ? Array.from(new Set(Array.from(word)))
+      .map(ch => decomposer.lookup(ch))
+      .filter((d): d is NonNullable<typeof d> => d !== null)
+    : [];
+  if (!decomposer || characters.length === 0) {
+    return (
+      <div className="space-y-2">
+        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Character Breakdown</h4>
+        <p className="p-4 bg-slate-50 rounded-xl text-sm text-slate-500">
+          {decomposer ? 'No breakdown is available for this word.' : 'Character breakdowns are unavailable right now.'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Character Breakdown</h4>
+      <div className="space-y-3">
+        {characters.map(d => {
+          const shared = decomposer.sharedComponents(d.character, listWords);
+          return (
+            <div key={d.character} className="p-4 bg-slate-50 rounded-xl space-y-3">
+              <ul className="space-y-1">
+                <ComponentTree node={d.tree} />
+              </ul>
+
+              <div className="text-sm text-slate-600 space-y-1">
+                {d.radical && (
+                  <p>
+                    <span className="font-semibold text-slate-700">Radical:</span>{' '}
+                    <span className="chinese-text text-base">{d.radical.form}</span>
+                    {d.radical.meaning && <span className="text-slate-500"> ({d.radical.meaning})</span>}
+                  </p>
+                )}
+                {d.phonetic && (
+                  <p>
+                    <span className="font-semibold text-slate-700">Sound clue:</span>{' '}
+                    <span className="chinese-text text-base text-indigo-700">{d.phonetic.component}</span>
+                    {d.phonetic.pinyin && <span> {d.phonetic.pinyin}</span>}
+                    <span className="text-slate-500"> vs {d.pinyin}: {PHONETIC_TEXT[d.phonetic.match]}</span>
+                  </p>
+                )}
+                {d.hint && (
+                  <p><span className="font-semibold text-slate-700">Memory hint:</span> {d.hint}</p>
+                )}
+              </div>
+
+              {shared.length > 0 && (
+                <div className="text-sm">
+                  <p className="font-semibold text-slate-700 mb-1">In your other words:</p>
+                  <div className="space-y-1">
+                    {shared.slice(0, 4).map(s => (
+                      <p key={s.component} className="text-slate-600">
+                        <span className="chinese-text text-base">{s.component}</span>
+                        <span className="text-slate-400"> → </span>
+                        {s.characters.slice(0, 8).map(ch => (
+                          <span key={ch} className="inline-block mr-1 px-1.5 py-0.5 bg-white border border-slate-200 rounded chinese-text">{ch}</span>
+                        ))}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,256 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Loader2, Plus, Trash2, Users, Save, AlertCircle, CheckCircle2, Pencil } from 'lucide-react';
+import { getStudents, getClasses, createClass, renameClass, deleteClass, setClassStudents } from '@/lib/services/storage';
+import { ClassGroup, Student } from '@/types';
+
+interface Props {
+  onBack: () => void;
+}
+
+export const ClassManagement: React.FC<Props> = ({ onBack }) => {
+  const [students, setStudents] = useState<Student[]>([]);
+  const [classes, setClasses] = useState<ClassGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newClassName, setNewClassName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [selectedClassId, setSelectedClassId] = useState<string | null>(null);
+  // Unsaved enrolment edits for the selected class
+  const [draftStudentIds, setDraftStudentIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchData = async () => {
+      setLoading(true);
+      const [allStudents, allClasses] = await Promise.all([getStudents(), getClasses()]);
+      setStudents(allStudents);
+      setClasses(allClasses);
+      if (allClasses.length > 0) {
+        setSelectedClassId(allClasses[0].id);
+        setDraftStudentIds(allClasses[0].studentIds);
+      }
+      setLoading(false);
+    };
+    fetchData();
+  }, []);
+
+  const selectedClass = classes.find(c => c.id === selectedClassId) || null;
+  const isDirty = !!selectedClass && (
+    draftStudentIds.length !== selectedClass.studentIds.length ||
+    draftStudentIds.some(id => !selectedClass.studentIds.includes(id))
+  );
+
+  const handleSelectClass = (group: ClassGroup) => {
+    if (isDirty && !confirm('Discard unsaved changes to this class?')) return;
+    setSelectedClassId(group.id);
+    setDraftStudentIds(group.studentIds);
+    setSaved(false);
+    setError('');
+  };
+
+  const handleCreateClass = async () => {
+    const name = newClassName.trim();
+    if (!name) return;
+
+    setCreating(true);
+    setError('');
+    const created = await createClass(name);
+    if (created) {
+      setClasses(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedClassId(created.id);
+      setDraftStudentIds([]);
+      setNewClassName('');
+    } else {
+      setError('Failed to create class. Check your connection and try again.');
+    }
+    setCreating(false);
+  };
+
+  const handleRenameClass = async (group: ClassGroup) => {
+    const name = prompt('Rename class', group.name)?.trim();
+    if (!name || name === group.name) return;
+
+    try {
+      await renameClass(group.id, name);
+      setClasses(prev => prev.map(c => c.id === group.id ? { ...c, name } : c));
+    } catch (e: any) {
+      setError(e?.message || 'Failed to rename class.');
+    }
+  };
+
+  const handleDeleteClass = async (group: ClassGroup) => {
+    if (!confirm(`Delete "${group.name}"? Lessons already assigned to its students are kept.`)) return;
+
+    try {
+      await deleteClass(group.id);
+      const remaining = classes.filter(c => c.id !== group.id);
+      setClasses(remaining);
+      if (selectedClassId === group.id) {
+        setSelectedClassId(remaining[0]?.id || null);
+        setDraftStudentIds(remaining[0]?.studentIds || []);
+      }
+    } catch (e: any) {
+      setError(e?.message || 'Failed to delete class.');
+    }
+  };
+
+  const toggleStudent = (studentId: string) => {
+    setSaved(false);
+    setDraftStudentIds(prev =>
+      prev.includes(studentId) ? prev.filter(id => id !== studentId) : [...prev, studentId]
+    );
+  };
+
+  const handleSaveEnrolments = async () => {
+    if (!selectedClass) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      await setClassStudents(selectedClass.id, draftStudentIds);
+      setClasses(prev => prev.map(c => c.id === selectedClass.id ? { ...c, studentIds: draftStudentIds } : c));
+      setSaved(true);
+    } catch (e: any) {
+      setError(e?.message || 'Failed to update class.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-5xl mx-auto p-4 sm:p-6 pb-12">
+      <button
+        onClick={onBack}
+        className="mb-6 flex items-center gap-2 text-slate-500 hover:text-slate-700 transition-colors touch-manipulation py-2"
+      >
+        <ArrowLeft size={20} /> <span className="text-base sm:text-lg">Back to Dashboard</span>
+      </button>
+
+      <div className="mb-8">
+        <h1 className="text-2xl sm:text-3xl font-bold text-slate-900 mb-2">Classes</h1>
+        <p className="text-sm sm:text-base text-slate-500">
+          Group your students into classes to assign a lesson to everyone at once and compare results.
+        </p>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 mb-4 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+          <AlertCircle size={16} /> {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center gap-2 text-slate-500 p-12">
+          <Loader2 size={20} className="animate-spin" /> Loading classes...
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {/* Class List */}
+          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-4 h-fit">
+            <div className="flex gap-2 mb-4">
+              <input
+                type="text"
+                value={newClassName}
+                onChange={(e) => setNewClassName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreateClass()}
+                placeholder="New class name"
+                className="flex-1 min-w-0 px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+              />
+              <button
+                onClick={handleCreateClass}
+                disabled={creating || !newClassName.trim()}
+                className="p-2 rounded-lg bg-brand-600 text-white hover:bg-brand-700 disabled:opacity-50"
+                title="Create class"
+              >
+                {creating ? <Loader2 size={18} className="animate-spin" /> : <Plus size={18} />}
+              </button>
+            </div>
+
+            {classes.length === 0 ? (
+              <p className="text-sm text-slate-400 italic text-center py-6">No classes yet.</p>
+            ) : (
+              <div className="space-y-1">
+                {classes.map(group => (
+                  <div
+                    key={group.id}
+                    onClick={() => handleSelectClass(group)}
+                    className={`flex items-center justify-between gap-2 px-3 py-2 rounded-lg cursor-pointer transition-colors group ${
+                      selectedClassId === group.id ? 'bg-brand-50 text-brand-700' : 'hover:bg-slate-50 text-slate-700'
+                    }`}
+                  >
+                    <div className="min-w-0">
+                      <p className="font-semibold truncate">{group.name}</p>
+                      <p className="text-xs text-slate-400">{group.studentIds.length} students</p>
+                    </div>
+                    <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleRenameClass(group); }}
+                        className="p-1.5 rounded text-slate-400 hover:text-brand-600 hover:bg-white"
+                        title="Rename"
+                      >
+                        <Pencil size={14} />
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleDeleteClass(group); }}
+                        className="p-1.5 rounded text-slate-400 hover:text-red-600 hover:bg-white"
+                        title="Delete"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Enrolments */}
+          <div className="md:col-span-2 bg-white rounded-2xl shadow-sm border border-slate-200">
+            {!selectedClass ? (
+              <div className="text-center p-12">
+                <Users className="mx-auto h-12 w-12 text-slate-300 mb-3" />
+                <p className="text-slate-500 font-medium">Create a class to start enrolling students.</p>
+              </div>
+            ) : (
+              <>
+                <div className="p-4 sm:p-5 border-b border-slate-100 flex items-center justify-between gap-3">
+                  <div>
+                    <h2 className="text-lg font-bold text-slate-800">{selectedClass.name}</h2>
+                    <p className="text-xs text-slate-400">{draftStudentIds.length} of {students.length} students enrolled</p>
+                  </div>
+                  <button
+                    onClick={handleSaveEnrolments}
+                    disabled={saving || !isDirty}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg bg-brand-600 text-white text-sm font-medium hover:bg-brand-700 disabled:opacity-50"
+                  >
+                    {saving ? <Loader2 size={16} className="animate-spin" /> : saved && !isDirty ? <CheckCircle2 size={16} /> : <Save size={16} />}
+                    {saved && !isDirty ? 'Saved' : 'Save'}
+                  </button>
+                </div>
+
+                {students.length === 0 ? (
+                  <p className="p-8 text-center text-sm text-slate-400">No students yet. Create a student from Plan Lessons first.</p>
+                ) : (
+                  <div className="divide-y divide-slate-100">
+                    {students.map(student => (
+                      <label key={student.id} className="flex items-center gap-3 px-4 sm:px-5 py-3 cursor-pointer hover:bg-slate-50">
+                        <input
+                          type="checkbox"
+                          checked={draftStudentIds.includes(student.id)}
+                          onChange={() => toggleStudent(student.id)}
+                          className="w-4 h-4 accent-brand-600"
+                        />
+                        <span className="font-medium text-slate-700">{student.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,476 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ArrowLeft, Loader2, Plus, Trash2, Save, AlertCircle, CheckCircle2, ChevronUp, ChevronDown,
+  Download, Upload, RotateCcw, BookOpen, X,
+} from 'lucide-react';
+import { getCurriculum, saveCurriculum, resetCurriculum } from '@/lib/services/storage';
+import { createCurriculumId, exportCurriculum, getNextStageId, moveItem, parseCurriculumImport } from '@/lib/curriculum';
+import { SPEC_CATEGORIES, getSpecItem, getSpecification, sortSpecRefs } from '@/lib/specification';
+import { SPECIFICATIONS } from '@/data/specifications';
+import { Curriculum, LearningPoint, Specification, Stage, Topic } from '@/types';
+
+interface Props {
+  onBack: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-brand-500 outline-none';
+
+// Up/down reorder buttons shared by stages, topics and points
+const MoveButtons: React.FC<{ index: number; count: number; onMove: (offset: number) => void }> = ({ index, count, onMove }) => (
+  <div className="flex flex-col">
+    <button
+      onClick={(e) => { e.stopPropagation(); onMove(-1); }}
+      disabled={index === 0}
+      className="p-0.5 rounded text-slate-400 hover:text-brand-600 disabled:opacity-30"
+      title="Move up"
+    >
+      <ChevronUp size={14} />
+    </button>
+    <button
+      onClick={(e) => { e.stopPropagation(); onMove(1); }}
+      disabled={index === count - 1}
+      className="p-0.5 rounded text-slate-400 hover:text-brand-600 disabled:opacity-30"
+      title="Move down"
+    >
+      <ChevronDown size={14} />
+    </button>
+  </div>
+);
+
+// Spec reference chips for a learning point, with a picker grouped by category
+const SpecRefsEditor: React.FC<{ spec: Specification; refs: string[]; onChange: (refs: string[]) => void }> = ({ spec, refs, onChange }) => (
+  <div className="flex flex-wrap items-center gap-1 mt-1">
+    {refs.map(ref => (
+      <span
+        key={ref}
+        title={getSpecItem(spec, ref)?.title || 'Not in this specification'}
+        className="inline-flex items-center gap-1 text-[10px] font-bold px-1.5 py-0.5 rounded bg-purple-50 text-purple-700 border border-purple-100"
+      >
+        {ref}
+        <button onClick={() => onChange(refs.filter(r => r !== ref))} className="hover:text-red-600" title="Remove">
+          <X size={10} />
+        </button>
+      </span>
+    ))}
+    <select
+      value=""
+      onChange={(e) => e.target.value && onChange(sortSpecRefs(spec, [...refs, e.target.value]))}
+      className="text-[10px] text-slate-500 bg-transparent border border-dashed border-slate-200 rounded px-1 py-0.5 outline-none"
+    >
+      <option value="">+ Spec</option>
+      {SPEC_CATEGORIES.map(({ category, label }) => (
+        <optgroup key={category} label={label}>
+          {spec.items.filter(item => item.category === category && !refs.includes(item.id)).map(item => (
+            <option key={item.id} value={item.id}>{item.id} {item.title}</option>
+          ))}
+        </optgroup>
+      ))}
+    </select>
+  </div>
+);
+
+export const CurriculumManager: React.FC<Props> = ({ onBack }) => {
+  const [saved, setSaved] = useState<Curriculum | null>(null);
+  // Unsaved edits; saved to the store as a whole
+  const [draft, setDraft] = useState<Curriculum | null>(null);
+  const [selectedStageId, setSelectedStageId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [justSaved, setJustSaved] = useState(false);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const load = (curriculum: Curriculum) => {
+    setSaved(curriculum);
+    setDraft(curriculum);
+    setSelectedStageId(curriculum.stages[0]?.id ?? null);
+  };
+
+  useEffect(() => {
+    const fetchCurriculum = async () => {
+      setLoading(true);
+      load(await getCurriculum());
+      setLoading(false);
+    };
+    fetchCurriculum();
+  }, []);
+
+  const isDirty = !!draft && !!saved && JSON.stringify(draft) !== JSON.stringify(saved);
+  const selectedStage = draft?.stages.find(s => s.id === selectedStageId) || null;
+  const spec = getSpecification(draft?.specificationId);
+
+  const updateDraft = (update: (curriculum: Curriculum) => Curriculum) => {
+    setJustSaved(false);
+    setDraft(prev => (prev ? update(prev) : prev));
+  };
+
+  const updateStages = (update: (stages: Stage[]) => Stage[]) =>
+    updateDraft(c => ({ ...c, stages: update(c.stages) }));
+
+  const updateStage = (stageId: number, update: (stage: Stage) => Stage) =>
+    updateStages(stages => stages.map(s => (s.id === stageId ? update(s) : s)));
+
+  const updateTopic = (stageId: number, topicId: string, update: (topic: Topic) => Topic) =>
+    updateStage(stageId, s => ({ ...s, topics: s.topics.map(t => (t.id === topicId ? update(t) : t)) }));
+
+  const updatePoint = (stageId: number, topicId: string, pointId: string, update: (point: LearningPoint) => LearningPoint) =>
+    updateTopic(stageId, topicId, t => ({ ...t, points: t.points.map(p => (p.id === pointId ? update(p) : p)) }));
+
+  // --- STAGES ---
+
+  const handleAddStage = () => {
+    if (!draft) return;
+    const id = getNextStageId(draft.stages);
+    updateStages(stages => [...stages, { id, title: `Stage ${id}`, duration: '', goal: '', topics: [] }]);
+    setSelectedStageId(id);
+  };
+
+  const handleDeleteStage = (stage: Stage) => {
+    if (!confirm(`Delete "${stage.title}" and all its topics? Banked lessons for its points will no longer appear in the curriculum.`)) return;
+    const remaining = draft?.stages.filter(s => s.id !== stage.id) || [];
+    updateStages(() => remaining);
+    if (selectedStageId === stage.id) setSelectedStageId(remaining[0]?.id ?? null);
+  };
+
+  // --- TOPICS & POINTS ---
+
+  const handleAddTopic = (stage: Stage) => {
+    const title = prompt('Topic title')?.trim();
+    if (!title || !draft) return;
+    const id = createCurriculumId(draft.stages, stage.id, title);
+    updateStage(stage.id, s => ({ ...s, topics: [...s.topics, { id, title, points: [] }] }));
+  };
+
+  const handleDeleteTopic = (stage: Stage, topic: Topic) => {
+    if (!confirm(`Delete "${topic.title}" and its ${topic.points.length} learning points?`)) return;
+    updateStage(stage.id, s => ({ ...s, topics: s.topics.filter(t => t.id !== topic.id) }));
+  };
+
+  const handleAddPoint = (stage: Stage, topic: Topic) => {
+    const description = prompt('Learning point')?.trim();
+    if (!description || !draft) return;
+    const id = createCurriculumId(draft.stages, stage.id, description);
+    updateTopic(stage.id, topic.id, t => ({ ...t, points: [...t.points, { id, description }] }));
+  };
+
+  // --- SAVE / RESET / IMPORT / EXPORT ---
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (draft.stages.length === 0) {
+      setError('The curriculum needs at least one stage.');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      const result = await saveCurriculum(draft);
+      setSaved(result);
+      setDraft(result);
+      setJustSaved(true);
+    } catch (e: any) {
+      setError(e?.message || 'Failed to save the curriculum.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!confirm('Replace your curriculum with the built-in one? Your changes will be lost.')) return;
+    try {
+      load(await resetCurriculum());
+      setError('');
+      setJustSaved(false);
+    } catch (e: any) {
+      setError(e?.message || 'Failed to reset the curriculum.');
+    }
+  };
+
+  const handleExport = () => {
+    if (!draft) return;
+    const blob = new Blob([exportCurriculum(draft)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${draft.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'curriculum'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let imported: ReturnType<typeof parseCurriculumImport> = null;
+    try {
+      imported = parseCurriculumImport(JSON.parse(await file.text()));
+    } catch {
+      imported = null;
+    }
+    if (!imported) {
+      setError('That file is not a curriculum export.');
+      return;
+    }
+    if (!confirm(`Replace the current curriculum with "${imported.name}" (${imported.stages.length} stages)? Nothing is saved until you press Save.`)) return;
+
+    const { name, specificationId, stages } = imported;
+    setError('');
+    updateDraft(c => ({ ...c, name, specificationId: specificationId ?? c.specificationId, stages }));
+    setSelectedStageId(stages[0].id);
+  };
+
+  return (
+    <div className="w-full max-w-5xl mx-auto p-4 sm:p-6 pb-12">
+      <button
+        onClick={() => (!isDirty || confirm('Discard unsaved changes to the curriculum?')) && onBack()}
+        className="mb-6 flex items-center gap-2 text-slate-500 hover:text-slate-700 transition-colors touch-manipulation py-2"
+      >
+        <ArrowLeft size={20} /> <span className="text-base sm:text-lg">Back to Dashboard</span>
+      </button>
+
+      <div className="mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-slate-900 mb-2">Curriculum</h1>
+          <p className="text-sm sm:text-base text-slate-500">
+            Edit the stages, topics and learning points you plan lessons from.
+          </p>
+        </div>
+        {draft && (
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleExport}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-200 text-sm font-medium text-slate-600 hover:bg-slate-50"
+            >
+              <Download size={16} /> Export
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-200 text-sm font-medium text-slate-600 hover:bg-slate-50"
+            >
+              <Upload size={16} /> Import
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+            <button
+              onClick={handleReset}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-200 text-sm font-medium text-slate-600 hover:bg-slate-50"
+            >
+              <RotateCcw size={16} /> Reset
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || !isDirty}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-brand-600 text-white text-sm font-medium hover:bg-brand-700 disabled:opacity-50"
+            >
+              {saving ? <Loader2 size={16} className="animate-spin" /> : justSaved && !isDirty ? <CheckCircle2 size={16} /> : <Save size={16} />}
+              {justSaved && !isDirty ? 'Saved' : 'Save'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 mb-4 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+          <AlertCircle size={16} /> {error}
+        </div>
+      )}
+
+      {loading || !draft ? (
+        <div className="flex items-center justify-center gap-2 text-slate-500 p-12">
+          <Loader2 size={20} className="animate-spin" /> Loading curriculum...
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {/* Stage List */}
+          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-4 h-fit space-y-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => updateDraft(c => ({ ...c, name: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Specification</label>
+              <select
+                value={draft.specificationId || ''}
+                onChange={(e) => updateDraft(c => ({ ...c, specificationId: e.target.value || undefined }))}
+                className={inputClass}
+              >
+                <option value="">None</option>
+                {SPECIFICATIONS.map(s => (
+                  <option key={s.id} value={s.id}>{s.board} {s.title}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-1">
+              {draft.stages.map((stage, idx) => (
+                <div
+                  key={stage.id}
+                  onClick={() => setSelectedStageId(stage.id)}
+                  className={`flex items-center gap-2 px-2 py-2 rounded-lg cursor-pointer transition-colors group ${
+                    selectedStageId === stage.id ? 'bg-brand-50 text-brand-700' : 'hover:bg-slate-50 text-slate-700'
+                  }`}
+                >
+                  <MoveButtons
+                    index={idx}
+                    count={draft.stages.length}
+                    onMove={(offset) => updateStages(stages => moveItem(stages, idx, offset))}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <p className="font-semibold truncate">{stage.title || 'Untitled stage'}</p>
+                    <p className="text-xs text-slate-400">{stage.topics.length} topics</p>
+                  </div>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); handleDeleteStage(stage); }}
+                    className="p-1.5 rounded text-slate-400 hover:text-red-600 hover:bg-white opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Delete stage"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <button
+              onClick={handleAddStage}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg border-2 border-dashed border-slate-200 text-sm font-medium text-slate-500 hover:border-brand-300 hover:text-brand-600"
+            >
+              <Plus size={16} /> Add Stage
+            </button>
+          </div>
+
+          {/* Stage Editor */}
+          <div className="md:col-span-2 bg-white rounded-2xl shadow-sm border border-slate-200">
+            {!selectedStage ? (
+              <div className="text-center p-12">
+                <BookOpen className="mx-auto h-12 w-12 text-slate-300 mb-3" />
+                <p className="text-slate-500 font-medium">Add a stage to start building the curriculum.</p>
+              </div>
+            ) : (
+              <>
+                <div className="p-4 sm:p-5 border-b border-slate-100 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div className="sm:col-span-2">
+                    <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Stage {selectedStage.id} Title</label>
+                    <input
+                      type="text"
+                      value={selectedStage.title}
+                      onChange={(e) => updateStage(selectedStage.id, s => ({ ...s, title: e.target.value }))}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Duration</label>
+                    <input
+                      type="text"
+                      value={selectedStage.duration}
+                      onChange={(e) => updateStage(selectedStage.id, s => ({ ...s, duration: e.target.value }))}
+                      placeholder="e.g. Weeks 1-6"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Goal</label>
+                    <input
+                      type="text"
+                      value={selectedStage.goal}
+                      onChange={(e) => updateStage(selectedStage.id, s => ({ ...s, goal: e.target.value }))}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+
+                <div className="p-4 sm:p-5 space-y-4">
+                  {selectedStage.topics.length === 0 && (
+                    <p className="text-sm text-slate-400 italic text-center py-4">No topics in this stage yet.</p>
+                  )}
+
+                  {selectedStage.topics.map((topic, topicIdx) => (
+                    <div key={topic.id} className="border border-slate-200 rounded-xl">
+                      <div className="flex items-center gap-2 p-3 bg-slate-50 rounded-t-xl">
+                        <MoveButtons
+                          index={topicIdx}
+                          count={selectedStage.topics.length}
+                          onMove={(offset) => updateStage(selectedStage.id, s => ({ ...s, topics: moveItem(s.topics, topicIdx, offset) }))}
+                        />
+                        <div className="flex-1 min-w-0">
+                          <input
+                            type="text"
+                            value={topic.title}
+                            onChange={(e) => updateTopic(selectedStage.id, topic.id, t => ({ ...t, title: e.target.value }))}
+                            className={`${inputClass} font-semibold bg-white`}
+                          />
+                          <p className="text-[10px] font-mono text-slate-400 mt-1">{topic.id}</p>
+                        </div>
+                        <button
+                          onClick={() => handleDeleteTopic(selectedStage, topic)}
+                          className="p-1.5 rounded text-slate-400 hover:text-red-600 hover:bg-white"
+                          title="Delete topic"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+
+                      <div className="p-3 space-y-2">
+                        {topic.points.map((point, pointIdx) => (
+                          <div key={point.id} className="flex items-center gap-2">
+                            <MoveButtons
+                              index={pointIdx}
+                              count={topic.points.length}
+                              onMove={(offset) => updateTopic(selectedStage.id, topic.id, t => ({ ...t, points: moveItem(t.points, pointIdx, offset) }))}
+                            />
+                            <div className="flex-1 min-w-0">
+                              <input
+                                type="text"
+                                value={point.description}
+                                onChange={(e) => updatePoint(selectedStage.id, topic.id, point.id, p => ({ ...p, description: e.target.value }))}
+                                className={inputClass}
+                              />
+                              <p className="text-[10px] font-mono text-slate-400 mt-0.5">{point.id}</p>
+                              {spec && (
+                                <SpecRefsEditor
+                                  spec={spec}
+                                  refs={point.specRefs || []}
+                                  onChange={(specRefs) => updatePoint(selectedStage.id, topic.id, point.id, p => ({ ...p, specRefs }))}
+                                />
+                              )}
+                            </div>
+                            <button
+                              onClick={() => updateTopic(selectedStage.id, topic.id, t => ({ ...t, points: t.points.filter(p => p.id !== point.id) }))}
+                              className="p-1.5 rounded text-slate-400 hover:text-red-600 hover:bg-slate-50"
+                              title="Delete learning point"
+                            >
+                              <Trash2 size={14} />
+                            </button>
+                          </div>
+                        ))}
+                        <button
+                          onClick={() => handleAddPoint(selectedStage, topic)}
+                          className="flex items-center gap-1 text-sm font-medium text-brand-600 hover:text-brand-700 py-1"
+                        >
+                          <Plus size={14} /> Add learning point
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+
+                  <button
+                    onClick={() => handleAddTopic(selectedStage)}
+                    className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg border-2 border-dashed border-slate-200 text-sm font-medium text-slate-500 hover:border-brand-300 hover:text-brand-600"
+                  >
+                    <Plus size={16} /> Add Topic
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
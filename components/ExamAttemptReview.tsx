@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { ExamAttempt, RubricMark } from '@/types';
+import { formatAnswer, getModelAnswer } from '@/lib/exercises';
+import { formatGrade, getAwardedMarks, getPaperLabel, getTierLabel, summariseMarks } from '@/lib/exams';
+import { getRubric, getRubricTotal } from '@/lib/rubrics';
+import { RubricMarksPanel } from './RubricMarksPanel';
+import { ToneFeedback } from './ToneFeedback';
+import { Clock, Edit2, Headphones, Loader2, Save } from 'lucide-react';
+
+interface Props {
+  attempt: ExamAttempt;
+  editable?: boolean; // Tutors can adjust marks and comment
+  onSave?: (attempt: ExamAttempt) => Promise<void>;
+}
+
+// Marked exam paper: grade summary, then each question with the answer given and marks awarded
+export const ExamAttemptReview: React.FC<Props> = ({ attempt, editable, onSave }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedMarks, setEditedMarks] = useState<number[]>([]);
+  const [editedRubricMarks, setEditedRubricMarks] = useState<(RubricMark[] | null)[]>([]);
+  const [editedComment, setEditedComment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const startEditing = () => {
+    setEditedMarks([...getAwardedMarks(attempt)]);
+    setEditedRubricMarks([...(attempt.rubricMarks || attempt.questions.map(() => null))]);
+    setEditedComment(attempt.tutorComment || '');
+    setIsEditing(true);
+  };
+
+  const marks = isEditing ? editedMarks : getAwardedMarks(attempt);
+  const rubricMarks = isEditing ? editedRubricMarks : attempt.rubricMarks || [];
+  const summary = summariseMarks(attempt.tier, attempt.questions, marks);
+
+  const setMark = (idx: number, value: number) => {
+    const next = [...editedMarks];
+    next[idx] = Math.max(0, Math.min(attempt.questions[idx].marks, value));
+    setEditedMarks(next);
+  };
+
+  const handleSave = async () => {
+    if (!onSave) return;
+    setSaving(true);
+    try {
+      await onSave({
+        ...attempt,
+        tutorAdjustedMarks: editedMarks,
+        rubricMarks: editedRubricMarks,
+        tutorComment: editedComment,
+        rawMark: summary.rawMark,
+        maxMark: summary.maxMark,
+        grade: summary.grade,
+      });
+      setIsEditing(false);
+    } catch (error) {
+      console.error('Failed to save exam review:', error);
+      alert('Failed to save marks. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-6 rounded-2xl border border-slate-200 flex flex-col sm:flex-row sm:items-center gap-6">
+        <div className="w-24 h-24 rounded-2xl bg-brand-600 text-white flex flex-col items-center justify-center flex-shrink-0">
+          <span className="text-xs font-bold uppercase opacity-75">Grade</span>
+          <span className="text-4xl font-bold">{formatGrade(summary.grade)}</span>
+        </div>
+        <div className="flex-1">
+          <h3 className="text-xl font-bold text-slate-800">
+            {getPaperLabel(attempt.paper)} · {getTierLabel(attempt.tier)}
+          </h3>
+          <p className="text-slate-600 mt-1">
+            {summary.rawMark} / {summary.maxMark} marks ({summary.percentage}%)
+          </p>
+          <p className="text-xs text-slate-400 mt-1 flex items-center gap-1">
+            <Clock size={12} />
+            {new Date(attempt.submittedAt || attempt.startedAt).toLocaleString()}
+            {attempt.timedOut && ' · submitted when time ran out'}
+            {attempt.tutorAdjustedMarks && ' · reviewed by tutor'}
+          </p>
+        </div>
+        {editable && !isEditing && (
+          <button
+            onClick={startEditing}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center gap-2 self-start"
+          >
+            <Edit2 size={16} /> Adjust Marks
+          </button>
+        )}
+      </div>
+
+      {attempt.questions.map((q, idx) => {
+        const ex = q.exercise;
+        const awarded = marks[idx] ?? 0;
+        const rubric = getRubric(ex.rubricId);
+        const questionRubricMarks = rubricMarks[idx];
+        const tone = attempt.toneAssessments?.[idx];
+        const feedback = attempt.questionFeedback?.[idx];
+        const ratio = q.marks > 0 ? awarded / q.marks : 0;
+        const border = ratio === 1 ? 'border-green-300' : ratio >= 0.5 ? 'border-yellow-300' : 'border-red-300';
+
+        return (
+          <div key={idx} className={`bg-white p-5 rounded-xl border-2 ${border} space-y-3`}>
+            <div className="flex justify-between items-start gap-3">
+              <div className="flex items-start gap-3 flex-1">
+                <span className="mt-0.5 w-6 h-6 rounded-full bg-slate-700 text-white flex items-center justify-center text-xs font-bold flex-shrink-0">
+                  {idx + 1}
+                </span>
+                <div>
+                  <h4 className="font-bold text-slate-800 chinese-text">{ex.question}</h4>
+                  {ex.questionTranslation && <p className="text-sm text-slate-500">{ex.questionTranslation}</p>}
+                </div>
+              </div>
+              {isEditing && !rubric ? (
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <input
+                    type="number"
+                    min="0"
+                    max={q.marks}
+                    value={awarded}
+                    onChange={(e) => setMark(idx, parseInt(e.target.value) || 0)}
+                    className="w-16 px-2 py-1 border border-slate-300 rounded text-center font-bold"
+                  />
+                  <span className="text-slate-500 text-sm">/ {q.marks}</span>
+                </div>
+              ) : (
+                <span className="font-bold text-slate-700 flex-shrink-0">{awarded} / {q.marks}</span>
+              )}
+            </div>
+
+            <div className="ml-9 space-y-3">
+              {q.audioScript && (
+                <div className="p-3 rounded-lg bg-indigo-50 border border-indigo-100">
+                  <p className="text-xs font-bold text-indigo-600 uppercase tracking-wider mb-1 flex items-center gap-1">
+                    <Headphones size={12} /> Transcript
+                  </p>
+                  <p className="text-slate-800 chinese-text">{q.audioScript}</p>
+                </div>
+              )}
+              {ex.passage && (
+                <div className="p-3 rounded-lg bg-slate-50 border border-slate-200">
+                  <p className="text-slate-800 chinese-text">{ex.passage}</p>
+                  {ex.pinyin && attempt.paper === 'speaking' && <p className="text-sm text-slate-500 mt-1">{ex.pinyin}</p>}
+                </div>
+              )}
+
+              {attempt.paper === 'speaking' ? (
+                tone ? <ToneFeedback assessment={tone} /> : <p className="text-sm text-slate-400 italic">No recording</p>
+              ) : (
+                <div className="p-3 rounded-lg bg-slate-100">
+                  <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Answer Given</p>
+                  <p className="font-medium text-slate-800 chinese-text">{formatAnswer(ex, attempt.answers[idx]) || '(No answer)'}</p>
+                </div>
+              )}
+              {feedback && <p className="text-sm text-slate-600">{feedback}</p>}
+              {ex.answer && attempt.paper !== 'speaking' && (
+                <div className="p-3 rounded-lg bg-green-50 border border-green-100">
+                  <p className="text-xs font-bold text-green-700 uppercase tracking-wider mb-1">{rubric ? 'Model Answer' : 'Correct Answer'}</p>
+                  <p className="font-medium text-slate-800 chinese-text">{getModelAnswer(ex, attempt.answers[idx])}</p>
+                </div>
+              )}
+              {rubric && questionRubricMarks && (
+                <RubricMarksPanel
+                  rubric={rubric}
+                  marks={questionRubricMarks}
+                  suggested={!attempt.tutorAdjustedMarks}
+                  editable={isEditing}
+                  onChange={(next) => {
+                    const nextRubricMarks = [...editedRubricMarks];
+                    nextRubricMarks[idx] = next;
+                    setEditedRubricMarks(nextRubricMarks);
+                    setMark(idx, getRubricTotal(rubric, next));
+                  }}
+                />
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {isEditing ? (
+        <div className="bg-blue-50 border-2 border-blue-200 p-5 rounded-xl space-y-3">
+          <p className="text-xs font-bold text-blue-700 uppercase tracking-wider">Comment</p>
+          <textarea
+            value={editedComment}
+            onChange={(e) => setEditedComment(e.target.value)}
+            placeholder="Add a comment on this paper..."
+            className="w-full p-3 border border-blue-300 rounded text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            rows={3}
+          />
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={() => setIsEditing(false)}
+              disabled={saving}
+              className="px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-100 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center gap-2 disabled:opacity-50"
+            >
+              {saving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+              Save Marks
+            </button>
+          </div>
+        </div>
+      ) : attempt.tutorComment && (
+        <div className="p-4 rounded-xl bg-blue-50 border border-blue-200">
+          <p className="text-xs font-bold text-blue-700 uppercase tracking-wider mb-1">Tutor Comment</p>
+          <p className="text-sm text-blue-900">{attempt.tutorComment}</p>
+        </div>
+      )}
+    </div>
+  );
+};
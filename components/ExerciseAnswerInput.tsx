@@ -0,0 +1,189 @@
+import React, { useRef } from 'react';
+import { ChevronRight } from 'lucide-react';
+import { Exercise } from '@/types';
+import { TONE_OPTIONS, decodeListAnswer, encodeListAnswer, shuffleForDisplay } from '@/lib/exercises';
+import { PinyinKeyboard } from './PinyinKeyboard';
+
+interface Props {
+  exercise: Exercise;
+  answer: string;
+  onChange: (answer: string) => void;
+  seed: string; // Keeps shuffled segments and matching choices in a stable order
+  locked?: boolean;
+  feedback?: 'idle' | 'correct' | 'incorrect'; // Colours the chosen option once checked
+}
+
+// Answer input for every exercise type: options, tone picker, matching, reordering, pinyin or free text
+export const ExerciseAnswerInput: React.FC<Props> = ({ exercise, answer, onChange, seed, locked = false, feedback = 'idle' }) => {
+  const pinyinInputRef = useRef<HTMLInputElement>(null);
+  const hasOptions = !!exercise.options && exercise.options.length > 0;
+
+  // Reorder: segments not yet placed (handles repeated segments)
+  const placedSegments = exercise.type === 'reorder' ? decodeListAnswer(answer) : [];
+  const availableSegments = (() => {
+    const remaining = [...placedSegments];
+    return shuffleForDisplay((exercise.segments || []).map((seg, i) => ({ seg, i })), seed)
+      .filter(({ seg }) => {
+        const used = remaining.indexOf(seg);
+        if (used === -1) return true;
+        remaining.splice(used, 1);
+        return false;
+      });
+  })();
+
+  // Matching: shuffled right-hand choices, one selection per left item
+  const matchingChoices = shuffleForDisplay((exercise.pairs || []).map(p => p.right), seed);
+  const matchingSelections = exercise.type === 'matching' ? decodeListAnswer(answer) : [];
+
+  // Tone: one tone per syllable of the expected answer
+  const toneSlots = (exercise.answer || '').match(/[1-5]/g)?.length || 1;
+  const toneSelections = answer.split(' ');
+
+  return hasOptions ? (
+    <div className="space-y-3">
+      {exercise.options!.map((opt, idx) => (
+        <button
+          key={idx}
+          onClick={() => onChange(opt)}
+          disabled={locked}
+          className={`w-full text-left p-4 rounded-xl border-2 transition-all chinese-text ${
+            answer === opt
+              ? feedback === 'correct'
+                ? 'border-green-500 bg-green-50'
+                : feedback === 'incorrect'
+                ? 'border-red-500 bg-red-50'
+                : 'border-brand-500 bg-brand-50'
+              : 'border-slate-200 hover:border-brand-300 hover:bg-slate-50'
+          } ${locked ? 'cursor-not-allowed' : 'cursor-pointer'}`}
+        >
+          {opt}
+        </button>
+      ))}
+    </div>
+  ) : exercise.type === 'tone' ? (
+    <div className="space-y-3">
+      {Array.from({ length: toneSlots }).map((_, slot) => (
+        <div key={slot} className="flex flex-wrap items-center gap-2">
+          {toneSlots > 1 && (
+            <span className="w-20 text-xs font-bold text-slate-400 uppercase">Syllable {slot + 1}</span>
+          )}
+          {TONE_OPTIONS.map(tone => (
+            <button
+              key={tone.value}
+              onClick={() => {
+                const next = Array.from({ length: toneSlots }, (_, i) => toneSelections[i] || '');
+                next[slot] = tone.value;
+                onChange(next.join(' '));
+              }}
+              disabled={locked}
+              className={`px-4 py-2 rounded-lg border-2 text-sm font-medium transition-all ${
+                toneSelections[slot] === tone.value
+                  ? 'border-brand-500 bg-brand-50 text-brand-700'
+                  : 'border-slate-200 text-slate-600 hover:border-brand-300'
+              } disabled:cursor-not-allowed`}
+            >
+              {tone.label}
+            </button>
+          ))}
+        </div>
+      ))}
+    </div>
+  ) : exercise.type === 'matching' ? (
+    <div className="space-y-3">
+      {(exercise.pairs || []).map((pair, idx) => (
+        <div key={idx} className="flex items-center gap-3">
+          <span className="w-1/3 p-3 bg-slate-50 rounded-xl border border-slate-200 text-slate-800 font-medium chinese-text">{pair.left}</span>
+          <ChevronRight size={16} className="text-slate-300 flex-shrink-0" />
+          <select
+            value={matchingSelections[idx] || ''}
+            onChange={(e) => {
+              const next = (exercise.pairs || []).map((_, i) => matchingSelections[i] || '');
+              next[idx] = e.target.value;
+              onChange(encodeListAnswer(next));
+            }}
+            disabled={locked}
+            className={`flex-1 p-3 rounded-xl border-2 outline-none bg-white disabled:cursor-not-allowed ${
+              locked
+                ? matchingSelections[idx] === pair.right ? 'border-green-500 bg-green-50' : 'border-red-500 bg-red-50'
+                : 'border-slate-200 focus:border-brand-500'
+            }`}
+          >
+            <option value="">Choose...</option>
+            {matchingChoices.map(choice => (
+              <option key={choice} value={choice}>{choice}</option>
+            ))}
+          </select>
+        </div>
+      ))}
+    </div>
+  ) : exercise.type === 'reorder' ? (
+    <div className="space-y-4">
+      <div className="min-h-[64px] p-3 rounded-xl border-2 border-dashed border-slate-300 flex flex-wrap gap-2 items-center">
+        {placedSegments.length === 0 && (
+          <span className="text-sm text-slate-400">Tap the words below in the correct order</span>
+        )}
+        {placedSegments.map((seg, idx) => (
+          <button
+            key={idx}
+            onClick={() => {
+              const next = [...placedSegments];
+              next.splice(idx, 1);
+              onChange(next.length > 0 ? encodeListAnswer(next) : '');
+            }}
+            disabled={locked}
+            className="px-3 py-2 rounded-lg bg-brand-50 border border-brand-200 text-brand-700 chinese-text text-lg disabled:cursor-not-allowed"
+          >
+            {seg}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {availableSegments.map(({ seg, i }) => (
+          <button
+            key={i}
+            onClick={() => onChange(encodeListAnswer([...placedSegments, seg]))}
+            disabled={locked}
+            className="px-3 py-2 rounded-lg bg-white border-2 border-slate-200 hover:border-brand-300 text-slate-700 chinese-text text-lg disabled:cursor-not-allowed"
+          >
+            {seg}
+          </button>
+        ))}
+      </div>
+    </div>
+  ) : exercise.type === 'pinyin-answer' ? (
+    <div className="space-y-3">
+      <input
+        ref={pinyinInputRef}
+        type="text"
+        value={answer}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={locked}
+        placeholder="Type the pinyin, e.g. nǐ hǎo or ni3 hao3..."
+        autoCapitalize="off"
+        autoCorrect="off"
+        spellCheck={false}
+        className="w-full p-4 rounded-xl border-2 border-slate-200 focus:border-brand-500 focus:ring-2 focus:ring-brand-200 outline-none text-lg disabled:opacity-50 disabled:cursor-not-allowed"
+      />
+      {!locked && <PinyinKeyboard value={answer} onChange={onChange} inputRef={pinyinInputRef} />}
+    </div>
+  ) : exercise.type === 'gap-fill' || exercise.type === 'pinyin-to-character' ? (
+    <input
+      type="text"
+      value={answer}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={locked}
+      placeholder={exercise.type === 'gap-fill' ? 'Type the missing word...' : 'Type the characters...'}
+      className="w-full p-4 rounded-xl border-2 border-slate-200 focus:border-brand-500 focus:ring-2 focus:ring-brand-200 outline-none text-lg chinese-text disabled:opacity-50 disabled:cursor-not-allowed"
+    />
+  ) : (
+    <div className="space-y-4">
+      <textarea
+        value={answer}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={locked}
+        placeholder="Type your answer here..."
+        className="w-full p-4 rounded-xl border-2 border-slate-200 focus:border-brand-500 focus:ring-2 focus:ring-brand-200 outline-none resize-none min-h-[120px] disabled:opacity-50 disabled:cursor-not-allowed"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { VocabProgress } from '@/types';
+import { Dictionary, loadDictionary } from '@/lib/dictionary';
+import { ReaderToken, segmentPassage, toSavedWord } from '@/lib/reader';
+import { getVocabProgress, saveVocabProgress } from '@/lib/services/storage';
+import { BookmarkPlus, Check, Loader2, X } from 'lucide-react';
+
+interface Props {
+  passage: string;
+  studentId?: string; // Saving to My Words needs a student
+  studentName?: string;
+  onListen?: (text: string) => void;
+}
+
+// A Chinese passage the student can read word by word: tap a word for its pinyin and
+// meaning, show pinyin above every word, and save new words to My Words
+export const GradedReader: React.FC<Props> = ({ passage, studentId, studentName, onListen }) => {
+  const [dictionary, setDictionary] = useState<Dictionary | null>(null);
+  const [dictionaryLoading, setDictionaryLoading] = useState(true);
+  const [showPinyin, setShowPinyin] = useState(false);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [progress, setProgress] = useState<Record<string, VocabProgress>>({});
+  const [saving, setSaving] = useState(false);
+
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let mounted = true;
+    setDictionaryLoading(true);
+    loadDictionary(passage).then(result => {
+      if (!mounted) return;
+      setDictionary(result);
+      setDictionaryLoading(false);
+    });
+    return () => { mounted = false; };
+  }, [passage, attempt]);
+
+  // Without the dictionary there are no words, pinyin or meanings; the passage is shown as plain text
+  const unavailable = !dictionaryLoading && !dictionary;
+
+  useEffect(() => {
+    if (!studentId) return;
+    let mounted = true;
+    getVocabProgress(studentId)
+      .then(all => mounted && setProgress(Object.fromEntries(all.map(p => [p.word, p]))))
+      .catch(error => console.warn('Could not load saved words:', error));
+    return () => { mounted = false; };
+  }, [studentId]);
+
+  const tokens = useMemo(() => segmentPassage(passage, dictionary), [passage, dictionary]);
+  useEffect(() => setSelected(null), [tokens]);
+
+  const token: ReaderToken | null = selected !== null ? tokens[selected] : null;
+  const saved = token ? !!progress[token.text]?.savedAt : false;
+
+  const handleSave = async () => {
+    if (!token || !studentId) return;
+    setSaving(true);
+    const word = toSavedWord(token, studentId, studentName || '', progress[token.text]);
+    setProgress(prev => ({ ...prev, [word.word]: word }));
+    try {
+      await saveVocabProgress(word);
+    } catch (error) {
+      console.error('Error saving word:', error);
+    }
+    setSaving(false);
+  };
+
+  return (
+    <div>
+      {unavailable ? (
+        <div className="flex items-center justify-between gap-3 mb-3 p-2 bg-amber-50 border border-amber-200 rounded-lg">
+          <p className="text-xs text-amber-700">The dictionary couldn't be loaded, so pinyin and word meanings aren't available.</p>
+          <button onClick={() => setAttempt(a => a + 1)} className="text-xs font-bold text-amber-800 hover:underline flex-shrink-0">
+            Try again
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between gap-3 mb-3">
+          <p className="text-xs text-slate-400">
+            {dictionaryLoading ? 'Loading dictionary...' : 'Tap a word for its meaning'}
+          </p>
+          <label className="flex items-center gap-2 text-xs font-medium text-slate-500 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={showPinyin}
+              onChange={(e) => setShowPinyin(e.target.checked)}
+              className="rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+            />
+            Show pinyin
+          </label>
+        </div>
+      )}
+
+      <p className={`text-lg text-slate-800 chinese-text ${showPinyin && dictionary ? 'leading-[2.6]' : 'leading-relaxed'}`}>
+        {tokens.map((t, i) => !t.isWord || !dictionary ? (
+          <span key={i}>{t.text}</span>
+        ) : (
+          <ruby
+            key={i}
+            onClick={() => setSelected(selected === i ? null : i)}
+            className={`cursor-pointer rounded px-px transition-colors ${
+              selected === i ? 'bg-brand-100 text-brand-800' : progress[t.text]?.savedAt ? 'underline decoration-dotted decoration-brand-400' : 'hover:bg-slate-200'
+            }`}
+          >
+            {t.text}
+            {showPinyin && <rt className="text-[11px] text-slate-500 font-normal">{t.pinyin || ''}</rt>}
+          </ruby>
+        ))}
+      </p>
+
+      {token && (
+        <div className="mt-3 p-3 bg-white rounded-lg border border-slate-200 shadow-sm flex items-start gap-3 animate-in fade-in duration-150">
+          <div className="flex-1 min-w-0">
+            <div className="flex items-baseline gap-2">
+              <button
+                onClick={() => onListen?.(token.text)}
+                disabled={!onListen}
+                className="text-2xl chinese-text text-slate-800 hover:text-brand-600 disabled:hover:text-slate-800"
+                title={onListen ? 'Listen' : undefined}
+              >
+                {token.text}
+              </button>
+              {token.pinyin && <span className="text-brand-600 font-medium">{token.pinyin}</span>}
+            </div>
+            <p className="text-sm text-slate-600">
+              {token.meaning || 'Not in the dictionary.'}
+            </p>
+          </div>
+          {studentId && (
+            <button
+              onClick={handleSave}
+              disabled={saved || saving}
+              className={`flex-shrink-0 px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1.5 transition-colors ${
+                saved ? 'bg-green-50 text-green-700' : 'bg-brand-600 text-white hover:bg-brand-700 disabled:opacity-50'
+              }`}
+            >
+              {saving ? <Loader2 size={14} className="animate-spin" /> : saved ? <Check size={14} /> : <BookmarkPlus size={14} />}
+              {saved ? 'In My Words' : 'Add to My Words'}
+            </button>
+          )}
+          <button onClick={() => setSelected(null)} className="text-slate-300 hover:text-slate-500 flex-shrink-0">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { Stage, Topic, LearningPoint, Exercise, AssignedLesson } from '../types';
-import { generateLearningMaterial, generateExercises } from '@/lib/services/geminiService';
-import { saveLesson } from '@/lib/services/storage';
+import { Stage, Topic, LearningPoint, Exercise, AssignedLesson, DialogueAudio, DialogueLine, MatchingPair, ClassGroup, Student, MarkingMode, LessonTemplate } from '../types';
+import { generateLearningMaterial, generateExercises, generateDialogueAudio } from '@/lib/services/geminiService';
+import { EXERCISE_TYPES, formatDialogue, getCorrectOption, hasCurrentAudio, parseDialogue } from '@/lib/exercises';
+import { isAiMarkable } from '@/lib/marking';
+import { RUBRICS, getRubric, getRubricMaxMark } from '@/lib/rubrics';
+import { saveLesson, saveLessons, getClasses, getStudents, getLessonTemplatesForPoint, saveLessonTemplate } from '@/lib/services/storage';
 import ReactMarkdown from 'react-markdown';
-import { Loader2, Save, ArrowLeft, RefreshCw, PenLine, Plus, Minus, Trash2, X, ChevronRight, BookOpen, Dumbbell, Send, Languages, AlertTriangle } from 'lucide-react';
+import { Loader2, Save, ArrowLeft, RefreshCw, PenLine, Plus, Minus, Trash2, X, ChevronRight, BookOpen, Dumbbell, Send, Languages, AlertTriangle, ClipboardList, Library, Sparkles, Volume2 } from 'lucide-react';
 
 interface Props {
   stage: Stage;
@@ -11,12 +14,33 @@ interface Props {
   point: LearningPoint;
   studentName: string;
   studentId?: string;
+  templateId?: string; // Open this lesson bank version instead of generating
   onBack: () => void;
 }
 
 type EditorView = 'material' | 'exercises';
 
-export const LessonEditor: React.FC<Props> = ({ stage, topic, point, studentName, studentId, onBack }) => {
+// Exercise types that can carry a list of options (multiple choice / word bank)
+const OPTION_TYPES: Exercise['type'][] = ['quiz', 'gap-fill', 'pinyin-to-character', 'tone', 'reading', 'listening'];
+
+// Free-text answers that can have alternatives; option types mark the correct option instead
+const acceptsAlternatives = (exercise: Exercise) =>
+  !(exercise.options && exercise.options.length > 0) && !['matching', 'tone', 'composition'].includes(exercise.type);
+
+const getTypeLabel = (type: Exercise['type']) => EXERCISE_TYPES.find(t => t.type === type)?.label || type;
+
+// Listening questions on the same dialogue
+const isSameDialogue = (a: Exercise, b: Exercise) =>
+  b.type === 'listening' && !!a.dialogue && !!b.dialogue && formatDialogue(a.dialogue) === formatDialogue(b.dialogue);
+
+const getRubricLabel = (rubricId?: string) => {
+  const rubric = getRubric(rubricId);
+  return rubric ? `${rubric.name} · ${getRubricMaxMark(rubric)} marks` : '';
+};
+
+const formatPairsAnswer = (pairs: MatchingPair[]) => pairs.map(p => `${p.left} = ${p.right}`).join('; ');
+
+export const LessonEditor: React.FC<Props> = ({ stage, topic, point, studentName, studentId, templateId, onBack }) => {
   const [view, setView] = useState<EditorView>('material');
   
   // Font Size State
@@ -36,34 +60,123 @@ export const LessonEditor: React.FC<Props> = ({ stage, topic, point, studentName
   
   // Saving State
   const [saving, setSaving] = useState(false);
+  const [generatingAudio, setGeneratingAudio] = useState<number | null>(null);
 
-  // Initial Load - Generate Material Only
+  // Assignment target: the current student, or one of the tutor's classes
+  const [classes, setClasses] = useState<ClassGroup[]>([]);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [assignClassId, setAssignClassId] = useState('');
+  const [markingMode, setMarkingMode] = useState<MarkingMode>('rules');
+
+  // Lesson bank: saved versions of this point, and the one loaded or last saved
+  const [bankVersions, setBankVersions] = useState<LessonTemplate[]>([]);
+  const [template, setTemplate] = useState<LessonTemplate | null>(null);
+  const [choosingSource, setChoosingSource] = useState(false);
+  const [savingTemplate, setSavingTemplate] = useState(false);
+
+  const generateMaterial = async (isCurrent: () => boolean = () => true) => {
+    setChoosingSource(false);
+    setMaterialLoading(true);
+    setError(null);
+    try {
+      const data = await generateLearningMaterial(stage.title, topic.title, point.description);
+      if (isCurrent()) {
+        setMaterial(data);
+        setMaterialLoading(false);
+        setExercises([]);
+      }
+    } catch (err: any) {
+      if (isCurrent()) {
+        if (err.message === 'MISSING_API_KEY') {
+          setError("Missing API Key. Please go to Settings to configure it.");
+        } else {
+          setError("Failed to generate content. Please try again.");
+        }
+        setMaterialLoading(false);
+      }
+    }
+  };
+
+  const applyTemplate = (saved: LessonTemplate) => {
+    setTemplate(saved);
+    setMaterial(saved.material);
+    setExercises(saved.exercises);
+    setMarkingMode(saved.markingMode || 'rules');
+    setChoosingSource(false);
+    setMaterialLoading(false);
+  };
+
+  // Initial Load - reuse a banked lesson if one was picked or exists, otherwise generate material only
   useEffect(() => {
     let mounted = true;
     const fetchMaterial = async () => {
       setMaterialLoading(true);
-      setError(null);
-      try {
-        const data = await generateLearningMaterial(stage.title, topic.title, point.description);
-        if (mounted) {
-          setMaterial(data);
-          setMaterialLoading(false);
-          setExercises([]);
-        }
-      } catch (err: any) {
-        if (mounted) {
-          if (err.message === 'MISSING_API_KEY') {
-            setError("Missing API Key. Please go to Settings to configure it.");
-          } else {
-            setError("Failed to generate content. Please try again.");
-          }
-          setMaterialLoading(false);
-        }
+      const versions = await getLessonTemplatesForPoint({ stageId: stage.id, topicId: topic.id, pointId: point.id });
+      if (!mounted) return;
+      setBankVersions(versions);
+      const requested = versions.find(t => t.id === templateId);
+      if (requested) {
+        applyTemplate(requested);
+      } else if (versions.length > 0) {
+        setChoosingSource(true);
+        setMaterialLoading(false);
+      } else {
+        await generateMaterial(() => mounted);
       }
     };
     fetchMaterial();
     return () => { mounted = false; };
-  }, [stage, topic, point]);
+  }, [stage, topic, point, templateId]);
+
+  // Every listening dialogue is rendered before the lesson is saved or assigned, so students only
+  // ever play stored recordings. Throws when a dialogue can't be rendered.
+  const withListeningAudio = async (items: Exercise[]): Promise<Exercise[]> => {
+    const dialogues = new Map<string, DialogueLine[]>();
+    items.forEach(ex => {
+      if (ex.type === 'listening' && ex.dialogue && ex.dialogue.length > 0 && !hasCurrentAudio(ex)) {
+        dialogues.set(formatDialogue(ex.dialogue), ex.dialogue);
+      }
+    });
+    if (dialogues.size === 0) return items;
+
+    const rendered = new Map<string, DialogueAudio>();
+    for (const [script, dialogue] of Array.from(dialogues)) {
+      const audio = await generateDialogueAudio(dialogue);
+      if (!audio) throw new Error('Could not prepare the listening audio');
+      rendered.set(script, audio);
+    }
+    const updated = items.map(ex => {
+      const audio = ex.type === 'listening' && ex.dialogue ? rendered.get(formatDialogue(ex.dialogue)) : undefined;
+      return audio ? { ...ex, audio } : ex;
+    });
+    setExercises(updated);
+    return updated;
+  };
+
+  const handleSaveTemplate = async () => {
+    setSavingTemplate(true);
+    try {
+      const lessonExercises = await withListeningAudio(exercises);
+      const saved = await saveLessonTemplate({
+        stageId: stage.id,
+        topicId: topic.id,
+        pointId: point.id,
+        stageTitle: stage.title,
+        topicTitle: topic.title,
+        pointDescription: point.description,
+        material,
+        exercises: lessonExercises,
+        markingMode: hasAiMarkableExercises ? markingMode : 'rules',
+      });
+      setTemplate(saved);
+      setBankVersions([saved, ...bankVersions]);
+    } catch (e) {
+      console.error('Failed to save lesson template:', e);
+      alert("Failed to save the lesson to the bank. Please try again.");
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
 
   // Handlers for Material
   const handleGenerateExercises = async () => {
@@ -80,17 +193,82 @@ export const LessonEditor: React.FC<Props> = ({ stage, topic, point, studentName
   const handleExerciseChange = (index: number, field: keyof Exercise, value: any) => {
     const updated = [...exercises];
     updated[index] = { ...updated[index], [field]: value };
+    // Typing the answer of an option type selects the option with that text
+    if (field === 'answer' && updated[index].options) {
+      const optionIndex = updated[index].options!.indexOf(value);
+      updated[index].correctOptionIndex = optionIndex >= 0 ? optionIndex : undefined;
+    }
+    // Questions on the same reading passage stay tied to it
+    const passage = exercises[index].passage;
+    if ((field === 'passage' || field === 'passageTranslation') && passage) {
+      updated.forEach((ex, i) => {
+        if (i !== index && ex.type === 'reading' && ex.passage === passage) updated[i] = { ...ex, [field]: value };
+      });
+    }
+    // ...and questions on the same dialogue share its text, translation and audio
+    if (exercises[index].type === 'listening' && (field === 'dialogue' || field === 'passageTranslation')) {
+      updated.forEach((ex, i) => {
+        if (i !== index && isSameDialogue(exercises[index], ex)) updated[i] = { ...ex, [field]: value };
+      });
+    }
+    setExercises(updated);
+  };
+
+  // New question on an existing passage or dialogue, after its other questions
+  const addPassageQuestion = (index: number) => {
+    const source = exercises[index];
+    const isLinked = (ex: Exercise) => source.type === 'listening'
+      ? isSameDialogue(source, ex)
+      : ex.type === 'reading' && ex.passage === source.passage;
+    let insertAt = index + 1;
+    while (insertAt < exercises.length && isLinked(exercises[insertAt])) insertAt++;
+    const question: Exercise = source.type === 'listening'
+      ? { type: 'listening', question: '', questionTranslation: '', answer: '', dialogue: source.dialogue, passageTranslation: source.passageTranslation, ...(source.audio && { audio: source.audio }) }
+      : { type: 'reading', question: '', questionTranslation: '', answer: '', passage: source.passage, passageTranslation: source.passageTranslation };
+    const updated = [...exercises];
+    updated.splice(insertAt, 0, question);
     setExercises(updated);
   };
 
+  // Render the dialogue ahead of saving; the recording is stored once and every question on it points to it
+  const handleGenerateAudio = async (index: number) => {
+    const dialogue = exercises[index].dialogue;
+    if (!dialogue || dialogue.length === 0) return;
+    setGeneratingAudio(index);
+    const audio = await generateDialogueAudio(dialogue);
+    setGeneratingAudio(null);
+    if (!audio) {
+      alert("Failed to generate the dialogue audio. Please try again.");
+      return;
+    }
+    // Questions whose dialogue changed while the audio was generating keep their old state
+    setExercises(prev => prev.map(ex =>
+      ex.type === 'listening' && ex.dialogue && formatDialogue(ex.dialogue) === audio.script ? { ...ex, audio } : ex
+    ));
+  };
+
   const handleOptionChange = (exerciseIndex: number, optionIndex: number, value: string) => {
     const updated = [...exercises];
     const options = [...(updated[exerciseIndex].options || [])];
     options[optionIndex] = value;
     updated[exerciseIndex] = { ...updated[exerciseIndex], options };
+    // Keep the answer text in step with the correct option
+    if (updated[exerciseIndex].correctOptionIndex === optionIndex) updated[exerciseIndex].answer = value;
     setExercises(updated);
   };
 
+  const setCorrectOption = (exerciseIndex: number, optionIndex: number) => {
+    const updated = [...exercises];
+    const options = updated[exerciseIndex].options || [];
+    updated[exerciseIndex] = { ...updated[exerciseIndex], correctOptionIndex: optionIndex, answer: options[optionIndex] };
+    setExercises(updated);
+  };
+
+  const handleAcceptedAnswersChange = (exerciseIndex: number, text: string) => {
+    const acceptedAnswers = text.split('\n').map(a => a.trim());
+    handleExerciseChange(exerciseIndex, 'acceptedAnswers', acceptedAnswers.some(Boolean) ? acceptedAnswers : undefined);
+  };
+
   const addOption = (exerciseIndex: number) => {
     const updated = [...exercises];
     const options = [...(updated[exerciseIndex].options || [])];
@@ -103,10 +281,61 @@ export const LessonEditor: React.FC<Props> = ({ stage, topic, point, studentName
     const updated = [...exercises];
     const options = [...(updated[exerciseIndex].options || [])];
     options.splice(optionIndex, 1);
-    updated[exerciseIndex] = { ...updated[exerciseIndex], options };
+    const correct = updated[exerciseIndex].correctOptionIndex;
+    updated[exerciseIndex] = {
+      ...updated[exerciseIndex],
+      options,
+      correctOptionIndex: correct === undefined || correct === optionIndex ? undefined : correct > optionIndex ? correct - 1 : correct,
+    };
+    setExercises(updated);
+  };
+
+  const handleSegmentChange = (exerciseIndex: number, segmentIndex: number, value: string) => {
+    const updated = [...exercises];
+    const segments = [...(updated[exerciseIndex].segments || [])];
+    segments[segmentIndex] = value;
+    updated[exerciseIndex] = { ...updated[exerciseIndex], segments };
+    setExercises(updated);
+  };
+
+  const addSegment = (exerciseIndex: number) => {
+    const updated = [...exercises];
+    const segments = [...(updated[exerciseIndex].segments || []), ''];
+    updated[exerciseIndex] = { ...updated[exerciseIndex], segments };
+    setExercises(updated);
+  };
+
+  const removeSegment = (exerciseIndex: number, segmentIndex: number) => {
+    const updated = [...exercises];
+    const segments = [...(updated[exerciseIndex].segments || [])];
+    segments.splice(segmentIndex, 1);
+    updated[exerciseIndex] = { ...updated[exerciseIndex], segments };
     setExercises(updated);
   };
 
+  // Matching answers are derived from the pairs so the results views stay readable
+  const updatePairs = (exerciseIndex: number, pairs: MatchingPair[]) => {
+    const updated = [...exercises];
+    updated[exerciseIndex] = { ...updated[exerciseIndex], pairs, answer: formatPairsAnswer(pairs) };
+    setExercises(updated);
+  };
+
+  const handlePairChange = (exerciseIndex: number, pairIndex: number, side: keyof MatchingPair, value: string) => {
+    const pairs = [...(exercises[exerciseIndex].pairs || [])];
+    pairs[pairIndex] = { ...pairs[pairIndex], [side]: value };
+    updatePairs(exerciseIndex, pairs);
+  };
+
+  const addPair = (exerciseIndex: number) => {
+    updatePairs(exerciseIndex, [...(exercises[exerciseIndex].pairs || []), { left: '', right: '' }]);
+  };
+
+  const removePair = (exerciseIndex: number, pairIndex: number) => {
+    const pairs = [...(exercises[exerciseIndex].pairs || [])];
+    pairs.splice(pairIndex, 1);
+    updatePairs(exerciseIndex, pairs);
+  };
+
   const addNewExercise = () => {
     setExercises([
       ...exercises,
@@ -128,24 +357,71 @@ export const LessonEditor: React.FC<Props> = ({ stage, topic, point, studentName
     setExercisesLoading(false);
   };
 
+  useEffect(() => {
+    const fetchClasses = async () => {
+      const [allClasses, allStudents] = await Promise.all([getClasses(), getStudents()]);
+      setClasses(allClasses.filter(c => c.studentIds.length > 0));
+      setStudents(allStudents);
+    };
+    fetchClasses();
+  }, []);
+
+  const assignClass = classes.find(c => c.id === assignClassId) || null;
+  const assignTargetName = assignClass ? assignClass.name : studentName;
+  const hasAiMarkableExercises = exercises.some(ex => isAiMarkable(ex.type));
+  // Lessons only link back to the bank while the content is exactly the saved version
+  const unchangedTemplate = template && template.material === material && template.exercises === exercises ? template : null;
+
+  const buildLesson = (
+    target: { name: string; id?: string },
+    assignedDate: string,
+    lessonExercises: Exercise[],
+    group?: ClassGroup
+  ): AssignedLesson => ({
+    id: crypto.randomUUID(),
+    studentName: target.name,
+    studentId: target.id,
+    classId: group?.id,
+    className: group?.name,
+    stageTitle: stage.title,
+    topicTitle: topic.title,
+    pointDescription: point.description,
+    stageId: stage.id,
+    topicId: topic.id,
+    pointId: point.id,
+    specRefs: point.specRefs,
+    material: material,
+    exercises: lessonExercises,
+    assignedDate: assignedDate,
+    completed: false,
+    markingMode: hasAiMarkableExercises ? markingMode : 'rules',
+    templateId: unchangedTemplate?.exercises === lessonExercises ? unchangedTemplate.id : undefined,
+    templateVersion: unchangedTemplate?.exercises === lessonExercises ? unchangedTemplate.version : undefined,
+  });
+
   const handleAssignToStudent = async () => {
     setSaving(true);
-    const newLesson: AssignedLesson = {
-      id: crypto.randomUUID(),
-      studentName: studentName,
-      studentId: studentId,
-      stageTitle: stage.title,
-      topicTitle: topic.title,
-      pointDescription: point.description,
-      material: material,
-      exercises: exercises,
-      assignedDate: new Date().toISOString(),
-      completed: false
-    };
+    const assignedDate = new Date().toISOString();
 
+    let lessonExercises: Exercise[];
     try {
-        await saveLesson(newLesson);
-        alert(`Lesson assigned to ${studentName} successfully!`);
+        lessonExercises = await withListeningAudio(exercises);
+    } catch (e) {
+        alert("Failed to prepare the listening audio, so the lesson was not assigned. Please try again.");
+        setSaving(false);
+        return;
+    }
+
+    try {
+        if (assignClass) {
+            // One lesson per enrolled student, saved together; the shared date groups them in progress reports
+            const members = students.filter(s => assignClass.studentIds.includes(s.id));
+            await saveLessons(members.map(member => buildLesson(member, assignedDate, lessonExercises, assignClass)));
+            alert(`Lesson assigned to ${members.length} students in ${assignClass.name} successfully!`);
+        } else {
+            await saveLesson(buildLesson({ name: studentName, id: studentId }, assignedDate, lessonExercises));
+            alert(`Lesson assigned to ${studentName} successfully!`);
+        }
         onBack();
     } catch (e) {
         alert("Failed to save lesson. Check your internet or Supabase settings.");
@@ -186,6 +462,52 @@ export const LessonEditor: React.FC<Props> = ({ stage, topic, point, studentName
     );
   }
 
+  // Lesson bank choice: reuse a saved version or generate a fresh lesson
+  if (choosingSource) {
+    return (
+      <div className="min-h-screen flex flex-col bg-slate-50">
+        <header className="bg-white border-b border-slate-200 px-6 py-4 flex items-center gap-4 sticky top-0 z-20">
+          <button 
+            onClick={onBack}
+            className="p-2 hover:bg-slate-100 rounded-lg text-slate-500 transition-colors"
+          >
+            <ArrowLeft size={20} />
+          </button>
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 line-clamp-1">{point.description}</h2>
+            <p className="text-xs text-slate-500">This point is already in your lesson bank</p>
+          </div>
+        </header>
+        <main className="flex-1 p-8">
+          <div className="max-w-3xl mx-auto space-y-3">
+            {bankVersions.map(version => (
+              <div key={version.id} className="bg-white p-5 rounded-2xl border border-slate-200 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-bold text-slate-800">Version {version.version}</p>
+                  <p className="text-sm text-slate-500">
+                    Saved {new Date(version.createdAt).toLocaleDateString()} · {version.exercises.length} exercises
+                  </p>
+                </div>
+                <button
+                  onClick={() => applyTemplate(version)}
+                  className="flex-shrink-0 flex items-center gap-2 bg-brand-600 hover:bg-brand-700 text-white px-5 py-2 rounded-lg font-semibold transition-colors"
+                >
+                  <Library size={16} /> Use this lesson
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => generateMaterial()}
+              className="w-full py-4 border-2 border-dashed border-slate-300 rounded-xl text-slate-500 hover:border-brand-400 hover:text-brand-600 hover:bg-brand-50 font-medium transition-all flex items-center justify-center gap-2"
+            >
+              <Sparkles size={18} /> Generate a new lesson instead
+            </button>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex flex-col bg-slate-50">
       {/* Header */}
@@ -202,10 +524,26 @@ export const LessonEditor: React.FC<Props> = ({ stage, topic, point, studentName
             <div className="flex gap-2 text-xs text-slate-500">
               <span className="bg-slate-100 px-2 py-0.5 rounded">{stage.title}</span>
               <span className="bg-slate-100 px-2 py-0.5 rounded">{topic.title}</span>
+              {template && (
+                <span className="bg-brand-50 text-brand-700 px-2 py-0.5 rounded">
+                  {unchangedTemplate ? `Bank v${template.version}` : `Edited from bank v${template.version}`}
+                </span>
+              )}
             </div>
           </div>
         </div>
 
+        <div className="flex items-center gap-3">
+        <button
+            onClick={handleSaveTemplate}
+            disabled={savingTemplate || !!unchangedTemplate || !material}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium border border-slate-200 text-slate-600 hover:bg-slate-50 transition-colors disabled:opacity-50"
+            title={exercises.length === 0 ? 'Saves the material only; generate exercises first to bank them too' : 'Save this lesson to your bank as a new version'}
+        >
+            {savingTemplate ? <Loader2 size={16} className="animate-spin" /> : <Library size={16} />}
+            {unchangedTemplate ? 'Saved to Bank' : 'Save to Bank'}
+        </button>
+
         {/* View Switcher / Tabs */}
         <div className="flex bg-slate-100 p-1 rounded-lg">
             <button 
@@ -221,6 +559,7 @@ export const LessonEditor: React.FC<Props> = ({ stage, topic, point, studentName
                 <Dumbbell size={16} /> Exercises
             </button>
         </div>
+        </div>
       </header>
 
       {/* Main Content */}
@@ -304,7 +643,7 @@ export const LessonEditor: React.FC<Props> = ({ stage, topic, point, studentName
                             <div className="flex justify-between items-center mb-6">
                                 <div>
                                     <h3 className="text-xl font-bold text-slate-800">Practice Exercises</h3>
-                                    <p className="text-sm text-slate-500">Review before assigning to {studentName}</p>
+                                    <p className="text-sm text-slate-500">Review before assigning to {assignTargetName}</p>
                                 </div>
                                 <div className="flex gap-3">
                                     <button 
@@ -348,9 +687,9 @@ export const LessonEditor: React.FC<Props> = ({ stage, topic, point, studentName
                                                             onChange={(e) => handleExerciseChange(idx, 'type', e.target.value)}
                                                             className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none"
                                                             >
-                                                            <option value="quiz">Quiz</option>
-                                                            <option value="translation">Translation</option>
-                                                            <option value="composition">Composition</option>
+                                                            {EXERCISE_TYPES.map(t => (
+                                                                <option key={t.type} value={t.type}>{t.label}</option>
+                                                            ))}
                                                             </select>
                                                         </div>
                                                         <div className="w-2/3">
@@ -359,7 +698,9 @@ export const LessonEditor: React.FC<Props> = ({ stage, topic, point, studentName
                                                             type="text"
                                                             value={exercise.answer || ''}
                                                             onChange={(e) => handleExerciseChange(idx, 'answer', e.target.value)}
-                                                            className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none"
+                                                            disabled={exercise.type === 'matching'}
+                                                            placeholder={exercise.type === 'tone' ? 'Tone numbers, e.g. 3 3 (5 = neutral)' : exercise.type === 'pinyin-answer' ? 'Pinyin with tones, e.g. nǐ hǎo or ni3 hao3' : ''}
+                                                            className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none disabled:bg-slate-50 disabled:text-slate-400"
                                                             />
                                                         </div>
                                                     </div>
@@ -385,13 +726,216 @@ export const LessonEditor: React.FC<Props> = ({ stage, topic, point, studentName
                                                         />
                                                     </div>
 
-                                                    {exercise.type === 'quiz' && (
+                                                    {exercise.type === 'reading' && (
+                                                    <div className="space-y-4">
+                                                        <div>
+                                                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Passage (Chinese)</label>
+                                                            <textarea
+                                                            value={exercise.passage || ''}
+                                                            onChange={(e) => handleExerciseChange(idx, 'passage', e.target.value)}
+                                                            rows={4}
+                                                            className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none chinese-text"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Passage Translation (English)</label>
+                                                            <textarea
+                                                            value={exercise.passageTranslation || ''}
+                                                            onChange={(e) => handleExerciseChange(idx, 'passageTranslation', e.target.value)}
+                                                            rows={2}
+                                                            className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none"
+                                                            />
+                                                        </div>
+                                                        {exercise.passage && (
+                                                        <button
+                                                            onClick={() => addPassageQuestion(idx)}
+                                                            className="text-xs font-bold text-brand-600 hover:text-brand-700 flex items-center gap-1"
+                                                        >
+                                                            <Plus size={12} /> Add Question on This Passage
+                                                        </button>
+                                                        )}
+                                                    </div>
+                                                    )}
+
+                                                    {exercise.type === 'listening' && (
+                                                    <div className="space-y-4">
+                                                        <div>
+                                                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Dialogue (one line per turn, e.g. "A: 你好！")</label>
+                                                            <textarea
+                                                            key={formatDialogue(exercise.dialogue || [])}
+                                                            defaultValue={formatDialogue(exercise.dialogue || [])}
+                                                            onBlur={(e) => {
+                                                                const dialogue = parseDialogue(e.target.value);
+                                                                if (formatDialogue(dialogue) !== formatDialogue(exercise.dialogue || [])) handleExerciseChange(idx, 'dialogue', dialogue);
+                                                            }}
+                                                            rows={6}
+                                                            className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none chinese-text"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Dialogue Translation (English)</label>
+                                                            <textarea
+                                                            value={exercise.passageTranslation || ''}
+                                                            onChange={(e) => handleExerciseChange(idx, 'passageTranslation', e.target.value)}
+                                                            rows={2}
+                                                            className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none"
+                                                            />
+                                                        </div>
+                                                        {exercise.dialogue && exercise.dialogue.length > 0 && (
+                                                        <div className="flex flex-wrap items-center gap-4">
+                                                            {hasCurrentAudio(exercise) ? (
+                                                                <span className="text-xs text-slate-400 flex items-center gap-1"><Volume2 size={12} /> Audio ready</span>
+                                                            ) : (
+                                                                <>
+                                                                <button
+                                                                    onClick={() => handleGenerateAudio(idx)}
+                                                                    disabled={generatingAudio !== null}
+                                                                    className="px-3 py-1.5 text-xs font-bold bg-brand-50 text-brand-700 rounded-lg hover:bg-brand-100 disabled:opacity-50 flex items-center gap-1.5"
+                                                                >
+                                                                    {generatingAudio === idx ? <Loader2 size={12} className="animate-spin" /> : <Volume2 size={12} />}
+                                                                    Prepare Audio Now
+                                                                </button>
+                                                                <span className="text-xs text-slate-400">
+                                                                    {exercise.audio ? 'The dialogue has changed; new audio' : 'Audio'} is made when you save or assign the lesson
+                                                                </span>
+                                                                </>
+                                                            )}
+                                                            <button
+                                                                onClick={() => addPassageQuestion(idx)}
+                                                                className="text-xs font-bold text-brand-600 hover:text-brand-700 flex items-center gap-1"
+                                                            >
+                                                                <Plus size={12} /> Add Question on This Dialogue
+                                                            </button>
+                                                        </div>
+                                                        )}
+                                                    </div>
+                                                    )}
+
+                                                    {exercise.type === 'composition' && (
+                                                    <div>
+                                                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Mark Scheme</label>
+                                                        <select
+                                                        value={exercise.rubricId || ''}
+                                                        onChange={(e) => handleExerciseChange(idx, 'rubricId', e.target.value || undefined)}
+                                                        className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none bg-white"
+                                                        >
+                                                            <option value="">None (compare with model answer)</option>
+                                                            {RUBRICS.map(r => (
+                                                                <option key={r.id} value={r.id}>{r.name} ({getRubricMaxMark(r)} marks)</option>
+                                                            ))}
+                                                        </select>
+                                                    </div>
+                                                    )}
+
+                                                    {exercise.type === 'pinyin-to-character' && (
+                                                    <div>
+                                                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Pinyin</label>
+                                                        <input
+                                                        type="text"
+                                                        value={exercise.pinyin || ''}
+                                                        onChange={(e) => handleExerciseChange(idx, 'pinyin', e.target.value)}
+                                                        className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none"
+                                                        placeholder="e.g. péng you"
+                                                        />
+                                                    </div>
+                                                    )}
+
+                                                    {exercise.type === 'reorder' && (
+                                                    <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
+                                                        <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Segments (shown shuffled to the student)</label>
+                                                        <div className="space-y-2">
+                                                        {(exercise.segments || []).map((seg, segIdx) => (
+                                                            <div key={segIdx} className="flex items-center gap-2">
+                                                            <span className="w-4 text-xs text-slate-400 font-mono flex-shrink-0">{segIdx + 1}</span>
+                                                            <input 
+                                                                value={seg}
+                                                                onChange={(e) => handleSegmentChange(idx, segIdx, e.target.value)}
+                                                                className="flex-1 px-2 py-1 text-sm border border-slate-200 rounded bg-white focus:border-brand-500 outline-none chinese-text"
+                                                            />
+                                                            <button 
+                                                                onClick={() => removeSegment(idx, segIdx)}
+                                                                className="text-slate-400 hover:text-red-500"
+                                                            >
+                                                                <X size={14} />
+                                                            </button>
+                                                            </div>
+                                                        ))}
+                                                        <button 
+                                                            onClick={() => addSegment(idx)}
+                                                            className="text-xs font-medium text-brand-600 hover:text-brand-700 flex items-center gap-1 mt-2 pl-6"
+                                                        >
+                                                            <Plus size={12} /> Add Segment
+                                                        </button>
+                                                        </div>
+                                                    </div>
+                                                    )}
+
+                                                    {exercise.type === 'matching' && (
                                                     <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
-                                                        <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Options</label>
+                                                        <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Pairs</label>
+                                                        <div className="space-y-2">
+                                                        {(exercise.pairs || []).map((pair, pairIdx) => (
+                                                            <div key={pairIdx} className="flex items-center gap-2">
+                                                            <input 
+                                                                value={pair.left}
+                                                                onChange={(e) => handlePairChange(idx, pairIdx, 'left', e.target.value)}
+                                                                placeholder="Chinese"
+                                                                className="flex-1 px-2 py-1 text-sm border border-slate-200 rounded bg-white focus:border-brand-500 outline-none chinese-text"
+                                                            />
+                                                            <ChevronRight size={14} className="text-slate-300 flex-shrink-0" />
+                                                            <input 
+                                                                value={pair.right}
+                                                                onChange={(e) => handlePairChange(idx, pairIdx, 'right', e.target.value)}
+                                                                placeholder="English"
+                                                                className="flex-1 px-2 py-1 text-sm border border-slate-200 rounded bg-white focus:border-brand-500 outline-none"
+                                                            />
+                                                            <button 
+                                                                onClick={() => removePair(idx, pairIdx)}
+                                                                className="text-slate-400 hover:text-red-500"
+                                                            >
+                                                                <X size={14} />
+                                                            </button>
+                                                            </div>
+                                                        ))}
+                                                        <button 
+                                                            onClick={() => addPair(idx)}
+                                                            className="text-xs font-medium text-brand-600 hover:text-brand-700 flex items-center gap-1 mt-2"
+                                                        >
+                                                            <Plus size={12} /> Add Pair
+                                                        </button>
+                                                        </div>
+                                                    </div>
+                                                    )}
+
+                                                    {acceptsAlternatives(exercise) && (
+                                                    <div>
+                                                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Also Accept (one per line)</label>
+                                                        <textarea
+                                                        value={(exercise.acceptedAnswers || []).join('\n')}
+                                                        onChange={(e) => handleAcceptedAnswersChange(idx, e.target.value)}
+                                                        rows={2}
+                                                        className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none chinese-text"
+                                                        placeholder="Other correct answers. Put optional words in brackets, e.g. 我吃饭[了]"
+                                                        />
+                                                        <p className="text-xs text-slate-400 mt-1">Traditional characters and full-width or half-width punctuation are always accepted.</p>
+                                                    </div>
+                                                    )}
+
+                                                    {OPTION_TYPES.includes(exercise.type) && (
+                                                    <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
+                                                        <label className="block text-xs font-bold text-slate-400 uppercase mb-2">
+                                                            {exercise.type === 'quiz' ? 'Options' : 'Options (optional)'}
+                                                        </label>
                                                         <div className="space-y-2">
                                                         {(exercise.options || []).map((opt, optIdx) => (
                                                             <div key={optIdx} className="flex items-center gap-2">
-                                                            <div className="w-4 h-4 rounded-full border border-slate-300 flex-shrink-0"></div>
+                                                            <button
+                                                                onClick={() => setCorrectOption(idx, optIdx)}
+                                                                title="Mark as the correct option"
+                                                                className={`w-4 h-4 rounded-full border flex-shrink-0 ${
+                                                                    getCorrectOption(exercise) === opt && opt ? 'border-green-500 bg-green-500 ring-2 ring-green-100' : 'border-slate-300 hover:border-green-400'
+                                                                }`}
+                                                            />
                                                             <input 
                                                                 value={opt}
                                                                 onChange={(e) => handleOptionChange(idx, optIdx, e.target.value)}
@@ -419,10 +963,41 @@ export const LessonEditor: React.FC<Props> = ({ stage, topic, point, studentName
                                                 <>
                                                     <div className="flex justify-between items-start mb-4">
                                                         <span className="bg-brand-50 text-brand-700 text-xs font-bold px-2 py-1 rounded uppercase tracking-wider">
-                                                            {exercise.type}
+                                                            {getTypeLabel(exercise.type)}
                                                         </span>
                                                         <span className="text-slate-300 font-mono text-sm">#{idx + 1}</span>
                                                     </div>
+                                                    {exercise.type === 'reading' && exercise.passage && (
+                                                        <div className="mb-4 p-4 bg-slate-50 rounded-lg border border-slate-100">
+                                                            <p className="text-slate-700 chinese-text leading-relaxed">{exercise.passage}</p>
+                                                            {exercise.passageTranslation && (
+                                                                <p className="text-xs text-slate-400 italic mt-2">{exercise.passageTranslation}</p>
+                                                            )}
+                                                        </div>
+                                                    )}
+                                                    {exercise.type === 'listening' && exercise.dialogue && (
+                                                        <div className="mb-4 p-4 bg-slate-50 rounded-lg border border-slate-100">
+                                                            <p className="text-xs font-bold text-slate-400 uppercase mb-2 flex items-center gap-1">
+                                                                <Volume2 size={12} /> {hasCurrentAudio(exercise) ? 'Audio ready' : 'No audio yet'} · hidden from students until they answer
+                                                            </p>
+                                                            {exercise.dialogue.map((line, i) => (
+                                                                <p key={i} className="text-slate-700 chinese-text leading-relaxed">
+                                                                    <span className="font-bold text-slate-500">{line.speaker}:</span> {line.text}
+                                                                </p>
+                                                            ))}
+                                                            {exercise.passageTranslation && (
+                                                                <p className="text-xs text-slate-400 italic mt-2">{exercise.passageTranslation}</p>
+                                                            )}
+                                                        </div>
+                                                    )}
+                                                    {exercise.type === 'composition' && getRubricLabel(exercise.rubricId) && (
+                                                        <p className="mb-2 text-xs font-medium text-amber-700 flex items-center gap-1">
+                                                            <ClipboardList size={12} /> Marked with {getRubricLabel(exercise.rubricId)}
+                                                        </p>
+                                                    )}
+                                                    {exercise.type === 'pinyin-to-character' && exercise.pinyin && (
+                                                        <p className="text-2xl text-brand-600 font-medium mb-2">{exercise.pinyin}</p>
+                                                    )}
                                                     <h4 className="text-lg text-slate-800 font-medium mb-1 chinese-text">{exercise.question}</h4>
                                                     {exercise.questionTranslation && (
                                                         <p className="text-sm text-slate-400 mb-4 italic flex items-center gap-1">
@@ -430,7 +1005,26 @@ export const LessonEditor: React.FC<Props> = ({ stage, topic, point, studentName
                                                         </p>
                                                     )}
                                                     
-                                                    {exercise.type === 'quiz' && Array.isArray(exercise.options) && (
+                                                    {exercise.type === 'reorder' && Array.isArray(exercise.segments) && (
+                                                        <div className="flex flex-wrap gap-2 mt-4">
+                                                            {exercise.segments.map((seg, i) => (
+                                                                <span key={i} className="px-3 py-1.5 bg-slate-100 rounded-lg text-slate-700 chinese-text">{seg}</span>
+                                                            ))}
+                                                        </div>
+                                                    )}
+
+                                                    {exercise.type === 'matching' && Array.isArray(exercise.pairs) && (
+                                                        <div className="grid grid-cols-2 gap-2 mt-4">
+                                                            {exercise.pairs.map((pair, i) => (
+                                                                <React.Fragment key={i}>
+                                                                    <div className="p-2 border border-slate-100 rounded-lg text-slate-700 chinese-text">{pair.left}</div>
+                                                                    <div className="p-2 border border-slate-100 rounded-lg text-slate-600">{pair.right}</div>
+                                                                </React.Fragment>
+                                                            ))}
+                                                        </div>
+                                                    )}
+
+                                                    {OPTION_TYPES.includes(exercise.type) && Array.isArray(exercise.options) && exercise.options.length > 0 && (
                                                         <div className="space-y-2 mt-4">
                                                             {exercise.options.map((opt, i) => (
                                                                 <div key={i} className="flex items-center p-3 border border-slate-100 rounded-lg hover:bg-slate-50 cursor-pointer transition-colors group">
@@ -441,10 +1035,15 @@ export const LessonEditor: React.FC<Props> = ({ stage, topic, point, studentName
                                                         </div>
                                                     )}
 
-                                                    {exercise.type !== 'quiz' && (
+                                                    {exercise.type !== 'quiz' && exercise.type !== 'matching' && (
                                                         <div className="mt-4 p-4 bg-slate-50 border-l-4 border-slate-200 rounded-r-lg">
                                                             <p className="text-xs text-slate-400 uppercase font-bold mb-1">Model Answer</p>
                                                             <p className="text-slate-700 chinese-text font-medium">{exercise.answer}</p>
+                                                            {acceptsAlternatives(exercise) && (exercise.acceptedAnswers || []).some(Boolean) && (
+                                                                <p className="text-xs text-slate-500 mt-2 chinese-text">
+                                                                    Also accepted: {(exercise.acceptedAnswers || []).filter(Boolean).join(' · ')}
+                                                                </p>
+                                                            )}
                                                         </div>
                                                     )}
                                                     
@@ -454,7 +1053,7 @@ export const LessonEditor: React.FC<Props> = ({ stage, topic, point, studentName
                                                                 <summary className="flex cursor-pointer text-xs font-medium text-slate-400 uppercase hover:text-brand-500 transition-colors list-none">
                                                                     <span className="flex items-center gap-1">Show Answer <ChevronRight size={14} className="group-open:rotate-90 transition-transform"/></span>
                                                                 </summary>
-                                                                <p className="mt-2 text-sm text-slate-700 font-medium chinese-text pl-4 border-l-2 border-brand-200">{exercise.answer}</p>
+                                                                <p className="mt-2 text-sm text-slate-700 font-medium chinese-text pl-4 border-l-2 border-brand-200">{getCorrectOption(exercise) || exercise.answer}</p>
                                                             </details>
                                                         </div>
                                                     )}
@@ -488,14 +1087,42 @@ export const LessonEditor: React.FC<Props> = ({ stage, topic, point, studentName
 
                             {/* Assign Bar */}
                             {exercises.length > 0 && (
-                                <div className="fixed bottom-0 left-0 right-0 bg-white border-t border-slate-200 p-4 flex justify-center z-10">
+                                <div className="fixed bottom-0 left-0 right-0 bg-white border-t border-slate-200 p-4 flex justify-center items-center gap-3 z-10">
+                                    {classes.length > 0 && (
+                                        <select
+                                            value={assignClassId}
+                                            onChange={(e) => setAssignClassId(e.target.value)}
+                                            disabled={saving}
+                                            className="px-3 py-3 border border-slate-200 rounded-xl text-sm font-medium text-slate-700 bg-white focus:ring-2 focus:ring-brand-500 outline-none"
+                                        >
+                                            <option value="">Just {studentName}</option>
+                                            {classes.map(c => (
+                                                <option key={c.id} value={c.id}>Class: {c.name} ({c.studentIds.length})</option>
+                                            ))}
+                                        </select>
+                                    )}
+                                    {hasAiMarkableExercises && (
+                                        <label
+                                            className="flex items-center gap-2 px-3 py-3 border border-slate-200 rounded-xl text-sm font-medium text-slate-700 cursor-pointer"
+                                            title="Mark translation and composition answers with AI against GCSE criteria, calibrated by your past score adjustments"
+                                        >
+                                            <input
+                                                type="checkbox"
+                                                checked={markingMode === 'ai'}
+                                                onChange={(e) => setMarkingMode(e.target.checked ? 'ai' : 'rules')}
+                                                disabled={saving}
+                                                className="w-4 h-4 accent-brand-600"
+                                            />
+                                            AI marking
+                                        </label>
+                                    )}
                                     <button 
                                         onClick={handleAssignToStudent}
                                         disabled={saving}
                                         className="bg-brand-600 hover:bg-brand-700 text-white font-bold py-3 px-8 rounded-xl flex items-center gap-2 shadow-lg shadow-brand-200 transform active:scale-[0.98] transition-all disabled:opacity-50"
                                     >
                                         {saving ? <Loader2 className="animate-spin" /> : <Send size={18} />}
-                                        {saving ? 'Assigning...' : `Assign to ${studentName}`}
+                                        {saving ? 'Assigning...' : `Assign to ${assignTargetName}`}
                                     </button>
                                 </div>
                             )}
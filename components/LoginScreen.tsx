@@ -1,34 +1,34 @@
 import React, { useState } from 'react';
-import { GraduationCap, BookOpen, ChevronRight, Loader2, AlertCircle } from 'lucide-react';
-import { findStudentByName } from '@/lib/services/storage';
-import { Student } from '@/types';
+import { GraduationCap, BookOpen, ChevronRight, Loader2, AlertCircle, Mail, CheckCircle2 } from 'lucide-react';
+import { signInStudent, signInTutor, sendTutorMagicLink } from '@/lib/services/auth';
+import { AuthSession } from '@/types';
 
 interface Props {
-  onTutorSelect: () => void;
-  onStudentLogin: (student: Student) => void;
+  onTutorLogin: (session: AuthSession) => void;
+  onStudentLogin: (session: AuthSession) => void;
 }
 
-export const LoginScreen: React.FC<Props> = ({ onTutorSelect, onStudentLogin }) => {
-  const [role, setRole] = useState<'selection' | 'student'>('selection');
-  const [studentName, setStudentName] = useState('');
+export const LoginScreen: React.FC<Props> = ({ onTutorLogin, onStudentLogin }) => {
+  const [role, setRole] = useState<'selection' | 'tutor' | 'student'>('selection');
+  const [loginCode, setLoginCode] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [useMagicLink, setUseMagicLink] = useState(false);
+  const [magicLinkSent, setMagicLinkSent] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
   const handleStudentSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (studentName.trim()) {
+    if (loginCode.trim()) {
       setLoading(true);
       setError('');
       
       try {
-        const student = await findStudentByName(studentName.trim());
-        if (student) {
-          onStudentLogin(student);
-        } else {
-          setError('Student not found. Please ask your tutor for access.');
-        }
-      } catch (err) {
-        setError('Login failed. Please checks your internet connection.');
+        const session = await signInStudent(loginCode);
+        onStudentLogin(session);
+      } catch (err: any) {
+        setError(err?.message || 'Login failed. Please check your internet connection.');
         console.error(err);
       } finally {
         setLoading(false);
@@ -36,6 +36,41 @@ export const LoginScreen: React.FC<Props> = ({ onTutorSelect, onStudentLogin })
     }
   };
 
+  const handleTutorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    setLoading(true);
+    setError('');
+
+    try {
+      if (useMagicLink) {
+        await sendTutorMagicLink(email.trim());
+        setMagicLinkSent(true);
+      } else {
+        const session = await signInTutor(email.trim(), password);
+        onTutorLogin(session);
+      }
+    } catch (err: any) {
+      setError(err?.message || 'Sign in failed.');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const backToSelection = () => {
+    setRole('selection');
+    setError('');
+    setMagicLinkSent(false);
+  };
+
+  const errorMessage = error && (
+    <div className="flex items-center gap-2 mt-2 text-sm text-red-600">
+      <AlertCircle size={16} />
+      <span>{error}</span>
+    </div>
+  );
+
   return (
     <div className="min-h-screen flex flex-col items-center justify-center bg-slate-50 p-4 sm:p-6">
       <div className="text-center mb-6 sm:mb-10">
@@ -47,7 +82,7 @@ export const LoginScreen: React.FC<Props> = ({ onTutorSelect, onStudentLogin })
       {role === 'selection' ? (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6 w-full max-w-2xl">
           <button
-            onClick={onTutorSelect}
+            onClick={() => setRole('tutor')}
             className="flex flex-col items-center p-6 sm:p-8 bg-white rounded-2xl shadow-sm border border-slate-200 hover:border-brand-300 hover:shadow-md transition-all group touch-manipulation active:scale-[0.98]"
           >
             <div className="bg-brand-50 p-3 sm:p-4 rounded-full mb-3 sm:mb-4 group-hover:bg-brand-100 transition-colors">
@@ -68,10 +103,82 @@ export const LoginScreen: React.FC<Props> = ({ onTutorSelect, onStudentLogin })
             <p className="text-sm sm:text-base text-slate-500 text-center">Log in to view your dashboard and complete exercises.</p>
           </button>
         </div>
+      ) : role === 'tutor' ? (
+        <div className="w-full max-w-md bg-white rounded-2xl shadow-lg border border-slate-100 p-6 sm:p-8">
+          <button 
+            onClick={backToSelection}
+            className="text-sm text-slate-400 hover:text-slate-600 mb-4 sm:mb-6 flex items-center gap-1 touch-manipulation py-2"
+          >
+            ← Back
+          </button>
+
+          <h2 className="text-xl sm:text-2xl font-bold text-slate-800 mb-4 sm:mb-6">Tutor Sign In</h2>
+
+          {magicLinkSent ? (
+            <div className="flex items-start gap-3 p-4 rounded-xl bg-green-50 border border-green-200 text-green-800">
+              <CheckCircle2 size={20} className="flex-shrink-0 mt-0.5" />
+              <p className="text-sm">Check your inbox: we sent a sign-in link to <strong>{email}</strong>.</p>
+            </div>
+          ) : (
+          <form onSubmit={handleTutorSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Email</label>
+              <input
+                type="email"
+                required
+                autoComplete="email"
+                className="w-full px-4 py-3 text-base rounded-lg border border-slate-200 focus:ring-brand-500 focus:border-brand-500 outline-none transition-all"
+                value={email}
+                onChange={(e) => { setEmail(e.target.value); setError(''); }}
+              />
+            </div>
+
+            {!useMagicLink && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Password</label>
+                <input
+                  type="password"
+                  required
+                  autoComplete="current-password"
+                  className="w-full px-4 py-3 text-base rounded-lg border border-slate-200 focus:ring-brand-500 focus:border-brand-500 outline-none transition-all"
+                  value={password}
+                  onChange={(e) => { setPassword(e.target.value); setError(''); }}
+                />
+              </div>
+            )}
+
+            {errorMessage}
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full flex items-center justify-center gap-2 bg-brand-600 hover:bg-brand-700 text-white font-semibold py-3 px-6 rounded-xl transition-all shadow-lg shadow-brand-200 transform active:scale-[0.98] touch-manipulation disabled:opacity-70 disabled:cursor-not-allowed"
+            >
+              {loading ? (
+                  <>
+                    <Loader2 size={18} className="animate-spin" /> Signing in...
+                  </>
+              ) : useMagicLink ? (
+                  <><Mail size={18} /> Email Me a Link</>
+              ) : (
+                  <>Sign In <ChevronRight size={18} /></>
+              )}
+            </button>
+
+            <button
+              type="button"
+              onClick={() => { setUseMagicLink(!useMagicLink); setError(''); }}
+              className="w-full text-sm text-slate-500 hover:text-brand-600 py-2"
+            >
+              {useMagicLink ? 'Use password instead' : 'Email me a sign-in link instead'}
+            </button>
+          </form>
+          )}
+        </div>
       ) : (
         <div className="w-full max-w-md bg-white rounded-2xl shadow-lg border border-slate-100 p-6 sm:p-8">
           <button 
-            onClick={() => { setRole('selection'); setError(''); }}
+            onClick={backToSelection}
             className="text-sm text-slate-400 hover:text-slate-600 mb-4 sm:mb-6 flex items-center gap-1 touch-manipulation py-2"
           >
             ← Back
@@ -82,27 +189,25 @@ export const LoginScreen: React.FC<Props> = ({ onTutorSelect, onStudentLogin })
           <form onSubmit={handleStudentSubmit}>
             <div className="mb-6">
               <label className="block text-sm font-medium text-slate-700 mb-2">
-                What's your name?
+                Your login code
               </label>
               <div className="relative">
                 <input
                   type="text"
                   required
-                  className={`w-full px-4 py-3 text-base rounded-lg border ${error ? 'border-red-300 focus:ring-red-500 focus:border-red-500' : 'border-slate-200 focus:ring-blue-500 focus:border-blue-500'} outline-none transition-all`}
-                  placeholder="Enter your name"
-                  value={studentName}
+                  autoComplete="off"
+                  autoCapitalize="characters"
+                  className={`w-full px-4 py-3 text-lg font-mono tracking-widest uppercase rounded-lg border ${error ? 'border-red-300 focus:ring-red-500 focus:border-red-500' : 'border-slate-200 focus:ring-blue-500 focus:border-blue-500'} outline-none transition-all`}
+                  placeholder="e.g. K7MQ2XPA"
+                  value={loginCode}
                   onChange={(e) => {
-                      setStudentName(e.target.value);
+                      setLoginCode(e.target.value);
                       setError('');
                   }}
                 />
               </div>
-              {error && (
-                  <div className="flex items-center gap-2 mt-2 text-sm text-red-600">
-                      <AlertCircle size={16} />
-                      <span>{error}</span>
-                  </div>
-              )}
+              <p className="text-xs text-slate-400 mt-2">Your tutor gives you this code.</p>
+              {errorMessage}
             </div>
             
             <button
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Sparkles } from 'lucide-react';
+import { CriterionScore } from '@/types';
+import { getCriterionLabel } from '@/lib/marking';
+
+interface Props {
+  criteria: CriterionScore[];
+}
+
+// Per-criterion sub-scores from AI marking
+export const MarkingBreakdown: React.FC<Props> = ({ criteria }) => (
+  <div className="p-3 bg-white/70 rounded-lg border border-slate-200 space-y-2">
+    <span className="text-xs font-bold text-slate-400 uppercase flex items-center gap-1">
+      <Sparkles size={12} /> Marking Breakdown
+    </span>
+    {criteria.map(c => (
+      <div key={c.criterion}>
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-semibold text-slate-700 w-28 shrink-0">{getCriterionLabel(c.criterion)}</span>
+          <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full ${c.score >= 80 ? 'bg-green-500' : c.score >= 50 ? 'bg-yellow-500' : 'bg-red-500'}`}
+              style={{ width: `${c.score}%` }}
+            />
+          </div>
+          <span className="text-xs font-bold text-slate-600 w-10 text-right">{c.score}%</span>
+        </div>
+        {c.explanation && <p className="text-xs text-slate-500 mt-0.5 ml-[7.5rem]">{c.explanation}</p>}
+      </div>
+    ))}
+  </div>
+);
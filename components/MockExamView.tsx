@@ -0,0 +1,611 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExamAttempt, ExamPaper, ExamTier, ToneAssessment } from '../types';
+import { generateMockPaper } from '@/lib/services/geminiService';
+import { confirmExamMarks, getExamAttempts, saveExamAttempt } from '@/lib/services/storage';
+import { isAnswerComplete } from '@/lib/exercises';
+import {
+  EXAM_PAPERS, EXAM_TIERS, LISTENING_PLAYS, PAPER_SPECS,
+  formatGrade, getPaperLabel, getRemainingSeconds, getTierLabel,
+} from '@/lib/exams';
+import { getRubric } from '@/lib/rubrics';
+import { assessRecording } from '@/lib/toneAnalysis';
+import { createSpeechContext, speakText } from '@/lib/audio';
+import { ExerciseAnswerInput } from './ExerciseAnswerInput';
+import { ExamAttemptReview } from './ExamAttemptReview';
+import { AlertTriangle, ArrowLeft, BookOpen, CheckCircle2, ChevronLeft, ChevronRight, Clock, GraduationCap, Headphones, Languages, Loader2, Mic, PenTool, Timer, Volume2 } from 'lucide-react';
+
+interface Props {
+  studentId: string;
+  studentName: string;
+  onBack: () => void;
+}
+
+type Phase = 'setup' | 'generating' | 'exam' | 'marking' | 'marking-failed' | 'results';
+
+// Seconds before marking is retried automatically, doubling after each failure
+const MARKING_RETRY_SECONDS = 5;
+const MAX_MARKING_RETRY_SECONDS = 120;
+
+const PAPER_ICONS: Record<ExamPaper, React.ElementType> = {
+  listening: Headphones,
+  reading: BookOpen,
+  speaking: Mic,
+  writing: PenTool,
+};
+
+const formatClock = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const isQuestionAnswered = (attempt: ExamAttempt, idx: number) =>
+  attempt.paper === 'speaking'
+    ? attempt.answers[idx] === 'recorded'
+    : isAnswerComplete(attempt.questions[idx].exercise, attempt.answers[idx]);
+
+// Marked by the generate function or the tutor; older attempts were marked in the browser
+const isMarked = (attempt: ExamAttempt) =>
+  !!attempt.markedAt || !!attempt.tutorAdjustedMarks || attempt.grade !== undefined;
+
+export const MockExamView: React.FC<Props> = ({ studentId, studentName, onBack }) => {
+  const [phase, setPhase] = useState<Phase>('setup');
+  const [paper, setPaper] = useState<ExamPaper>('reading');
+  const [tier, setTier] = useState<ExamTier>('foundation');
+  const [attempts, setAttempts] = useState<ExamAttempt[]>([]);
+  const [loadingAttempts, setLoadingAttempts] = useState(true);
+  const [current, setCurrent] = useState<ExamAttempt | null>(null);
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [remaining, setRemaining] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [markingFailures, setMarkingFailures] = useState(0);
+
+  // Listening
+  const [playing, setPlaying] = useState(false);
+  const audioContextRef = useRef<AudioContext | null>(null);
+
+  // Speaking
+  const [isRecording, setIsRecording] = useState(false);
+  const [analyzing, setAnalyzing] = useState(false);
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+
+  // Latest attempt for the timer and recorder callbacks
+  const currentRef = useRef<ExamAttempt | null>(null);
+  const submittingRef = useRef(false);
+  useEffect(() => {
+    currentRef.current = current;
+  }, [current]);
+
+  const loadAttempts = async () => {
+    setLoadingAttempts(true);
+    setAttempts(await getExamAttempts(studentId));
+    setLoadingAttempts(false);
+  };
+
+  useEffect(() => {
+    loadAttempts();
+  }, [studentId]);
+
+  const inProgress = attempts.find(a => !a.submittedAt);
+
+  const beginAttempt = (attempt: ExamAttempt) => {
+    setCurrent(attempt);
+    currentRef.current = attempt;
+    setQuestionIndex(0);
+    setRemaining(getRemainingSeconds(attempt));
+    submittingRef.current = false;
+    setMarkingFailures(0);
+    setPhase('exam');
+  };
+
+  const handleStart = async () => {
+    setError(null);
+    setPhase('generating');
+    const questions = await generateMockPaper(paper, tier);
+    if (questions.length === 0) {
+      setError('Could not create the paper. Check your connection and try again.');
+      setPhase('setup');
+      return;
+    }
+
+    const attempt: ExamAttempt = {
+      id: crypto.randomUUID(),
+      studentId,
+      studentName,
+      paper,
+      tier,
+      durationMinutes: PAPER_SPECS[paper][tier].durationMinutes,
+      questions,
+      answers: new Array(questions.length).fill(''),
+      toneAssessments: paper === 'speaking' ? new Array(questions.length).fill(null) : undefined,
+      startedAt: new Date().toISOString(),
+    };
+    beginAttempt(await saveExamAttempt(attempt));
+  };
+
+  const handleSubmit = async (timedOut = false) => {
+    const attempt = currentRef.current;
+    if (!attempt || submittingRef.current) return;
+    if (!timedOut) {
+      const unanswered = attempt.questions.filter((_, i) => !isQuestionAnswered(attempt, i)).length;
+      const message = unanswered > 0
+        ? `You have ${unanswered} unanswered question(s). Submit anyway?`
+        : 'Submit your paper? You cannot change your answers afterwards.';
+      if (!confirm(message)) return;
+    }
+
+    submittingRef.current = true;
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
+      mediaRecorderRef.current.stop();
+    }
+    const submitted = await saveExamAttempt({ ...attempt, submittedAt: new Date().toISOString(), timedOut });
+    currentRef.current = submitted;
+    setCurrent(submitted);
+    markSubmission();
+  };
+
+  // Answers are final once submitted, so a failed marking is retried rather than reopening the paper
+  const markSubmission = async () => {
+    const attempt = currentRef.current;
+    if (!attempt) return;
+    setPhase('marking');
+    try {
+      const saved = await confirmExamMarks(attempt);
+      currentRef.current = saved;
+      setCurrent(saved);
+      setPhase('results');
+      loadAttempts();
+    } catch (e) {
+      console.error('Failed to mark exam:', e);
+      setMarkingFailures(failures => failures + 1);
+      setPhase('marking-failed');
+    }
+  };
+
+  const markingRetrySeconds = Math.min(MARKING_RETRY_SECONDS * 2 ** Math.max(0, markingFailures - 1), MAX_MARKING_RETRY_SECONDS);
+
+  useEffect(() => {
+    if (phase !== 'marking-failed') return;
+    const timer = setTimeout(markSubmission, markingRetrySeconds * 1000);
+    return () => clearTimeout(timer);
+  }, [phase, markingFailures]);
+
+  const handleResume = (attempt: ExamAttempt) => {
+    beginAttempt(attempt);
+    if (getRemainingSeconds(attempt) === 0) handleSubmit(true);
+  };
+
+  // Countdown; the paper is submitted automatically when time runs out
+  useEffect(() => {
+    if (phase !== 'exam' || !current) return;
+    const timer = setInterval(() => {
+      const attempt = currentRef.current;
+      if (!attempt) return;
+      const seconds = getRemainingSeconds(attempt);
+      setRemaining(seconds);
+      if (seconds === 0) handleSubmit(true);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [phase, current?.id]);
+
+  const updateAttempt = (changes: Partial<ExamAttempt>) => {
+    const attempt = currentRef.current;
+    if (!attempt) return;
+    const next = { ...attempt, ...changes };
+    currentRef.current = next;
+    setCurrent(next);
+  };
+
+  const handleAnswerChange = (value: string) => {
+    if (!current) return;
+    const answers = [...current.answers];
+    answers[questionIndex] = value;
+    updateAttempt({ answers });
+  };
+
+  // Answers are saved locally whenever the student moves between questions
+  const goToQuestion = (idx: number) => {
+    if (currentRef.current) saveExamAttempt(currentRef.current);
+    setQuestionIndex(idx);
+  };
+
+  // Plays are saved with the attempt so resuming the paper doesn't hand out fresh ones
+  const setPlaysUsed = (idx: number, change: number) => {
+    const attempt = currentRef.current;
+    if (!attempt) return;
+    const listeningPlays = attempt.questions.map((_, i) => attempt.listeningPlays?.[i] || 0);
+    listeningPlays[idx] += change;
+    updateAttempt({ listeningPlays });
+    if (currentRef.current) saveExamAttempt(currentRef.current);
+  };
+
+  const playRecording = async (text: string) => {
+    const idx = questionIndex;
+    if (playing || (current?.listeningPlays?.[idx] || 0) >= LISTENING_PLAYS) return;
+    setPlaying(true);
+    setPlaysUsed(idx, 1);
+    try {
+      if (!audioContextRef.current) audioContextRef.current = createSpeechContext();
+      const { ended } = await speakText(text, audioContextRef.current);
+      await ended;
+    } catch (e) {
+      console.error("Audio playback failed", e);
+      // A failed play doesn't use up an attempt
+      setPlaysUsed(idx, -1);
+    } finally {
+      setPlaying(false);
+    }
+  };
+
+  const startRecording = async () => {
+    const idx = questionIndex;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mediaRecorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      mediaRecorderRef.current = mediaRecorder;
+
+      mediaRecorder.ondataavailable = (event) => chunks.push(event.data);
+      mediaRecorder.onstop = async () => {
+        stream.getTracks().forEach(track => track.stop());
+        setIsRecording(false);
+        const attempt = currentRef.current;
+        const pinyin = attempt?.questions[idx]?.exercise.pinyin;
+        if (!attempt || !pinyin) return;
+
+        // Assessed now but only shown with the results
+        setAnalyzing(true);
+        let assessment: ToneAssessment | null = null;
+        try {
+          assessment = await assessRecording(new Blob(chunks, { type: mediaRecorder.mimeType || 'audio/webm' }), pinyin);
+        } catch (err) {
+          console.warn("Tone analysis failed", err);
+        }
+        setAnalyzing(false);
+
+        const latest = currentRef.current || attempt;
+        const answers = [...latest.answers];
+        const toneAssessments = [...(latest.toneAssessments || latest.questions.map(() => null))];
+        answers[idx] = 'recorded';
+        toneAssessments[idx] = assessment;
+        updateAttempt({ answers, toneAssessments });
+        if (currentRef.current) saveExamAttempt(currentRef.current);
+      };
+
+      mediaRecorder.start();
+      setIsRecording(true);
+    } catch (err) {
+      console.error("Error accessing microphone", err);
+      alert("Microphone access denied or not available.");
+    }
+  };
+
+  const stopRecording = () => {
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
+      mediaRecorderRef.current.stop();
+    }
+  };
+
+  // --- SETUP ---
+  if (phase === 'setup' || phase === 'generating') {
+    const spec = PAPER_SPECS[paper][tier];
+    return (
+      <div className="min-h-full bg-slate-50 flex flex-col">
+        <header className="bg-white border-b border-slate-200 px-6 py-4 flex items-center gap-4 sticky top-0 z-10">
+          <button onClick={onBack} className="p-2 hover:bg-slate-100 rounded-lg text-slate-500 transition-colors">
+            <ArrowLeft size={20} />
+          </button>
+          <div>
+            <h2 className="text-lg font-bold text-slate-800">Mock Exams</h2>
+            <p className="text-xs text-slate-500">Timed GCSE-style papers</p>
+          </div>
+        </header>
+
+        <main className="flex-1 p-6 max-w-4xl mx-auto w-full space-y-8">
+          {inProgress && (
+            <div className="p-4 rounded-xl bg-amber-50 border border-amber-200 flex items-center justify-between gap-4">
+              <div>
+                <p className="font-semibold text-amber-800">
+                  {getPaperLabel(inProgress.paper)} ({getTierLabel(inProgress.tier)}) in progress
+                </p>
+                <p className="text-sm text-amber-700">{formatClock(getRemainingSeconds(inProgress))} remaining</p>
+              </div>
+              <button
+                onClick={() => handleResume(inProgress)}
+                className="px-4 py-2 bg-amber-600 hover:bg-amber-700 text-white rounded-lg font-semibold"
+              >
+                Resume
+              </button>
+            </div>
+          )}
+
+          <section>
+            <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Paper</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {EXAM_PAPERS.map(p => {
+                const Icon = PAPER_ICONS[p.paper];
+                return (
+                  <button
+                    key={p.paper}
+                    onClick={() => setPaper(p.paper)}
+                    className={`p-4 rounded-xl border-2 text-left flex items-start gap-3 transition-all ${
+                      paper === p.paper ? 'border-brand-500 bg-brand-50' : 'border-slate-200 bg-white hover:border-brand-300'
+                    }`}
+                  >
+                    <Icon size={24} className={paper === p.paper ? 'text-brand-600' : 'text-slate-400'} />
+                    <div>
+                      <p className="font-bold text-slate-800">{p.label}</p>
+                      <p className="text-sm text-slate-500">{p.description}</p>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Tier</h3>
+            <div className="inline-flex bg-slate-100 rounded-lg p-1">
+              {EXAM_TIERS.map(t => (
+                <button
+                  key={t.tier}
+                  onClick={() => setTier(t.tier)}
+                  className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                    tier === t.tier ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  {t.label}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <div className="bg-white p-6 rounded-2xl border border-slate-200 space-y-4">
+            <div className="flex flex-wrap gap-4 text-sm text-slate-600">
+              <span className="flex items-center gap-1"><Timer size={16} /> {spec.durationMinutes} minutes</span>
+              <span className="flex items-center gap-1"><GraduationCap size={16} /> {tier === 'higher' ? 'Grades 4-9' : 'Grades 1-5'}</span>
+              {paper === 'listening' && <span className="flex items-center gap-1"><Volume2 size={16} /> Each recording plays {LISTENING_PLAYS} times</span>}
+            </div>
+            <p className="text-sm text-slate-500">
+              The timer starts as soon as the paper is ready and keeps running if you leave. You will not see any marks
+              until you submit; the paper is submitted automatically when time runs out.
+            </p>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <button
+              onClick={handleStart}
+              disabled={phase === 'generating' || !!inProgress}
+              className="w-full sm:w-auto px-8 py-3 rounded-xl font-semibold bg-brand-600 hover:bg-brand-700 text-white transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {phase === 'generating' ? <><Loader2 size={18} className="animate-spin" /> Preparing paper...</> : 'Start Exam'}
+            </button>
+          </div>
+
+          <section>
+            <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Past Papers</h3>
+            {loadingAttempts ? (
+              <Loader2 size={24} className="text-brand-500 animate-spin" />
+            ) : attempts.filter(a => a.submittedAt).length === 0 ? (
+              <p className="text-sm text-slate-400 italic">No mock exams taken yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {attempts.filter(a => a.submittedAt).map(a => (
+                  <button
+                    key={a.id}
+                    onClick={() => {
+                      setCurrent(a);
+                      currentRef.current = a;
+                      // Submitted while offline or before marking finished: mark it now
+                      if (!isMarked(a)) markSubmission();
+                      else setPhase('results');
+                    }}
+                    className="w-full p-3 bg-white rounded-xl border border-slate-200 hover:border-brand-300 flex items-center justify-between gap-3 text-left"
+                  >
+                    <div>
+                      <p className="font-semibold text-slate-700">{getPaperLabel(a.paper)} · {getTierLabel(a.tier)}</p>
+                      <p className="text-xs text-slate-500">{new Date(a.submittedAt!).toLocaleDateString()}</p>
+                    </div>
+                    <span className="text-sm font-bold px-3 py-1 rounded-full bg-brand-50 text-brand-700">
+                      {isMarked(a) ? `Grade ${formatGrade(a.grade)}` : 'Not marked yet'}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </section>
+        </main>
+      </div>
+    );
+  }
+
+  // --- MARKING ---
+  if (phase === 'marking' || !current) {
+    return (
+      <div className="min-h-full flex flex-col items-center justify-center gap-4 p-6">
+        <Loader2 size={40} className="text-brand-500 animate-spin" />
+        <p className="text-slate-600 font-medium">Marking your paper...</p>
+      </div>
+    );
+  }
+
+  if (phase === 'marking-failed') {
+    return (
+      <div className="min-h-full flex flex-col items-center justify-center gap-4 p-6 text-center">
+        <AlertTriangle size={40} className="text-amber-500" />
+        <div>
+          <p className="text-slate-800 font-semibold">Your paper couldn't be marked yet</p>
+          <p className="text-sm text-slate-500 mt-1">
+            Your answers are saved. We'll try again in {markingRetrySeconds} seconds.
+          </p>
+        </div>
+        <button
+          onClick={markSubmission}
+          className="px-4 py-2 bg-brand-600 hover:bg-brand-700 text-white rounded-lg font-semibold"
+        >
+          Try Again Now
+        </button>
+      </div>
+    );
+  }
+
+  // --- RESULTS ---
+  if (phase === 'results') {
+    return (
+      <div className="min-h-full bg-slate-50 flex flex-col">
+        <header className="bg-white border-b border-slate-200 px-6 py-4 flex items-center gap-4 sticky top-0 z-10">
+          <button onClick={() => setPhase('setup')} className="p-2 hover:bg-slate-100 rounded-lg text-slate-500 transition-colors">
+            <ArrowLeft size={20} />
+          </button>
+          <h2 className="text-lg font-bold text-slate-800">Results</h2>
+        </header>
+        <main className="flex-1 p-6 max-w-3xl mx-auto w-full">
+          <ExamAttemptReview attempt={current} />
+        </main>
+      </div>
+    );
+  }
+
+  // --- EXAM ---
+  const question = current.questions[questionIndex];
+  const ex = question.exercise;
+  const answer = current.answers[questionIndex] || '';
+  const rubric = getRubric(ex.rubricId);
+  const playsLeft = LISTENING_PLAYS - (current.listeningPlays?.[questionIndex] || 0);
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex flex-col">
+      <header className="bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between gap-4 sticky top-0 z-10">
+        <div>
+          <h2 className="font-bold text-slate-800">{getPaperLabel(current.paper)} · {getTierLabel(current.tier)}</h2>
+          <p className="text-xs text-slate-500">Question {questionIndex + 1} of {current.questions.length}</p>
+        </div>
+        <div className={`flex items-center gap-2 font-mono text-lg font-bold ${remaining < 300 ? 'text-red-600' : 'text-slate-700'}`}>
+          <Clock size={18} /> {formatClock(remaining)}
+        </div>
+        <button
+          onClick={() => handleSubmit()}
+          className="px-4 py-2 bg-brand-600 hover:bg-brand-700 text-white rounded-lg font-semibold"
+        >
+          Submit
+        </button>
+      </header>
+
+      <main className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-3xl mx-auto space-y-6">
+          <div className="flex flex-wrap gap-2">
+            {current.questions.map((_, idx) => (
+              <button
+                key={idx}
+                onClick={() => goToQuestion(idx)}
+                className={`w-9 h-9 rounded-lg text-sm font-bold border-2 transition-colors ${
+                  idx === questionIndex
+                    ? 'border-brand-500 bg-brand-600 text-white'
+                    : isQuestionAnswered(current, idx)
+                    ? 'border-brand-200 bg-brand-50 text-brand-700'
+                    : 'border-slate-200 bg-white text-slate-500'
+                }`}
+              >
+                {idx + 1}
+              </button>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8 space-y-4">
+            <div className="flex justify-between items-center">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+                [{question.marks} mark{question.marks === 1 ? '' : 's'}]
+              </span>
+              {rubric && <span className="text-xs font-bold text-amber-700 bg-amber-50 px-2 py-1 rounded">{rubric.name}</span>}
+            </div>
+
+            {question.audioScript && (
+              <button
+                onClick={() => playRecording(question.audioScript!)}
+                disabled={playing || playsLeft <= 0}
+                className="w-full py-4 bg-indigo-50 rounded-xl hover:bg-indigo-100 flex items-center justify-center gap-3 text-indigo-700 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {playing ? <Loader2 size={20} className="animate-spin" /> : <Headphones size={20} />}
+                {playsLeft > 0 ? `Play recording (${playsLeft} left)` : 'No plays left'}
+              </button>
+            )}
+
+            {ex.passage && (
+              <div className="p-5 bg-slate-50 rounded-xl border border-slate-200">
+                <p className="text-lg text-slate-800 chinese-text leading-relaxed">{ex.passage}</p>
+              </div>
+            )}
+
+            {ex.type === 'pinyin-to-character' && ex.pinyin && (
+              <p className="text-3xl text-brand-600 font-medium">{ex.pinyin}</p>
+            )}
+
+            <h3 className="text-xl font-bold text-slate-800 chinese-text">{ex.question}</h3>
+            {ex.questionTranslation && (
+              <p className="text-slate-500 flex items-center gap-2">
+                <Languages size={16} /> {ex.questionTranslation}
+              </p>
+            )}
+
+            {current.paper === 'speaking' ? (
+              <div className="text-center space-y-3 pt-2">
+                <button
+                  onClick={isRecording ? stopRecording : startRecording}
+                  disabled={analyzing}
+                  className={`w-20 h-20 rounded-full flex items-center justify-center mx-auto transition-all shadow-md ${
+                    isRecording ? 'bg-red-600 text-white animate-pulse' : 'bg-red-100 text-red-600 hover:bg-red-600 hover:text-white'
+                  } disabled:opacity-50`}
+                  title={isRecording ? 'Stop recording' : 'Start recording'}
+                >
+                  {isRecording ? <div className="w-8 h-8 bg-white rounded-full"></div> : <Mic size={32} />}
+                </button>
+                <p className="text-sm text-slate-600">
+                  {isRecording ? 'Recording... tap to stop'
+                    : analyzing ? 'Saving your recording...'
+                    : answer === 'recorded' ? <span className="text-green-600 flex items-center justify-center gap-1"><CheckCircle2 size={16} /> Recorded. Tap to record again.</span>
+                    : 'Tap the microphone and read the text aloud'}
+                </p>
+              </div>
+            ) : (
+              <>
+                <ExerciseAnswerInput
+                  exercise={ex}
+                  answer={answer}
+                  onChange={handleAnswerChange}
+                  seed={`${current.id}-${questionIndex}`}
+                />
+                {rubric && (
+                  <p className="text-xs text-slate-400 text-right">
+                    {Array.from(answer.replace(/\s/g, '')).length} characters · aim for about {rubric.wordCount} words
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="flex justify-between gap-4">
+            <button
+              onClick={() => goToQuestion(questionIndex - 1)}
+              disabled={questionIndex === 0 || isRecording}
+              className="px-6 py-3 rounded-xl font-semibold text-slate-600 hover:bg-slate-100 transition-colors disabled:opacity-40 flex items-center gap-1"
+            >
+              <ChevronLeft size={18} /> Previous
+            </button>
+            {questionIndex < current.questions.length - 1 ? (
+              <button
+                onClick={() => goToQuestion(questionIndex + 1)}
+                disabled={isRecording}
+                className="px-8 py-3 rounded-xl font-semibold bg-brand-600 hover:bg-brand-700 text-white transition-colors disabled:opacity-50 flex items-center gap-1"
+              >
+                Next <ChevronRight size={18} />
+              </button>
+            ) : (
+              <button
+                onClick={() => handleSubmit()}
+                disabled={isRecording || analyzing}
+                className="px-8 py-3 rounded-xl font-semibold bg-brand-600 hover:bg-brand-700 text-white transition-colors disabled:opacity-50"
+              >
+                Submit Paper
+              </button>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Tone } from '@/types';
+import { setToneBeforeCursor } from '@/lib/pinyin';
+
+interface Props {
+  value: string;
+  onChange: (value: string) => void;
+  inputRef: React.RefObject<HTMLInputElement>;
+  disabled?: boolean;
+}
+
+const TONE_KEYS: { tone: Tone; mark: string; label: string }[] = [
+  { tone: 1, mark: 'ā', label: '1st' },
+  { tone: 2, mark: 'á', label: '2nd' },
+  { tone: 3, mark: 'ǎ', label: '3rd' },
+  { tone: 4, mark: 'à', label: '4th' },
+  { tone: 5, mark: 'a', label: 'Neutral' },
+];
+
+// On-screen tone marks for students without a Chinese input method: type the syllable,
+// then tap its tone. Tone numbers (ni3 hao3) are accepted as answers too.
+export const PinyinKeyboard: React.FC<Props> = ({ value, onChange, inputRef, disabled = false }) => {
+  const cursor = () => inputRef.current?.selectionStart ?? value.length;
+
+  // Keep focus and move the cursor to the end of the edit
+  const apply = (text: string, position: number) => {
+    onChange(text);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleTone = (tone: Tone) => {
+    const result = setToneBeforeCursor(value, cursor(), tone);
+    apply(result.text, result.cursor);
+  };
+
+  const handleInsert = (text: string) => {
+    const at = cursor();
+    apply(value.slice(0, at) + text + value.slice(at), at + text.length);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {TONE_KEYS.map(key => (
+        <button
+          key={key.tone}
+          // Keep the input's cursor position when the key is pressed
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => handleTone(key.tone)}
+          disabled={disabled}
+          title={`${key.label} tone on the syllable before the cursor`}
+          className="px-3 py-2 rounded-lg border-2 border-slate-200 hover:border-brand-300 bg-white text-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <span className="text-lg font-medium">{key.mark}</span>
+          <span className="ml-1.5 text-xs text-slate-400">{key.label}</span>
+        </button>
+      ))}
+      <button
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={() => handleInsert('ü')}
+        disabled={disabled}
+        title="Insert ü (or type v)"
+        className="px-3 py-2 rounded-lg border-2 border-slate-200 hover:border-brand-300 bg-white text-lg font-medium text-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        ü
+      </button>
+    </div>
+  );
+};
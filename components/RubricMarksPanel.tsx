@@ -0,0 +1,69 @@
+import React from 'react';
+import { ClipboardList } from 'lucide-react';
+import { Rubric, RubricMark } from '@/types';
+import { findBand, getRubricMaxMark, getRubricTotal } from '@/lib/rubrics';
+
+interface Props {
+  rubric: Rubric;
+  marks: RubricMark[];
+  suggested?: boolean; // Marks were estimated, not yet confirmed by the tutor
+  editable?: boolean;
+  onChange?: (marks: RubricMark[]) => void;
+}
+
+// Band-by-band marks for a writing task marked against a rubric
+export const RubricMarksPanel: React.FC<Props> = ({ rubric, marks, suggested, editable, onChange }) => {
+  const markFor = (criterionId: string) => marks.find(m => m.criterionId === criterionId)?.mark ?? 0;
+
+  const setMark = (criterionId: string, mark: number) => {
+    const others = marks.filter(m => m.criterionId !== criterionId);
+    onChange?.([...others, { criterionId, mark }]);
+  };
+
+  return (
+    <div className={`p-3 rounded-lg bg-amber-50 border border-amber-200 space-y-3 ${suggested ? 'border-dashed' : ''}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-bold text-amber-700 uppercase tracking-wider flex items-center gap-1">
+          <ClipboardList size={12} /> {rubric.name}
+          {suggested && <span className="normal-case font-medium text-amber-500">(suggested)</span>}
+        </span>
+        <span className="text-sm font-bold text-amber-800">
+          {getRubricTotal(rubric, marks)} / {getRubricMaxMark(rubric)} marks
+        </span>
+      </div>
+      {suggested && (
+        <p className="text-xs text-amber-600">Estimated from the automatic score until a tutor sets the marks.</p>
+      )}
+
+      {rubric.criteria.map(criterion => {
+        const mark = markFor(criterion.id);
+        const band = findBand(criterion, mark);
+        return (
+          <div key={criterion.id}>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-semibold text-slate-700">{criterion.label}</span>
+              {editable ? (
+                <select
+                  value={mark}
+                  onChange={(e) => setMark(criterion.id, parseInt(e.target.value))}
+                  className="px-2 py-1 border border-amber-300 rounded text-sm bg-white"
+                >
+                  {Array.from({ length: criterion.maxMark + 1 }, (_, i) => criterion.maxMark - i).map(value => (
+                    <option key={value} value={value}>{value} / {criterion.maxMark}</option>
+                  ))}
+                </select>
+              ) : (
+                <span className="text-sm font-bold text-slate-700">{mark} / {criterion.maxMark}</span>
+              )}
+            </div>
+            {band && (
+              <p className="text-xs text-slate-500 mt-0.5">
+                Band {band.minMark === band.maxMark ? band.minMark : `${band.minMark}-${band.maxMark}`}: {band.descriptor}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
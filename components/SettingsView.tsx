@@ -1,17 +1,28 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Key, Save, Trash2, AlertTriangle, CheckCircle2, Cloud, Database } from 'lucide-react';
-import { checkApiKeys } from '@/lib/services/geminiService';
+import { ArrowLeft, Key, Save, Trash2, AlertTriangle, CheckCircle2, Cloud, Database, Loader2 } from 'lucide-react';
+import { checkApiKeys, clearGenerationCache } from '@/lib/services/geminiService';
+import { clearLocalData } from '@/lib/services/sync';
 
 interface Props {
   onBack: () => void;
 }
 
+// Actions the server caches (see netlify/functions/ai/cache.ts)
+const CACHED_ACTIONS = [
+  { action: 'generateWordDetails', label: 'Word details' },
+  { action: 'generateExampleSentence', label: 'Example sentences' },
+  { action: 'generateSpeech', label: 'Pronunciation audio' },
+  { action: 'generateVocabularyList', label: 'Generated vocabulary lists' },
+];
+
 export const SettingsView: React.FC<Props> = ({ onBack }) => {
   const [supabaseUrl, setSupabaseUrl] = useState('');
   const [supabaseKey, setSupabaseKey] = useState('');
   const [saved, setSaved] = useState(false);
   const [apiKeyStatus, setApiKeyStatus] = useState<{ geminiConfigured: boolean; openaiConfigured: boolean } | null>(null);
   const [loadingKeys, setLoadingKeys] = useState(true);
+  const [cacheAction, setCacheAction] = useState('');
+  const [clearingCache, setClearingCache] = useState(false);
 
   useEffect(() => {
     // Pre-fill with defaults if local storage is empty, so user sees the active configuration
@@ -39,13 +50,27 @@ export const SettingsView: React.FC<Props> = ({ onBack }) => {
     setTimeout(() => window.location.reload(), 1000);
   };
 
-  const handleClearData = () => {
-    if (confirm("Are you sure? This will delete all student progress and lesson history from LOCAL storage (not Cloud).")) {
-      localStorage.removeItem('mandarin_master_lessons');
+  const handleClearData = async () => {
+    if (confirm("Are you sure? This will delete all student progress and lesson history from LOCAL storage (not Cloud). Changes not yet synced are kept.")) {
+      await clearLocalData();
       alert("Local data cleared.");
     }
   };
 
+  const handleClearCache = async () => {
+    const label = CACHED_ACTIONS.find(a => a.action === cacheAction)?.label || 'all cached AI content';
+    if (!confirm(`Clear ${label.toLowerCase()}? It will be generated again (and charged) the next time it is needed.`)) return;
+    setClearingCache(true);
+    try {
+      const removed = await clearGenerationCache(cacheAction || undefined);
+      alert(`Cleared ${removed} cached item${removed === 1 ? '' : 's'}.`);
+    } catch (error: any) {
+      alert(`Failed to clear the cache: ${error?.message || 'unknown error'}`);
+    } finally {
+      setClearingCache(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col items-center p-6">
       <div className="w-full max-w-2xl bg-white rounded-2xl shadow-lg border border-slate-200 overflow-hidden">
@@ -177,7 +202,33 @@ export const SettingsView: React.FC<Props> = ({ onBack }) => {
               </div>
               <div>
                 <h2 className="text-lg font-bold text-slate-800">Danger Zone</h2>
-                <p className="text-slate-500 text-sm">Manage local browser data.</p>
+                <p className="text-slate-500 text-sm">Manage cached and local browser data.</p>
+              </div>
+            </div>
+
+            <div className="bg-red-50 border border-red-100 rounded-xl p-6 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3 mb-4">
+              <div className="text-red-800 text-sm">
+                <strong>Clear AI Cache:</strong> Word details, audio and vocabulary lists are generated once and reused. Clear them to regenerate.
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <select
+                  value={cacheAction}
+                  onChange={(e) => setCacheAction(e.target.value)}
+                  className="px-2 py-2 border border-red-200 rounded-lg text-sm text-slate-700 bg-white"
+                >
+                  <option value="">Everything</option>
+                  {CACHED_ACTIONS.map(a => (
+                    <option key={a.action} value={a.action}>{a.label}</option>
+                  ))}
+                </select>
+                <button 
+                  type="button"
+                  onClick={handleClearCache}
+                  disabled={clearingCache}
+                  className="px-4 py-2 bg-white border border-red-200 text-red-600 font-semibold rounded-lg hover:bg-red-600 hover:text-white transition-colors flex items-center gap-2 disabled:opacity-50"
+                >
+                  {clearingCache ? <Loader2 size={16} className="animate-spin" /> : <Database size={16} />} Clear Cache
+                </button>
               </div>
             </div>
 
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { AssignedLesson, Curriculum, SpecItemCategory } from '@/types';
+import {
+  SPEC_CATEGORIES, buildSpecCoverage, countTaggedPoints, getCoverageStatus, getCurriculumSpecification,
+} from '@/lib/specification';
+import { ClipboardList } from 'lucide-react';
+
+interface Props {
+  curriculum: Curriculum;
+  students: string[]; // Student names, as lessons are grouped in progress reports
+  lessons: AssignedLesson[];
+}
+
+const STATUS_STYLES = {
+  'not-taught': 'bg-slate-50 text-slate-300',
+  taught: 'bg-amber-50 text-amber-700',
+  assessed: 'bg-green-50 text-green-700',
+};
+
+// Spec items down the side, students across the top: has each requirement been taught and assessed?
+export const SpecCoverageMatrix: React.FC<Props> = ({ curriculum, students, lessons }) => {
+  const [category, setCategory] = useState<SpecItemCategory>('theme');
+  const spec = getCurriculumSpecification(curriculum);
+
+  if (!spec) {
+    return (
+      <div className="text-center p-12 bg-white rounded-2xl border border-dashed border-slate-300">
+        <ClipboardList className="mx-auto h-12 w-12 text-slate-300 mb-3" />
+        <p className="text-slate-500 font-medium">Choose a specification for your curriculum to track coverage.</p>
+      </div>
+    );
+  }
+
+  const tagged = countTaggedPoints(curriculum.stages);
+  const coverage = Object.fromEntries(students.map(name => [
+    name,
+    buildSpecCoverage(spec, curriculum.stages, lessons.filter(l => l.studentName === name)),
+  ]));
+  const items = spec.items.filter(item => item.category === category);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 bg-slate-50/50 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800">Specification Coverage</h2>
+          <p className="text-sm text-slate-500">{spec.board} {spec.title}</p>
+        </div>
+        <div className="flex bg-slate-100 rounded-lg p-1 self-start">
+          {SPEC_CATEGORIES.map(option => (
+            <button
+              key={option.category}
+              onClick={() => setCategory(option.category)}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                category === option.category ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {students.length === 0 ? (
+        <p className="p-8 text-center text-sm text-slate-400">No lessons assigned yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-100">
+                <th className="text-left font-bold text-slate-500 text-xs uppercase tracking-wider px-4 py-3 min-w-[16rem]">Requirement</th>
+                {students.map(name => (
+                  <th key={name} className="font-bold text-slate-700 px-3 py-3 whitespace-nowrap">{name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {items.map(item => (
+                <tr key={item.id}>
+                  <td className="px-4 py-2">
+                    <span className="font-bold text-purple-700 mr-2">{item.id}</span>
+                    <span className="text-slate-700">{item.title}</span>
+                    {category !== 'theme' && !tagged[item.id] && (
+                      <span className="ml-2 text-[10px] font-bold text-red-500 uppercase">Not in curriculum</span>
+                    )}
+                  </td>
+                  {students.map(name => {
+                    const cell = coverage[name][item.id];
+                    const status = getCoverageStatus(cell);
+                    return (
+                      <td key={name} className="px-3 py-2 text-center">
+                        <span
+                          className={`inline-block min-w-[4rem] px-2 py-1 rounded text-xs font-bold ${STATUS_STYLES[status]}`}
+                          title={cell ? `${cell.taught} lesson(s) assigned, ${cell.assessed} completed` : 'Not taught yet'}
+                        >
+                          {status === 'assessed' ? `${cell?.averageScore}%` : status === 'taught' ? 'Taught' : '–'}
+                        </span>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="px-6 py-3 border-t border-slate-100 flex flex-wrap gap-4 text-xs text-slate-500">
+        <span className="flex items-center gap-1.5"><span className={`w-3 h-3 rounded ${STATUS_STYLES.taught}`} /> Taught (assigned, not yet completed)</span>
+        <span className="flex items-center gap-1.5"><span className={`w-3 h-3 rounded ${STATUS_STYLES.assessed}`} /> Assessed (average score of completed lessons)</span>
+      </div>
+    </div>
+  );
+};
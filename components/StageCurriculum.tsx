@@ -1,18 +1,70 @@
-import React, { useState } from 'react';
-import { Stage, Topic, LearningPoint } from '../types';
-import { CURRICULUM } from '../data/curriculum';
-import { BookOpen, CheckCircle2, ChevronRight, ArrowLeft } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Stage, Topic, LearningPoint, LessonTemplate, Specification } from '../types';
+import { getCurriculum, getLessonTemplates, deleteLessonTemplate } from '@/lib/services/storage';
+import { getPointKey, groupTemplatesByPoint, matchesTemplateSearch } from '@/lib/lessonBank';
+import { getCurriculumSpecification, getSpecItem } from '@/lib/specification';
+import { BookOpen, CheckCircle2, ChevronRight, ArrowLeft, Library, Search, Send, Trash2, Loader2 } from 'lucide-react';
 
 interface Props {
   stageId: number;
   studentName: string;
   onSelectPoint: (stage: Stage, topic: Topic, point: LearningPoint) => void;
+  onSelectTemplate: (template: LessonTemplate) => void;
   onBack: () => void;
 }
 
-export const StageCurriculum: React.FC<Props> = ({ stageId, studentName, onSelectPoint, onBack }) => {
-  const stage = CURRICULUM.find(s => s.id === stageId);
+type CurriculumTab = 'topics' | 'bank';
+
+export const StageCurriculum: React.FC<Props> = ({ stageId, studentName, onSelectPoint, onSelectTemplate, onBack }) => {
+  const [stage, setStage] = useState<Stage | null>(null);
+  const [loadingStage, setLoadingStage] = useState(true);
   const [activeTopicId, setActiveTopicId] = useState<string | null>(null);
+  const [tab, setTab] = useState<CurriculumTab>('topics');
+  const [templates, setTemplates] = useState<LessonTemplate[]>([]);
+  const [loadingTemplates, setLoadingTemplates] = useState(true);
+  const [search, setSearch] = useState('');
+  const [selectedVersions, setSelectedVersions] = useState<Record<string, string>>({});
+  const [spec, setSpec] = useState<Specification | undefined>(undefined);
+
+  useEffect(() => {
+    const fetchStage = async () => {
+      const curriculum = await getCurriculum();
+      setStage(curriculum.stages.find(s => s.id === stageId) || null);
+      setSpec(getCurriculumSpecification(curriculum));
+      setLoadingStage(false);
+    };
+    fetchStage();
+  }, [stageId]);
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      setTemplates(await getLessonTemplates());
+      setLoadingTemplates(false);
+    };
+    fetchTemplates();
+  }, []);
+
+  const handleDeleteTemplate = async (template: LessonTemplate) => {
+    if (!confirm(`Delete version ${template.version} of "${template.pointDescription}" from the lesson bank?`)) return;
+    await deleteLessonTemplate(template.id);
+    setTemplates(templates.filter(t => t.id !== template.id));
+  };
+
+  const bank = groupTemplatesByPoint(templates);
+  // One card per point, searched on its newest version; this stage's points first
+  const bankEntries = Object.entries(bank)
+    .filter(([, versions]) => versions.some(v => matchesTemplateSearch(v, search)))
+    .sort(([, a], [, b]) => (b[0].stageId === stageId ? 1 : 0) - (a[0].stageId === stageId ? 1 : 0)
+      || a[0].stageId - b[0].stageId
+      || a[0].pointDescription.localeCompare(b[0].pointDescription));
+
+  if (loadingStage) {
+    return (
+      <div className="h-full flex items-center justify-center bg-slate-50">
+        <Loader2 size={40} className="text-brand-500 animate-spin" />
+      </div>
+    );
+  }
 
   if (!stage) return <div>Stage not found</div>;
 
@@ -32,10 +84,106 @@ export const StageCurriculum: React.FC<Props> = ({ stageId, studentName, onSelec
             <p className="text-sm text-brand-600 font-medium">{stage.title}</p>
           </div>
         </div>
+        <div className="flex bg-slate-100 p-1 rounded-lg">
+          <button
+            onClick={() => setTab('topics')}
+            className={`flex items-center gap-2 px-4 py-1.5 rounded-md text-sm font-medium transition-all ${tab === 'topics' ? 'bg-white text-brand-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+          >
+            <BookOpen size={16} /> Topics
+          </button>
+          <button
+            onClick={() => setTab('bank')}
+            className={`flex items-center gap-2 px-4 py-1.5 rounded-md text-sm font-medium transition-all ${tab === 'bank' ? 'bg-white text-brand-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+          >
+            <Library size={16} /> Lesson Bank
+            {Object.keys(bank).length > 0 && (
+              <span className="text-xs bg-brand-100 text-brand-700 px-1.5 rounded-full">{Object.keys(bank).length}</span>
+            )}
+          </button>
+        </div>
       </header>
 
       {/* Content */}
       <main className="flex-1 overflow-y-auto p-6 max-w-5xl mx-auto w-full">
+        {tab === 'bank' ? (
+          <>
+            <div className="mb-6">
+                <h3 className="text-2xl font-bold text-slate-900 mb-2">Lesson Bank</h3>
+                <p className="text-slate-500">Assign a saved lesson to {studentName} without generating it again.</p>
+            </div>
+            <div className="relative mb-6">
+                <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                <input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search by topic, learning point or content..."
+                    className="w-full pl-10 pr-4 py-3 border border-slate-200 rounded-xl bg-white focus:ring-2 focus:ring-brand-500 outline-none"
+                />
+            </div>
+            {loadingTemplates ? (
+                <div className="flex justify-center py-12">
+                    <Loader2 size={32} className="text-brand-500 animate-spin" />
+                </div>
+            ) : bankEntries.length === 0 ? (
+                <div className="text-center p-12 bg-white rounded-2xl border border-dashed border-slate-300">
+                    <Library className="mx-auto h-12 w-12 text-slate-300 mb-3" />
+                    <p className="text-slate-500 font-medium">
+                        {templates.length === 0 ? 'Your lesson bank is empty.' : 'No saved lessons match your search.'}
+                    </p>
+                    {templates.length === 0 && (
+                        <p className="text-sm text-slate-400">Use "Save to Bank" in the lesson editor to keep a lesson for reuse.</p>
+                    )}
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {bankEntries.map(([key, versions]) => {
+                        const selected = versions.find(v => v.id === selectedVersions[key]) || versions[0];
+                        return (
+                            <div key={key} className="bg-white p-5 rounded-2xl border border-slate-200 flex flex-col md:flex-row md:items-center gap-4">
+                                <div className="flex-1 min-w-0">
+                                    <h4 className="font-semibold text-slate-800">{selected.pointDescription}</h4>
+                                    <div className="flex flex-wrap gap-2 text-xs text-slate-500 mt-1">
+                                        <span className="bg-slate-100 px-2 py-0.5 rounded">{selected.stageTitle}</span>
+                                        <span className="bg-slate-100 px-2 py-0.5 rounded">{selected.topicTitle}</span>
+                                        <span>{selected.exercises.length} exercises · saved {new Date(selected.createdAt).toLocaleDateString()}</span>
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-2 flex-shrink-0">
+                                    {versions.length > 1 ? (
+                                        <select
+                                            value={selected.id}
+                                            onChange={(e) => setSelectedVersions({ ...selectedVersions, [key]: e.target.value })}
+                                            className="px-2 py-2 border border-slate-200 rounded-lg text-sm text-slate-700 bg-white"
+                                        >
+                                            {versions.map(v => (
+                                                <option key={v.id} value={v.id}>v{v.version}{v === versions[0] ? ' (latest)' : ''}</option>
+                                            ))}
+                                        </select>
+                                    ) : (
+                                        <span className="text-xs font-bold text-brand-700 bg-brand-50 px-2 py-1 rounded">v{selected.version}</span>
+                                    )}
+                                    <button
+                                        onClick={() => handleDeleteTemplate(selected)}
+                                        className="p-2 text-slate-400 hover:text-red-600 transition-colors"
+                                        title="Delete this version"
+                                    >
+                                        <Trash2 size={16} />
+                                    </button>
+                                    <button
+                                        onClick={() => onSelectTemplate(selected)}
+                                        className="flex items-center gap-2 bg-brand-600 hover:bg-brand-700 text-white px-4 py-2 rounded-lg text-sm font-semibold transition-colors"
+                                    >
+                                        <Send size={14} /> Review & Assign
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+          </>
+        ) : (
+        <>
         <div className="mb-8">
             <h3 className="text-2xl font-bold text-slate-900 mb-2">Learning Topics</h3>
             <p className="text-slate-500">Select a learning point to generate today's lesson.</p>
@@ -64,23 +212,42 @@ export const StageCurriculum: React.FC<Props> = ({ stageId, studentName, onSelec
 
                     {activeTopicId === topic.id && (
                         <div className="bg-slate-50/50">
-                            {topic.points.map((point) => (
-                                <button
-                                    key={point.id}
-                                    onClick={() => onSelectPoint(stage, topic, point)}
-                                    className="w-full text-left px-5 py-4 border-b border-slate-100 last:border-0 hover:bg-brand-50 group flex items-start gap-3 transition-colors"
-                                >
-                                    <CheckCircle2 size={18} className="text-slate-300 group-hover:text-brand-500 mt-0.5 flex-shrink-0" />
-                                    <span className="text-sm text-slate-700 group-hover:text-brand-800 font-medium">
-                                        {point.description}
-                                    </span>
-                                </button>
-                            ))}
+                            {topic.points.map((point) => {
+                                const banked = bank[getPointKey({ stageId: stage.id, topicId: topic.id, pointId: point.id })];
+                                return (
+                                    <button
+                                        key={point.id}
+                                        onClick={() => onSelectPoint(stage, topic, point)}
+                                        className="w-full text-left px-5 py-4 border-b border-slate-100 last:border-0 hover:bg-brand-50 group flex items-start gap-3 transition-colors"
+                                    >
+                                        <CheckCircle2 size={18} className="text-slate-300 group-hover:text-brand-500 mt-0.5 flex-shrink-0" />
+                                        <span className="flex-1 text-sm text-slate-700 group-hover:text-brand-800 font-medium">
+                                            {point.description}
+                                            {spec && point.specRefs && point.specRefs.length > 0 && (
+                                                <span className="flex flex-wrap gap-1 mt-1">
+                                                    {point.specRefs.map(ref => (
+                                                        <span key={ref} title={getSpecItem(spec, ref)?.title} className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-purple-50 text-purple-700">
+                                                            {ref}
+                                                        </span>
+                                                    ))}
+                                                </span>
+                                            )}
+                                        </span>
+                                        {banked && (
+                                            <span className="flex-shrink-0 flex items-center gap-1 text-xs font-medium text-brand-700 bg-brand-50 px-2 py-0.5 rounded-full" title="Saved in the lesson bank">
+                                                <Library size={12} /> v{banked[0].version}
+                                            </span>
+                                        )}
+                                    </button>
+                                );
+                            })}
                         </div>
                     )}
                 </div>
             ))}
         </div>
+        </>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, KeyRound, Loader2, Copy, CheckCircle2, AlertCircle, Users } from 'lucide-react';
+import { getStudents } from '@/lib/services/storage';
+import { issueStudentLoginCode } from '@/lib/services/auth';
+import { Student } from '@/types';
+
+interface Props {
+  onBack: () => void;
+}
+
+export const StudentAccessManager: React.FC<Props> = ({ onBack }) => {
+  const [students, setStudents] = useState<Student[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [issuingId, setIssuingId] = useState<string | null>(null);
+  // Codes are only shown right after issuing; the server keeps a hash
+  const [issuedCodes, setIssuedCodes] = useState<Record<string, string>>({});
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchStudents = async () => {
+      setLoading(true);
+      setStudents(await getStudents());
+      setLoading(false);
+    };
+    fetchStudents();
+  }, []);
+
+  const handleIssueCode = async (student: Student) => {
+    if (issuedCodes[student.id] || student.login_code_issued_at) {
+      if (!confirm(`Issue a new code for ${student.name}? Their current code will stop working.`)) return;
+    }
+
+    setIssuingId(student.id);
+    setError('');
+    try {
+      const code = await issueStudentLoginCode(student.id);
+      setIssuedCodes(prev => ({ ...prev, [student.id]: code }));
+      setStudents(prev => prev.map(s => s.id === student.id ? { ...s, login_code_issued_at: new Date().toISOString() } : s));
+    } catch (e: any) {
+      setError(e?.message || 'Failed to issue login code.');
+    } finally {
+      setIssuingId(null);
+    }
+  };
+
+  const handleCopy = async (studentId: string) => {
+    try {
+      await navigator.clipboard.writeText(issuedCodes[studentId]);
+      setCopiedId(studentId);
+      setTimeout(() => setCopiedId(null), 1500);
+    } catch (e) {
+      console.warn("Clipboard unavailable", e);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto p-4 sm:p-6 pb-12">
+      <button
+        onClick={onBack}
+        className="mb-6 flex items-center gap-2 text-slate-500 hover:text-slate-700 transition-colors touch-manipulation py-2"
+      >
+        <ArrowLeft size={20} /> <span className="text-base sm:text-lg">Back to Dashboard</span>
+      </button>
+
+      <div className="mb-8">
+        <h1 className="text-2xl sm:text-3xl font-bold text-slate-900 mb-2">Student Logins</h1>
+        <p className="text-sm sm:text-base text-slate-500">
+          Issue a login code and share it with your student. Each code is shown once; issuing a new one replaces the old code.
+        </p>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 mb-4 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+          <AlertCircle size={16} /> {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center gap-2 text-slate-500 p-12">
+          <Loader2 size={20} className="animate-spin" /> Loading students...
+        </div>
+      ) : students.length === 0 ? (
+        <div className="text-center p-12 bg-white rounded-2xl border border-dashed border-slate-300">
+          <Users className="mx-auto h-12 w-12 text-slate-300 mb-3" />
+          <p className="text-slate-500 font-medium">No students yet.</p>
+          <p className="text-sm text-slate-400">Create a student from Plan Lessons first.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 divide-y divide-slate-100">
+          {students.map(student => (
+            <div key={student.id} className="p-4 sm:p-5 flex flex-col sm:flex-row sm:items-center gap-3">
+              <div className="flex-1">
+                <p className="font-semibold text-slate-800">{student.name}</p>
+                <p className="text-xs text-slate-400">
+                  {student.login_code_issued_at
+                    ? `Code issued ${new Date(student.login_code_issued_at).toLocaleDateString()}`
+                    : 'No login code yet'}
+                </p>
+              </div>
+
+              {issuedCodes[student.id] && (
+                <button
+                  onClick={() => handleCopy(student.id)}
+                  className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-900 text-white font-mono tracking-widest text-lg"
+                  title="Copy code"
+                >
+                  {issuedCodes[student.id]}
+                  {copiedId === student.id ? <CheckCircle2 size={16} className="text-green-400" /> : <Copy size={16} className="text-slate-400" />}
+                </button>
+              )}
+
+              <button
+                onClick={() => handleIssueCode(student)}
+                disabled={issuingId === student.id}
+                className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg border border-slate-200 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+              >
+                {issuingId === student.id ? <Loader2 size={16} className="animate-spin" /> : <KeyRound size={16} />}
+                {student.login_code_issued_at || issuedCodes[student.id] ? 'New Code' : 'Issue Code'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
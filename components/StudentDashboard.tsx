@@ -2,16 +2,18 @@
 import React, { useEffect, useState } from 'react';
 import { AssignedLesson } from '../types';
 import { getLessonsByStudentId } from '@/lib/services/storage';
-import { BookOpen, CheckCircle, Clock, LogOut, Loader2, RefreshCw, Languages } from 'lucide-react';
+import { BookOpen, CheckCircle, Clock, LogOut, Loader2, RefreshCw, Languages, GraduationCap } from 'lucide-react';
 
 interface Props {
   studentName: string;
+  studentId: string;
   onSelectLesson: (lesson: AssignedLesson) => void;
   onLogout: () => void;
   onPracticeVocab: () => void;
+  onMockExam: () => void;
 }
 
-export const StudentDashboard: React.FC<Props> = ({ studentName, onSelectLesson, onLogout, onPracticeVocab }) => {
+export const StudentDashboard: React.FC<Props> = ({ studentName, studentId, onSelectLesson, onLogout, onPracticeVocab, onMockExam }) => {
   const [lessons, setLessons] = useState<AssignedLesson[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -19,9 +21,6 @@ export const StudentDashboard: React.FC<Props> = ({ studentName, onSelectLesson,
     setLoading(true);
     let data: AssignedLesson[] = [];
     
-    // Try to fetch by ID first if available
-    const studentId = typeof window !== 'undefined' ? localStorage.getItem('currentUserId') : null;
-    
     if (studentId) {
       data = await getLessonsByStudentId(studentId);
     } else {
@@ -34,7 +33,7 @@ export const StudentDashboard: React.FC<Props> = ({ studentName, onSelectLesson,
 
   useEffect(() => {
     loadLessons();
-  }, [studentName]);
+  }, [studentId]);
 
   return (
     <div className="w-full">
@@ -73,6 +72,7 @@ export const StudentDashboard: React.FC<Props> = ({ studentName, onSelectLesson,
             <div className="flex justify-between items-center mb-4">
                 <h2 className="text-xl font-bold text-slate-800">Quick Actions</h2>
             </div>
+            <div className="flex flex-col sm:flex-row gap-3 sm:gap-4">
             <button 
                 onClick={onPracticeVocab}
                 className="w-full sm:w-auto flex items-center gap-3 sm:gap-4 bg-gradient-to-r from-brand-500 to-brand-600 hover:from-brand-600 hover:to-brand-700 text-white p-4 sm:p-6 rounded-2xl shadow-lg shadow-brand-200 transition-all transform hover:-translate-y-1 active:scale-[0.98] group touch-manipulation"
@@ -85,6 +85,19 @@ export const StudentDashboard: React.FC<Props> = ({ studentName, onSelectLesson,
                     <p className="text-brand-100 text-xs sm:text-sm">Explore topics like Food, Time, and more.</p>
                 </div>
             </button>
+            <button 
+                onClick={onMockExam}
+                className="w-full sm:w-auto flex items-center gap-3 sm:gap-4 bg-white hover:bg-slate-50 border border-slate-200 text-slate-800 p-4 sm:p-6 rounded-2xl shadow-sm transition-all transform hover:-translate-y-1 active:scale-[0.98] group touch-manipulation"
+            >
+                <div className="bg-brand-50 p-2 sm:p-3 rounded-xl flex-shrink-0">
+                    <GraduationCap size={24} className="sm:w-8 sm:h-8 text-brand-600" />
+                </div>
+                <div className="text-left min-w-0">
+                    <h3 className="font-bold text-base sm:text-lg">Mock Exams</h3>
+                    <p className="text-slate-500 text-xs sm:text-sm">Timed Listening, Reading, Speaking and Writing papers.</p>
+                </div>
+            </button>
+            </div>
         </div>
 
         <h2 className="text-xl font-bold text-slate-800 mb-4">Assigned Lessons</h2>
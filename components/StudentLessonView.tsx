@@ -1,9 +1,19 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { AssignedLesson, Exercise } from '../types';
-import { updateLesson } from '@/lib/services/storage';
-import { generateImage, generateSpeech, getChatResponse, evaluateAnswer } from '@/lib/services/geminiService';
+import { AssignedLesson, CriterionScore, Exercise } from '../types';
+import { confirmLessonMarks, submitLesson, updateLesson } from '@/lib/services/storage';
+import { generateImage, getChatResponse, evaluateAnswer } from '@/lib/services/geminiService';
+import { createSpeechContext, playDialogueAudio, speakText } from '@/lib/audio';
+import { EXERCISE_TYPES, GAP_MARKER, bestAcceptedAnswer, formatAnswer, formatDialogue, getModelAnswer, hasCurrentAudio, isAnswerComplete, matchesAcceptedAnswer, scoreExerciseLocally } from '@/lib/exercises';
+import { LISTENING_PLAYS } from '@/lib/exams';
+import { loadScriptConverter, ScriptConverter } from '@/lib/dictionary';
+import { displayWithSandhi, toMarkedPinyin } from '@/lib/pinyin';
+import { isDiffable } from '@/lib/answerDiff';
+import { MarkingBreakdown } from './MarkingBreakdown';
+import { AnswerDiffView } from './AnswerDiffView';
+import { ExerciseAnswerInput } from './ExerciseAnswerInput';
+import { GradedReader } from './GradedReader';
 import ReactMarkdown from 'react-markdown';
-import { ArrowLeft, CheckCircle2, XCircle, AlertCircle, BookOpen, PenTool, ChevronRight, GraduationCap, Home, ChevronLeft, Volume2, Sparkles, MessageCircle, Send, X, Loader2, Check, ArrowRight, Languages, Eye } from 'lucide-react';
+import { ArrowLeft, CheckCircle2, XCircle, AlertCircle, BookOpen, PenTool, ChevronRight, GraduationCap, Home, ChevronLeft, Volume2, Sparkles, MessageCircle, Send, X, Loader2, Check, ArrowRight, Languages, Eye, Headphones } from 'lucide-react';
 
 interface Props {
   lesson: AssignedLesson;
@@ -13,44 +23,7 @@ interface Props {
 type InternalView = 'menu' | 'learn' | 'practice';
 type FeedbackStatus = 'idle' | 'correct' | 'incorrect';
 
-// Helper for audio decoding
-function decode(base64: string) {
-  const clean = base64.replace(/\s/g, '');
-  try {
-    const binaryString = atob(clean);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes;
-  } catch (e) {
-    console.error("Base64 decode failed", e);
-    return new Uint8Array(0);
-  }
-}
-
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  if (data.length === 0) {
-      return ctx.createBuffer(numChannels, 1, sampleRate);
-  }
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-}
+const getTypeLabel = (type: Exercise['type']) => EXERCISE_TYPES.find(t => t.type === type)?.label || type;
 
 // StudentLessonView
 export const StudentLessonView: React.FC<Props> = ({ lesson, onBack }) => {
@@ -61,6 +34,7 @@ export const StudentLessonView: React.FC<Props> = ({ lesson, onBack }) => {
     lesson.userAnswers || new Array(lesson.exercises.length).fill('')
   );
   const [submitted, setSubmitted] = useState(lesson.completed);
+  const [marksConfirmed, setMarksConfirmed] = useState(!!lesson.markedAt || !!lesson.tutorAdjustedScores);
   // Use tutor-adjusted score if available, otherwise use original score
   const [score, setScore] = useState(lesson.score || 0);
   // Use tutor-adjusted scores if available, otherwise use exercise scores
@@ -70,12 +44,16 @@ export const StudentLessonView: React.FC<Props> = ({ lesson, onBack }) => {
   const [exerciseFeedback, setExerciseFeedback] = useState<string[]>(
     lesson.exerciseFeedback || new Array(lesson.exercises.length).fill('')
   );
+  const [exerciseCriteria, setExerciseCriteria] = useState<(CriterionScore[] | null)[]>(
+    lesson.exerciseCriteria || new Array(lesson.exercises.length).fill(null)
+  );
 
   // Practice Mode State
   const [practiceIndex, setPracticeIndex] = useState(0);
   const [feedbackStatus, setFeedbackStatus] = useState<FeedbackStatus>('idle');
   const [currentScore, setCurrentScore] = useState<number | null>(null);
   const [currentFeedback, setCurrentFeedback] = useState<string>('');
+  const [currentCriteria, setCurrentCriteria] = useState<CriterionScore[] | null>(null);
   const [evaluating, setEvaluating] = useState(false);
   const [showTranslation, setShowTranslation] = useState(false);
   const [showResultDetail, setShowResultDetail] = useState(false);
@@ -89,6 +67,20 @@ export const StudentLessonView: React.FC<Props> = ({ lesson, onBack }) => {
   const [audioLoading, setAudioLoading] = useState(false);
   const audioContextRef = useRef<AudioContext | null>(null);
 
+  // Listening State: plays used per question, saved with the lesson; questions on a dialogue share them
+  const [listeningPlays, setListeningPlays] = useState<number[]>(
+    lesson.exercises.map((_, i) => lesson.listeningPlays?.[i] || 0)
+  );
+  const listeningPlaysRef = useRef(listeningPlays);
+  const [dialoguePlaying, setDialoguePlaying] = useState(false);
+
+  // Model answers are picked in the student's script when script conversion is available
+  const [script, setScript] = useState<ScriptConverter | null>(null);
+  useEffect(() => {
+    loadScriptConverter().then(setScript);
+  }, []);
+  const displayMatchOptions = { toSimplified: script?.toSimplified };
+
   // Audio State
 
   // Parse material into sections - split into smaller chunks (one point or example per page)
@@ -172,6 +164,22 @@ export const StudentLessonView: React.FC<Props> = ({ lesson, onBack }) => {
     return chunks.length > 0 ? chunks : majorSections;
   }, [lesson.material]);
 
+  const showMarks = (marked: AssignedLesson) => {
+    if (!marked.markedAt) return;
+    setMarksConfirmed(true);
+    setScore(marked.score || 0);
+    setExerciseScores(marked.tutorAdjustedScores || marked.exerciseScores || []);
+    setExerciseFeedback(marked.exerciseFeedback || []);
+    setExerciseCriteria(marked.exerciseCriteria || []);
+  };
+
+  // A submission made offline is marked once the connection is back
+  useEffect(() => {
+    if (lesson.completed && !lesson.markedAt && !lesson.tutorAdjustedScores) {
+      confirmLessonMarks(lesson).then(showMarks);
+    }
+  }, [lesson.id]);
+
   // Reset visuals when section changes
   useEffect(() => {
     setGeneratedImage(null);
@@ -189,52 +197,46 @@ export const StudentLessonView: React.FC<Props> = ({ lesson, onBack }) => {
     const currentEx = lesson.exercises[practiceIndex];
     const userAns = answers[practiceIndex];
     
-    if (!currentEx.answer || !userAns.trim()) {
+    if (!currentEx.answer || !isAnswerComplete(currentEx, userAns)) {
       return;
     }
 
     setEvaluating(true);
     setCurrentScore(null);
     setCurrentFeedback('');
+    setCurrentCriteria(null);
 
     try {
-      // For quiz questions, handle the case where correct answer might be a letter (A, B, C, D)
-      // but student selected the option text. Map letter to option text if needed.
-      let correctAnswerToCompare = currentEx.answer;
-      if (currentEx.type === 'quiz' && currentEx.options && currentEx.options.length > 0) {
-        const trimmedAnswer = currentEx.answer.trim();
-        // Check if answer is a single letter (A-Z)
-        if (/^[A-Z]$/i.test(trimmedAnswer)) {
-          // Map letter to option index (A=0, B=1, C=2, D=3, etc.)
-          const letterIndex = trimmedAnswer.toUpperCase().charCodeAt(0) - 'A'.charCodeAt(0);
-          if (letterIndex >= 0 && letterIndex < currentEx.options.length) {
-            correctAnswerToCompare = currentEx.options[letterIndex];
-          }
-        }
-      }
+      // Traditional characters count as their simplified forms when script conversion is available
+      const script = await loadScriptConverter();
+      const matchOptions = { toSimplified: script?.toSimplified };
 
       let score: number;
       let feedback: string;
+      let criteria: CriterionScore[] | null = null;
 
-      if (currentEx.type === 'quiz') {
-        // Local evaluation for quizzes (Multiple Choice)
-        const isMatch = userAns.trim() === correctAnswerToCompare.trim();
-        score = isMatch ? 100 : 0;
-        feedback = isMatch ? 'Correct! Great job!' : 'Incorrect. Please review the correct answer and try again.';
+      // Objective types (multiple choice, gap-fill, matching, tones...) are scored locally
+      const localResult = scoreExerciseLocally(currentEx, userAns, matchOptions);
+      if (localResult) {
+        score = localResult.score;
+        feedback = localResult.feedback;
       } else {
-        // AI evaluation for other types (Translation, Composition, etc.)
+        // Free-text types (Translation, Composition, open reading questions); AI-marked if the tutor enabled it
         const evaluation = await evaluateAnswer(
           currentEx.question,
-          correctAnswerToCompare,
+          bestAcceptedAnswer(currentEx, userAns, matchOptions),
           userAns,
-          currentEx.type
+          currentEx.type,
+          { mode: lesson.markingMode, lessonId: lesson.id }
         );
         score = evaluation.score || 0;
         feedback = evaluation.feedback || '';
+        criteria = evaluation.criteria || null;
       }
 
       setCurrentScore(score);
       setCurrentFeedback(feedback);
+      setCurrentCriteria(criteria);
       setFeedbackStatus(score >= 50 ? 'correct' : 'incorrect');
 
       // Update exercise scores and feedback arrays
@@ -245,12 +247,14 @@ export const StudentLessonView: React.FC<Props> = ({ lesson, onBack }) => {
       const newFeedback = [...exerciseFeedback];
       newFeedback[practiceIndex] = feedback;
       setExerciseFeedback(newFeedback);
+
+      const newCriteria = [...exerciseCriteria];
+      newCriteria[practiceIndex] = criteria;
+      setExerciseCriteria(newCriteria);
     } catch (error) {
       console.error('Error evaluating answer:', error);
       // Fallback to binary comparison if AI evaluation fails
-    const normUser = userAns.trim().toLowerCase();
-    const normCorrect = (currentEx.answer || '').trim().toLowerCase();
-      const isCorrect = normUser === normCorrect;
+      const isCorrect = matchesAcceptedAnswer(currentEx, userAns);
       const fallbackScore = isCorrect ? 100 : 0;
     
       setCurrentScore(fallbackScore);
@@ -275,20 +279,24 @@ export const StudentLessonView: React.FC<Props> = ({ lesson, onBack }) => {
       setScore(averageScore);
       setSubmitted(true);
       
-      // Async update - SAVE USER ANSWERS, SCORES, AND FEEDBACK
-      await updateLesson({
+      // Save the answers with the provisional marks, then show the confirmed marks once the server has them
+      const marked = await submitLesson({
         ...lesson,
         completed: true,
         score: averageScore,
         userAnswers: answers,
+        listeningPlays,
         exerciseScores: exerciseScores,
-        exerciseFeedback: exerciseFeedback
+        exerciseFeedback: exerciseFeedback,
+        exerciseCriteria: exerciseCriteria
       });
+      showMarks(marked);
     } else {
       setPracticeIndex(prev => prev + 1);
       setFeedbackStatus('idle');
       setCurrentScore(null);
       setCurrentFeedback('');
+      setCurrentCriteria(null);
     }
   };
 
@@ -302,6 +310,7 @@ export const StudentLessonView: React.FC<Props> = ({ lesson, onBack }) => {
       setFeedbackStatus('idle');
       setCurrentScore(null);
       setCurrentFeedback('');
+      setCurrentCriteria(null);
       setShowTranslation(false);
       setShowResultDetail(false);
       
@@ -324,6 +333,37 @@ export const StudentLessonView: React.FC<Props> = ({ lesson, onBack }) => {
     }
   };
 
+  // --- Listening Logic ---
+  // Plays are saved with the answers so far, so reopening the lesson doesn't hand out fresh ones
+  const setPlaysUsed = (questions: number[], change: number) => {
+    const next = [...listeningPlaysRef.current];
+    questions.forEach(i => { next[i] = Math.max(0, (next[i] || 0) + change); });
+    listeningPlaysRef.current = next;
+    setListeningPlays(next);
+    if (!submitted) {
+      updateLesson({ ...lesson, userAnswers: answers, listeningPlays: next })
+        .catch(error => console.warn('Could not save listening plays:', error));
+    }
+  };
+
+  const playDialogue = async (exercise: Exercise, questions: number[]) => {
+    if (!exercise.audio || !hasCurrentAudio(exercise)) return;
+    if (dialoguePlaying || (listeningPlays[practiceIndex] || 0) >= LISTENING_PLAYS) return;
+    setDialoguePlaying(true);
+    setPlaysUsed(questions, 1);
+    try {
+      if (!audioContextRef.current) audioContextRef.current = createSpeechContext();
+      const { ended } = await playDialogueAudio(exercise.audio, audioContextRef.current);
+      await ended;
+    } catch (e) {
+      console.error("Dialogue playback failed", e);
+      // A failed play doesn't use up an attempt
+      setPlaysUsed(questions, -1);
+    } finally {
+      setDialoguePlaying(false);
+    }
+  };
+
   // --- Audio Logic ---
   const playAudio = async (text: string, chineseOnly = false) => {
     if (audioLoading) return;
@@ -344,37 +384,10 @@ export const StudentLessonView: React.FC<Props> = ({ lesson, onBack }) => {
     setAudioLoading(true);
     
     try {
-        const speechResult = await generateSpeech(textToPlay);
-        if (!speechResult) throw new Error("No audio returned");
-
         if (!audioContextRef.current) {
-            audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({sampleRate: 24000});
+            audioContextRef.current = createSpeechContext();
         }
-        
-        const ctx = audioContextRef.current;
-        if (ctx.state === 'suspended') {
-            await ctx.resume();
-        }
-
-        let audioBytes: Uint8Array;
-        if (typeof speechResult === 'string') {
-          audioBytes = decode(speechResult);
-        } else {
-          audioBytes = new Uint8Array(speechResult.audioData);
-        }
-
-        const audioBuffer = await decodeAudioData(
-            audioBytes,
-            ctx,
-            24000,
-            1
-        );
-
-        const source = ctx.createBufferSource();
-        source.buffer = audioBuffer;
-        source.connect(ctx.destination);
-        source.start();
-
+        await speakText(textToPlay, audioContextRef.current);
     } catch (e) {
         console.error("Audio playback failed", e);
     } finally {
@@ -565,8 +578,10 @@ export const StudentLessonView: React.FC<Props> = ({ lesson, onBack }) => {
               {lesson.exercises.map((ex, idx) => {
                 const exScore = exerciseScores[idx] || 0;
                 const exFeedback = exerciseFeedback[idx] || '';
+                const exCriteria = exerciseCriteria[idx];
                 const tutorComment = (lesson.tutorComments || [])[idx] || '';
-                const userAns = answers[idx] || '(No answer)';
+                const userAns = formatAnswer(ex, answers[idx]) || '(No answer)';
+                const modelAnswer = ex.answer ? getModelAnswer(ex, answers[idx], displayMatchOptions) : '';
                 const borderColor = exScore === 100 ? 'border-green-300' : exScore >= 50 ? 'border-yellow-300' : 'border-red-300';
                 const bgColor = exScore === 100 ? 'bg-green-50' : exScore >= 50 ? 'bg-yellow-50' : 'bg-red-50';
                 const scoreColor = exScore === 100 ? 'text-green-600' : exScore >= 50 ? 'text-yellow-600' : 'text-red-600';
@@ -582,6 +597,20 @@ export const StudentLessonView: React.FC<Props> = ({ lesson, onBack }) => {
                           {idx + 1}
                         </div>
                         <div className="flex-1">
+                          {ex.passage && (
+                            <p className="text-sm text-slate-600 chinese-text mb-2 p-3 bg-white/60 rounded-lg">{ex.passage}</p>
+                          )}
+                          {ex.type === 'listening' && ex.dialogue && (
+                            <div className="text-sm text-slate-600 chinese-text mb-2 p-3 bg-white/60 rounded-lg">
+                              {ex.dialogue.map((line, i) => (
+                                <p key={i}><span className="font-bold text-slate-500">{line.speaker}:</span> {line.text}</p>
+                              ))}
+                              {ex.passageTranslation && <p className="text-xs text-slate-400 italic mt-2 font-sans">{ex.passageTranslation}</p>}
+                            </div>
+                          )}
+                          {ex.pinyin && (
+                            <p className="text-brand-600 font-medium">{ex.pinyin}</p>
+                          )}
                           <h4 className="font-bold text-slate-800 chinese-text text-lg">{ex.question}</h4>
                           {ex.questionTranslation && (
                             <p className="text-sm text-slate-500 mt-1">{ex.questionTranslation}</p>
@@ -600,8 +629,20 @@ export const StudentLessonView: React.FC<Props> = ({ lesson, onBack }) => {
                     <div className="ml-11 space-y-3">
                       <div>
                         <span className="text-xs font-bold text-slate-400 uppercase">Your Answer:</span>
-                        <p className="text-slate-700 mt-1">{userAns}</p>
+                        <p className="text-slate-700 mt-1 chinese-text">{userAns}</p>
                       </div>
+                      {isDiffable(ex.type, ex.answer) && answers[idx] && exScore < 100 && (
+                        <div>
+                          <span className="text-xs font-bold text-slate-400 uppercase">Compared with the Model Answer:</span>
+                          <AnswerDiffView expected={modelAnswer} given={script ? script.toSimplified(userAns) : userAns} />
+                        </div>
+                      )}
+                      {exCriteria && exCriteria.length > 0 && (
+                        <>
+                          {exFeedback && <p className="text-sm text-slate-600 italic">{exFeedback}</p>}
+                          <MarkingBreakdown criteria={exCriteria} />
+                        </>
+                      )}
                       {tutorComment && (
                         <div className="p-3 bg-blue-50 rounded-lg border border-blue-200">
                           <span className="text-xs font-bold text-blue-700 uppercase">Tutor Comment:</span>
@@ -611,7 +652,7 @@ export const StudentLessonView: React.FC<Props> = ({ lesson, onBack }) => {
                       {ex.answer && (
                         <div>
                           <span className="text-xs font-bold text-slate-400 uppercase">Correct Answer:</span>
-                          <p className="text-green-700 mt-1 font-semibold">{ex.answer}</p>
+                          <p className="text-green-700 mt-1 font-semibold">{modelAnswer}</p>
                         </div>
                       )}
                     </div>
@@ -655,6 +696,9 @@ export const StudentLessonView: React.FC<Props> = ({ lesson, onBack }) => {
               <p className="text-slate-600 mb-6">
                 Your average score: <span className={`font-bold text-lg ${score >= 80 ? 'text-green-600' : score >= 60 ? 'text-yellow-600' : 'text-red-600'}`}>{score}%</span>
               </p>
+              {!marksConfirmed && (
+                <p className="-mt-4 mb-6 text-xs text-slate-400">Your marks will be confirmed once your answers have synced.</p>
+              )}
               {exerciseScores && exerciseScores.length > 0 && (
                 <div className="mb-6 p-4 bg-slate-50 rounded-xl border border-slate-200">
                   <p className="text-sm font-bold text-slate-500 uppercase mb-2">Exercise Breakdown</p>
@@ -708,6 +752,23 @@ export const StudentLessonView: React.FC<Props> = ({ lesson, onBack }) => {
     const currentEx = lesson.exercises[practiceIndex];
     const isLastExercise = practiceIndex >= lesson.exercises.length - 1;
     const progress = ((practiceIndex + 1) / lesson.exercises.length) * 100;
+    const currentAnswer = answers[practiceIndex] || '';
+    // Reading questions that share the current passage
+    const passageQuestions = currentEx.passage
+      ? lesson.exercises.map((ex, i) => (ex.type === 'reading' && ex.passage === currentEx.passage ? i : -1)).filter(i => i >= 0)
+      : [];
+    // Listening questions that share the current dialogue; its transcript stays hidden until the last is checked
+    const dialogueScript = currentEx.type === 'listening' && currentEx.dialogue ? formatDialogue(currentEx.dialogue) : '';
+    const dialogueQuestions = dialogueScript
+      ? lesson.exercises.map((ex, i) => (ex.type === 'listening' && !!ex.dialogue && formatDialogue(ex.dialogue) === dialogueScript ? i : -1)).filter(i => i >= 0)
+      : [];
+    const showTranscript = feedbackStatus !== 'idle' && dialogueQuestions[dialogueQuestions.length - 1] === practiceIndex;
+    const playsLeft = LISTENING_PLAYS - (listeningPlays[practiceIndex] || 0);
+    const audioReady = hasCurrentAudio(currentEx);
+    // Pinyin answers are given in citation tones; show how they are actually pronounced
+    const modelAnswer = currentEx.answer ? getModelAnswer(currentEx, answers[practiceIndex], displayMatchOptions) : '';
+    const correctAnswer = currentEx.type === 'pinyin-answer' ? toMarkedPinyin(modelAnswer) : modelAnswer;
+    const spokenPinyin = currentEx.type === 'pinyin-answer' ? displayWithSandhi(correctAnswer || '', currentEx.question) : '';
 
     return (
       <div className="min-h-screen bg-slate-50 flex flex-col">
@@ -733,50 +794,122 @@ export const StudentLessonView: React.FC<Props> = ({ lesson, onBack }) => {
             <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8 mb-6">
               <div className="flex justify-between items-start mb-4">
                 <span className="bg-brand-50 text-brand-700 text-xs font-bold px-3 py-1 rounded uppercase tracking-wider">
-                  {currentEx.type}
+                  {getTypeLabel(currentEx.type)}
                 </span>
               </div>
 
-              <h3 className="text-xl font-bold text-slate-800 mb-2 chinese-text">{currentEx.question}</h3>
-              {currentEx.questionTranslation && (
-                <p className="text-slate-500 mb-6 flex items-center gap-2">
-                  <Languages size={16} /> {currentEx.questionTranslation}
-                </p>
-              )}
-
-              {currentEx.type === 'quiz' && currentEx.options ? (
-                <div className="space-y-3">
-                  {currentEx.options.map((opt, idx) => (
+              {currentEx.type === 'reading' && currentEx.passage && (
+                <div className="mb-6 p-5 bg-slate-50 rounded-xl border border-slate-200">
+                  {passageQuestions.length > 1 && (
+                    <p className="text-xs font-semibold text-slate-400 mb-2">
+                      Question {passageQuestions.indexOf(practiceIndex) + 1} of {passageQuestions.length} about this passage
+                    </p>
+                  )}
+                  <div className="flex justify-between items-start gap-4">
+                    <div className="flex-1 min-w-0">
+                      <GradedReader
+                        key={currentEx.passage}
+                        passage={currentEx.passage}
+                        studentId={lesson.studentId}
+                        studentName={lesson.studentName}
+                        onListen={(text) => playAudio(text, true)}
+                      />
+                    </div>
                     <button
-                      key={idx}
-                      onClick={() => handleAnswerChange(opt)}
-                      disabled={feedbackStatus !== 'idle'}
-                      className={`w-full text-left p-4 rounded-xl border-2 transition-all ${
-                        answers[practiceIndex] === opt
-                          ? feedbackStatus === 'correct'
-                            ? 'border-green-500 bg-green-50'
-                            : feedbackStatus === 'incorrect'
-                            ? 'border-red-500 bg-red-50'
-                            : 'border-brand-500 bg-brand-50'
-                          : 'border-slate-200 hover:border-brand-300 hover:bg-slate-50'
-                      } ${feedbackStatus !== 'idle' ? 'cursor-not-allowed' : 'cursor-pointer'}`}
+                      onClick={() => playAudio(currentEx.passage || '', true)}
+                      disabled={audioLoading}
+                      className="p-2 rounded-full bg-white hover:bg-slate-100 text-slate-500 flex-shrink-0 disabled:opacity-50"
+                      title="Listen"
                     >
-                      {opt}
+                      {audioLoading ? <Loader2 size={16} className="animate-spin" /> : <Volume2 size={16} />}
                     </button>
-                  ))}
+                  </div>
+                  {currentEx.passageTranslation && (
+                    <div className="mt-3">
+                      {showTranslation ? (
+                        <p className="text-sm text-slate-500 italic">{currentEx.passageTranslation}</p>
+                      ) : (
+                        <button
+                          onClick={() => setShowTranslation(true)}
+                          className="text-xs font-medium text-slate-400 hover:text-brand-600 flex items-center gap-1"
+                        >
+                          <Eye size={12} /> Show translation
+                        </button>
+                      )}
+                    </div>
+                  )}
                 </div>
-              ) : (
-                <div className="space-y-4">
-                  <textarea
-                    value={answers[practiceIndex] || ''}
-                    onChange={(e) => handleAnswerChange(e.target.value)}
-                    disabled={feedbackStatus !== 'idle'}
-                    placeholder="Type your answer here..."
-                    className="w-full p-4 rounded-xl border-2 border-slate-200 focus:border-brand-500 focus:ring-2 focus:ring-brand-200 outline-none resize-none min-h-[120px] disabled:opacity-50 disabled:cursor-not-allowed"
-                  />
+              )}
+
+              {currentEx.type === 'listening' && currentEx.dialogue && (
+                <div className="mb-6 space-y-3">
+                  {dialogueQuestions.length > 1 && (
+                    <p className="text-xs font-semibold text-slate-400">
+                      Question {dialogueQuestions.indexOf(practiceIndex) + 1} of {dialogueQuestions.length} about this recording
+                    </p>
+                  )}
+                  <button
+                    onClick={() => playDialogue(currentEx, dialogueQuestions)}
+                    disabled={dialoguePlaying || playsLeft <= 0 || !audioReady}
+                    className="w-full py-4 bg-indigo-50 rounded-xl hover:bg-indigo-100 flex items-center justify-center gap-3 text-indigo-700 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {dialoguePlaying ? <Loader2 size={20} className="animate-spin" /> : <Headphones size={20} />}
+                    {!audioReady ? 'Recording not available' : playsLeft > 0 ? `Play recording (${playsLeft} left)` : 'No plays left'}
+                  </button>
+                  {!audioReady && (
+                    <p className="text-xs text-slate-500 text-center">The recording for this question hasn't been prepared. Please let your tutor know.</p>
+                  )}
+                  {showTranscript && (
+                    <div className="p-5 bg-slate-50 rounded-xl border border-slate-200 animate-in fade-in duration-300">
+                      <p className="text-xs font-bold text-slate-400 uppercase mb-2">Transcript</p>
+                      {currentEx.dialogue.map((line, i) => (
+                        <p key={i} className="text-lg text-slate-800 chinese-text leading-relaxed">
+                          <span className="font-bold text-slate-500">{line.speaker}:</span> {line.text}
+                        </p>
+                      ))}
+                      {currentEx.passageTranslation && (
+                        <p className="text-sm text-slate-500 italic mt-3">{currentEx.passageTranslation}</p>
+                      )}
+                    </div>
+                  )}
                 </div>
               )}
 
+              {currentEx.type === 'pinyin-to-character' && currentEx.pinyin && (
+                <p className="text-3xl text-brand-600 font-medium mb-3">{currentEx.pinyin}</p>
+              )}
+
+              {currentEx.type === 'gap-fill' && currentEx.question.includes(GAP_MARKER) ? (
+                <h3 className="text-xl font-bold text-slate-800 mb-2 chinese-text">
+                  {currentEx.question.split(GAP_MARKER).map((part, i, parts) => (
+                    <React.Fragment key={i}>
+                      {part}
+                      {i < parts.length - 1 && (
+                        <span className="inline-block min-w-[3em] mx-1 px-2 border-b-2 border-brand-400 text-brand-600 text-center">
+                          {currentAnswer || '\u00a0'}
+                        </span>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </h3>
+              ) : (
+                <h3 className="text-xl font-bold text-slate-800 mb-2 chinese-text">{currentEx.question}</h3>
+              )}
+              {currentEx.questionTranslation && (
+                <p className="text-slate-500 mb-6 flex items-center gap-2">
+                  <Languages size={16} /> {currentEx.questionTranslation}
+                </p>
+              )}
+
+              <ExerciseAnswerInput
+                exercise={currentEx}
+                answer={currentAnswer}
+                onChange={handleAnswerChange}
+                seed={`${lesson.id}-${practiceIndex}`}
+                locked={feedbackStatus !== 'idle'}
+                feedback={feedbackStatus}
+              />
+
               {evaluating && (
                 <div className="mt-6 p-4 rounded-xl bg-slate-50 border border-slate-200 flex items-center gap-3">
                   <Loader2 className="text-slate-600 flex-shrink-0 animate-spin" size={24} />
@@ -816,10 +949,22 @@ export const StudentLessonView: React.FC<Props> = ({ lesson, onBack }) => {
                           <span className="text-xs font-bold text-green-700 bg-green-100 px-2 py-1 rounded">Perfect!</span>
                         )}
                       </div>
+                      {currentCriteria && currentCriteria.length > 0 && (
+                        <div className="space-y-2 mb-2">
+                          {currentFeedback && <p className="text-sm text-slate-700">{currentFeedback}</p>}
+                          <MarkingBreakdown criteria={currentCriteria} />
+                        </div>
+                      )}
+                      {!currentCriteria && currentFeedback && currentScore < 100 && (
+                        <p className="text-sm text-slate-700 mb-2">{currentFeedback}</p>
+                      )}
                       {currentEx.answer && (
                         <div className="mt-2 pt-2 border-t border-slate-200">
                           <p className="text-xs font-bold text-slate-400 uppercase mb-1">Correct Answer:</p>
-                          <p className="text-slate-700 font-medium">{currentEx.answer}</p>
+                          <p className="text-slate-700 font-medium">{correctAnswer}</p>
+                          {currentEx.type === 'pinyin-answer' && spokenPinyin !== correctAnswer && (
+                            <p className="text-xs text-slate-500 mt-1">Spoken with tone changes: {spokenPinyin}</p>
+                          )}
                         </div>
                       )}
                     </div>
@@ -838,7 +983,7 @@ export const StudentLessonView: React.FC<Props> = ({ lesson, onBack }) => {
               {feedbackStatus === 'idle' ? (
                 <button
                   onClick={handleCheckAnswer}
-                  disabled={!answers[practiceIndex] || answers[practiceIndex].trim() === '' || evaluating}
+                  disabled={!isAnswerComplete(currentEx, currentAnswer) || evaluating}
                   className="px-8 py-3 rounded-xl font-semibold bg-brand-600 hover:bg-brand-700 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
                 >
                   {evaluating ? (
@@ -1,7 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { Stage, StudentProfile, Student } from '../types';
-import { CURRICULUM } from '../data/curriculum';
-import { getStudents, createStudent } from '@/lib/services/storage';
+import { getStudents, createStudent, getCurriculum } from '@/lib/services/storage';
 import { User, GraduationCap, ChevronRight, Loader2 } from 'lucide-react';
 
 interface Props {
@@ -15,6 +14,7 @@ export const StudentOnboarding: React.FC<Props> = ({ onComplete }) => {
   const [loadingStudents, setLoadingStudents] = useState(false);
   const [mode, setMode] = useState<'select' | 'create'>('select');
   const [creating, setCreating] = useState(false);
+  const [stages, setStages] = useState<Stage[]>([]);
 
   useEffect(() => {
     const fetchStudents = async () => {
@@ -31,6 +31,17 @@ export const StudentOnboarding: React.FC<Props> = ({ onComplete }) => {
     fetchStudents();
   }, []);
 
+  useEffect(() => {
+    const fetchCurriculum = async () => {
+      const curriculum = await getCurriculum();
+      setStages(curriculum.stages);
+      if (curriculum.stages.length > 0 && !curriculum.stages.some(s => s.id === selectedStage)) {
+        setSelectedStage(curriculum.stages[0].id);
+      }
+    };
+    fetchCurriculum();
+  }, []);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!name.trim()) return;
@@ -142,7 +153,7 @@ export const StudentOnboarding: React.FC<Props> = ({ onComplete }) => {
               Current Level / Stage
             </label>
             <div className="space-y-3 max-h-80 overflow-y-auto pr-2 custom-scrollbar">
-              {CURRICULUM.map((stage) => (
+              {stages.map((stage) => (
                 <div
                   key={stage.id}
                   onClick={() => setSelectedStage(stage.id)}
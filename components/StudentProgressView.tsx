@@ -1,8 +1,20 @@
 
 import React, { useEffect, useState } from 'react';
-import { getLessons, getVocabProgress, updateLesson } from '@/lib/services/storage';
-import { AssignedLesson, VocabProgress } from '../types';
-import { ArrowLeft, User, BookOpen, CheckCircle2, Clock, Calendar, Loader2, Layers, Eye, X, Check, XCircle, Edit2, Save } from 'lucide-react';
+import { formatAnswer, getModelAnswer } from '@/lib/exercises';
+import { loadScriptConverter, ScriptConverter } from '@/lib/dictionary';
+import { isDiffable } from '@/lib/answerDiff';
+import { MarkingBreakdown } from './MarkingBreakdown';
+import { AnswerDiffView } from './AnswerDiffView';
+import { RubricMarksPanel } from './RubricMarksPanel';
+import { WritingAnalyticsPanel } from './WritingAnalyticsPanel';
+import { getRubric, getRubricMaxMark, getRubricPercentage, getRubricTotal, suggestRubricMarks } from '@/lib/rubrics';
+import { getLessons, getVocabProgress, updateLesson, getClasses, getStudents, getExamAttempts, saveExamAttempt, getCurriculum } from '@/lib/services/storage';
+import { formatGrade, getPaperLabel, getTierLabel } from '@/lib/exams';
+import { ExamAttemptReview } from './ExamAttemptReview';
+import { SpecCoverageMatrix } from './SpecCoverageMatrix';
+import { getLessonSpecRefs } from '@/lib/specification';
+import { AssignedLesson, VocabProgress, ClassGroup, Student, RubricMark, ExamAttempt, Curriculum } from '../types';
+import { ArrowLeft, User, Users, BookOpen, CheckCircle2, Clock, Calendar, Loader2, Layers, Eye, X, Check, XCircle, Edit2, Save, GraduationCap, ClipboardList } from 'lucide-react';
 
 interface Props {
   onBack: () => void;
@@ -14,8 +26,152 @@ interface StudentStats {
   averageScore: number;
   lessons: AssignedLesson[];
   vocab: Record<string, VocabProgress[]>; // grouped by category
+  exams: ExamAttempt[]; // submitted mock exams, newest first
 }
 
+type GroupBy = 'student' | 'class' | 'spec';
+
+const GROUP_BY_OPTIONS: { value: GroupBy; label: string; icon: React.ElementType }[] = [
+  { value: 'student', label: 'By Student', icon: User },
+  { value: 'class', label: 'By Class', icon: Users },
+  { value: 'spec', label: 'Spec Coverage', icon: ClipboardList },
+];
+
+interface ClassMemberStats {
+  studentId: string;
+  name: string;
+  totalLessons: number;
+  completedLessons: number;
+  averageScore: number;
+}
+
+// One lesson assigned to the whole class (a lesson per member sharing the same assignedDate)
+interface ClassAssignmentStats {
+  key: string;
+  pointDescription: string;
+  assignedDate: string;
+  assigned: number;
+  completed: number;
+  averageScore: number;
+}
+
+interface ClassStats {
+  group: ClassGroup;
+  members: ClassMemberStats[];
+  assignments: ClassAssignmentStats[];
+  totalLessons: number;
+  completedLessons: number;
+  averageScore: number;
+}
+
+const averageOf = (lessons: AssignedLesson[]): number => {
+  const completed = lessons.filter(l => l.completed);
+  if (completed.length === 0) return 0;
+  return Math.round(completed.reduce((acc, l) => acc + (l.score || 0), 0) / completed.length);
+};
+
+// Per-student lessons, vocab and mock exams, keyed by student name
+const buildStudentStats = (
+  allLessons: AssignedLesson[],
+  allVocab: VocabProgress[],
+  allExams: ExamAttempt[]
+): Record<string, StudentStats> => {
+    const stats: Record<string, StudentStats> = {};
+    const ensure = (name: string) => {
+        if (!stats[name]) {
+            stats[name] = {
+                totalLessons: 0,
+                completedLessons: 0,
+                averageScore: 0,
+                lessons: [],
+                vocab: {},
+                exams: []
+            };
+        }
+        return stats[name];
+    };
+
+    // Process Lessons
+    allLessons.forEach(lesson => {
+        const entry = ensure(lesson.studentName);
+        entry.lessons.push(lesson);
+        entry.totalLessons += 1;
+        if (lesson.completed) {
+            entry.completedLessons += 1;
+        }
+    });
+
+    // Process Vocab - ensure we catch students who might have done vocab but no lessons yet
+    allVocab.forEach(v => {
+        const entry = ensure(v.studentName);
+        if (!entry.vocab[v.category]) {
+            entry.vocab[v.category] = [];
+        }
+        // Avoid duplicates if any
+        if (!entry.vocab[v.category].find(existing => existing.word === v.word)) {
+             entry.vocab[v.category].push(v);
+        }
+    });
+
+    // Process Mock Exams - only submitted papers have marks to review
+    allExams.filter(e => e.submittedAt).forEach(e => {
+        ensure(e.studentName).exams.push(e);
+    });
+
+    // Calculate averages (score is a percentage 0-100)
+    Object.values(stats).forEach(entry => {
+        entry.averageScore = averageOf(entry.lessons);
+    });
+
+    return stats;
+};
+
+// Band marks estimated from the automatic score, for lessons marked before suggestions were saved with the marks
+const suggestLessonRubricMarks = (lesson: AssignedLesson, idx: number): RubricMark[] | null => {
+  const rubric = getRubric(lesson.exercises[idx]?.rubricId);
+  return rubric ? suggestRubricMarks(rubric, lesson.exerciseScores?.[idx] ?? 0, lesson.exerciseCriteria?.[idx]) : null;
+};
+
+// Aggregate every lesson of each enrolled student, plus the lessons assigned to the class as a whole
+const buildClassStats = (classes: ClassGroup[], students: Student[], lessons: AssignedLesson[]): ClassStats[] =>
+  classes.map(group => {
+    const members = group.studentIds.map(studentId => {
+      const memberLessons = lessons.filter(l => l.studentId === studentId);
+      return {
+        studentId,
+        name: students.find(s => s.id === studentId)?.name || memberLessons[0]?.studentName || 'Unknown',
+        totalLessons: memberLessons.length,
+        completedLessons: memberLessons.filter(l => l.completed).length,
+        averageScore: averageOf(memberLessons),
+      };
+    }).sort((a, b) => a.name.localeCompare(b.name));
+
+    const memberLessons = lessons.filter(l => l.studentId && group.studentIds.includes(l.studentId));
+
+    const byAssignment: Record<string, AssignedLesson[]> = {};
+    lessons.filter(l => l.classId === group.id).forEach(l => {
+      const key = `${l.assignedDate}|${l.pointDescription}`;
+      (byAssignment[key] = byAssignment[key] || []).push(l);
+    });
+    const assignments = Object.entries(byAssignment).map(([key, items]) => ({
+      key,
+      pointDescription: items[0].pointDescription,
+      assignedDate: items[0].assignedDate,
+      assigned: items.length,
+      completed: items.filter(l => l.completed).length,
+      averageScore: averageOf(items),
+    })).sort((a, b) => b.assignedDate.localeCompare(a.assignedDate));
+
+    return {
+      group,
+      members,
+      assignments,
+      totalLessons: memberLessons.length,
+      completedLessons: memberLessons.filter(l => l.completed).length,
+      averageScore: averageOf(memberLessons),
+    };
+  });
+
 export const StudentProgressView: React.FC<Props> = ({ onBack }) => {
   const [studentData, setStudentData] = useState<Record<string, StudentStats>>({});
   const [loading, setLoading] = useState(true);
@@ -24,70 +180,38 @@ export const StudentProgressView: React.FC<Props> = ({ onBack }) => {
   const [editedScores, setEditedScores] = useState<number[]>([]);
   const [editedComments, setEditedComments] = useState<string[]>([]);
   const [editedOverallComment, setEditedOverallComment] = useState<string>('');
+  const [editedRubricMarks, setEditedRubricMarks] = useState<(RubricMark[] | null)[]>([]);
   const [saving, setSaving] = useState(false);
+  const [groupBy, setGroupBy] = useState<GroupBy>('student');
+  const [lessons, setLessons] = useState<AssignedLesson[]>([]);
+  const [classes, setClasses] = useState<ClassGroup[]>([]);
+  const [studentList, setStudentList] = useState<Student[]>([]);
+  const [examAttempts, setExamAttempts] = useState<ExamAttempt[]>([]);
+  const [selectedExam, setSelectedExam] = useState<ExamAttempt | null>(null);
+  const [curriculum, setCurriculum] = useState<Curriculum | null>(null);
+  const [script, setScript] = useState<ScriptConverter | null>(null);
+
+  useEffect(() => {
+    loadScriptConverter().then(setScript);
+  }, []);
 
   useEffect(() => {
     const fetchData = async () => {
         setLoading(true);
-        const allLessons = await getLessons();
-        const allVocab = await getVocabProgress();
-        const stats: Record<string, StudentStats> = {};
-
-        // Process Lessons
-        allLessons.forEach(lesson => {
-            const name = lesson.studentName;
-            if (!stats[name]) {
-                stats[name] = {
-                    totalLessons: 0,
-                    completedLessons: 0,
-                    averageScore: 0,
-                    lessons: [],
-                    vocab: {}
-                };
-            }
-
-            stats[name].lessons.push(lesson);
-            stats[name].totalLessons += 1;
-            if (lesson.completed) {
-                stats[name].completedLessons += 1;
-            }
-        });
-
-        // Process Vocab - ensure we catch students who might have done vocab but no lessons yet
-        allVocab.forEach(v => {
-            const name = v.studentName;
-            if (!stats[name]) {
-                stats[name] = {
-                    totalLessons: 0,
-                    completedLessons: 0,
-                    averageScore: 0,
-                    lessons: [],
-                    vocab: {}
-                };
-            }
-            if (!stats[name].vocab[v.category]) {
-                stats[name].vocab[v.category] = [];
-            }
-            // Avoid duplicates if any
-            if (!stats[name].vocab[v.category].find(existing => existing.word === v.word)) {
-                 stats[name].vocab[v.category].push(v);
-            }
-        });
-
-        // Calculate averages (score is now a percentage 0-100)
-        Object.keys(stats).forEach(name => {
-            const completed = stats[name].lessons.filter(l => l.completed);
-            if (completed.length > 0) {
-                const totalScorePercent = completed.reduce((acc, l) => {
-                    // Score is already a percentage (0-100) from the new evaluation system
-                    const score = l.score || 0;
-                    return acc + score;
-                }, 0);
-                stats[name].averageScore = Math.round(totalScorePercent / completed.length);
-            }
-        });
-
-        setStudentData(stats);
+        const [allLessons, allVocab, allClasses, allStudents, allExams, currentCurriculum] = await Promise.all([
+            getLessons(),
+            getVocabProgress(),
+            getClasses(),
+            getStudents(),
+            getExamAttempts(),
+            getCurriculum(),
+        ]);
+        setLessons(allLessons);
+        setClasses(allClasses);
+        setStudentList(allStudents);
+        setExamAttempts(allExams);
+        setCurriculum(currentCurriculum);
+        setStudentData(buildStudentStats(allLessons, allVocab, allExams));
         setLoading(false);
     };
     
@@ -95,19 +219,43 @@ export const StudentProgressView: React.FC<Props> = ({ onBack }) => {
   }, []);
 
   const students = Object.keys(studentData).sort();
+  const classStats = buildClassStats(classes, studentList, lessons);
 
-  // Initialize editing state when lesson is selected
-  const handleLessonSelect = (lesson: AssignedLesson) => {
-    setSelectedLesson(lesson);
-    setIsEditing(false);
+  // Reset editing state to the lesson's saved review
+  const resetEdits = (lesson: AssignedLesson) => {
     // Initialize with existing tutor-adjusted scores or fallback to exercise scores
     const exerciseScores = lesson.exerciseScores || [];
     const tutorAdjustedScores = lesson.tutorAdjustedScores || exerciseScores;
-    setEditedScores([...tutorAdjustedScores]);
+    const rubricMarks = lesson.exercises.map((_, idx) => lesson.rubricMarks?.[idx] || null);
+    // Rubric-marked exercises score from their saved band marks, suggested or set by the tutor
+    setEditedScores(lesson.exercises.map((ex, idx) => {
+      const rubric = getRubric(ex.rubricId);
+      const marks = rubricMarks[idx];
+      return rubric && marks ? getRubricPercentage(rubric, marks) : (tutorAdjustedScores[idx] ?? 0);
+    }));
+    setEditedRubricMarks(rubricMarks);
     setEditedComments([...(lesson.tutorComments || new Array(lesson.exercises.length).fill(''))]);
     setEditedOverallComment(lesson.tutorOverallComment || '');
   };
 
+  // Initialize editing state when lesson is selected
+  const handleLessonSelect = (lesson: AssignedLesson) => {
+    setSelectedLesson(lesson);
+    setIsEditing(false);
+    resetEdits(lesson);
+  };
+
+  const handleRubricMarksChange = (idx: number, marks: RubricMark[]) => {
+    const rubric = getRubric(selectedLesson?.exercises[idx]?.rubricId);
+    if (!rubric) return;
+    const newMarks = [...editedRubricMarks];
+    newMarks[idx] = marks;
+    setEditedRubricMarks(newMarks);
+    const newScores = [...editedScores];
+    newScores[idx] = getRubricPercentage(rubric, marks);
+    setEditedScores(newScores);
+  };
+
   // Calculate overall score from adjusted scores
   const calculateOverallScore = (scores: number[]): number => {
     if (scores.length === 0) return 0;
@@ -127,6 +275,7 @@ export const StudentProgressView: React.FC<Props> = ({ onBack }) => {
         tutorAdjustedScores: editedScores,
         tutorComments: editedComments,
         tutorOverallComment: editedOverallComment,
+        rubricMarks: editedRubricMarks.some(Boolean) ? editedRubricMarks : selectedLesson.rubricMarks,
         score: overallScore, // Update overall score
       };
 
@@ -138,60 +287,8 @@ export const StudentProgressView: React.FC<Props> = ({ onBack }) => {
       // Refresh student data
       const allLessons = await getLessons();
       const allVocab = await getVocabProgress();
-      const stats: Record<string, StudentStats> = {};
-
-      // Process Lessons
-      allLessons.forEach(lesson => {
-        const name = lesson.studentName;
-        if (!stats[name]) {
-          stats[name] = {
-            totalLessons: 0,
-            completedLessons: 0,
-            averageScore: 0,
-            lessons: [],
-            vocab: {}
-          };
-        }
-        stats[name].lessons.push(lesson);
-        stats[name].totalLessons += 1;
-        if (lesson.completed) {
-          stats[name].completedLessons += 1;
-        }
-      });
-
-      // Process Vocab
-      allVocab.forEach(v => {
-        const name = v.studentName;
-        if (!stats[name]) {
-          stats[name] = {
-            totalLessons: 0,
-            completedLessons: 0,
-            averageScore: 0,
-            lessons: [],
-            vocab: {}
-          };
-        }
-        if (!stats[name].vocab[v.category]) {
-          stats[name].vocab[v.category] = [];
-        }
-        if (!stats[name].vocab[v.category].find(existing => existing.word === v.word)) {
-          stats[name].vocab[v.category].push(v);
-        }
-      });
-
-      // Calculate averages
-      Object.keys(stats).forEach(name => {
-        const completed = stats[name].lessons.filter(l => l.completed);
-        if (completed.length > 0) {
-          const totalScorePercent = completed.reduce((acc, l) => {
-            const score = l.score || 0;
-            return acc + score;
-          }, 0);
-          stats[name].averageScore = Math.round(totalScorePercent / completed.length);
-        }
-      });
-
-      setStudentData(stats);
+      setLessons(allLessons);
+      setStudentData(buildStudentStats(allLessons, allVocab, examAttempts));
       setIsEditing(false);
     } catch (error) {
       console.error('Failed to save adjustments:', error);
@@ -201,6 +298,17 @@ export const StudentProgressView: React.FC<Props> = ({ onBack }) => {
     }
   };
 
+  const handleSaveExamReview = async (attempt: ExamAttempt) => {
+    const saved = await saveExamAttempt(attempt);
+    const replace = (exams: ExamAttempt[]) => exams.map(e => (e.id === saved.id ? saved : e));
+    setExamAttempts(replace);
+    setSelectedExam(saved);
+    setStudentData(prev => {
+      const entry = prev[saved.studentName];
+      return entry ? { ...prev, [saved.studentName]: { ...entry, exams: replace(entry.exams) } } : prev;
+    });
+  };
+
   return (
     <div className="h-full bg-slate-50 flex flex-col relative">
       <header className="bg-white border-b border-slate-200 px-6 py-4 flex items-center shrink-0">
@@ -211,6 +319,20 @@ export const StudentProgressView: React.FC<Props> = ({ onBack }) => {
           <ArrowLeft size={20} />
         </button>
         <h1 className="text-xl font-bold text-slate-800">Student Progress Reports</h1>
+        <div className="ml-auto flex bg-slate-100 rounded-lg p-1">
+          {GROUP_BY_OPTIONS.filter(option => option.value !== 'class' || classes.length > 0).map(({ value, label, icon: Icon }) => (
+            <button
+              key={value}
+              onClick={() => setGroupBy(value)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                groupBy === value ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              <Icon size={14} />
+              {label}
+            </button>
+          ))}
+        </div>
       </header>
 
       <main className="flex-1 p-6 max-w-6xl mx-auto w-full overflow-y-auto">
@@ -218,6 +340,108 @@ export const StudentProgressView: React.FC<Props> = ({ onBack }) => {
             <div className="flex items-center justify-center h-64">
                 <Loader2 size={40} className="text-brand-500 animate-spin" />
             </div>
+        ) : groupBy === 'spec' && curriculum ? (
+          <SpecCoverageMatrix curriculum={curriculum} students={students} lessons={lessons} />
+        ) : groupBy === 'class' ? (
+          <div className="space-y-8">
+            {classStats.map(({ group, members, assignments, totalLessons, completedLessons, averageScore }) => (
+              <div key={group.id} className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+                {/* Class Header */}
+                <div className="p-6 border-b border-slate-100 bg-slate-50/50 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                  <div className="flex items-center gap-4">
+                    <div className="w-12 h-12 bg-teal-100 rounded-full flex items-center justify-center text-teal-700">
+                      <Users size={22} />
+                    </div>
+                    <div>
+                      <h2 className="text-xl font-bold text-slate-900">{group.name}</h2>
+                      <div className="flex gap-4 text-sm text-slate-500 mt-1">
+                        <span className="flex items-center gap-1"><User size={14} /> {members.length} Students</span>
+                        <span className="flex items-center gap-1"><BookOpen size={14} /> {totalLessons} Lessons</span>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-6">
+                      <div className="text-center">
+                          <div className="text-xs text-slate-400 font-bold uppercase tracking-wider">Completion</div>
+                          <div className="text-lg font-semibold text-slate-700">
+                              {totalLessons > 0 ? Math.round((completedLessons / totalLessons) * 100) : 0}%
+                          </div>
+                      </div>
+                      <div className="text-center px-6 border-l border-slate-200">
+                          <div className="text-xs text-slate-400 font-bold uppercase tracking-wider">Avg Score</div>
+                          <div className={`text-lg font-bold ${averageScore >= 80 ? 'text-green-600' : averageScore >= 60 ? 'text-yellow-600' : 'text-slate-600'}`}>
+                              {averageScore}%
+                          </div>
+                      </div>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 divide-y lg:divide-y-0 lg:divide-x divide-slate-100">
+                  {/* Class Assignments Column */}
+                  <div className="p-6">
+                      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4">Class Assignments</h3>
+                      {assignments.length === 0 ? (
+                          <p className="text-slate-400 text-sm italic">No lessons assigned to this class yet.</p>
+                      ) : (
+                          <div className="space-y-3">
+                              {assignments.map(a => (
+                                  <div key={a.key} className="p-3 bg-slate-50 rounded-xl flex items-center justify-between gap-3">
+                                      <div className="flex-1 min-w-0">
+                                          <h4 className="font-semibold text-slate-700 truncate">{a.pointDescription}</h4>
+                                          <p className="text-xs text-slate-500">
+                                              {new Date(a.assignedDate).toLocaleDateString()} · {a.completed}/{a.assigned} completed
+                                          </p>
+                                      </div>
+                                      {a.completed > 0 ? (
+                                          <span className={`flex-shrink-0 text-xs font-bold px-2 py-1 rounded-full ${
+                                            a.averageScore >= 80 ? 'bg-green-100 text-green-700' :
+                                            a.averageScore >= 60 ? 'bg-yellow-100 text-yellow-700' :
+                                            'bg-red-100 text-red-700'
+                                          }`}>
+                                              {a.averageScore}%
+                                          </span>
+                                      ) : (
+                                          <span className="flex-shrink-0 bg-amber-100 text-amber-700 text-xs font-bold px-2 py-1 rounded-full">
+                                              Pending
+                                          </span>
+                                      )}
+                                  </div>
+                              ))}
+                          </div>
+                      )}
+                  </div>
+
+                  {/* Members Column */}
+                  <div className="p-6">
+                      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4">Students</h3>
+                      {members.length === 0 ? (
+                          <p className="text-slate-400 text-sm italic">No students enrolled.</p>
+                      ) : (
+                          <div className="space-y-3">
+                              {members.map(m => (
+                                  <div key={m.studentId} className="p-3 bg-slate-50 rounded-xl flex items-center justify-between gap-3">
+                                      <div className="flex-1 min-w-0">
+                                          <h4 className="font-semibold text-slate-700 truncate">{m.name}</h4>
+                                          <p className="text-xs text-slate-500">{m.completedLessons}/{m.totalLessons} lessons completed</p>
+                                      </div>
+                                      <span className={`flex-shrink-0 text-xs font-bold px-2 py-1 rounded-full ${
+                                        m.completedLessons === 0 ? 'bg-slate-100 text-slate-500' :
+                                        m.averageScore >= 80 ? 'bg-green-100 text-green-700' :
+                                        m.averageScore >= 60 ? 'bg-yellow-100 text-yellow-700' :
+                                        'bg-red-100 text-red-700'
+                                      }`}>
+                                          {m.completedLessons === 0 ? '—' : `${m.averageScore}%`}
+                                      </span>
+                                  </div>
+                              ))}
+                          </div>
+                      )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
         ) : students.length === 0 ? (
            <div className="text-center py-20">
              <div className="bg-slate-100 p-6 rounded-full inline-block mb-4">
@@ -341,6 +565,49 @@ export const StudentProgressView: React.FC<Props> = ({ onBack }) => {
                          )}
                     </div>
                   </div>
+
+                  {/* Handwriting */}
+                  {vocabCategories.some(cat => data.vocab[cat].some(w => w.writingAttempts?.length)) && (
+                    <div className="p-6 border-t border-slate-100">
+                        <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4">Handwriting</h3>
+                        <WritingAnalyticsPanel vocab={vocabCategories.flatMap(cat => data.vocab[cat])} />
+                    </div>
+                  )}
+
+                  {/* Mock Exams */}
+                  {data.exams.length > 0 && (
+                    <div className="p-6 border-t border-slate-100">
+                        <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4">Mock Exams</h3>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            {data.exams.map(exam => (
+                                <div key={exam.id} className="p-3 bg-slate-50 rounded-xl flex items-center justify-between gap-3">
+                                    <div className="flex-1 min-w-0">
+                                        <h4 className="font-semibold text-slate-700 truncate flex items-center gap-1.5">
+                                            <GraduationCap size={14} className="text-slate-400" />
+                                            {getPaperLabel(exam.paper)} · {getTierLabel(exam.tier)}
+                                        </h4>
+                                        <p className="text-xs text-slate-500">
+                                            {new Date(exam.submittedAt!).toLocaleDateString()}
+                                            {exam.tutorAdjustedMarks && ' · reviewed'}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <span className="flex-shrink-0 text-xs font-bold px-2 py-1 rounded-full bg-brand-100 text-brand-700">
+                                            Grade {formatGrade(exam.grade)}
+                                        </span>
+                                        <button 
+                                            onClick={() => setSelectedExam(exam)}
+                                            className="p-1.5 hover:bg-white rounded-full text-slate-400 hover:text-blue-600 transition-colors shadow-sm"
+                                            title="Review Paper"
+                                        >
+                                            <Eye size={16} />
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                  )}
                 </div>
               );
             })}
@@ -348,6 +615,26 @@ export const StudentProgressView: React.FC<Props> = ({ onBack }) => {
         )}
       </main>
 
+      {/* Mock Exam Review Modal */}
+      {selectedExam && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in duration-200">
+             <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl h-[85vh] flex flex-col overflow-hidden">
+                <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+                    <div className="flex-1">
+                        <h3 className="font-bold text-slate-800 text-lg">Mock Exam: {getPaperLabel(selectedExam.paper)}</h3>
+                        <p className="text-xs text-slate-500">Student: {selectedExam.studentName}</p>
+                    </div>
+                    <button onClick={() => setSelectedExam(null)} className="text-slate-400 hover:text-slate-600 hover:bg-slate-200 rounded-full p-1 transition-colors">
+                        <X size={24} />
+                    </button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-6 bg-slate-50">
+                    <ExamAttemptReview key={selectedExam.id} attempt={selectedExam} editable onSave={handleSaveExamReview} />
+                </div>
+             </div>
+        </div>
+      )}
+
       {/* Lesson Details Modal */}
       {selectedLesson && (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in duration-200">
@@ -356,6 +643,11 @@ export const StudentProgressView: React.FC<Props> = ({ onBack }) => {
                     <div className="flex-1">
                         <h3 className="font-bold text-slate-800 text-lg">Results: {selectedLesson.pointDescription}</h3>
                         <p className="text-xs text-slate-500">Student: {selectedLesson.studentName}</p>
+                        {curriculum && getLessonSpecRefs(selectedLesson, curriculum.stages).length > 0 && (
+                          <p className="text-xs text-purple-700 mt-1">
+                            Specification: {getLessonSpecRefs(selectedLesson, curriculum.stages).join(', ')}
+                          </p>
+                        )}
                         {!isEditing && selectedLesson.tutorOverallComment && (
                           <p className="text-sm text-blue-600 mt-2 italic">"{selectedLesson.tutorOverallComment}"</p>
                         )}
@@ -388,12 +680,24 @@ export const StudentProgressView: React.FC<Props> = ({ onBack }) => {
                              const tutorAdjustedScores = selectedLesson.tutorAdjustedScores || exerciseScores;
                              const tutorComments = selectedLesson.tutorComments || [];
                              
+                             // Compositions with a mark scheme are scored from their band marks
+                             const rubric = getRubric(ex.rubricId);
+                             const rubricMarks = isEditing ? editedRubricMarks[idx] : selectedLesson.rubricMarks?.[idx];
+                             const suggestedMarks = rubric && !rubricMarks ? suggestLessonRubricMarks(selectedLesson, idx) : null;
+                             // Saved marks stay suggestions until the tutor saves a review
+                             const marksSuggested = !rubricMarks || (!isEditing && !selectedLesson.tutorAdjustedScores);
+                             const rubricPercentage = rubric && rubricMarks ? getRubricPercentage(rubric, rubricMarks) : null;
+
                              // Use adjusted score if available, otherwise original
-                             const displayScore = isEditing ? (editedScores[idx] ?? exerciseScores[idx] ?? 0) : (tutorAdjustedScores[idx] ?? exerciseScores[idx] ?? 0);
+                             const displayScore = isEditing
+                               ? (editedScores[idx] ?? exerciseScores[idx] ?? 0)
+                               : (rubricPercentage ?? tutorAdjustedScores[idx] ?? exerciseScores[idx] ?? 0);
                              const originalScore = exerciseScores[idx] || 0;
                              const exFeedback = exerciseFeedback[idx] || '';
+                             const exCriteria = selectedLesson.exerciseCriteria?.[idx];
                              const tutorComment = tutorComments[idx] || '';
-                             const userAns = userAnswers[idx] || '(No answer)';
+                             const userAns = formatAnswer(ex, userAnswers[idx]) || '(No answer)';
+                             const modelAnswer = ex.answer ? getModelAnswer(ex, userAnswers[idx], { toSimplified: script?.toSimplified }) : '';
                              
                              const borderColor = displayScore === 100 ? 'border-green-300' : displayScore >= 50 ? 'border-yellow-300' : 'border-red-300';
                              const bgColor = displayScore === 100 ? 'bg-green-50' : displayScore >= 50 ? 'bg-yellow-50' : 'bg-red-50';
@@ -412,7 +716,14 @@ export const StudentProgressView: React.FC<Props> = ({ onBack }) => {
                                             <h4 className="font-bold text-slate-800 chinese-text text-lg">{ex.question}</h4>
                                         </div>
                                         <div className="flex flex-col items-end gap-1">
-                                            {isEditing ? (
+                                            {rubric && rubricMarks ? (
+                                              <>
+                                                <span className={`font-bold text-lg ${scoreColor}`}>
+                                                  {getRubricTotal(rubric, rubricMarks)} / {getRubricMaxMark(rubric)}
+                                                </span>
+                                                <span className="text-xs text-slate-400">{displayScore}%</span>
+                                              </>
+                                            ) : isEditing ? (
                                               <div className="flex items-center gap-2">
                                                 <input
                                                   type="number"
@@ -454,16 +765,34 @@ export const StudentProgressView: React.FC<Props> = ({ onBack }) => {
                                                 {userAns}
                                             </p>
                                         </div>
+                                        {isDiffable(ex.type, ex.answer) && userAnswers[idx] && displayScore < 100 && (
+                                            <div className="p-3 rounded-lg bg-white border border-slate-200">
+                                                <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Compared with the Model Answer</p>
+                                                <AnswerDiffView expected={modelAnswer} given={script ? script.toSimplified(userAns) : userAns} />
+                                            </div>
+                                        )}
                                         {exFeedback && (
                                             <div className="p-3 rounded-lg bg-white border border-slate-200">
                                                 <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">AI Feedback</p>
                                                 <p className="text-sm text-slate-700">{exFeedback}</p>
                                             </div>
                                         )}
+                                        {exCriteria && exCriteria.length > 0 && (
+                                            <MarkingBreakdown criteria={exCriteria} />
+                                        )}
+                                        {rubric && (rubricMarks || suggestedMarks) && (
+                                            <RubricMarksPanel
+                                              rubric={rubric}
+                                              marks={rubricMarks || suggestedMarks!}
+                                              suggested={marksSuggested}
+                                              editable={isEditing}
+                                              onChange={(marks) => handleRubricMarksChange(idx, marks)}
+                                            />
+                                        )}
                                         {ex.answer && (
                                             <div className="p-3 rounded-lg bg-slate-100">
                                                 <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Correct Answer</p>
-                                                <p className="font-medium text-slate-800 chinese-text">{ex.answer}</p>
+                                                <p className="font-medium text-slate-800 chinese-text">{modelAnswer}</p>
                                             </div>
                                         )}
                                         {isEditing ? (
@@ -515,11 +844,7 @@ export const StudentProgressView: React.FC<Props> = ({ onBack }) => {
                           onClick={() => {
                             setIsEditing(false);
                             // Reset to original values
-                            const exerciseScores = selectedLesson.exerciseScores || [];
-                            const tutorAdjustedScores = selectedLesson.tutorAdjustedScores || exerciseScores;
-                            setEditedScores([...tutorAdjustedScores]);
-                            setEditedComments([...(selectedLesson.tutorComments || new Array(selectedLesson.exercises.length).fill(''))]);
-                            setEditedOverallComment(selectedLesson.tutorOverallComment || '');
+                            resetEdits(selectedLesson);
                           }}
                           className="px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-100 transition-colors font-medium"
                           disabled={saving}
@@ -1,9 +1,18 @@
 ﻿
 import React, { useState, useEffect, useRef } from 'react';
-import { generateVocabularyList, generateWordDetails, generateSpeech } from '@/lib/services/geminiService';
-import { VocabWord, WordDetails, VocabProgress, VocabList } from '../types';
+import { generateVocabularyList, generateWordDetails, generateSpeech, generateExampleSentence } from '@/lib/services/geminiService';
+import { VocabWord, WordDetails, VocabProgress, VocabList, ReviewGrade, ToneAssessment, VocabEntry, WritingAttempt } from '../types';
 import { saveVocabProgress, getVocabProgress, getVocabListByCategory, getVocabLists, saveVocabList } from '@/lib/services/storage';
-import { ArrowLeft, Loader2, Volume2, PenTool, CheckCircle2, X, Mic, RefreshCw, Play, Check } from 'lucide-react';
+import { scheduleReview, getDueReviews, describeNextReview, REVIEW_GRADES } from '@/lib/srs';
+import { assessRecording } from '@/lib/toneAnalysis';
+import { hanziCharDataLoader, loadCharacterData, preloadCharacters } from '@/lib/hanziData';
+import { createStrokeRecorder, addWritingAttempts, scoreWordAttempts, StrokeRecorder } from '@/lib/writingAnalytics';
+import { getListWords } from '@/lib/vocabImport';
+import { loadDictionary, summariseDefinitions } from '@/lib/dictionary';
+import { ToneFeedback } from './ToneFeedback';
+import { CharacterBreakdown } from './CharacterBreakdown';
+import { MY_WORDS_CATEGORY } from '@/lib/reader';
+import { ArrowLeft, Loader2, Volume2, PenTool, CheckCircle2, X, Mic, RefreshCw, Play, Check, CalendarClock } from 'lucide-react';
 
 // Declare HanziWriter types from global script
 declare const HanziWriter: any;
@@ -25,6 +34,13 @@ const CATEGORIES = [
   "Home & Environment"
 ];
 
+// HanziWriter shows the stroke after this many misses; those strokes are recorded as hinted
+const WRITING_HINT_AFTER_MISSES = 1;
+const WRITING_ADVANCE_DELAY_MS = 800; // Pause on the finished character before the next one
+
+// Characters of a word that HanziWriter can quiz (skips Latin letters, digits and punctuation)
+const getWritableCharacters = (word: string) => Array.from(word).filter(ch => /[\u4e00-\u9fff]/.test(ch));
+
 // Helper for audio decoding
 function decode(base64: string) {
   const clean = base64.replace(/\s/g, '');
@@ -68,11 +84,14 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
   const [view, setView] = useState<'categories' | 'list' | 'flashcard'>('categories');
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [availableCategories, setAvailableCategories] = useState<string[]>(CATEGORIES);
+  const [myWordsCount, setMyWordsCount] = useState(0); // Words saved from reading passages
   
-  const [characterList, setCharacterList] = useState<string[]>([]);
+  const [characterList, setCharacterList] = useState<string[]>([]); // Words (or characters) in the selected list
+  const [listEntries, setListEntries] = useState<Record<string, VocabEntry>>({});
   const [listLoading, setListLoading] = useState(false);
   const [listError, setListError] = useState<string | null>(null);
   const [progressMap, setProgressMap] = useState<Record<string, VocabProgress>>({});
+  const progressMapRef = useRef<Record<string, VocabProgress>>({}); // Latest map for async callbacks
   const [globalStats, setGlobalStats] = useState<{
     totalChars: number,
     viewedChars: number,
@@ -83,6 +102,14 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
   const [selectedCharacter, setSelectedCharacter] = useState<string | null>(null);
   const [wordDetails, setWordDetails] = useState<WordDetails | null>(null);
   const [detailLoading, setDetailLoading] = useState(false);
+  const [exampleLoading, setExampleLoading] = useState(false);
+
+  // Spaced-repetition review queue
+  const [dueReviews, setDueReviews] = useState<VocabProgress[]>([]);
+  const [reviewQueue, setReviewQueue] = useState<VocabProgress[]>([]);
+  const [reviewIndex, setReviewIndex] = useState(0);
+  const [reviewMode, setReviewMode] = useState(false);
+  const [lastReviewHint, setLastReviewHint] = useState<string | null>(null);
   
   // Flashcard states
   const [audioLoading, setAudioLoading] = useState(false);
@@ -90,6 +117,8 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
   const writerRef = useRef<any>(null); // HanziWriter instance for single character (Flashcard view)
   const writersRef = useRef<any[]>([]); // Array of HanziWriter instances for multi-character words
   const writingWriterRef = useRef<any>(null); // HanziWriter instance for Writing Modal
+  const strokeRecorderRef = useRef<StrokeRecorder | null>(null); // Stroke mistakes and timing for the current quiz
+  const wordAttemptsRef = useRef<WritingAttempt[]>([]); // Finished characters of the current run through the word
   const writingExampleWriterRef = useRef<any>(null); // HanziWriter instance for Writing Modal example animation
   const hanziContainerRef = useRef<HTMLDivElement | null>(null); // Ref for flashcard container
   const hanziWriteContainerRef = useRef<HTMLDivElement | null>(null); // Ref for writing container
@@ -97,6 +126,9 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
   
   // Modals
   const [showWritingModal, setShowWritingModal] = useState(false);
+  const [writingIndex, setWritingIndex] = useState(0); // Character of the word being written
+  const [writingRun, setWritingRun] = useState(0); // Bumped to restart the word from its first character
+  const [writingResults, setWritingResults] = useState<WritingAttempt[]>([]);
   const [showPronunciationModal, setShowPronunciationModal] = useState(false);
   
   // Recording State
@@ -104,6 +136,9 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
   const [recordedAudio, setRecordedAudio] = useState<string | null>(null); // Blob URL
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
+  const [toneAssessment, setToneAssessment] = useState<ToneAssessment | null>(null);
+  const [analyzingTones, setAnalyzingTones] = useState(false);
+  const [noSpeechDetected, setNoSpeechDetected] = useState(false);
 
   // Load available categories from uploaded vocab lists
   useEffect(() => {
@@ -119,10 +154,10 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
         let writing = 0;
         let pronunciation = 0;
 
-        // Sum up total unique characters from all lists
+        // Sum up total unique words from all lists
         const allUniqueCharsInLists = new Set<string>();
         vocabLists.forEach(list => {
-          list.characters.forEach(char => allUniqueCharsInLists.add(char));
+          getListWords(list).forEach(entry => allUniqueCharsInLists.add(entry.word));
         });
         total = allUniqueCharsInLists.size;
 
@@ -142,6 +177,9 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
           pronunciationChars: pronunciation
         });
 
+        setDueReviews(getDueReviews(allProgress));
+        setMyWordsCount(allProgress.filter(p => p.savedAt).length);
+
         // Combine predefined categories with uploaded categories, removing duplicates
         const allCategories = Array.from(new Set([...CATEGORIES, ...uploadedCategories]));
         setAvailableCategories(allCategories);
@@ -161,7 +199,7 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
     const allProgress = await getVocabProgress(studentId);
     const map: Record<string, VocabProgress> = {};
     allProgress.forEach(p => {
-        if (p.category === selectedCategory) {
+        if (selectedCategory === MY_WORDS_CATEGORY ? p.savedAt : p.category === selectedCategory) {
             map[p.word] = p;
         }
     });
@@ -174,13 +212,16 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
     }
   }, [view, selectedCategory]);
 
-  const updateProgress = async (word: string, pinyin: string, meaning: string, type: 'viewed' | 'writing' | 'pronunciation') => {
-    if (!selectedCategory) return;
-    
-    try {
-    const id = `${studentId}_${word}`;
-    const existing = progressMap[word] || {
-        id,
+  useEffect(() => {
+    progressMapRef.current = progressMap;
+  }, [progressMap]);
+
+  // Existing record for a word, or a fresh one in the current category
+  const getOrCreateProgress = (word: string, pinyin: string, meaning: string): VocabProgress | null => {
+    if (progressMapRef.current[word]) return progressMapRef.current[word];
+    if (!selectedCategory) return null;
+    return {
+        id: `${studentId}_${word}`,
         studentId,
         studentName,
         category: selectedCategory,
@@ -190,17 +231,36 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
         practices: { viewed: 0, writing: 0, pronunciation: 0 },
         lastPracticed: new Date().toISOString()
     };
+  };
 
+  const updateProgress = async (
+    word: string,
+    pinyin: string,
+    meaning: string,
+    type: 'viewed' | 'writing' | 'pronunciation',
+    toneResult?: ToneAssessment,
+    writingAttempts?: WritingAttempt[]
+  ) => {
+    const existing = getOrCreateProgress(word, pinyin, meaning);
+    if (!existing) return;
+    
+    try {
     const updated: VocabProgress = {
         ...existing,
         practices: {
             ...existing.practices,
             [type]: existing.practices[type] + 1
         },
-        lastPracticed: new Date().toISOString()
+        lastPracticed: new Date().toISOString(),
+        ...(toneResult && {
+            toneAssessment: toneResult,
+            bestToneScore: Math.max(existing.bestToneScore ?? 0, toneResult.score),
+        }),
+        ...(writingAttempts && writingAttempts.length > 0 && { writingAttempts: addWritingAttempts(existing, writingAttempts) }),
     };
 
     // Optimistic update
+    progressMapRef.current = { ...progressMapRef.current, [word]: updated };
     setProgressMap(prev => ({ ...prev, [word]: updated }));
     
       // Save (errors are handled in saveVocabProgress, so this won't throw)
@@ -211,6 +271,69 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
     }
   };
 
+  // Record a spaced-repetition review for the current flashcard
+  const handleReviewGrade = async (grade: ReviewGrade) => {
+    if (!wordDetails) return;
+    const existing = getOrCreateProgress(wordDetails.character, wordDetails.pinyin, wordDetails.meaning);
+    if (!existing) return;
+
+    const srs = scheduleReview(existing.srs, grade);
+    const updated: VocabProgress = { ...existing, srs, lastPracticed: new Date().toISOString() };
+    progressMapRef.current = { ...progressMapRef.current, [updated.word]: updated };
+    setProgressMap(prev => ({ ...prev, [updated.word]: updated }));
+
+    try {
+      await saveVocabProgress(updated);
+    } catch (error) {
+      console.error("Error saving review:", error);
+    }
+
+    if (!reviewMode) {
+      setLastReviewHint(`Next review ${describeNextReview(srs)}`);
+      return;
+    }
+
+    // Forgotten cards go to the back of today's queue
+    const queue = grade === 0 ? [...reviewQueue, updated] : reviewQueue;
+    const nextIndex = reviewIndex + 1;
+    if (nextIndex < queue.length) {
+      setReviewQueue(queue);
+      setReviewIndex(nextIndex);
+      handleCharacterSelect(queue[nextIndex].word);
+    } else {
+      exitReview();
+    }
+  };
+
+  const startReview = () => {
+    if (dueReviews.length === 0) return;
+    const map: Record<string, VocabProgress> = {};
+    dueReviews.forEach(p => { map[p.word] = p; });
+    progressMapRef.current = map;
+    setProgressMap(map);
+    setReviewQueue(dueReviews);
+    setReviewIndex(0);
+    setReviewMode(true);
+    setSelectedCategory(null);
+    handleCharacterSelect(dueReviews[0].word);
+  };
+
+  const exitReview = () => {
+    setReviewMode(false);
+    setReviewQueue([]);
+    setReviewIndex(0);
+    setView('categories');
+  };
+
+  // Fetch stroke data for the open list and today's reviews in the background, so writing
+  // practice keeps working if the classroom connection drops
+  useEffect(() => {
+    const words = [...characterList, ...dueReviews.map(p => p.word)];
+    if (words.length > 0) {
+      preloadCharacters(words).catch(error => console.warn('Stroke data preload failed:', error));
+    }
+  }, [characterList, dueReviews]);
+
   // Navigation Handlers
   const handleCategorySelect = async (category: string) => {
     setSelectedCategory(category);
@@ -218,14 +341,28 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
     setListLoading(true);
     setListError(null);
     setCharacterList([]); // Clear previous
+    setListEntries({});
     
     try {
+      // Words the student saved while reading, from any list
+      if (category === MY_WORDS_CATEGORY) {
+        const saved = (await getVocabProgress(studentId))
+          .filter(p => p.savedAt)
+          .sort((a, b) => (b.savedAt || '').localeCompare(a.savedAt || ''));
+        if (saved.length === 0) setListError("You haven't saved any words yet. Tap words in reading passages to add them.");
+        setCharacterList(saved.map(p => p.word));
+        setListEntries(Object.fromEntries(saved.map(p => [p.word, { word: p.word, pinyin: p.pinyin, meaning: p.meaning }])));
+        return;
+      }
+
       // Get uploaded vocabulary list
       const uploadedList = await getVocabListByCategory(category);
+      const uploadedWords = uploadedList ? getListWords(uploadedList) : [];
       
-      if (uploadedList && uploadedList.characters.length > 0) {
-        // Use uploaded list - show individual characters
-        setCharacterList(uploadedList.characters);
+      if (uploadedWords.length > 0) {
+        // Use uploaded list - words as the tutor imported them
+        setCharacterList(uploadedWords.map(entry => entry.word));
+        setListEntries(Object.fromEntries(uploadedWords.map(entry => [entry.word, entry])));
       } else {
         // Fall back to AI generation if no uploaded list exists
     const words = await generateVocabularyList(category);
@@ -240,29 +377,27 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
             setListError("Failed to generate vocabulary. Please try again or check your API key.");
           }
         } else {
-          // Extract individual characters from AI-generated words
-          const allChars = new Set<string>();
+          // Keep AI-generated words whole, with their pinyin and meaning
+          const entries: VocabEntry[] = [];
           words.forEach((word: VocabWord) => {
-            // Split multi-character words into individual characters
-            word.character.split('').forEach((char: string) => {
-              if (/[\u4e00-\u9fa5]/.test(char)) {
-                allChars.add(char);
-              }
-            });
+            const text = word.character.trim();
+            if (/[\u4e00-\u9fa5]/.test(text) && !entries.some(e => e.word === text)) {
+              entries.push({ word: text, pinyin: word.pinyin, meaning: word.meaning });
+            }
           });
-          const finalChars = Array.from(allChars);
-          setCharacterList(finalChars);
+          setCharacterList(entries.map(entry => entry.word));
+          setListEntries(Object.fromEntries(entries.map(entry => [entry.word, entry])));
 
           // Auto-save generated list to database so it stays consistent for all students
           const vocabList: VocabList = {
             id: crypto.randomUUID(),
             category: category,
-            characters: finalChars,
+            words: entries,
             uploadedAt: new Date().toISOString(),
             fileName: 'AI Generated'
           };
           
-          // Silently save in background
+          // Queued in the outbox, so it reaches the cloud once the student is back online
           saveVocabList(vocabList).catch(err => console.warn("Failed to auto-save AI vocab list:", err));
         }
       }
@@ -283,12 +418,46 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
     setView('flashcard');
     setDetailLoading(true);
     setWordDetails(null);
+    setExampleLoading(false);
+    setLastReviewHint(null);
     
     try {
-      // Generate word details for the character using AI
+      // Dictionary data shows at once; only the example sentence is generated
+      const dictionary = await loadDictionary(character);
+      const entry = dictionary?.lookup(character);
+      if (entry) {
+        // A tutor-imported reading picks between readings (行 xíng / háng) and overrides the gloss
+        const listEntry = listEntries[character];
+        const reading = entry.readings.find(r => r.pinyin === listEntry?.pinyin) || entry.readings[0];
+        const details: WordDetails = {
+          character,
+          pinyin: listEntry?.pinyin || reading.pinyin,
+          meaning: listEntry?.meaning || summariseDefinitions(reading),
+          exampleSentenceCh: '',
+          exampleSentenceEn: '',
+          traditional: entry.traditional.filter(t => t !== character).join(' / ') || undefined,
+          otherReadings: entry.readings
+            .filter(r => r !== reading)
+            .map(r => ({ pinyin: r.pinyin, meaning: summariseDefinitions(r, 2) })),
+          frequencyRank: entry.frequencyRank,
+          source: 'dictionary',
+        };
+        setWordDetails(details);
+        setDetailLoading(false);
+        updateProgress(character, details.pinyin, details.meaning, 'viewed');
+
+        setExampleLoading(true);
+        const example = await generateExampleSentence(character, details.pinyin, details.meaning);
+        // Ignore a late sentence if the student has moved on to another word
+        if (example) setWordDetails(prev => (prev?.character === character ? { ...prev, ...example } : prev));
+        setExampleLoading(false);
+        return;
+      }
+
+      // Not in the dictionary (or it couldn't be loaded): generate everything
       const details = await generateWordDetails(character);
       if (details) {
-        setWordDetails(details);
+        setWordDetails({ ...details, source: 'ai' });
     // Record view
         updateProgress(character, details.pinyin, details.meaning, 'viewed');
       } else {
@@ -348,6 +517,7 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
             // Clear any dangerouslySetInnerHTML content before HanziWriter takes over
             container.innerHTML = '';
             writerRef.current = HW.create('hanzi-target-div', wordDetails.character, {
+              charDataLoader: hanziCharDataLoader,
               width: 200,
               height: 200,
               padding: 5,
@@ -412,6 +582,7 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
             
             try {
               const writer = HW.create(`hanzi-char-${index}`, char, {
+                charDataLoader: hanziCharDataLoader,
                 width: charWidth,
                 height: charHeight,
                 padding: 5,
@@ -656,16 +827,16 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
     let mounted = true;
 
     const initWritingQuiz = () => {
-        if (!mounted) return;
+        if (!mounted || !wordDetails?.character) return;
 
         const container = hanziWriteContainerRef.current || document.getElementById('hanzi-write-div');
-        const exampleContainer = hanziWriteExampleContainerRef.current || document.getElementById('hanzi-write-example-div');
         const HW = (window as any).HanziWriter;
 
-        // HanziWriter only supports single characters
-        const isMultiCharacter = wordDetails?.character && wordDetails.character.length > 1;
+        // HanziWriter quizzes one character at a time; words are written character by character
+        const characters = getWritableCharacters(wordDetails.character);
+        const character = characters[writingIndex];
 
-        if (container && HW && wordDetails?.character && !isMultiCharacter) {
+        if (container && HW && character) {
              // Remove React children first to avoid conflicts
              while (container.firstChild) {
                try {
@@ -679,34 +850,52 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
              try {
                 // Clear any dangerouslySetInnerHTML content before HanziWriter takes over
                 container.innerHTML = '';
-                writingWriterRef.current = HW.create('hanzi-write-div', wordDetails.character, {
+                writingWriterRef.current = HW.create('hanzi-write-div', character, {
+                    charDataLoader: hanziCharDataLoader,
                     width: 300,
                     height: 300,
                     showCharacter: false,
                     showOutline: true,
-                    showHintAfterMisses: 1,
+                    showHintAfterMisses: WRITING_HINT_AFTER_MISSES,
                     highlightOnComplete: true,
                     padding: 5,
+                    onMistake: (data: any) => strokeRecorderRef.current?.onMistake(data),
+                    onCorrectStroke: (data: any) => strokeRecorderRef.current?.onCorrectStroke(data),
                     onComplete: async () => {
                          try {
-                           await updateProgress(wordDetails.character, wordDetails.pinyin, wordDetails.meaning, 'writing');
+                           const recorder = strokeRecorderRef.current;
+                           if (!recorder) return;
+                           strokeRecorderRef.current = null;
+                           // Radical strokes let tutors see whether mistakes are in the radical or the rest
+                           const data = await loadCharacterData(character).catch(() => null);
+                           const attempts = [...wordAttemptsRef.current, recorder.finish(data?.radStrokes)];
+                           wordAttemptsRef.current = attempts;
+                           if (!mounted) return;
+                           setWritingResults(attempts);
+
+                           if (writingIndex < characters.length - 1) {
+                             setTimeout(() => { if (mounted) setWritingIndex(writingIndex + 1); }, WRITING_ADVANCE_DELAY_MS);
+                           } else {
+                             // The whole word counts as one writing practice
+                             await updateProgress(wordDetails.character, wordDetails.pinyin, wordDetails.meaning, 'writing', undefined, attempts);
+                           }
                          } catch (error) {
                            console.error("Error in onComplete callback:", error);
                            // Don't let errors crash the app
                          }
                     }
                 });
+                strokeRecorderRef.current = createStrokeRecorder(character, WRITING_HINT_AFTER_MISSES);
                 writingWriterRef.current.quiz();
              } catch (e) {
                  console.error("HanziWriter Quiz Error", e);
-                 container.innerHTML = `<div class="text-6xl text-slate-300 flex items-center justify-center h-full">${wordDetails.character}</div>`;
+                 container.innerHTML = `<div class="text-6xl text-slate-300 flex items-center justify-center h-full">${character}</div>`;
              }
-        } else if (isMultiCharacter && container) {
-            // For multi-character words, show the word for reference
+        } else if (!character && container) {
+            // Nothing HanziWriter can quiz (e.g. letters only), so show the word for reference
             container.innerHTML = `<div class="text-6xl text-slate-800 chinese-text flex items-center justify-center h-full">${wordDetails.character}</div>`;
-            // Mark as practiced since we can't do interactive writing for multi-character words
             updateProgress(wordDetails.character, wordDetails.pinyin, wordDetails.meaning, 'writing');
-        } else if (attempts < 10 && !isMultiCharacter) {
+        } else if (attempts < 10) {
             attempts++;
             setTimeout(initWritingQuiz, 300);
         }
@@ -718,10 +907,10 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
         const exampleContainer = hanziWriteExampleContainerRef.current || document.getElementById('hanzi-write-example-div');
         const HW = (window as any).HanziWriter;
 
-        // Only show example for single characters
-        const isMultiCharacter = wordDetails?.character && wordDetails.character.length > 1;
+        // Animate the character currently being written
+        const character = wordDetails ? getWritableCharacters(wordDetails.character)[writingIndex] : undefined;
 
-        if (exampleContainer && HW && wordDetails?.character && !isMultiCharacter) {
+        if (exampleContainer && HW && character) {
             // Clean up previous example writer
             if (writingExampleWriterRef.current) {
                 try {
@@ -746,7 +935,8 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
 
             try {
                 exampleContainer.innerHTML = '';
-                writingExampleWriterRef.current = HW.create('hanzi-write-example-div', wordDetails.character, {
+                writingExampleWriterRef.current = HW.create('hanzi-write-example-div', character, {
+                    charDataLoader: hanziCharDataLoader,
                     width: 200,
                     height: 200,
                     showCharacter: false, // Hide static character, only show stroke animation
@@ -775,7 +965,7 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
                 }, 200);
             } catch (e) {
                 console.error("HanziWriter Example Animation Error", e);
-                exampleContainer.innerHTML = `<span class="text-6xl font-black text-slate-800 chinese-text">${wordDetails.character}</span>`;
+                exampleContainer.innerHTML = `<span class="text-6xl font-black text-slate-800 chinese-text">${character}</span>`;
             }
         }
     };
@@ -810,26 +1000,17 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
         console.warn('Writing cleanup error (safe to ignore):', e);
       }
     };
-  }, [showWritingModal, wordDetails]);
-
-  const restartWritingPractice = () => {
-    if (writingWriterRef.current) {
-        writingWriterRef.current.quiz();
-    } else if (wordDetails && wordDetails.character.length > 1) {
-        // For multi-character words, just re-render
-        const container = document.getElementById('hanzi-write-div');
-        if (container) {
-          container.innerHTML = `<div class="text-6xl text-slate-800 chinese-text flex items-center justify-center h-full">${wordDetails.character}</div>`;
-        }
-    }
-    
-    // Also replay the example animation
-    if (writingExampleWriterRef.current && wordDetails && wordDetails.character.length === 1) {
-        if (typeof writingExampleWriterRef.current.cancelAnimation === 'function') {
-            writingExampleWriterRef.current.cancelAnimation();
-        }
-        writingExampleWriterRef.current.animateCharacter();
-    }
+  }, [showWritingModal, wordDetails, writingIndex, writingRun]);
+
+  const writingCharacters = wordDetails ? getWritableCharacters(wordDetails.character) : [];
+
+  // Start the word again from its first character
+  const startWritingRun = () => {
+    strokeRecorderRef.current = null;
+    wordAttemptsRef.current = [];
+    setWritingResults([]);
+    setWritingIndex(0);
+    setWritingRun(run => run + 1);
   };
 
   // Auto-play model pronunciation when modal opens
@@ -845,7 +1026,13 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
   }, [showPronunciationModal, wordDetails]);
 
   // --- Pronunciation Modal Logic ---
+  const clearToneResult = () => {
+    setToneAssessment(null);
+    setNoSpeechDetected(false);
+  };
+
   const startRecording = async () => {
+    clearToneResult();
     try {
         const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
         const mediaRecorder = new MediaRecorder(stream);
@@ -856,15 +1043,25 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
             audioChunksRef.current.push(event.data);
         };
 
-        mediaRecorder.onstop = () => {
-            const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/wav' });
+        mediaRecorder.onstop = async () => {
+            const audioBlob = new Blob(audioChunksRef.current, { type: mediaRecorder.mimeType || 'audio/webm' });
             const audioUrl = URL.createObjectURL(audioBlob);
             setRecordedAudio(audioUrl);
-            
-            // Log progress
-            if (wordDetails) {
-                 updateProgress(wordDetails.character, wordDetails.pinyin, wordDetails.meaning, 'pronunciation');
+            if (!wordDetails) return;
+
+            // Score the tones locally, then log progress with the result
+            setAnalyzingTones(true);
+            let result: ToneAssessment | null = null;
+            try {
+                result = await assessRecording(audioBlob, wordDetails.pinyin);
+            } catch (err) {
+                console.warn("Tone analysis failed", err);
             }
+            setToneAssessment(result);
+            setNoSpeechDetected(!result);
+            setAnalyzingTones(false);
+
+            updateProgress(wordDetails.character, wordDetails.pinyin, wordDetails.meaning, 'pronunciation', result || undefined);
         };
 
         mediaRecorder.start();
@@ -937,6 +1134,55 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
           </div>
         )}
 
+        {/* Due Today Review Queue */}
+        <div className="bg-white rounded-2xl shadow-sm border border-indigo-200 p-6">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <div className="bg-indigo-100 p-3 rounded-xl text-indigo-600">
+                <CalendarClock size={24} />
+              </div>
+              <div>
+                <h3 className="text-xl font-bold text-slate-800">Due Today</h3>
+                <p className="text-sm text-slate-500">
+                  {dueReviews.length > 0
+                    ? `${dueReviews.length} character${dueReviews.length === 1 ? '' : 's'} to review before you forget them`
+                    : 'Nothing to review right now. Rate flashcards to schedule reviews.'}
+                </p>
+              </div>
+            </div>
+            {dueReviews.length > 0 && (
+              <button
+                onClick={startReview}
+                className="px-6 py-3 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 transition-colors font-semibold shadow-sm"
+              >
+                Start Review
+              </button>
+            )}
+          </div>
+          {dueReviews.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-4">
+              {dueReviews.slice(0, 24).map(p => (
+                <span key={p.id} title={`${p.pinyin}: ${p.meaning}`} className="px-2 py-1 bg-indigo-50 border border-indigo-100 rounded-lg text-lg text-slate-700 chinese-text">
+                  {p.word}
+                </span>
+              ))}
+              {dueReviews.length > 24 && (
+                <span className="px-2 py-1 text-sm text-slate-400 self-center">+{dueReviews.length - 24} more</span>
+              )}
+            </div>
+          )}
+        </div>
+
+        {myWordsCount > 0 && (
+          <button
+            onClick={() => handleCategorySelect(MY_WORDS_CATEGORY)}
+            className="w-full bg-white p-6 rounded-2xl shadow-sm border border-brand-200 hover:border-brand-400 hover:shadow-lg transition-all text-left group"
+          >
+            <h3 className="text-xl font-bold text-slate-800 group-hover:text-brand-600 transition-colors">{MY_WORDS_CATEGORY}</h3>
+            <p className="text-slate-400 text-sm mt-2">{myWordsCount} words saved from reading passages</p>
+          </button>
+        )}
+
         {predefinedCats.length > 0 && (
           <div>
             <h3 className="text-sm font-semibold text-slate-500 uppercase mb-3">Predefined Categories</h3>
@@ -1006,7 +1252,7 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
             </div>
         ) : characterList.length === 0 ? (
             <div className="flex flex-col items-center justify-center h-64 bg-white rounded-2xl p-8 border border-slate-200">
-                <p className="text-slate-500">No characters found. Please try again.</p>
+                <p className="text-slate-500">No words found. Please try again.</p>
                 <button
                     onClick={() => handleCategorySelect(selectedCategory!)}
                     className="mt-4 px-6 py-3 bg-brand-600 text-white rounded-lg hover:bg-brand-700 transition-colors font-semibold"
@@ -1021,7 +1267,7 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
                     <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
                         <div className="flex-1">
                             <h3 className="text-lg font-bold text-slate-800 mb-1">Learning Progress</h3>
-                            <p className="text-sm text-slate-500">Mastering {characterList.length} characters in this category</p>
+                            <p className="text-sm text-slate-500">Mastering {characterList.length} words in this category</p>
                         </div>
                         
                         <div className="flex flex-wrap gap-4 md:gap-8">
@@ -1045,7 +1291,7 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
                                                 style={{ width: `${percentage}%` }}
                                             />
                                         </div>
-                                        <span className="text-[10px] text-slate-400 mt-1">{count} / {characterList.length} chars</span>
+                                        <span className="text-[10px] text-slate-400 mt-1">{count} / {characterList.length} words</span>
                                     </div>
                                 );
                             })}
@@ -1071,7 +1317,10 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
                                     <CheckCircle2 size={16} />
                                 </div>
                             )}
-                            <span className="text-4xl font-bold text-slate-800 chinese-text group-hover:text-brand-600 transition-colors">{character}</span>
+                            <span className={`${character.length > 2 ? 'text-2xl' : character.length === 2 ? 'text-3xl' : 'text-4xl'} font-bold text-slate-800 chinese-text group-hover:text-brand-600 transition-colors whitespace-nowrap`}>{character}</span>
+                            {listEntries[character]?.pinyin && (
+                                <span className="text-xs text-slate-400 mt-1">{listEntries[character].pinyin}</span>
+                            )}
                         </button>
                     );
                 })}
@@ -1097,6 +1346,13 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
                 {/* Header / Pinyin */}
                 <div className="bg-slate-50 p-6 text-center border-b border-slate-100 relative">
                     <h3 className="text-xl font-medium text-slate-500 mb-2">{wordDetails.pinyin}</h3>
+                    {(wordDetails.traditional || wordDetails.frequencyRank) && (
+                        <p className="text-xs text-slate-400 -mt-1 mb-2">
+                            {wordDetails.traditional && <span className="chinese-text">Traditional: {wordDetails.traditional}</span>}
+                            {wordDetails.traditional && wordDetails.frequencyRank && ' · '}
+                            {wordDetails.frequencyRank && <span>#{wordDetails.frequencyRank} most common</span>}
+                        </p>
+                    )}
                     
                     {/* Hanzi Writer Container */}
                     <div className="flex justify-center mb-4 relative group">
@@ -1117,6 +1373,13 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
                     </div>
 
                     <p className="text-lg font-semibold text-brand-600">{wordDetails.meaning}</p>
+                    {wordDetails.otherReadings && wordDetails.otherReadings.length > 0 && (
+                        <div className="mt-2 text-sm text-slate-500 space-y-0.5">
+                            {wordDetails.otherReadings.map(r => (
+                                <p key={r.pinyin}>Also <span className="font-medium text-slate-600">{r.pinyin}</span>: {r.meaning}</p>
+                            ))}
+                        </div>
+                    )}
                 </div>
 
                 {/* Content */}
@@ -1124,6 +1387,11 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
                     {/* Example Sentence */}
                     <div className="space-y-2">
                         <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Example Sentence</h4>
+                        {!wordDetails.exampleSentenceCh ? (
+                            <p className="text-sm text-slate-400 flex items-center gap-2">
+                                {exampleLoading ? <><Loader2 size={14} className="animate-spin" /> Writing an example sentence...</> : 'No example sentence available.'}
+                            </p>
+                        ) : (
                         <div className="flex gap-3 items-start">
                              <button 
                                 onClick={() => playAudio(wordDetails.exampleSentenceCh)}
@@ -1136,6 +1404,42 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
                                 <p className="text-slate-500">{wordDetails.exampleSentenceEn}</p>
                              </div>
                         </div>
+                        )}
+                    </div>
+
+                    {/* Components, radical and related characters */}
+                    <CharacterBreakdown
+                        word={wordDetails.character}
+                        listWords={[...characterList, ...Object.keys(progressMap)]}
+                    />
+
+                    {/* Spaced Repetition Grading */}
+                    <div className="pt-6 border-t border-slate-100">
+                        <div className="flex justify-between items-center mb-3">
+                            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">How well did you remember it?</h4>
+                            {reviewMode && (
+                                <span className="text-xs font-semibold text-indigo-600">Review {Math.min(reviewIndex + 1, reviewQueue.length)} of {reviewQueue.length}</span>
+                            )}
+                        </div>
+                        <div className="grid grid-cols-4 gap-2">
+                            {REVIEW_GRADES.map(({ grade, label }) => (
+                                <button
+                                    key={grade}
+                                    onClick={() => handleReviewGrade(grade)}
+                                    className={`py-2 rounded-lg text-sm font-semibold border transition-colors ${
+                                        grade === 0 ? 'border-red-200 text-red-600 hover:bg-red-50' :
+                                        grade === 1 ? 'border-amber-200 text-amber-600 hover:bg-amber-50' :
+                                        grade === 2 ? 'border-green-200 text-green-600 hover:bg-green-50' :
+                                        'border-indigo-200 text-indigo-600 hover:bg-indigo-50'
+                                    }`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        {lastReviewHint && (
+                            <p className="text-xs text-slate-500 mt-2 flex items-center gap-1"><Check size={12} /> {lastReviewHint}</p>
+                        )}
                     </div>
 
                     {/* Actions */}
@@ -1164,7 +1468,7 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
                         </button>
 
                         <button
-                            onClick={() => setShowWritingModal(true)}
+                            onClick={() => { startWritingRun(); setShowWritingModal(true); }}
                             className="flex flex-col items-center justify-center p-4 rounded-xl border border-slate-200 hover:bg-brand-50 hover:border-brand-200 hover:text-brand-700 transition-all gap-2 group"
                         >
                             <div className="bg-brand-100 p-3 rounded-full text-brand-600 group-hover:bg-brand-200 transition-colors">
@@ -1186,7 +1490,8 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
         <div className="flex items-center gap-4">
           <button 
             onClick={() => {
-                if (view === 'flashcard') setView('list');
+                if (view === 'flashcard' && reviewMode) exitReview();
+                else if (view === 'flashcard') setView('list');
                 else if (view === 'list') setView('categories');
                 else onBack();
             }}
@@ -1196,7 +1501,7 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
           </button>
           <div>
             <h2 className="text-lg font-bold text-slate-800">
-                {view === 'categories' ? 'Vocabulary Practice' : selectedCategory}
+                {view === 'categories' ? 'Vocabulary Practice' : reviewMode ? 'Daily Review' : selectedCategory}
             </h2>
             {view === 'flashcard' && <p className="text-xs text-slate-500">Word Details</p>}
           </div>
@@ -1224,13 +1529,13 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
                 <div className="p-8 flex flex-col items-center gap-6">
                     <div className="flex flex-col md:flex-row items-center justify-center gap-6 w-full">
                         {/* Example Animation */}
-                        {wordDetails.character.length === 1 && (
+                        {writingCharacters.length > 0 && (
                             <div className="flex flex-col items-center gap-2">
                                 <p className="text-xs font-semibold text-slate-500 uppercase">Watch Example</p>
                                 <div className="relative border-2 border-slate-200 rounded-xl bg-white p-4">
                                     <div 
                                         ref={hanziWriteExampleContainerRef}
-                                        key={`hanzi-write-example-${wordDetails.character}-${showWritingModal}`}
+                                        key={`hanzi-write-example-${wordDetails.character}-${showWritingModal}-${writingIndex}-${writingRun}`}
                                         id="hanzi-write-example-div" 
                                         className="min-w-[200px] min-h-[200px] flex items-center justify-center"
                                     />
@@ -1259,26 +1564,68 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
                                 {/* Fallback overlay - completely separate from HanziWriter container */}
                                 {!writingWriterRef.current && (
                                     <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-0 border-2 border-slate-100 rounded-xl bg-slate-50">
-                                        <span className="text-slate-200 text-6xl">{wordDetails.character}</span>
+                                        <span className="text-slate-200 text-6xl">{writingCharacters[writingIndex] || wordDetails.character}</span>
                                     </div>
                                 )}
                                 <div 
                                     ref={hanziWriteContainerRef}
-                                    key={`hanzi-write-${wordDetails.character}-${showWritingModal}`}
+                                    key={`hanzi-write-${wordDetails.character}-${showWritingModal}-${writingIndex}-${writingRun}`}
                                     id="hanzi-write-div" 
                                     className="border-2 border-slate-100 rounded-xl bg-slate-50 min-w-[300px] min-h-[300px] relative z-10"
                                 />
                             </div>
                         </div>
                     </div>
-                    <p className="text-sm text-slate-500 text-center">
-                        Trace the strokes in the correct order. Watch the example on the left to see the stroke order.
-                    </p>
+                    {writingCharacters.length > 1 && (
+                        <div className="flex items-center gap-2">
+                            {writingCharacters.map((ch, i) => {
+                                const result = writingResults[i];
+                                return (
+                                    <span
+                                        key={i}
+                                        title={result ? `${result.accuracy}% accuracy` : undefined}
+                                        className={`w-12 h-12 flex items-center justify-center rounded-lg border-2 text-2xl chinese-text ${
+                                            result ? (result.accuracy >= 80 ? 'border-green-300 bg-green-50 text-green-700' : 'border-amber-300 bg-amber-50 text-amber-700')
+                                            : i === writingIndex ? 'border-brand-400 bg-white text-slate-300' : 'border-slate-200 bg-slate-50 text-slate-300'
+                                        }`}
+                                    >
+                                        {result || i !== writingIndex ? ch : '?'}
+                                    </span>
+                                );
+                            })}
+                        </div>
+                    )}
+                    {writingCharacters.length > 0 && writingResults.length === writingCharacters.length ? (
+                        <div className="flex flex-wrap justify-center gap-4 text-sm">
+                            {(() => {
+                                const score = scoreWordAttempts(writingResults);
+                                const mistakes = writingResults.reduce((sum, a) => sum + a.mistakesByStroke.reduce((s, m) => s + m, 0), 0);
+                                const hints = writingResults.reduce((sum, a) => sum + a.hintedStrokes.length, 0);
+                                const seconds = Math.round(writingResults.reduce((sum, a) => sum + a.durationMs, 0) / 1000);
+                                return (
+                                    <>
+                                        <span className={`font-bold ${score >= 80 ? 'text-green-600' : score >= 50 ? 'text-amber-600' : 'text-red-600'}`}>
+                                            {score}% accuracy
+                                        </span>
+                                        <span className="text-slate-500">{mistakes} mistakes</span>
+                                        {hints > 0 && <span className="text-slate-500">{hints} hinted {hints === 1 ? 'stroke' : 'strokes'}</span>}
+                                        <span className="text-slate-500">{seconds}s</span>
+                                    </>
+                                );
+                            })()}
+                        </div>
+                    ) : (
+                        <p className="text-sm text-slate-500 text-center">
+                            {writingCharacters.length > 1
+                                ? `Character ${writingIndex + 1} of ${writingCharacters.length}: trace the strokes in order. The next character starts automatically.`
+                                : 'Trace the strokes in the correct order. Watch the example on the left to see the stroke order.'}
+                        </p>
+                    )}
                 </div>
 
                 <div className="p-4 border-t border-slate-100 flex justify-center gap-3 bg-slate-50">
                     <button 
-                        onClick={restartWritingPractice}
+                        onClick={startWritingRun}
                         className="px-4 py-2 rounded-lg border border-slate-200 hover:bg-white text-slate-600 hover:text-brand-600 transition-colors text-sm font-bold flex items-center gap-2"
                     >
                         <RefreshCw size={16} /> Practice Again
@@ -1318,11 +1665,12 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
                 URL.revokeObjectURL(recordedAudio);
                 setRecordedAudio(null);
               }
+              clearToneResult();
             }
           }}
         >
             <div 
-              className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden flex flex-col relative"
+              className="bg-white rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] overflow-hidden flex flex-col relative"
               style={{ zIndex: 10000 }}
               onClick={(e) => e.stopPropagation()}
             >
@@ -1340,6 +1688,7 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
                                 URL.revokeObjectURL(recordedAudio);
                                 setRecordedAudio(null);
                             }
+                            clearToneResult();
                         }} 
                         className="text-slate-400 hover:text-slate-600"
                     >
@@ -1347,7 +1696,7 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
                     </button>
                 </div>
                 
-                <div className="p-8 flex flex-col items-center gap-6">
+                <div className="p-8 overflow-y-auto flex flex-col items-center gap-6">
                     {/* Character Display */}
                     <div className="text-center mb-2">
                         <span className="text-6xl font-bold text-slate-800 chinese-text">{wordDetails.character}</span>
@@ -1453,10 +1802,25 @@ export const StudentVocabPractice: React.FC<Props> = ({ studentId, studentName,
                             >
                                 <Play size={20} /> Play My Recording
                             </button>
+                            {analyzingTones ? (
+                                <p className="text-sm text-slate-500 flex items-center justify-center gap-2">
+                                    <Loader2 size={16} className="animate-spin" /> Checking your tones...
+                                </p>
+                            ) : toneAssessment ? (
+                                <ToneFeedback
+                                    assessment={toneAssessment}
+                                    bestScore={progressMap[wordDetails.character]?.bestToneScore}
+                                />
+                            ) : noSpeechDetected && (
+                                <p className="text-sm text-slate-500">
+                                    We couldn&apos;t hear your voice clearly. Try again a little closer to the microphone.
+                                </p>
+                            )}
                             <button
                                 onClick={() => {
                                     setRecordedAudio(null);
                                     audioChunksRef.current = [];
+                                    clearToneResult();
                                 }}
                                 className="text-xs text-slate-400 hover:text-slate-600 underline"
                             >
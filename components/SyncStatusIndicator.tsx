@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { SyncStatus } from '@/types';
+import { discardParkedChanges, getSyncStatus, retrySyncNow, subscribeSyncStatus } from '@/lib/services/sync';
+
+// Small floating pill showing whether local changes have reached the cloud
+export const SyncStatusIndicator: React.FC = () => {
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus());
+
+  useEffect(() => subscribeSyncStatus(setStatus), []);
+
+  // Nothing worth showing when everything is synced
+  if (status.state === 'idle' && status.pending === 0 && status.parked === 0) return null;
+
+  // Changes the cloud refused stay on this device until the user lets them go
+  if (status.parked > 0 && status.pending === 0) {
+    const parkedLabel = `${status.parked} change${status.parked === 1 ? '' : 's'}`;
+    const handleDiscard = () => {
+      if (confirm(`${parkedLabel} couldn't be saved because you no longer have permission to make ${status.parked === 1 ? 'it' : 'them'}. Discard and reload the cloud copy?`)) {
+        discardParkedChanges();
+      }
+    };
+    return (
+      <button
+        onClick={handleDiscard}
+        className="fixed bottom-4 right-4 z-50 flex items-center gap-2 px-3 py-2 rounded-full shadow-lg text-xs font-medium transition-colors bg-red-600 text-white"
+      >
+        <AlertTriangle size={14} />
+        {parkedLabel} couldn't be saved · Review
+      </button>
+    );
+  }
+
+  const pendingLabel = `${status.pending} change${status.pending === 1 ? '' : 's'}`;
+
+  const { icon, label, className } =
+    status.state === 'offline'
+      ? { icon: <CloudOff size={14} />, label: status.pending > 0 ? `Offline · ${pendingLabel} saved on this device` : 'Offline', className: 'bg-slate-800 text-white' }
+      : status.state === 'syncing'
+      ? { icon: <RefreshCw size={14} className="animate-spin" />, label: `Syncing ${pendingLabel}...`, className: 'bg-blue-600 text-white' }
+      : status.state === 'error'
+      ? { icon: <AlertTriangle size={14} />, label: `${pendingLabel} waiting to sync · Retry`, className: 'bg-amber-500 text-white' }
+      : { icon: <Cloud size={14} />, label: `${pendingLabel} waiting to sync`, className: 'bg-slate-600 text-white' };
+
+  return (
+    <button
+      onClick={() => retrySyncNow()}
+      disabled={status.state === 'offline' || status.state === 'syncing'}
+      title={status.lastError || (status.lastSyncedAt ? `Last synced ${new Date(status.lastSyncedAt).toLocaleTimeString()}` : undefined)}
+      className={`fixed bottom-4 right-4 z-50 flex items-center gap-2 px-3 py-2 rounded-full shadow-lg text-xs font-medium transition-colors disabled:cursor-default ${className}`}
+    >
+      {icon}
+      {label}
+    </button>
+  );
+};
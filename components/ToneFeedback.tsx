@@ -0,0 +1,52 @@
+import React from 'react';
+import { AudioLines } from 'lucide-react';
+import { ToneAssessment } from '@/types';
+import { TONE_DESCRIPTIONS } from '@/lib/toneAnalysis';
+
+interface Props {
+  assessment: ToneAssessment;
+  bestScore?: number;
+}
+
+// Per-syllable tone results for a pronunciation recording
+export const ToneFeedback: React.FC<Props> = ({ assessment, bestScore }) => {
+  const scoreColor = assessment.score >= 80 ? 'text-green-600' : assessment.score >= 50 ? 'text-yellow-600' : 'text-red-600';
+
+  return (
+    <div className="w-full p-4 rounded-xl bg-slate-50 border border-slate-200 space-y-3 text-left">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-bold text-slate-400 uppercase flex items-center gap-1">
+          <AudioLines size={12} /> Tone Accuracy
+        </span>
+        <span className={`text-lg font-bold ${scoreColor}`}>{assessment.score}%</span>
+      </div>
+
+      <div className="flex flex-wrap gap-2 justify-center">
+        {assessment.syllables.map((s, i) => (
+          <div
+            key={i}
+            className={`px-3 py-2 rounded-lg border-2 text-center ${s.correct ? 'border-green-300 bg-green-50' : 'border-red-300 bg-red-50'}`}
+          >
+            <div className={`font-bold ${s.correct ? 'text-green-700' : 'text-red-700'}`}>{s.syllable}</div>
+            <div className="text-xs text-slate-500">
+              {s.expectedTone === 5 ? 'neutral' : `tone ${s.expectedTone}`}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {assessment.syllables.filter(s => !s.correct).map((s, i) => (
+        <p key={i} className="text-sm text-slate-600">
+          <span className="font-semibold">{s.syllable}</span> should be {TONE_DESCRIPTIONS[s.expectedTone]} (tone {s.expectedTone})
+          {s.detectedTone
+            ? `, but sounded ${TONE_DESCRIPTIONS[s.detectedTone]} (tone ${s.detectedTone}).`
+            : ', but we could not hear it clearly.'}
+        </p>
+      ))}
+
+      {bestScore !== undefined && (
+        <p className="text-xs text-slate-400 text-center">Your best for this word: {bestScore}%</p>
+      )}
+    </div>
+  );
+};
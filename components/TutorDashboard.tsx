@@ -1,13 +1,15 @@
 import React, { useState } from 'react';
-import { PenTool, BarChart3, ArrowLeft, GraduationCap, Settings, BookOpen, Volume2, Loader2, CheckCircle2, AlertCircle } from 'lucide-react';
+import { PenTool, BarChart3, LogOut, GraduationCap, Settings, BookOpen, Volume2, Loader2, CheckCircle2, AlertCircle, KeyRound, Users } from 'lucide-react';
 
 interface Props {
   onPlanLesson: () => void;
   onViewProgress: () => void;
-  onBack: () => void;
+  onSignOut: () => void;
   onSettings: () => void;
   onManageVocab: () => void;
   onCurriculum: () => void;
+  onManageStudents: () => void;
+  onManageClasses: () => void;
 }
 
 // Helper to add WAV header to raw PCM data
@@ -60,10 +62,12 @@ function decodeBase64ToUint8Array(base64: string) {
 export const TutorDashboard: React.FC<Props> = ({
   onPlanLesson,
   onViewProgress,
-  onBack,
+  onSignOut,
   onSettings,
   onManageVocab,
-  onCurriculum
+  onCurriculum,
+  onManageStudents,
+  onManageClasses
 }) => {
   return (
     <div className="w-full max-w-4xl mx-auto relative p-4 sm:p-6 pb-12">
@@ -76,10 +80,10 @@ export const TutorDashboard: React.FC<Props> = ({
       </button>
 
       <button
-        onClick={onBack}
+        onClick={onSignOut}
         className="mb-6 sm:mb-8 flex items-center gap-2 text-slate-500 hover:text-slate-700 transition-colors touch-manipulation py-2"
       >
-        <ArrowLeft size={20} /> <span className="text-base sm:text-lg">Back to Login</span>
+        <LogOut size={20} /> <span className="text-base sm:text-lg">Sign Out</span>
       </button>
 
       <div className="text-center mb-8 sm:mb-12">
@@ -155,7 +159,41 @@ export const TutorDashboard: React.FC<Props> = ({
             Review and adjust the overall course structure and learning objectives.
           </p>
           <div className="mt-4 sm:mt-6 flex items-center text-purple-600 font-semibold text-sm sm:text-base group-hover:translate-x-1 transition-transform">
-            View Curriculum →
+            Edit Curriculum →
+          </div>
+        </button>
+
+        {/* Student Logins Card */}
+        <button
+          onClick={onManageStudents}
+          className="bg-white p-6 sm:p-8 rounded-2xl shadow-sm border border-slate-200 hover:border-amber-300 hover:shadow-xl transition-all group text-left flex flex-col min-h-[240px] sm:h-64 touch-manipulation active:scale-[0.98]"
+        >
+          <div className="bg-amber-50 w-12 h-12 sm:w-14 sm:h-14 rounded-xl flex items-center justify-center mb-4 sm:mb-6 group-hover:bg-amber-100 transition-colors">
+            <KeyRound className="text-amber-600 w-7 h-7 sm:w-8 sm:h-8" />
+          </div>
+          <h3 className="text-xl sm:text-2xl font-bold text-slate-800 mb-2">Student Logins</h3>
+          <p className="text-sm sm:text-base text-slate-500 mb-auto">
+            Issue login codes so students can sign in to their own dashboard.
+          </p>
+          <div className="mt-4 sm:mt-6 flex items-center text-amber-600 font-semibold text-sm sm:text-base group-hover:translate-x-1 transition-transform">
+            Manage Access →
+          </div>
+        </button>
+
+        {/* Classes Card */}
+        <button
+          onClick={onManageClasses}
+          className="bg-white p-6 sm:p-8 rounded-2xl shadow-sm border border-slate-200 hover:border-teal-300 hover:shadow-xl transition-all group text-left flex flex-col min-h-[240px] sm:h-64 touch-manipulation active:scale-[0.98]"
+        >
+          <div className="bg-teal-50 w-12 h-12 sm:w-14 sm:h-14 rounded-xl flex items-center justify-center mb-4 sm:mb-6 group-hover:bg-teal-100 transition-colors">
+            <Users className="text-teal-600 w-7 h-7 sm:w-8 sm:h-8" />
+          </div>
+          <h3 className="text-xl sm:text-2xl font-bold text-slate-800 mb-2">Classes</h3>
+          <p className="text-sm sm:text-base text-slate-500 mb-auto">
+            Group students into classes and assign lessons to a whole class at once.
+          </p>
+          <div className="mt-4 sm:mt-6 flex items-center text-teal-600 font-semibold text-sm sm:text-base group-hover:translate-x-1 transition-transform">
+            Manage Classes →
           </div>
         </button>
       </div>
@@ -1,7 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Upload, FileText, Trash2, CheckCircle2, X, Loader2 } from 'lucide-react';
-import { VocabList, VocabWord } from '../types';
+import { ArrowLeft, Upload, FileText, Trash2, CheckCircle2, X, Loader2, Landmark } from 'lucide-react';
+import { VocabEntry, VocabList } from '../types';
 import { saveVocabList, getVocabLists, deleteVocabList } from '@/lib/services/storage';
+import {
+  ColumnMapping, ImportTable, VOCAB_FIELDS, getListWords, groupEntriesByTheme, guessColumnMapping,
+  mapRowsToEntries, parseImportTable, segmentText,
+} from '@/lib/vocabImport';
 
 interface Props {
   onBack: () => void;
@@ -19,46 +23,56 @@ const SUGGESTED_CATEGORIES = [
   "Home & Environment"
 ];
 
-// PDF parsing using pdf.js (loaded from CDN)
-declare const pdfjsLib: any;
+// PDF parsing using pdf.js, served by the app (scripts/copy-vendor.mjs) and only loaded
+// when a PDF is imported
+const PDFJS_URL = '/vendor/pdfjs/pdf.min.js';
+const PDFJS_WORKER_URL = '/vendor/pdfjs/pdf.worker.min.js';
 
-// Initialize PDF.js worker
-const initPDFJS = () => {
-  if (typeof window !== 'undefined' && (window as any).pdfjsLib) {
-    (window as any).pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
+let pdfjsPromise: Promise<any> | null = null;
+
+const loadPDFJS = (): Promise<any> => {
+  if ((window as any).pdfjsLib) return Promise.resolve((window as any).pdfjsLib);
+  if (!pdfjsPromise) {
+    pdfjsPromise = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = PDFJS_URL;
+      script.async = true;
+      script.onload = () => {
+        const pdfjs = (window as any).pdfjsLib;
+        if (!pdfjs) {
+          reject(new Error('PDF reader failed to load.'));
+          return;
+        }
+        pdfjs.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_URL;
+        resolve(pdfjs);
+      };
+      script.onerror = () => {
+        script.remove();
+        pdfjsPromise = null; // Allow another attempt
+        reject(new Error('PDF reader failed to load.'));
+      };
+      document.head.appendChild(script);
+    });
   }
+  return pdfjsPromise;
 };
 
-// Extract all Chinese characters from text
-const extractChineseCharacters = (text: string): string[] => {
-  // Chinese character regex (CJK Unified Ideographs)
-  const chineseCharRegex = /[\u4e00-\u9fa5\u3400-\u4dbf\uf900-\ufaff]/g;
-  const matches = text.match(chineseCharRegex);
-  
-  if (!matches) return [];
-  
-  // Get unique characters and filter out duplicates
-  const uniqueChars = Array.from(new Set(matches));
-  return uniqueChars;
-};
+// Category for exam-board words without a theme
+const BOARD_LIST_FALLBACK = "Exam Board Vocabulary";
+
+// A file read for import, waiting for the tutor to check the column mapping and preview
+interface ImportDraft {
+  fileName: string;
+  table?: ImportTable; // CSV, TSV and JSON
+  text?: string; // TXT and PDF, segmented into words
+  mapping: ColumnMapping;
+  splitByTheme: boolean; // One list per theme, as exam-board lists are organised
+}
 
 // Extract text from PDF
 const extractTextFromPDF = async (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    // Wait for pdf.js to be available
-    const checkPDFJS = () => {
-      const pdfjs = (window as any).pdfjsLib;
-      if (pdfjs) {
-        initPDFJS();
-        extractPDF(file, pdfjs).then(resolve).catch(reject);
-      } else {
-        setTimeout(checkPDFJS, 100);
-      }
-    };
-    
-    // Start checking after a short delay to allow script to load
-    setTimeout(checkPDFJS, 100);
-  });
+  const pdfjs = await loadPDFJS();
+  return extractPDF(file, pdfjs);
 };
 
 const extractPDF = async (file: File, pdfjs: any): Promise<string> => {
@@ -76,9 +90,22 @@ const extractPDF = async (file: File, pdfjs: any): Promise<string> => {
   return fullText;
 };
 
-// Parse text content - extract all Chinese characters
-const parseTextContent = (text: string): string[] => {
-  return extractChineseCharacters(text);
+const readImportFile = async (file: File): Promise<Pick<ImportDraft, 'table' | 'text'>> => {
+  const fileExtension = file.name.split('.').pop()?.toLowerCase() || '';
+
+  if (fileExtension === 'pdf') {
+    return { text: await extractTextFromPDF(file) };
+  }
+  if (fileExtension === 'txt') {
+    return { text: await file.text() };
+  }
+  if (fileExtension === 'csv' || fileExtension === 'tsv' || fileExtension === 'json') {
+    const text = await file.text();
+    const table = parseImportTable(text, fileExtension);
+    // Unstructured content in a structured file: fall back to segmenting it
+    return table && table.rows.length > 0 ? { table } : { text };
+  }
+  throw new Error('Unsupported file format. Please use CSV, TSV, JSON, PDF, or TXT.');
 };
 
 export const VocabManagement: React.FC<Props> = ({ onBack }) => {
@@ -92,6 +119,8 @@ export const VocabManagement: React.FC<Props> = ({ onBack }) => {
   const [uploadSuccess, setUploadSuccess] = useState(false);
   const [extractedText, setExtractedText] = useState<string | null>(null);
   const [showPreview, setShowPreview] = useState(false);
+  const [draft, setDraft] = useState<ImportDraft | null>(null);
+  const [excludedWords, setExcludedWords] = useState<string[]>([]);
 
   useEffect(() => {
     loadVocabLists();
@@ -115,13 +144,42 @@ export const VocabManagement: React.FC<Props> = ({ onBack }) => {
     return Array.from(categories).sort();
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const categoryToUse = useCustomCategory ? customCategory.trim() : selectedCategory;
+
+  // Multi-character words already in lists guide free-text segmentation
+  const getLexicon = (): Set<string> => new Set(
+    vocabLists.flatMap(list => getListWords(list).map(w => w.word)).filter(word => word.length > 1)
+  );
+
+  const getDraftEntries = (d: ImportDraft): VocabEntry[] => {
+    const entries = d.table ? mapRowsToEntries(d.table, d.mapping) : segmentText(d.text || '', getLexicon());
+    return entries.filter(e => !excludedWords.includes(e.word));
+  };
+
+  const saveEntries = async (d: ImportDraft, entries: VocabEntry[]) => {
+    const targets = d.splitByTheme
+      ? groupEntriesByTheme(entries, categoryToUse || BOARD_LIST_FALLBACK)
+      : { [categoryToUse]: entries };
+    const uploadedAt = new Date().toISOString();
+
+    for (const [category, words] of Object.entries(targets)) {
+      // Re-importing a category replaces its list
+      const existingList = vocabLists.find(list => list.category === category);
+      await saveVocabList({
+        id: existingList?.id || crypto.randomUUID(),
+        category,
+        words,
+        uploadedAt,
+        fileName: d.fileName,
+      });
+    }
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>, boardList = false) => {
     const file = e.target.files?.[0];
     
-    // Determine which category to use
-    const categoryToUse = useCustomCategory ? customCategory.trim() : selectedCategory;
-    
-    if (!file || !categoryToUse) {
+    if (!file) return;
+    if (!boardList && !categoryToUse) {
       setUploadError(useCustomCategory ? 'Please enter a category name' : 'Please select or enter a category');
       return;
     }
@@ -131,71 +189,79 @@ export const VocabManagement: React.FC<Props> = ({ onBack }) => {
     setUploadSuccess(false);
     setExtractedText(null);
     setShowPreview(false);
+    setDraft(null);
+    setExcludedWords([]);
 
     try {
-      let characters: string[] = [];
-      const fileName = file.name;
-      const fileExtension = fileName.split('.').pop()?.toLowerCase();
-
-      if (fileExtension === 'pdf') {
-        const text = await extractTextFromPDF(file);
-        console.log('Extracted PDF text (first 500 chars):', text.substring(0, 500));
-        console.log('Total length:', text.length);
-        characters = extractChineseCharacters(text);
-        
-        if (characters.length === 0) {
-          setExtractedText(text.substring(0, 1000));
-          setShowPreview(true);
-          throw new Error(`No Chinese characters found in the PDF. Click "Show extracted text preview" to see what was read from the file.`);
-        }
-      } else if (fileExtension === 'txt' || fileExtension === 'csv' || fileExtension === 'json') {
-        const text = await file.text();
-        console.log('Extracted text (first 500 chars):', text.substring(0, 500));
-        characters = extractChineseCharacters(text);
-        
-        if (characters.length === 0) {
-          setExtractedText(text.substring(0, 1000));
-          setShowPreview(true);
-          throw new Error(`No Chinese characters found in the file. Click "Show extracted text preview" to see what was read from the file.`);
-        }
-      } else {
-        throw new Error('Unsupported file format. Please use CSV, JSON, PDF, or TXT.');
+      const { table, text } = await readImportFile(file);
+      const mapping = table ? guessColumnMapping(table) : guessColumnMapping({ headers: [], rows: [] });
+      const nextDraft: ImportDraft = {
+        fileName: file.name,
+        table,
+        text,
+        mapping,
+        splitByTheme: boardList && mapping.theme >= 0,
+      };
+      const entries = table ? mapRowsToEntries(table, mapping) : segmentText(text || '', getLexicon());
+
+      if (entries.length === 0 && (!table || mapping.word < 0)) {
+        setExtractedText((text || '').substring(0, 1000));
+        setShowPreview(false);
+        throw new Error(table
+          ? 'No column of Chinese words found in the file.'
+          : 'No Chinese found in the file. Click "Show extracted text preview" to see what was read from the file.');
       }
 
-      if (characters.length === 0) {
-        throw new Error('No Chinese characters found in the file. Please check the file contains Chinese text.');
+      // Exam-board lists with recognised columns import in one step
+      if (boardList && table && mapping.word >= 0 && mapping.pinyin >= 0 && mapping.meaning >= 0) {
+        const themes = Object.keys(groupEntriesByTheme(entries, categoryToUse || BOARD_LIST_FALLBACK));
+        if (confirm(`Import ${entries.length} words into ${themes.length} list${themes.length === 1 ? '' : 's'} (${themes.join(', ')})? Lists with the same name are replaced.`)) {
+          await saveEntries(nextDraft, entries);
+          await loadVocabLists();
+          setUploadSuccess(true);
+          setTimeout(() => setUploadSuccess(false), 3000);
+        }
+        return;
       }
-      
-      // Clear preview on success
-      setExtractedText(null);
-      setShowPreview(false);
-
-      // Check if list exists for this category
-      const existingList = vocabLists.find(list => list.category === categoryToUse);
-      const vocabList: VocabList = {
-        id: existingList?.id || crypto.randomUUID(),
-        category: categoryToUse,
-        characters: characters,
-        uploadedAt: new Date().toISOString(),
-        fileName: fileName
-      };
 
-      await saveVocabList(vocabList);
+      setDraft(nextDraft);
+    } catch (error: any) {
+      setUploadError(error.message || 'Failed to process file');
+    } finally {
+      setUploading(false);
+      // Reset file input
+      e.target.value = '';
+    }
+  };
+
+  const handleConfirmImport = async () => {
+    if (!draft) return;
+    const entries = getDraftEntries(draft);
+    if (entries.length === 0) return;
+    if (!draft.splitByTheme && !categoryToUse) {
+      setUploadError('Please select or enter a category');
+      return;
+    }
+
+    setUploading(true);
+    setUploadError(null);
+    try {
+      await saveEntries(draft, entries);
       await loadVocabLists();
-      
+
       // Reset form
+      setDraft(null);
+      setExcludedWords([]);
       setSelectedCategory('');
       setCustomCategory('');
       setUseCustomCategory(false);
-      
+
       setUploadSuccess(true);
       setTimeout(() => setUploadSuccess(false), 3000);
     } catch (error: any) {
-      setUploadError(error.message || 'Failed to process file');
+      setUploadError(error.message || 'Failed to save vocabulary list');
     } finally {
       setUploading(false);
-      // Reset file input
-      e.target.value = '';
     }
   };
 
@@ -206,6 +272,103 @@ export const VocabManagement: React.FC<Props> = ({ onBack }) => {
     }
   };
 
+  const renderDraftPreview = (d: ImportDraft) => {
+    const entries = getDraftEntries(d);
+    const listCount = d.splitByTheme ? Object.keys(groupEntriesByTheme(entries, categoryToUse || BOARD_LIST_FALLBACK)).length : 1;
+
+    return (
+      <div className="border border-brand-200 rounded-xl overflow-hidden">
+        <div className="p-4 bg-brand-50 flex items-center justify-between gap-3">
+          <div>
+            <h4 className="font-bold text-slate-800">{d.fileName}</h4>
+            <p className="text-xs text-slate-500">
+              {d.table ? `${d.table.rows.length} rows` : 'Segmented from free text'} · {entries.length} words
+            </p>
+          </div>
+          <button onClick={() => setDraft(null)} className="p-2 text-slate-400 hover:text-slate-600" title="Cancel import">
+            <X size={18} />
+          </button>
+        </div>
+
+        {d.table && (
+          <div className="p-4 border-b border-slate-100 grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {VOCAB_FIELDS.map(({ field, label }) => (
+              <label key={field} className="text-xs font-medium text-slate-600">
+                {label}
+                <select
+                  value={d.mapping[field]}
+                  onChange={(e) => setDraft({ ...d, mapping: { ...d.mapping, [field]: parseInt(e.target.value) } })}
+                  className="mt-1 w-full px-2 py-1.5 rounded-lg border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-brand-500"
+                >
+                  <option value={-1}>—</option>
+                  {d.table!.headers.map((header, idx) => (
+                    <option key={idx} value={idx}>{header || `Column ${idx + 1}`}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div className="max-h-72 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-xs text-slate-500 uppercase tracking-wider sticky top-0">
+              <tr>
+                {VOCAB_FIELDS.map(({ field, label }) => <th key={field} className="text-left px-3 py-2">{label}</th>)}
+                <th />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {entries.slice(0, 100).map(entry => (
+                <tr key={entry.word}>
+                  <td className="px-3 py-1.5 font-bold chinese-text">{entry.word}</td>
+                  <td className="px-3 py-1.5 text-slate-600">{entry.pinyin}</td>
+                  <td className="px-3 py-1.5 text-slate-600">{entry.meaning}</td>
+                  <td className="px-3 py-1.5 text-slate-500">{entry.partOfSpeech}</td>
+                  <td className="px-3 py-1.5 text-slate-500 capitalize">{entry.tier}</td>
+                  <td className="px-3 py-1.5 text-slate-500">{entry.theme}</td>
+                  <td className="px-2 py-1.5 text-right">
+                    <button
+                      onClick={() => setExcludedWords([...excludedWords, entry.word])}
+                      className="p-1 text-slate-300 hover:text-red-600"
+                      title="Leave out"
+                    >
+                      <X size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {entries.length > 100 && (
+            <p className="text-xs text-slate-400 text-center py-2">... and {entries.length - 100} more</p>
+          )}
+        </div>
+
+        <div className="p-4 bg-slate-50 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <label className={`flex items-center gap-2 text-sm text-slate-600 ${d.mapping.theme < 0 ? 'opacity-50' : ''}`}>
+            <input
+              type="checkbox"
+              checked={d.splitByTheme}
+              disabled={d.mapping.theme < 0}
+              onChange={(e) => setDraft({ ...d, splitByTheme: e.target.checked })}
+              className="w-4 h-4 accent-brand-600"
+            />
+            One list per theme
+          </label>
+          <button
+            onClick={handleConfirmImport}
+            disabled={uploading || entries.length === 0 || (!d.splitByTheme && !categoryToUse)}
+            className="px-4 py-2 rounded-lg bg-brand-600 text-white text-sm font-medium hover:bg-brand-700 disabled:opacity-50 flex items-center gap-2"
+          >
+            {uploading ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+            Import {entries.length} words{d.splitByTheme ? ` into ${listCount} lists` : categoryToUse ? ` into ${categoryToUse}` : ''}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col">
       <header className="bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between sticky top-0 z-10">
@@ -326,8 +489,8 @@ export const VocabManagement: React.FC<Props> = ({ onBack }) => {
               <div className="border-2 border-dashed border-slate-300 rounded-lg p-6 text-center hover:border-brand-400 transition-colors">
                 <input
                   type="file"
-                  accept=".csv,.json,.pdf,.txt"
-                  onChange={handleFileUpload}
+                  accept=".csv,.tsv,.json,.pdf,.txt"
+                  onChange={(e) => handleFileUpload(e)}
                   disabled={(!selectedCategory && !customCategory.trim()) || uploading}
                   className="hidden"
                   id="vocab-file-input"
@@ -348,14 +511,33 @@ export const VocabManagement: React.FC<Props> = ({ onBack }) => {
                         Click to upload or drag and drop
                       </span>
                       <span className="text-xs text-slate-500">
-                        CSV, JSON, PDF, or TXT files
+                        CSV, TSV, JSON, PDF, or TXT files
                       </span>
                     </>
                   )}
                 </label>
               </div>
+              <div className="mt-2 flex items-center justify-between gap-3 text-xs text-slate-500">
+                <span>Have the official exam-board vocabulary list as a spreadsheet? Import it in one step, one list per theme.</span>
+                <input
+                  type="file"
+                  accept=".csv,.tsv,.json"
+                  onChange={(e) => handleFileUpload(e, true)}
+                  disabled={uploading}
+                  className="hidden"
+                  id="vocab-board-input"
+                />
+                <label
+                  htmlFor="vocab-board-input"
+                  className={`flex-shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-slate-200 font-medium text-slate-600 hover:bg-slate-50 cursor-pointer ${uploading ? 'opacity-50 cursor-not-allowed' : ''}`}
+                >
+                  <Landmark size={14} /> Import Exam-Board List
+                </label>
+              </div>
             </div>
 
+            {draft && renderDraftPreview(draft)}
+
             {uploadError && (
               <div className="space-y-3">
                 <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2 text-red-700">
@@ -395,9 +577,9 @@ export const VocabManagement: React.FC<Props> = ({ onBack }) => {
             <div className="bg-slate-50 p-4 rounded-lg text-xs text-slate-600">
               <p className="font-semibold mb-2">File Format Examples:</p>
               <ul className="list-disc list-inside space-y-1">
-                <li><strong>Any format:</strong> The app will extract all Chinese characters from the file</li>
-                <li><strong>Supported formats:</strong> PDF, TXT, CSV, JSON</li>
-                <li><strong>Note:</strong> All unique Chinese characters found in the file will be added to the vocabulary list</li>
+                <li><strong>CSV / TSV:</strong> One word per row, e.g. <code>电脑,diànnǎo,computer,noun,F,School</code>. Columns are matched to Word, Pinyin, Meaning, Part of Speech, Tier and Theme and can be changed before importing</li>
+                <li><strong>JSON:</strong> A list of words, or of objects such as <code>{'{"word": "因为", "pinyin": "yīnwèi", "meaning": "because"}'}</code></li>
+                <li><strong>PDF / TXT:</strong> Free text is split into words; check the preview and remove any wrong splits</li>
               </ul>
             </div>
           </div>
@@ -428,8 +610,13 @@ export const VocabManagement: React.FC<Props> = ({ onBack }) => {
                       <div className="flex items-center gap-2 mb-1">
                         <h4 className="font-bold text-slate-800">{list.category}</h4>
                         <span className="text-xs bg-brand-100 text-brand-700 px-2 py-0.5 rounded-full">
-                          {list.characters.length} characters
+                          {getListWords(list).length} {list.words ? 'words' : 'characters'}
                         </span>
+                        {list.words?.some(w => w.tier === 'higher') && (
+                          <span className="text-xs bg-purple-100 text-purple-700 px-2 py-0.5 rounded-full">
+                            {list.words.filter(w => w.tier === 'higher').length} Higher
+                          </span>
+                        )}
                       </div>
                     {list.fileName && (
                       <p className="text-xs text-slate-500">File: {list.fileName}</p>
@@ -0,0 +1,63 @@
+import React from 'react';
+import { VocabProgress } from '@/types';
+import { summariseWriting, WEAK_WRITING_ACCURACY } from '@/lib/writingAnalytics';
+
+interface Props {
+  vocab: VocabProgress[];
+  limit?: number;
+}
+
+const accuracyClass = (accuracy: number) =>
+  accuracy >= 80 ? 'bg-green-100 text-green-700' : accuracy >= WEAK_WRITING_ACCURACY ? 'bg-amber-100 text-amber-700' : 'bg-red-100 text-red-700';
+
+// Characters a student finds hardest to write, with the strokes they keep getting wrong
+// and whether the mistakes are in the radical or the rest of the character
+export const WritingAnalyticsPanel: React.FC<Props> = ({ vocab, limit = 8 }) => {
+  const summaries = summariseWriting(vocab);
+  if (summaries.length === 0) return null;
+  const weak = summaries.filter(s => s.accuracy < WEAK_WRITING_ACCURACY).length;
+
+  return (
+    <div>
+      <p className="text-xs text-slate-500 mb-3">
+        {summaries.length} characters written · {weak} below {WEAK_WRITING_ACCURACY}% accuracy
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {summaries.slice(0, limit).map(s => (
+          <div key={s.character} className="p-3 bg-slate-50 rounded-xl flex gap-3">
+            <span className="text-3xl chinese-text text-slate-800 w-12 text-center flex-shrink-0">{s.character}</span>
+            <div className="flex-1 min-w-0 text-xs text-slate-600 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className={`font-bold px-2 py-0.5 rounded-full ${accuracyClass(s.accuracy)}`}>{s.accuracy}%</span>
+                <span className="text-slate-400">
+                  {s.attempts} {s.attempts === 1 ? 'attempt' : 'attempts'} · ~{s.averageSeconds}s each
+                </span>
+              </div>
+              {s.strokes.length === 0 ? (
+                <p className="text-green-600">No stroke mistakes</p>
+              ) : (
+                <>
+                  <p>
+                    Trouble strokes:{' '}
+                    {s.strokes.slice(0, 4).map(stroke => (
+                      <span
+                        key={stroke.stroke}
+                        className={`inline-block mr-1 px-1.5 rounded ${stroke.inRadical ? 'bg-purple-100 text-purple-700' : 'bg-white border border-slate-200'}`}
+                        title={`${stroke.mistakes} mistakes, hinted ${stroke.hints} times${stroke.inRadical ? ' (radical)' : ''}`}
+                      >
+                        #{stroke.stroke + 1} ×{stroke.mistakes}
+                      </span>
+                    ))}
+                  </p>
+                  <p className="text-slate-400">
+                    Radical: {s.radicalMistakes} mistakes · Other components: {s.otherMistakes} mistakes
+                  </p>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 
 import { Stage } from '../types';
 
+// Built-in course structure. It seeds each tutor's editable curriculum (see lib/curriculum.ts),
+// so changes here only reach tutors who haven't saved their own yet.
 export const CURRICULUM: Stage[] = [
   {
     id: 1,
@@ -31,22 +33,22 @@ export const CURRICULUM: Stage[] = [
         id: "s1-vocabulary",
         title: "Survival vocabulary (50–100 words)",
         points: [
-          { id: "s1-greetings", description: "Greetings: 你好, 再见, 谢谢, 不客气" },
-          { id: "s1-intro", description: "Self-intro: 我叫…, 我是英国人。" },
-          { id: "s1-numbers", description: "Numbers 1–100" },
-          { id: "s1-dates", description: "Days, months, dates" },
-          { id: "s1-family", description: "Family: 爸爸, 妈妈, 哥哥, 姐姐" }
+          { id: "s1-greetings", description: "Greetings: 你好, 再见, 谢谢, 不客气", specRefs: ["V1"] },
+          { id: "s1-intro", description: "Self-intro: 我叫…, 我是英国人。", specRefs: ["B1", "E1"] },
+          { id: "s1-numbers", description: "Numbers 1–100", specRefs: ["G3", "V9"] },
+          { id: "s1-dates", description: "Days, months, dates", specRefs: ["A1"] },
+          { id: "s1-family", description: "Family: 爸爸, 妈妈, 哥哥, 姐姐", specRefs: ["B1", "V8"] }
         ]
       },
       {
         id: "s1-grammar",
         title: "Grammar foundations",
         points: [
-          { id: "s1-svo", description: "SVO sentence order" },
-          { id: "s1-questions", description: "是 / 不 / 吗 questions" },
-          { id: "s1-have", description: "有 / 没有" },
-          { id: "s1-possession", description: "的 (possession)" },
-          { id: "s1-measure", description: "一 + measure word + noun (一个人)" }
+          { id: "s1-svo", description: "SVO sentence order", specRefs: ["G1"] },
+          { id: "s1-questions", description: "是 / 不 / 吗 questions", specRefs: ["G2", "V13"] },
+          { id: "s1-have", description: "有 / 没有", specRefs: ["G4"] },
+          { id: "s1-possession", description: "的 (possession)", specRefs: ["G5", "V12"] },
+          { id: "s1-measure", description: "一 + measure word + noun (一个人)", specRefs: ["G3", "V5"] }
         ]
       },
       {
@@ -54,7 +56,7 @@ export const CURRICULUM: Stage[] = [
         title: "Listening & Speaking micro-skills",
         points: [
           { id: "s1-identify", description: "Identify tones and familiar words" },
-          { id: "s1-qa", description: "Short Q&A: 你叫什么名字？你几岁？" },
+          { id: "s1-qa", description: "Short Q&A: 你叫什么名字？你几岁？", specRefs: ["G2", "B1"] },
           { id: "s1-dialogues", description: "Simple dialogues" }
         ]
       },
@@ -62,33 +64,33 @@ export const CURRICULUM: Stage[] = [
         id: "s1-everyday",
         title: "Everyday activities",
         points: [
-          { id: "s1-time-exp", description: "Time expressions (e.g. telling the time, days, days of the week, months, seasons)" },
-          { id: "s1-food-drink", description: "Food and drink (e.g. meals, fruit and vegetables, meat, fish and seafood, snacks, drinks, cutlery and utensils)" },
-          { id: "s1-body-health", description: "The human body and health (e.g. parts of the body, health and illness)" },
-          { id: "s1-travel-transport", description: "Travel and transport (e.g. finding the way)" }
+          { id: "s1-time-exp", description: "Time expressions (e.g. telling the time, days, days of the week, months, seasons)", specRefs: ["A", "A1"] },
+          { id: "s1-food-drink", description: "Food and drink (e.g. meals, fruit and vegetables, meat, fish and seafood, snacks, drinks, cutlery and utensils)", specRefs: ["A", "A2"] },
+          { id: "s1-body-health", description: "The human body and health (e.g. parts of the body, health and illness)", specRefs: ["A", "A3"] },
+          { id: "s1-travel-transport", description: "Travel and transport (e.g. finding the way)", specRefs: ["A", "A4"] }
         ]
       },
       {
         id: "s1-comprehensive-vocab",
         title: "Vocabulary",
         points: [
-          { id: "s1-v-high-freq", description: "High Frequency Vocabulary" },
-          { id: "s1-v-adj", description: "Adjective and attributive phrases" },
-          { id: "s1-v-adv", description: "Adverbs and adverbial phrases" },
-          { id: "s1-v-aux", description: "Auxiliary verbs" },
-          { id: "s1-v-measure", description: "Common measure words" },
-          { id: "s1-v-verbs", description: "Common verbs" },
-          { id: "s1-v-conj", description: "Conjunctions and conjunctive patterns" },
-          { id: "s1-v-nouns", description: "Nouns" },
-          { id: "s1-v-num", description: "Numbers" },
-          { id: "s1-v-part", description: "Particles" },
-          { id: "s1-v-prep", description: "Prepositions and coverbs" },
-          { id: "s1-v-pron", description: "Pronouns" },
-          { id: "s1-v-quest", description: "Question words" },
-          { id: "s1-v-stative", description: "Stative verbs" },
-          { id: "s1-v-sur", description: "Surnames" },
-          { id: "s1-v-verb-measure", description: "Verbal measure words" },
-          { id: "s1-v-vo", description: "Verb-object compounds" }
+          { id: "s1-v-high-freq", description: "High Frequency Vocabulary", specRefs: ["V1"] },
+          { id: "s1-v-adj", description: "Adjective and attributive phrases", specRefs: ["V2"] },
+          { id: "s1-v-adv", description: "Adverbs and adverbial phrases", specRefs: ["V3"] },
+          { id: "s1-v-aux", description: "Auxiliary verbs", specRefs: ["V4"] },
+          { id: "s1-v-measure", description: "Common measure words", specRefs: ["V5"] },
+          { id: "s1-v-verbs", description: "Common verbs", specRefs: ["V6"] },
+          { id: "s1-v-conj", description: "Conjunctions and conjunctive patterns", specRefs: ["V7"] },
+          { id: "s1-v-nouns", description: "Nouns", specRefs: ["V8"] },
+          { id: "s1-v-num", description: "Numbers", specRefs: ["V9"] },
+          { id: "s1-v-part", description: "Particles", specRefs: ["V10"] },
+          { id: "s1-v-prep", description: "Prepositions and coverbs", specRefs: ["V11"] },
+          { id: "s1-v-pron", description: "Pronouns", specRefs: ["V12"] },
+          { id: "s1-v-quest", description: "Question words", specRefs: ["V13"] },
+          { id: "s1-v-stative", description: "Stative verbs", specRefs: ["V14"] },
+          { id: "s1-v-sur", description: "Surnames", specRefs: ["V15"] },
+          { id: "s1-v-verb-measure", description: "Verbal measure words", specRefs: ["V16"] },
+          { id: "s1-v-vo", description: "Verb-object compounds", specRefs: ["V17"] }
         ]
       }
     ]
@@ -103,40 +105,40 @@ export const CURRICULUM: Stage[] = [
         id: "s2-vocab",
         title: "Vocabulary expansion",
         points: [
-          { id: "s2-topics", description: "School subjects, classroom items, meals, hobbies, weather, colors" },
-          { id: "s2-measure", description: "Measure words: 本, 张, 件, 辆, 条" }
+          { id: "s2-topics", description: "School subjects, classroom items, meals, hobbies, weather, colors", specRefs: ["D1", "A2", "B5", "C2", "B3"] },
+          { id: "s2-measure", description: "Measure words: 本, 张, 件, 辆, 条", specRefs: ["G3", "V5"] }
         ]
       },
       {
         id: "s2-personal-social",
         title: "Personal and social life",
         points: [
-          { id: "s2-self-family", description: "Self, family and friends (e.g. family and relationships, describing physical appearance, character and mood)" },
-          { id: "s2-home-life", description: "Home life (e.g. housing and locations, rooms and furniture, household appliances)" },
-          { id: "s2-colours", description: "Colours" },
-          { id: "s2-clothes", description: "Clothes and accessories" },
-          { id: "s2-leisure", description: "Leisure time (e.g. things to do, hobbies, sport)" }
+          { id: "s2-self-family", description: "Self, family and friends (e.g. family and relationships, describing physical appearance, character and mood)", specRefs: ["B", "B1"] },
+          { id: "s2-home-life", description: "Home life (e.g. housing and locations, rooms and furniture, household appliances)", specRefs: ["B", "B2"] },
+          { id: "s2-colours", description: "Colours", specRefs: ["B", "B3"] },
+          { id: "s2-clothes", description: "Clothes and accessories", specRefs: ["B", "B4"] },
+          { id: "s2-leisure", description: "Leisure time (e.g. things to do, hobbies, sport)", specRefs: ["B", "B5"] }
         ]
       },
       {
         id: "s2-grammar",
         title: "Grammar",
         points: [
-          { id: "s2-time", description: "Time expressions: 现在八点半" },
-          { id: "s2-vo", description: "Verb + object compounds (吃饭, 睡觉, 上学)" },
-          { id: "s2-adverbs", description: "Adverbs: 也, 都, 还, 常常" },
-          { id: "s2-de", description: "的 / 得 / 地 distinction" },
-          { id: "s2-negation", description: "Negative forms 不 vs 没" },
-          { id: "s2-le", description: "了 (completed action)" }
+          { id: "s2-time", description: "Time expressions: 现在八点半", specRefs: ["A1", "G1"] },
+          { id: "s2-vo", description: "Verb + object compounds (吃饭, 睡觉, 上学)", specRefs: ["V17"] },
+          { id: "s2-adverbs", description: "Adverbs: 也, 都, 还, 常常", specRefs: ["G11", "V3"] },
+          { id: "s2-de", description: "的 / 得 / 地 distinction", specRefs: ["G5"] },
+          { id: "s2-negation", description: "Negative forms 不 vs 没", specRefs: ["G4"] },
+          { id: "s2-le", description: "了 (completed action)", specRefs: ["G6"] }
         ]
       },
       {
         id: "s2-sentences",
         title: "Sentence building",
         points: [
-          { id: "s2-likes", description: "我喜欢…因为…" },
-          { id: "s2-routine-q", description: "你几点起床？" },
-          { id: "s2-structure", description: "虽然…但是… structure introduction" }
+          { id: "s2-likes", description: "我喜欢…因为…", specRefs: ["B5", "G12"] },
+          { id: "s2-routine-q", description: "你几点起床？", specRefs: ["A1", "G2"] },
+          { id: "s2-structure", description: "虽然…但是… structure introduction", specRefs: ["G12", "V7"] }
         ]
       },
       {
@@ -153,7 +155,7 @@ export const CURRICULUM: Stage[] = [
         points: [
           { id: "s2-describe", description: "Describe routine" },
           { id: "s2-express", description: "Express likes/dislikes" },
-          { id: "s2-roleplay", description: "Role play: ordering food, describing weather" }
+          { id: "s2-roleplay", description: "Role play: ordering food, describing weather", specRefs: ["A2", "C2"] }
         ]
       }
     ]
@@ -168,32 +170,32 @@ export const CURRICULUM: Stage[] = [
         id: "s3-vocab",
         title: "Vocabulary (to 600 words)",
         points: [
-          { id: "s3-topics", description: "Shopping, travel, body parts, health, sports" },
-          { id: "s3-directions", description: "Locations & directions" },
-          { id: "s3-transport", description: "Transportation terms" }
+          { id: "s3-topics", description: "Shopping, travel, body parts, health, sports", specRefs: ["C4", "A3", "B5"] },
+          { id: "s3-directions", description: "Locations & directions", specRefs: ["A4", "G9"] },
+          { id: "s3-transport", description: "Transportation terms", specRefs: ["A4"] }
         ]
       },
       {
         id: "s3-world",
         title: "The world around us",
         points: [
-          { id: "s3-people-places", description: "People and places (e.g. continents, countries and nationalities, compass points)" },
-          { id: "s3-natural-world", description: "The natural world, the environment, the climate and the weather" },
-          { id: "s3-tech", description: "Communications and technology (e.g. the digital world, documents and texts)" },
-          { id: "s3-built-env", description: "The built environment (e.g. buildings and services, shopping)" },
-          { id: "s3-measurements", description: "Measurements (e.g. units of length and mass, units of money)" }
+          { id: "s3-people-places", description: "People and places (e.g. continents, countries and nationalities, compass points)", specRefs: ["C", "C1"] },
+          { id: "s3-natural-world", description: "The natural world, the environment, the climate and the weather", specRefs: ["C", "C2"] },
+          { id: "s3-tech", description: "Communications and technology (e.g. the digital world, documents and texts)", specRefs: ["C", "C3"] },
+          { id: "s3-built-env", description: "The built environment (e.g. buildings and services, shopping)", specRefs: ["C", "C4"] },
+          { id: "s3-measurements", description: "Measurements (e.g. units of length and mass, units of money)", specRefs: ["C", "C5"] }
         ]
       },
       {
         id: "s3-grammar",
         title: "Grammar",
         points: [
-          { id: "s3-compare", description: "Comparison with 比, 一样, 没有" },
-          { id: "s3-frequency", description: "Frequency & duration: 每天, 常常, 两个小时" },
-          { id: "s3-serial", description: "Serial verbs: 一边…一边…" },
-          { id: "s3-result", description: "Result complements: 吃完, 看懂" },
-          { id: "s3-zai", description: "Use of 在 (location, continuous)" },
-          { id: "s3-prep", description: "Prepositions: 给, 跟, 对, 从…到…" }
+          { id: "s3-compare", description: "Comparison with 比, 一样, 没有", specRefs: ["G8"] },
+          { id: "s3-frequency", description: "Frequency & duration: 每天, 常常, 两个小时", specRefs: ["G11", "V16"] },
+          { id: "s3-serial", description: "Serial verbs: 一边…一边…", specRefs: ["G12"] },
+          { id: "s3-result", description: "Result complements: 吃完, 看懂", specRefs: ["G7"] },
+          { id: "s3-zai", description: "Use of 在 (location, continuous)", specRefs: ["G6", "G9"] },
+          { id: "s3-prep", description: "Prepositions: 给, 跟, 对, 从…到…", specRefs: ["G9", "V11"] }
         ]
       },
       {
@@ -202,8 +204,8 @@ export const CURRICULUM: Stage[] = [
         points: [
           { id: "s3-opinion", description: "Express opinions + reasons" },
           { id: "s3-describe", description: "Describe pictures, events" },
-          { id: "s3-exp", description: "Introduce past experiences with 过" },
-          { id: "s3-cond", description: "Conditional: 如果…就…" }
+          { id: "s3-exp", description: "Introduce past experiences with 过", specRefs: ["G6"] },
+          { id: "s3-cond", description: "Conditional: 如果…就…", specRefs: ["G12", "V7"] }
         ]
       },
       {
@@ -219,8 +221,8 @@ export const CURRICULUM: Stage[] = [
         id: "s3-speak",
         title: "Speaking",
         points: [
-          { id: "s3-travel", description: "Describe travel experiences" },
-          { id: "s3-role", description: "Role play (shopping, hotel, directions)" }
+          { id: "s3-travel", description: "Describe travel experiences", specRefs: ["A4", "C1"] },
+          { id: "s3-role", description: "Role play (shopping, hotel, directions)", specRefs: ["C4", "A4"] }
         ]
       }
     ]
@@ -235,7 +237,7 @@ export const CURRICULUM: Stage[] = [
         id: "s4-vocab",
         title: "Vocabulary (to 900 words)",
         points: [
-          { id: "s4-topics", description: "Environment, festivals, technology, media, community" },
+          { id: "s4-topics", description: "Environment, festivals, technology, media, community", specRefs: ["C2", "E2", "C3"] },
           { id: "s4-idioms", description: "Common idioms & proverbs: 马马虎虎, 一心一意" }
         ]
       },
@@ -243,20 +245,20 @@ export const CURRICULUM: Stage[] = [
         id: "s4-work",
         title: "The world of work",
         points: [
-          { id: "s4-education", description: "Education (e.g. learning institutions, places and people in school, the classroom, subjects and learning)" },
-          { id: "s4-jobs", description: "Work (e.g. jobs and careers, the workplace)" }
+          { id: "s4-education", description: "Education (e.g. learning institutions, places and people in school, the classroom, subjects and learning)", specRefs: ["D", "D1"] },
+          { id: "s4-jobs", description: "Work (e.g. jobs and careers, the workplace)", specRefs: ["D", "D2"] }
         ]
       },
       {
         id: "s4-grammar",
         title: "Grammar",
         points: [
-          { id: "s4-ba-bei", description: "把 & 被 structures" },
-          { id: "s4-guo-le", description: "过 vs 了 nuance" },
-          { id: "s4-place", description: "把…放在…上" },
-          { id: "s4-purpose", description: "Conditional + purpose: 为了…, 因此…" },
-          { id: "s4-adverb", description: "Adverb placement rules" },
-          { id: "s4-relative", description: "Relative clauses with 的" }
+          { id: "s4-ba-bei", description: "把 & 被 structures", specRefs: ["G13"] },
+          { id: "s4-guo-le", description: "过 vs 了 nuance", specRefs: ["G6"] },
+          { id: "s4-place", description: "把…放在…上", specRefs: ["G13", "G7"] },
+          { id: "s4-purpose", description: "Conditional + purpose: 为了…, 因此…", specRefs: ["G12"] },
+          { id: "s4-adverb", description: "Adverb placement rules", specRefs: ["G11"] },
+          { id: "s4-relative", description: "Relative clauses with 的", specRefs: ["G5"] }
         ]
       },
       {
@@ -298,7 +300,7 @@ export const CURRICULUM: Stage[] = [
         id: "s5-vocab",
         title: "Vocabulary",
         points: [
-          { id: "s5-topics", description: "Work, study, future plans, world issues" },
+          { id: "s5-topics", description: "Work, study, future plans, world issues", specRefs: ["D2", "D1", "E"] },
           { id: "s5-opinion", description: "Expressions of opinion: 我认为…, 我觉得…" },
           { id: "s5-collocations", description: "Collocations for argument writing" }
         ]
@@ -307,11 +309,11 @@ export const CURRICULUM: Stage[] = [
         id: "s5-grammar",
         title: "Grammar",
         points: [
-          { id: "s5-conj", description: "Complex conjunctions: 尽管…但是…, 不但…而且…" },
+          { id: "s5-conj", description: "Complex conjunctions: 尽管…但是…, 不但…而且…", specRefs: ["G12", "V7"] },
           { id: "s5-embed", description: "Embedded clauses" },
-          { id: "s5-passive", description: "Passive + causative: 让, 被" },
-          { id: "s5-nuance", description: "还, 才, 就 nuanced use" },
-          { id: "s5-particles", description: "Sentence-final particles (吧, 呢, 啊)" }
+          { id: "s5-passive", description: "Passive + causative: 让, 被", specRefs: ["G13"] },
+          { id: "s5-nuance", description: "还, 才, 就 nuanced use", specRefs: ["G11"] },
+          { id: "s5-particles", description: "Sentence-final particles (吧, 呢, 啊)", specRefs: ["G14", "V10"] }
         ]
       },
       {
@@ -345,8 +347,8 @@ export const CURRICULUM: Stage[] = [
         id: "s5-international",
         title: "The international world",
         points: [
-          { id: "s5-countries", description: "Countries, nationalities and languages" },
-          { id: "s5-culture", description: "Culture (e.g. customs, faiths and celebrations, famous sites and cities)" }
+          { id: "s5-countries", description: "Countries, nationalities and languages", specRefs: ["E", "E1"] },
+          { id: "s5-culture", description: "Culture (e.g. customs, faiths and celebrations, famous sites and cities)", specRefs: ["E", "E2"] }
         ]
       }
     ]
@@ -361,7 +363,7 @@ export const CURRICULUM: Stage[] = [
         id: "s6-vocab",
         title: "Vocabulary (1500+ words)",
         points: [
-          { id: "s6-topics", description: "Cultural references, social issues, environmental terms" },
+          { id: "s6-topics", description: "Cultural references, social issues, environmental terms", specRefs: ["E2", "C2"] },
           { id: "s6-synonyms", description: "Synonyms & idioms for stylistic variety" }
         ]
       },
@@ -369,8 +371,8 @@ export const CURRICULUM: Stage[] = [
         id: "s6-grammar",
         title: "Grammar & Style",
         points: [
-          { id: "s6-cohesion", description: "High-level cohesion: 不仅…而且…, 因而…, 此外…" },
-          { id: "s6-modal", description: "Modal layering (会 + 想 + 去…)" },
+          { id: "s6-cohesion", description: "High-level cohesion: 不仅…而且…, 因而…, 此外…", specRefs: ["G12"] },
+          { id: "s6-modal", description: "Modal layering (会 + 想 + 去…)", specRefs: ["G10", "V4"] },
           { id: "s6-nom", description: "Nominalization & emphasis" },
           { id: "s6-idiomatic", description: "Idiomatic phrasing: 对…来说, 至于…, 无论…都…" }
         ]
@@ -0,0 +1,75 @@
+import { Specification } from '../types';
+
+// Exam-board specifications that curriculum points can be tagged against.
+// Themes and topic areas follow the board's own lettering; grammar requirements and prescribed
+// vocabulary are grouped under the headings of the specification's grammar and vocabulary lists.
+export const SPECIFICATIONS: Specification[] = [
+  {
+    id: "cambridge-igcse-0547",
+    board: "Cambridge",
+    title: "IGCSE Mandarin Chinese as a Foreign Language (0547)",
+    items: [
+      // Themes
+      { id: "A", category: "theme", title: "Everyday activities" },
+      { id: "B", category: "theme", title: "Personal and social life" },
+      { id: "C", category: "theme", title: "The world around us" },
+      { id: "D", category: "theme", title: "The world of work" },
+      { id: "E", category: "theme", title: "The international world" },
+
+      // Topic areas
+      { id: "A1", category: "topic-area", title: "Time expressions", parentId: "A" },
+      { id: "A2", category: "topic-area", title: "Food and drink", parentId: "A" },
+      { id: "A3", category: "topic-area", title: "The human body and health", parentId: "A" },
+      { id: "A4", category: "topic-area", title: "Travel and transport", parentId: "A" },
+      { id: "B1", category: "topic-area", title: "Self, family and friends", parentId: "B" },
+      { id: "B2", category: "topic-area", title: "Home life", parentId: "B" },
+      { id: "B3", category: "topic-area", title: "Colours", parentId: "B" },
+      { id: "B4", category: "topic-area", title: "Clothes and accessories", parentId: "B" },
+      { id: "B5", category: "topic-area", title: "Leisure time", parentId: "B" },
+      { id: "C1", category: "topic-area", title: "People and places", parentId: "C" },
+      { id: "C2", category: "topic-area", title: "The natural world, the environment, the climate and the weather", parentId: "C" },
+      { id: "C3", category: "topic-area", title: "Communications and technology", parentId: "C" },
+      { id: "C4", category: "topic-area", title: "The built environment", parentId: "C" },
+      { id: "C5", category: "topic-area", title: "Measurements", parentId: "C" },
+      { id: "D1", category: "topic-area", title: "Education", parentId: "D" },
+      { id: "D2", category: "topic-area", title: "Work", parentId: "D" },
+      { id: "E1", category: "topic-area", title: "Countries, nationalities and languages", parentId: "E" },
+      { id: "E2", category: "topic-area", title: "Culture, customs, faiths and celebrations", parentId: "E" },
+
+      // Grammar requirements
+      { id: "G1", category: "grammar", title: "Word order (subject–time–place–verb–object)" },
+      { id: "G2", category: "grammar", title: "Questions (吗, 呢, question words, A不A)" },
+      { id: "G3", category: "grammar", title: "Numbers, measure words and demonstratives" },
+      { id: "G4", category: "grammar", title: "Negation with 不 and 没" },
+      { id: "G5", category: "grammar", title: "Structural particles 的, 得, 地" },
+      { id: "G6", category: "grammar", title: "Aspect: 了, 过, 着, 在" },
+      { id: "G7", category: "grammar", title: "Complements of result, degree and direction" },
+      { id: "G8", category: "grammar", title: "Comparison (比, 一样, 没有)" },
+      { id: "G9", category: "grammar", title: "Prepositions and coverbs" },
+      { id: "G10", category: "grammar", title: "Auxiliary and modal verbs" },
+      { id: "G11", category: "grammar", title: "Adverbs and their placement" },
+      { id: "G12", category: "grammar", title: "Conjunctions and linked clauses" },
+      { id: "G13", category: "grammar", title: "把 and 被 sentences" },
+      { id: "G14", category: "grammar", title: "Sentence-final particles (吧, 呢, 啊, 了)" },
+
+      // Prescribed vocabulary
+      { id: "V1", category: "vocabulary", title: "High frequency vocabulary" },
+      { id: "V2", category: "vocabulary", title: "Adjectives and attributive phrases" },
+      { id: "V3", category: "vocabulary", title: "Adverbs and adverbial phrases" },
+      { id: "V4", category: "vocabulary", title: "Auxiliary verbs" },
+      { id: "V5", category: "vocabulary", title: "Measure words" },
+      { id: "V6", category: "vocabulary", title: "Common verbs" },
+      { id: "V7", category: "vocabulary", title: "Conjunctions and conjunctive patterns" },
+      { id: "V8", category: "vocabulary", title: "Nouns" },
+      { id: "V9", category: "vocabulary", title: "Numbers" },
+      { id: "V10", category: "vocabulary", title: "Particles" },
+      { id: "V11", category: "vocabulary", title: "Prepositions and coverbs" },
+      { id: "V12", category: "vocabulary", title: "Pronouns" },
+      { id: "V13", category: "vocabulary", title: "Question words" },
+      { id: "V14", category: "vocabulary", title: "Stative verbs" },
+      { id: "V15", category: "vocabulary", title: "Surnames" },
+      { id: "V16", category: "vocabulary", title: "Verbal measure words" },
+      { id: "V17", category: "vocabulary", title: "Verb-object compounds" },
+    ],
+  },
+];
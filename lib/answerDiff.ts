@@ -0,0 +1,147 @@
+// Character-level comparison of a written answer with the model answer. An edit-distance
+// alignment over Hanzi and punctuation marks each character as matching, missing, extra or
+// substituted; the rule-based score is derived from the same distance.
+
+export type DiffOp = 'equal' | 'missing' | 'extra' | 'substituted';
+
+export interface DiffSegment {
+  op: DiffOp;
+  expected: string; // From the model answer ('' for extra)
+  given: string; // From the student's answer ('' for missing)
+}
+
+export interface AnswerDiff {
+  segments: DiffSegment[]; // Consecutive characters with the same operation are grouped
+  distance: number; // Weighted edit distance
+  score: number; // 0-100
+  missing: number; // Character counts, punctuation excluded
+  extra: number;
+  substituted: number;
+  punctuationErrors: number;
+}
+
+// Punctuation mistakes cost less than wrong characters
+const CHARACTER_COST = 1;
+const PUNCTUATION_COST = 0.5;
+
+// Half-width punctuation typed on an English keyboard counts as its full-width form
+const FULL_WIDTH: Record<string, string> = {
+  ',': '，', '.': '。', '!': '！', '?': '？', ';': '；', ':': '：', '(': '（', ')': '）',
+};
+
+const PUNCTUATION = /[，。！？；：、“”‘’（）【】《》…—"'\-\[\]{}]/;
+
+const isPunctuation = (token: string) => PUNCTUATION.test(token);
+
+const tokenize = (text: string): string[] =>
+  Array.from(text.normalize('NFC').replace(/\s+/g, '').toLowerCase()).map(ch => FULL_WIDTH[ch] || ch);
+
+const cost = (token: string) => (isPunctuation(token) ? PUNCTUATION_COST : CHARACTER_COST);
+
+// Substituting punctuation for a character (or the reverse) costs as much as deleting and inserting
+const substitutionCost = (a: string, b: string) =>
+  isPunctuation(a) === isPunctuation(b) ? Math.max(cost(a), cost(b)) : cost(a) + cost(b);
+
+export const diffAnswer = (expectedText: string, givenText: string): AnswerDiff => {
+  const expected = tokenize(expectedText);
+  const given = tokenize(givenText);
+  const rows = expected.length + 1;
+  const cols = given.length + 1;
+
+  // dist[i][j]: cost of turning the first i expected tokens into the first j given tokens
+  const dist: number[][] = Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+  for (let i = 1; i < rows; i++) dist[i][0] = dist[i - 1][0] + cost(expected[i - 1]);
+  for (let j = 1; j < cols; j++) dist[0][j] = dist[0][j - 1] + cost(given[j - 1]);
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const a = expected[i - 1];
+      const b = given[j - 1];
+      dist[i][j] = Math.min(
+        dist[i - 1][j - 1] + (a === b ? 0 : substitutionCost(a, b)),
+        dist[i - 1][j] + cost(a),
+        dist[i][j - 1] + cost(b)
+      );
+    }
+  }
+
+  // Walk back from the end, preferring matches, then substitutions
+  const ops: { op: DiffOp; expected: string; given: string }[] = [];
+  let i = expected.length;
+  let j = given.length;
+  while (i > 0 || j > 0) {
+    const a = expected[i - 1];
+    const b = given[j - 1];
+    if (i > 0 && j > 0 && a === b && dist[i][j] === dist[i - 1][j - 1]) {
+      ops.push({ op: 'equal', expected: a, given: b });
+      i--; j--;
+    } else if (i > 0 && j > 0 && dist[i][j] === dist[i - 1][j - 1] + substitutionCost(a, b)) {
+      ops.push({ op: 'substituted', expected: a, given: b });
+      i--; j--;
+    } else if (i > 0 && dist[i][j] === dist[i - 1][j] + cost(a)) {
+      ops.push({ op: 'missing', expected: a, given: '' });
+      i--;
+    } else {
+      ops.push({ op: 'extra', expected: '', given: b });
+      j--;
+    }
+  }
+  ops.reverse();
+
+  const counts = { missing: 0, extra: 0, substituted: 0, punctuationErrors: 0 };
+  ops.forEach(({ op, expected: a, given: b }) => {
+    if (op === 'equal') return;
+    if (isPunctuation(a || b)) counts.punctuationErrors++;
+    else counts[op]++;
+  });
+
+  const segments: DiffSegment[] = [];
+  ops.forEach(op => {
+    const last = segments[segments.length - 1];
+    if (last && last.op === op.op) {
+      last.expected += op.expected;
+      last.given += op.given;
+    } else {
+      segments.push({ ...op });
+    }
+  });
+
+  const distance = dist[expected.length][given.length];
+  const total = expected.reduce((sum, token) => sum + cost(token), 0);
+  const score = total > 0 ? Math.max(0, Math.round(100 * (1 - distance / total))) : given.length === 0 ? 100 : 0;
+
+  return { segments, distance, score, ...counts };
+};
+
+// Diffs are shown for translations; other written types are too open-ended to compare character by character
+export const isDiffable = (type: string, answer?: string): boolean =>
+  type === 'translation' && !!answer && /[\u4e00-\u9fff]/.test(answer);
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+// Rule-based marking for written answers (used offline and when AI marking is off or fails)
+export const scoreTextAnswer = (correctAnswer: string, studentAnswer: string): { score: number; feedback: string } => {
+  const diff = diffAnswer(correctAnswer, studentAnswer);
+  if (diff.distance === 0) {
+    return { score: 100, feedback: 'Perfect! Your answer is exactly correct.' };
+  }
+
+  const characterErrors = diff.missing + diff.extra + diff.substituted;
+  if (characterErrors === 0) {
+    return { score: diff.score, feedback: 'Great! Your characters are all correct, but check the punctuation.' };
+  }
+
+  const problems = [
+    diff.substituted > 0 && `${plural(diff.substituted, 'character')} wrong`,
+    diff.missing > 0 && `${plural(diff.missing, 'character')} missing`,
+    diff.extra > 0 && `${plural(diff.extra, 'extra character')}`,
+  ].filter(Boolean) as string[];
+  const summary = problems.length > 1
+    ? `${problems.slice(0, -1).join(', ')} and ${problems[problems.length - 1]}`
+    : problems[0];
+  const opening = diff.score >= 80 ? 'Nearly there!' : diff.score >= 50 ? 'Good effort.' : 'Keep practising.';
+
+  return {
+    score: diff.score,
+    feedback: `${opening} Compared with the model answer: ${summary}.`,
+  };
+};
@@ -0,0 +1,88 @@
+// Playback of generated speech through Web Audio.
+// generateSpeech returns base64 PCM (Gemini) or raw PCM bytes (OpenAI), both 16-bit mono at 24kHz.
+// Dialogue audio for listening exercises is a WAV or MP3 file in storage, referenced by URL.
+
+import { DialogueAudio } from '@/types';
+import { generateSpeech } from '@/lib/services/geminiService';
+
+export const SPEECH_SAMPLE_RATE = 24000;
+
+export const decodeBase64 = (base64: string): Uint8Array => {
+  const clean = base64.replace(/\s/g, '');
+  try {
+    const binaryString = atob(clean);
+    const len = binaryString.length;
+    const bytes = new Uint8Array(len);
+    for (let i = 0; i < len; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes;
+  } catch (e) {
+    console.error("Base64 decode failed", e);
+    return new Uint8Array(0);
+  }
+};
+
+export const decodePcm = async (
+  data: Uint8Array,
+  ctx: AudioContext,
+  sampleRate: number,
+  numChannels: number,
+): Promise<AudioBuffer> => {
+  if (data.length === 0) {
+      return ctx.createBuffer(numChannels, 1, sampleRate);
+  }
+  const dataInt16 = new Int16Array(data.buffer);
+  const frameCount = dataInt16.length / numChannels;
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+};
+
+export const createSpeechContext = (): AudioContext =>
+  new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: SPEECH_SAMPLE_RATE });
+
+// Generate speech for the text and start playing it; `ended` resolves when playback finishes
+export const speakText = async (text: string, ctx: AudioContext): Promise<{ ended: Promise<void> }> => {
+  const speechResult = await generateSpeech(text);
+  if (!speechResult) throw new Error("No audio returned");
+
+  if (ctx.state === 'suspended') {
+      await ctx.resume();
+  }
+
+  const audioBytes = typeof speechResult === 'string'
+    ? decodeBase64(speechResult)
+    : new Uint8Array(speechResult.audioData);
+  const audioBuffer = await decodePcm(audioBytes, ctx, SPEECH_SAMPLE_RATE, 1);
+  return playBuffer(audioBuffer, ctx);
+};
+
+// Play the stored recording of a listening dialogue
+export const playDialogueAudio = async (audio: DialogueAudio, ctx: AudioContext): Promise<{ ended: Promise<void> }> => {
+  if (ctx.state === 'suspended') {
+      await ctx.resume();
+  }
+
+  const res = await fetch(audio.url);
+  if (!res.ok) throw new Error(`Could not load the recording: HTTP ${res.status}`);
+  const audioBuffer = await ctx.decodeAudioData(await res.arrayBuffer());
+  return playBuffer(audioBuffer, ctx);
+};
+
+const playBuffer = (audioBuffer: AudioBuffer, ctx: AudioContext): { ended: Promise<void> } => {
+  const source = ctx.createBufferSource();
+  source.buffer = audioBuffer;
+  source.connect(ctx.destination);
+  const ended = new Promise<void>(resolve => {
+    source.onended = () => resolve();
+  });
+  source.start();
+  return { ended };
+};
@@ -0,0 +1,135 @@
+// Editable curriculum helpers: seeding from the built-in curriculum, lookups, stable IDs,
+// reordering, and import/export as JSON.
+// Topic and point IDs are generated once and never change on rename, because lesson bank
+// templates and editor URLs refer to them.
+
+import { Curriculum, LearningPoint, Stage, Topic } from '@/types';
+import { CURRICULUM } from '@/data/curriculum';
+import { DEFAULT_SPECIFICATION_ID } from '@/lib/specification';
+
+export const DEFAULT_CURRICULUM_NAME = 'IGCSE Mandarin';
+
+const cloneStages = (stages: Stage[]): Stage[] => JSON.parse(JSON.stringify(stages));
+
+export const createSeedCurriculum = (id: string): Curriculum => ({
+  id,
+  name: DEFAULT_CURRICULUM_NAME,
+  specificationId: DEFAULT_SPECIFICATION_ID,
+  stages: cloneStages(CURRICULUM),
+});
+
+export const findCurriculumPoint = (
+  stages: Stage[],
+  stageId: number,
+  topicId: string,
+  pointId: string
+): { stage: Stage; topic: Topic; point: LearningPoint } | null => {
+  const stage = stages.find(s => s.id === stageId);
+  const topic = stage?.topics.find(t => t.id === topicId);
+  const point = topic?.points.find(p => p.id === pointId);
+  return stage && topic && point ? { stage, topic, point } : null;
+};
+
+export const getNextStageId = (stages: Stage[]): number =>
+  stages.reduce((max, s) => Math.max(max, s.id), 0) + 1;
+
+const collectIds = (stages: Stage[]): Set<string> => {
+  const ids = new Set<string>();
+  stages.forEach(s => s.topics.forEach(t => {
+    ids.add(t.id);
+    t.points.forEach(p => ids.add(p.id));
+  }));
+  return ids;
+};
+
+const slugify = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').split('-').slice(0, 4).join('-');
+
+// Readable ID like "s3-school-subjects", unique across the whole curriculum
+export const createCurriculumId = (stages: Stage[], stageId: number, title: string): string => {
+  const taken = collectIds(stages);
+  const base = `s${stageId}-${slugify(title) || 'item'}`;
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  return id;
+};
+
+// Returns a copy with the item at `index` moved by `offset` places (clamped to the list)
+export const moveItem = <T>(items: T[], index: number, offset: number): T[] => {
+  const target = Math.max(0, Math.min(items.length - 1, index + offset));
+  if (target === index) return items;
+  const next = [...items];
+  const [item] = next.splice(index, 1);
+  next.splice(target, 0, item);
+  return next;
+};
+
+// --- IMPORT / EXPORT ---
+
+export const exportCurriculum = (curriculum: Curriculum): string =>
+  JSON.stringify({ name: curriculum.name, specificationId: curriculum.specificationId, stages: curriculum.stages }, null, 2);
+
+const str = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+// Accepts an exported file ({ name, specificationId, stages }) or a bare list of stages. Missing or duplicate
+// IDs are regenerated; stages, topics and points without a title or description are dropped.
+export const parseCurriculumImport = (raw: unknown): { name: string; specificationId?: string; stages: Stage[] } | null => {
+  const source = Array.isArray(raw) ? { stages: raw } : raw;
+  if (!source || typeof source !== 'object' || !Array.isArray((source as any).stages)) return null;
+
+  const stages: Stage[] = [];
+  const usedStageIds = new Set<number>();
+
+  ((source as any).stages as unknown[]).forEach(rawStage => {
+    if (!rawStage || typeof rawStage !== 'object') return;
+    const s = rawStage as Record<string, unknown>;
+    const title = str(s.title);
+    if (!title) return;
+
+    const requestedId = typeof s.id === 'number' ? s.id : parseInt(str(s.id), 10);
+    const id = Number.isInteger(requestedId) && requestedId > 0 && !usedStageIds.has(requestedId)
+      ? requestedId
+      : Math.max(0, ...usedStageIds) + 1;
+    usedStageIds.add(id);
+
+    const stage: Stage = { id, title, duration: str(s.duration), goal: str(s.goal), topics: [] };
+    stages.push(stage);
+
+    (Array.isArray(s.topics) ? s.topics : []).forEach((rawTopic: unknown) => {
+      if (!rawTopic || typeof rawTopic !== 'object') return;
+      const t = rawTopic as Record<string, unknown>;
+      const topicTitle = str(t.title);
+      if (!topicTitle) return;
+
+      const topicId = str(t.id);
+      const topic: Topic = {
+        id: topicId && !collectIds(stages).has(topicId) ? topicId : createCurriculumId(stages, id, topicTitle),
+        title: topicTitle,
+        points: [],
+      };
+      stage.topics.push(topic);
+
+      (Array.isArray(t.points) ? t.points : []).forEach((rawPoint: unknown) => {
+        if (!rawPoint || typeof rawPoint !== 'object') return;
+        const p = rawPoint as Record<string, unknown>;
+        const description = str(p.description);
+        if (!description) return;
+
+        const pointId = str(p.id);
+        const specRefs = Array.isArray(p.specRefs) ? p.specRefs.map(str).filter(Boolean) : [];
+        topic.points.push({
+          id: pointId && !collectIds(stages).has(pointId) ? pointId : createCurriculumId(stages, id, description),
+          description,
+          ...(specRefs.length > 0 ? { specRefs } : {}),
+        });
+      });
+    });
+  });
+
+  if (stages.length === 0) return null;
+  return {
+    name: str((source as any).name) || DEFAULT_CURRICULUM_NAME,
+    specificationId: str((source as any).specificationId) || undefined,
+    stages,
+  };
+};
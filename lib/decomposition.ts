@@ -0,0 +1,262 @@
+// Offline character decomposition from Make Me a Hanzi (https://github.com/skishore/makemeahanzi).
+// scripts/build-decomposition.mjs converts its dictionary.txt (downloaded as part of the build) into
+// public/decomposition/characters.json:
+// each character's component layout, radical, and for phono-semantic characters the parts that
+// carry the meaning and the sound.
+
+import { parsePinyinSyllables } from './pinyin';
+
+export const DECOMPOSITION_URL = '/decomposition/characters.json';
+
+// [character, IDS decomposition, radical, definition, pinyin, etymology type, semantic, phonetic, hint]
+export type DecompositionRow = [string, string, string, string, string, string, string, string, string];
+
+export interface DecompositionFile {
+  source: string;
+  license: string;
+  unavailable?: boolean; // The build couldn't get the data; entries is empty
+  entries: DecompositionRow[];
+}
+
+export type EtymologyType = 'ideographic' | 'pictographic' | 'pictophonetic';
+
+export interface ComponentNode {
+  component: string; // '' for an unnamed group of components, '？' when unknown
+  layout?: string; // How the children are arranged, e.g. "left to right"
+  children: ComponentNode[];
+  meaning?: string;
+  pinyin?: string;
+  role?: 'semantic' | 'phonetic';
+}
+
+export interface PhoneticHint {
+  component: string;
+  pinyin: string;
+  match: 'same' | 'tone' | 'rhyme' | 'none'; // How close the component's sound is to the character's
+}
+
+export interface CharacterDecomposition {
+  character: string;
+  pinyin: string;
+  definition: string;
+  tree: ComponentNode;
+  radical?: { form: string; meaning: string };
+  etymology?: EtymologyType;
+  hint?: string; // e.g. "a woman with a child"
+  phonetic?: PhoneticHint;
+}
+
+export interface SharedComponent {
+  component: string;
+  characters: string[]; // Other characters in the student's lists containing it
+}
+
+export interface Decomposer {
+  size: number;
+  lookup: (character: string) => CharacterDecomposition | null;
+  componentsOf: (character: string) => string[];
+  sharedComponents: (character: string, words: string[]) => SharedComponent[];
+}
+
+// Ideographic Description Characters and the number of parts each arranges
+const LAYOUTS: Record<string, { arity: number; label: string }> = {
+  '⿰': { arity: 2, label: 'left to right' },
+  '⿱': { arity: 2, label: 'top to bottom' },
+  '⿲': { arity: 3, label: 'left, middle and right' },
+  '⿳': { arity: 3, label: 'top, middle and bottom' },
+  '⿴': { arity: 2, label: 'surrounded' },
+  '⿵': { arity: 2, label: 'open at the bottom' },
+  '⿶': { arity: 2, label: 'open at the top' },
+  '⿷': { arity: 2, label: 'open on the right' },
+  '⿸': { arity: 2, label: 'covered from the top left' },
+  '⿹': { arity: 2, label: 'covered from the top right' },
+  '⿺': { arity: 2, label: 'supported from the bottom left' },
+  '⿻': { arity: 2, label: 'overlapping' },
+};
+
+// Radicals written differently when they form part of a character, which the data
+// defines only briefly or not at all
+const RADICAL_FORMS: Record<string, string> = {
+  '亻': 'person (人)',
+  '氵': 'water (水)',
+  '扌': 'hand (手)',
+  '忄': 'heart (心)',
+  '讠': 'speech (言)',
+  '纟': 'silk, thread (糸)',
+  '钅': 'metal (金)',
+  '饣': 'food (食)',
+  '艹': 'grass, plants (草)',
+  '⺮': 'bamboo (竹)',
+  '灬': 'fire (火)',
+  '犭': 'animal (犬)',
+  '礻': 'spirit, ceremony (示)',
+  '衤': 'clothing (衣)',
+  '阝': 'hill (on the left) or town (on the right)',
+  '辶': 'walking, movement',
+  '宀': 'roof',
+  '冫': 'ice',
+  '刂': 'knife (刀)',
+  '攵': 'action, tapping',
+  '彳': 'step, going',
+  '疒': 'illness',
+  '罒': 'net (网)',
+  '月': 'moon, or flesh and body parts (肉)',
+};
+
+const MAX_DEPTH = 3; // Levels of components below the character itself
+const UNKNOWN = '？';
+
+type IdsNode = string | { operator: string; parts: IdsNode[] };
+
+// Recursive descent over an IDS string such as "⿰女⿱子？"
+const parseIds = (ids: string): IdsNode | null => {
+  const chars = Array.from(ids);
+  let pos = 0;
+  const parseNode = (): IdsNode | null => {
+    const ch = chars[pos++];
+    if (ch === undefined) return null;
+    const layout = LAYOUTS[ch];
+    if (!layout) return ch;
+    const parts: IdsNode[] = [];
+    for (let i = 0; i < layout.arity; i++) {
+      const part = parseNode();
+      if (part === null) return null;
+      parts.push(part);
+    }
+    return { operator: ch, parts };
+  };
+  const node = parseNode();
+  return node !== null && pos === chars.length ? node : null;
+};
+
+const INITIAL = /^(zh|ch|sh|[bpmfdtnlgkhjqxrzcsyw])/;
+
+const comparePronunciation = (a: string, b: string): PhoneticHint['match'] => {
+  const [x] = parsePinyinSyllables(a);
+  const [y] = parsePinyinSyllables(b);
+  if (!x || !y) return 'none';
+  if (x.base === y.base) return x.tone === y.tone ? 'same' : 'tone';
+  return x.base.replace(INITIAL, '') === y.base.replace(INITIAL, '') ? 'rhyme' : 'none';
+};
+
+export const createDecomposer = (rows: DecompositionRow[]): Decomposer => {
+  const byCharacter = new Map<string, DecompositionRow>(rows.map(row => [row[0], row]));
+
+  const radicalMeaning = (form: string) => RADICAL_FORMS[form] || byCharacter.get(form)?.[3] || '';
+
+  const buildNode = (node: IdsNode, depth: number, seen: Set<string>): ComponentNode => {
+    if (typeof node !== 'string') {
+      return {
+        component: '',
+        layout: LAYOUTS[node.operator].label,
+        children: node.parts.map(part => buildNode(part, depth, seen)),
+      };
+    }
+    const row = byCharacter.get(node);
+    const result: ComponentNode = {
+      component: node,
+      children: [],
+      meaning: RADICAL_FORMS[node] || row?.[3] || undefined,
+      pinyin: row?.[4] || undefined,
+    };
+    // Break components down further, stopping at characters that are their own decomposition
+    const ids = row && depth < MAX_DEPTH && !seen.has(node) ? parseIds(row[1]) : null;
+    if (ids && typeof ids !== 'string') {
+      const inner = buildNode(ids, depth + 1, new Set(seen).add(node));
+      result.layout = inner.layout;
+      result.children = inner.children;
+    }
+    return result;
+  };
+
+  const lookup = (character: string): CharacterDecomposition | null => {
+    const row = byCharacter.get(character);
+    if (!row) return null;
+    const [, ids, radical, definition, pinyin, etymology, semantic, phonetic, hint] = row;
+
+    const parsed = parseIds(ids);
+    const tree: ComponentNode = { component: character, children: [], meaning: definition, pinyin };
+    if (parsed && typeof parsed !== 'string') {
+      const inner = buildNode(parsed, 1, new Set([character]));
+      tree.layout = inner.layout;
+      tree.children = inner.children;
+      // Mark which top-level parts carry the meaning and the sound
+      tree.children.forEach(child => {
+        if (child.component && child.component === semantic) child.role = 'semantic';
+        else if (child.component && child.component === phonetic) child.role = 'phonetic';
+      });
+    }
+
+    const phoneticPinyin = phonetic ? byCharacter.get(phonetic)?.[4] || '' : '';
+    return {
+      character,
+      pinyin,
+      definition,
+      tree,
+      ...(radical && radical !== UNKNOWN && { radical: { form: radical, meaning: radicalMeaning(radical) } }),
+      ...(etymology && { etymology: etymology as EtymologyType }),
+      ...(hint && { hint }),
+      ...(phonetic && {
+        phonetic: {
+          component: phonetic,
+          pinyin: phoneticPinyin,
+          match: phoneticPinyin ? comparePronunciation(phoneticPinyin, pinyin) : 'none',
+        },
+      }),
+    };
+  };
+
+  // Every named component at any depth, without the character itself
+  const componentsCache = new Map<string, string[]>();
+  const componentsOf = (character: string): string[] => {
+    const cached = componentsCache.get(character);
+    if (cached) return cached;
+    const found = new Set<string>();
+    const walk = (node: ComponentNode) => node.children.forEach(child => {
+      if (child.component && child.component !== UNKNOWN) found.add(child.component);
+      walk(child);
+    });
+    const decomposition = lookup(character);
+    if (decomposition) walk(decomposition.tree);
+    found.delete(character);
+    const list = Array.from(found);
+    componentsCache.set(character, list);
+    return list;
+  };
+
+  const sharedComponents = (character: string, words: string[]): SharedComponent[] => {
+    const others = Array.from(new Set(words.flatMap(word => Array.from(word))))
+      .filter(ch => ch !== character && byCharacter.has(ch));
+    return componentsOf(character)
+      .map(component => ({
+        component,
+        characters: others.filter(ch => ch === component || componentsOf(ch).includes(component)),
+      }))
+      .filter(shared => shared.characters.length > 0);
+  };
+
+  return { size: byCharacter.size, lookup, componentsOf, sharedComponents };
+};
+
+// --- LOADING ---
+
+let decomposerPromise: Promise<Decomposer | null> | null = null;
+
+// Fetched on first use and kept for the session. Resolves to null if the data file is missing.
+export const loadDecomposition = (): Promise<Decomposer | null> => {
+  if (!decomposerPromise) {
+    decomposerPromise = fetch(DECOMPOSITION_URL)
+      .then(async res => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const file: DecompositionFile = await res.json();
+        if (file.unavailable) throw new Error('Not built: the data could not be downloaded');
+        return createDecomposer(file.entries);
+      })
+      .catch(error => {
+        console.warn('[Decomposition] Not available:', error);
+        decomposerPromise = null; // Try again next time
+        return null;
+      });
+  }
+  return decomposerPromise;
+};
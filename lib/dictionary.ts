@@ -0,0 +1,168 @@
+// Offline Chinese dictionary built from CC-CEDICT (https://cc-cedict.org, CC BY-SA 4.0).
+// scripts/build-dictionary.mjs converts a CC-CEDICT release (by default the one in the cedict-json
+// package, as part of every build), ranked by a word frequency list, into public/dictionary/:
+// script.json for converting between the scripts, and one file of words per first character, so
+// only the characters on screen are ever fetched.
+
+import { numberedToMarked } from './pinyin';
+
+export const DICTIONARY_URL = '/dictionary';
+export const SCRIPT_URL = `${DICTIONARY_URL}/script.json`;
+
+// Words whose first character (simplified) is `char`; same file names as the build script
+export const shardUrl = (char: string) => `${DICTIONARY_URL}/words/${char.codePointAt(0)!.toString(16)}.json`;
+
+// [simplified, traditional, numbered pinyin, definitions separated by "/", frequency rank or 0]
+export type DictionaryRow = [string, string, string, string, number];
+
+export interface DictionaryShard {
+  entries: DictionaryRow[];
+  traditional: [string, string][]; // [traditional, simplified] of words filed under another character
+}
+
+// Single characters that differ between the scripts
+export interface ScriptFile {
+  source: string;
+  license: string;
+  toSimplified: Record<string, string>;
+  toTraditional: Record<string, string>;
+}
+
+export interface ScriptConverter {
+  toSimplified: (text: string) => string;
+  toTraditional: (text: string) => string;
+}
+
+export interface DictionaryReading {
+  pinyin: string; // Tone marks
+  pinyinNumbered: string;
+  definitions: string[];
+}
+
+export interface DictionaryEntry {
+  simplified: string;
+  traditional: string[]; // More than one when several traditional forms simplify to the same word
+  readings: DictionaryReading[]; // Common readings first; proper-noun readings last
+  frequencyRank?: number; // 1 = most frequent word
+}
+
+export interface Dictionary extends ScriptConverter {
+  size: number; // Words loaded so far
+  lookup: (word: string) => DictionaryEntry | null; // Simplified or traditional
+}
+
+// Proper nouns (surnames, places) are capitalised in CC-CEDICT
+const isProperNoun = (pinyinNumbered: string) => /^[A-Z]/.test(pinyinNumbered);
+
+export const createScriptConverter = (file: Pick<ScriptFile, 'toSimplified' | 'toTraditional'>): ScriptConverter => {
+  const convert = (map: Record<string, string>) => (text: string) =>
+    Array.from(text).map(ch => map[ch] || ch).join('');
+  return { toSimplified: convert(file.toSimplified), toTraditional: convert(file.toTraditional) };
+};
+
+export const createDictionary = (shards: DictionaryShard[], script: ScriptConverter): Dictionary => {
+  const bySimplified = new Map<string, DictionaryRow[]>();
+  const traditionalToSimplified = new Map<string, string>();
+
+  shards.forEach(shard => shard.entries.forEach(row => {
+    const [simplified, traditional] = row;
+    const list = bySimplified.get(simplified);
+    if (list) list.push(row);
+    else bySimplified.set(simplified, [row]);
+    if (!traditionalToSimplified.has(traditional)) traditionalToSimplified.set(traditional, simplified);
+  }));
+  shards.forEach(shard => shard.traditional.forEach(([traditional, simplified]) => {
+    if (!traditionalToSimplified.has(traditional)) traditionalToSimplified.set(traditional, simplified);
+  }));
+
+  const lookup = (word: string): DictionaryEntry | null => {
+    const key = word.trim();
+    const simplified = bySimplified.has(key) ? key : traditionalToSimplified.get(key);
+    const matches = simplified ? bySimplified.get(simplified) : undefined;
+    if (!simplified || !matches) return null;
+
+    // Entries sharing a reading (e.g. different traditional forms) are merged
+    const readings: DictionaryReading[] = [];
+    matches.forEach(([, , pinyinNumbered, definitions]) => {
+      const existing = readings.find(r => r.pinyinNumbered === pinyinNumbered);
+      const defs = definitions.split('/').filter(Boolean);
+      if (existing) {
+        defs.forEach(d => !existing.definitions.includes(d) && existing.definitions.push(d));
+      } else {
+        readings.push({ pinyin: numberedToMarked(pinyinNumbered), pinyinNumbered, definitions: defs });
+      }
+    });
+    readings.sort((a, b) => Number(isProperNoun(a.pinyinNumbered)) - Number(isProperNoun(b.pinyinNumbered)));
+
+    const ranks = matches.map(row => row[4]).filter(rank => rank > 0);
+    return {
+      simplified,
+      traditional: Array.from(new Set(matches.map(row => row[1]))),
+      readings,
+      frequencyRank: ranks.length > 0 ? Math.min(...ranks) : undefined,
+    };
+  };
+
+  return { ...script, size: bySimplified.size, lookup };
+};
+
+// Short English gloss for a reading: the first few definitions, without classifier notes
+export const summariseDefinitions = (reading: DictionaryReading, max = 3): string =>
+  reading.definitions.filter(d => !d.startsWith('CL:')).slice(0, max).join('; ');
+
+// --- LOADING ---
+
+const CJK_CHAR = /[\u4e00-\u9fa5\u3400-\u4dbf\uf900-\ufaff]/;
+
+let scriptPromise: Promise<ScriptConverter | null> | null = null;
+const shardPromises = new Map<string, Promise<DictionaryShard>>();
+
+// Fetched on first use and kept for the session. Resolves to null if the data file is missing,
+// so callers compare answers as written.
+export const loadScriptConverter = (): Promise<ScriptConverter | null> => {
+  if (!scriptPromise) {
+    scriptPromise = fetch(SCRIPT_URL)
+      .then(async res => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return createScriptConverter(await res.json());
+      })
+      .catch(error => {
+        console.warn('[Dictionary] Script conversion not available:', error);
+        scriptPromise = null; // Try again next time
+        return null;
+      });
+  }
+  return scriptPromise;
+};
+
+// A character without a file has no words
+const loadShard = (char: string): Promise<DictionaryShard> => {
+  let shard = shardPromises.get(char);
+  if (!shard) {
+    shard = fetch(shardUrl(char)).then(async res => {
+      if (res.status === 404) return { entries: [], traditional: [] };
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      return res.json();
+    });
+    shard.catch(() => shardPromises.delete(char)); // Try again next time
+    shardPromises.set(char, shard);
+  }
+  return shard;
+};
+
+// Words starting with any character of `text`, plus everything fetched earlier in the session.
+// Resolves to null if the data is missing, so callers can fall back to generated word details.
+export const loadDictionary = async (text: string): Promise<Dictionary | null> => {
+  try {
+    const script = await loadScriptConverter();
+    if (!script) return null;
+    const chars = Array.from(new Set(Array.from(text).filter(ch => CJK_CHAR.test(ch))));
+    const shards = await Promise.all(chars.map(loadShard));
+    // Traditional words are filed under their simplified form's first character
+    await Promise.all(shards.flatMap(shard => shard.traditional.map(([, simplified]) => loadShard(Array.from(simplified)[0]))));
+    return createDictionary(await Promise.all(Array.from(shardPromises.values())), script);
+  } catch (error) {
+    console.warn('[Dictionary] Not available, falling back to AI word details:', error);
+    return null;
+  }
+};
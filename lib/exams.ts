@@ -0,0 +1,181 @@
+// Mock exam papers modelled on GCSE Mandarin: paper/tier specs, validation of generated
+// papers, marking helpers and the conversion from raw marks to a 1-9 grade.
+// Value imports are relative because the generate function bundles this file too.
+
+import { ExamAttempt, ExamPaper, ExamQuestion, ExamTier, Exercise } from '@/types';
+import { formatDialogue, validateExercise } from './exercises';
+import { getRubric, getRubricMaxMark } from './rubrics';
+import { parsePinyinSyllables } from './pinyin';
+
+export const EXAM_PAPERS: { paper: ExamPaper; label: string; description: string }[] = [
+  { paper: 'listening', label: 'Listening', description: 'Recorded Chinese with comprehension questions' },
+  { paper: 'reading', label: 'Reading', description: 'Short texts, gap fills and comprehension' },
+  { paper: 'speaking', label: 'Speaking', description: 'Read aloud, marked on tone accuracy' },
+  { paper: 'writing', label: 'Writing', description: 'Translation and extended writing' },
+];
+
+export const EXAM_TIERS: { tier: ExamTier; label: string }[] = [
+  { tier: 'foundation', label: 'Foundation' },
+  { tier: 'higher', label: 'Higher' },
+];
+
+export const PAPER_SPECS: Record<ExamPaper, Record<ExamTier, { durationMinutes: number; questionCount: number }>> = {
+  listening: { foundation: { durationMinutes: 35, questionCount: 10 }, higher: { durationMinutes: 45, questionCount: 12 } },
+  reading: { foundation: { durationMinutes: 45, questionCount: 10 }, higher: { durationMinutes: 60, questionCount: 12 } },
+  speaking: { foundation: { durationMinutes: 10, questionCount: 4 }, higher: { durationMinutes: 12, questionCount: 5 } },
+  writing: { foundation: { durationMinutes: 70, questionCount: 5 }, higher: { durationMinutes: 75, questionCount: 5 } },
+};
+
+// Extended writing tasks on the writing paper, in order
+export const WRITING_RUBRICS: Record<ExamTier, string[]> = {
+  foundation: ['gcse-40-word', 'gcse-90-word'],
+  higher: ['gcse-90-word', 'gcse-150-word'],
+};
+
+// Each listening recording may be played this many times
+export const LISTENING_PLAYS = 2;
+
+// Read-aloud questions are marked on tone accuracy
+const SPEAKING_MARKS = 5;
+
+// Indicative boundaries as a percentage of the paper's raw mark; real boundaries change every series.
+// Foundation caps at grade 5; Higher starts at 4 with an allowed grade 3 just below.
+export const GRADE_BOUNDARIES: Record<ExamTier, { grade: number; minPercentage: number }[]> = {
+  foundation: [
+    { grade: 5, minPercentage: 80 },
+    { grade: 4, minPercentage: 66 },
+    { grade: 3, minPercentage: 50 },
+    { grade: 2, minPercentage: 34 },
+    { grade: 1, minPercentage: 18 },
+  ],
+  higher: [
+    { grade: 9, minPercentage: 85 },
+    { grade: 8, minPercentage: 76 },
+    { grade: 7, minPercentage: 67 },
+    { grade: 6, minPercentage: 57 },
+    { grade: 5, minPercentage: 46 },
+    { grade: 4, minPercentage: 35 },
+    { grade: 3, minPercentage: 28 },
+  ],
+};
+
+export const getPaperLabel = (paper: ExamPaper) => EXAM_PAPERS.find(p => p.paper === paper)?.label || paper;
+
+export const getTierLabel = (tier: ExamTier) => EXAM_TIERS.find(t => t.tier === tier)?.label || tier;
+
+// --- GRADING ---
+
+// 0 means ungraded (U)
+export const gradeForPercentage = (tier: ExamTier, percentage: number): number =>
+  GRADE_BOUNDARIES[tier].find(b => percentage >= b.minPercentage)?.grade || 0;
+
+export const formatGrade = (grade: number | undefined): string => (grade && grade > 0 ? String(grade) : 'U');
+
+export const marksFromScore = (score: number, marks: number): number =>
+  Math.max(0, Math.min(marks, Math.round((score / 100) * marks)));
+
+// Tutor-adjusted marks if reviewed, otherwise the automatic marks
+export const getAwardedMarks = (attempt: ExamAttempt): number[] =>
+  attempt.tutorAdjustedMarks || attempt.questionMarks || [];
+
+export const summariseMarks = (tier: ExamTier, questions: ExamQuestion[], marks: number[]) => {
+  const maxMark = questions.reduce((acc, q) => acc + q.marks, 0);
+  const rawMark = questions.reduce((acc, q, i) => acc + Math.min(q.marks, marks[i] || 0), 0);
+  const percentage = maxMark > 0 ? Math.round((rawMark / maxMark) * 100) : 0;
+  return { rawMark, maxMark, percentage, grade: gradeForPercentage(tier, percentage) };
+};
+
+// Seconds left on the clock (never negative)
+export const getRemainingSeconds = (attempt: ExamAttempt, now: number = Date.now()): number => {
+  const endsAt = new Date(attempt.startedAt).getTime() + attempt.durationMinutes * 60 * 1000;
+  return Math.max(0, Math.floor((endsAt - now) / 1000));
+};
+
+// --- VALIDATION ---
+
+const DEFAULT_MARKS: Partial<Record<Exercise['type'], number>> = {
+  quiz: 1,
+  'gap-fill': 1,
+  'pinyin-to-character': 1,
+  'pinyin-answer': 1,
+  tone: 1,
+  reorder: 2,
+  reading: 2,
+  listening: 2,
+  translation: 4,
+};
+
+const questionMarks = (exercise: Exercise, requested: unknown): number => {
+  const rubric = getRubric(exercise.rubricId);
+  if (rubric) return getRubricMaxMark(rubric);
+  if (exercise.type === 'matching') return exercise.pairs?.length || 1;
+  const marks = typeof requested === 'number' ? Math.round(requested) : NaN;
+  return marks >= 1 && marks <= 20 ? marks : DEFAULT_MARKS[exercise.type] || 2;
+};
+
+const str = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const validateSpeakingQuestion = (item: Record<string, unknown>): ExamQuestion | null => {
+  const passage = str(item.passage);
+  const pinyin = str(item.pinyin);
+  if (!passage || parsePinyinSyllables(pinyin).length === 0) return null;
+  return {
+    exercise: {
+      type: 'reading',
+      question: str(item.question) || '请朗读。',
+      questionTranslation: str(item.questionTranslation) || 'Read the text aloud.',
+      passage,
+      passageTranslation: str(item.passageTranslation) || undefined,
+      pinyin,
+    },
+    marks: SPEAKING_MARKS,
+  };
+};
+
+// Cleans a generated paper ({ questions: [...] } or a bare list), dropping unusable questions
+export const validateExamQuestions = (raw: unknown, paper: ExamPaper, tier: ExamTier): ExamQuestion[] => {
+  const list: unknown[] = Array.isArray(raw)
+    ? raw
+    : raw && typeof raw === 'object' && Array.isArray((raw as any).questions) ? (raw as any).questions : [];
+  const rubrics = [...WRITING_RUBRICS[tier]];
+  const questions: ExamQuestion[] = [];
+
+  list.forEach(entry => {
+    if (!entry || typeof entry !== 'object') return;
+    const item = entry as Record<string, unknown>;
+
+    if (paper === 'speaking') {
+      const question = validateSpeakingQuestion(item);
+      if (question) questions.push(question);
+      return;
+    }
+
+    const exercise = validateExercise(item);
+    if (!exercise) return;
+    const question: ExamQuestion = { exercise, marks: 0 };
+
+    if (paper === 'listening') {
+      // The transcript is heard, never read: move a passage into the audio script
+      const audioScript = str(item.audioScript) || exercise.passage || (exercise.dialogue ? formatDialogue(exercise.dialogue) : '');
+      if (!audioScript) return;
+      question.audioScript = audioScript;
+      delete question.exercise.passage;
+      delete question.exercise.passageTranslation;
+      delete question.exercise.dialogue;
+    }
+
+    if (paper === 'writing' && exercise.type === 'composition') {
+      const rubricId = rubrics.shift();
+      if (!rubricId) return;
+      exercise.rubricId = rubricId;
+    }
+
+    question.marks = questionMarks(exercise, item.marks);
+    questions.push(question);
+  });
+
+  if (questions.length < list.length) {
+    console.warn(`[Exams] Dropped ${list.length - questions.length} invalid question(s)`);
+  }
+  return questions;
+};
@@ -0,0 +1,543 @@
+// Exercise schema helpers: runtime validation/repair of generated exercises,
+// answer encoding for the structured types and local (non-AI) scoring.
+
+import { DialogueLine, Exercise, ExerciseType, MatchingPair } from '@/types';
+import { comparePinyin, hasTones, isValidPinyin, parsePinyinSyllables, toMarkedPinyin } from './pinyin';
+import { diffAnswer } from './answerDiff';
+
+export const EXERCISE_TYPES: { type: ExerciseType; label: string }[] = [
+  { type: 'quiz', label: 'Quiz' },
+  { type: 'translation', label: 'Translation' },
+  { type: 'composition', label: 'Composition' },
+  { type: 'gap-fill', label: 'Gap Fill' },
+  { type: 'reorder', label: 'Sentence Reordering' },
+  { type: 'matching', label: 'Matching Pairs' },
+  { type: 'pinyin-to-character', label: 'Pinyin to Character' },
+  { type: 'pinyin-answer', label: 'Answer in Pinyin' },
+  { type: 'tone', label: 'Tone Identification' },
+  { type: 'reading', label: 'Reading Comprehension' },
+  { type: 'listening', label: 'Listening Comprehension' },
+];
+
+// Tone picker values (5 = neutral tone)
+export const TONE_OPTIONS: { value: string; label: string }[] = [
+  { value: '1', label: '1st ˉ' },
+  { value: '2', label: '2nd ˊ' },
+  { value: '3', label: '3rd ˇ' },
+  { value: '4', label: '4th ˋ' },
+  { value: '5', label: 'Neutral' },
+];
+
+export const GAP_MARKER = '___';
+
+const TYPE_ALIASES: Record<string, ExerciseType> = {
+  'multiple-choice': 'quiz',
+  'mcq': 'quiz',
+  'choice': 'quiz',
+  'fill-in-the-blank': 'gap-fill',
+  'fill-in-the-blanks': 'gap-fill',
+  'fill-blank': 'gap-fill',
+  'gapfill': 'gap-fill',
+  'cloze': 'gap-fill',
+  'sentence-reordering': 'reorder',
+  'reordering': 'reorder',
+  'ordering': 'reorder',
+  'word-order': 'reorder',
+  'match': 'matching',
+  'matching-pairs': 'matching',
+  'pinyin': 'pinyin-to-character',
+  'pinyin-to-characters': 'pinyin-to-character',
+  'character-to-pinyin': 'pinyin-answer',
+  'characters-to-pinyin': 'pinyin-answer',
+  'write-pinyin': 'pinyin-answer',
+  'pinyin-input': 'pinyin-answer',
+  'tones': 'tone',
+  'tone-identification': 'tone',
+  'reading-comprehension': 'reading',
+  'comprehension': 'reading',
+  'listening-comprehension': 'listening',
+  'dialogue': 'listening',
+};
+
+const DEFAULT_QUESTIONS: Partial<Record<ExerciseType, string>> = {
+  reorder: '把词语排成正确的句子。',
+  matching: '把中文和英文配对。',
+  'pinyin-to-character': '请写出汉字。',
+};
+
+const CHINESE_CHAR = /[\u4e00-\u9fff]/;
+
+// --- NORMALISATION ---
+
+const str = (value: unknown): string => (typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '');
+
+const strList = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  return value.map(str).filter(v => v.length > 0 && !seen.has(v) && !!seen.add(v));
+};
+
+// Strip whitespace and punctuation so "我 喜欢。" and "我喜欢" compare equal; NFKC folds
+// full-width letters and digits into their half-width forms
+const normalizeText = (text: string): string =>
+  text.normalize('NFKC').replace(/[\s，。！？；：、,.!?;:'"“”‘’（）()]/g, '').toLowerCase();
+
+export const normalizeExerciseType = (value: unknown): ExerciseType | null => {
+  const key = str(value).toLowerCase().replace(/[\s_]+/g, '-');
+  if (EXERCISE_TYPES.some(t => t.type === key)) return key as ExerciseType;
+  return TYPE_ALIASES[key] || null;
+};
+
+// Map a letter answer ("B") or a case/space variant onto the matching option text
+export const resolveOptionAnswer = (answer: string, options: string[]): string | null => {
+  const trimmed = answer.trim();
+  if (options.includes(trimmed)) return trimmed;
+  if (/^[A-Z]$/i.test(trimmed)) {
+    const letterIndex = trimmed.toUpperCase().charCodeAt(0) - 'A'.charCodeAt(0);
+    if (letterIndex >= 0 && letterIndex < options.length) return options[letterIndex];
+  }
+  const loose = options.find(o => normalizeText(o) === normalizeText(trimmed));
+  return loose || null;
+};
+
+const toneDigits = (answer: string): string[] => answer.match(/[1-5]/g) || [];
+
+// --- LISTENING ---
+
+const MAX_DIALOGUE_LINES = 12;
+
+// "A: 你好！" per line; lines without a speaker continue with the previous one
+export const parseDialogue = (text: string): DialogueLine[] => {
+  const lines: DialogueLine[] = [];
+  text.split(/\r?\n/).map(l => l.trim()).filter(Boolean).forEach(line => {
+    const match = line.match(/^([^:：]{1,12})[:：]\s*(.+)$/);
+    if (match) lines.push({ speaker: match[1].trim(), text: match[2].trim() });
+    else if (lines.length > 0) lines[lines.length - 1].text += line;
+    else lines.push({ speaker: 'A', text: line });
+  });
+  return lines;
+};
+
+export const formatDialogue = (dialogue: DialogueLine[]): string =>
+  dialogue.map(line => `${line.speaker}: ${line.text}`).join('\n');
+
+// Dialogue lines from a list of { speaker, text } or "A: ..." text
+export const toDialogue = (value: unknown): DialogueLine[] => {
+  const lines = Array.isArray(value)
+    ? value.map(l => ({ speaker: str((l as any)?.speaker), text: str((l as any)?.text) }))
+    : parseDialogue(str(value));
+  return lines.filter(l => l.speaker && l.text).slice(0, MAX_DIALOGUE_LINES);
+};
+
+// Speakers in order of first appearance; the index picks the voice
+export const getSpeakers = (dialogue: DialogueLine[]): string[] =>
+  Array.from(new Set(dialogue.map(line => line.speaker)));
+
+// Stored recording that still matches the dialogue (older lessons kept the audio inline, without a URL)
+export const hasCurrentAudio = (exercise: Exercise): boolean =>
+  !!exercise.audio?.url && !!exercise.dialogue && exercise.audio.script === formatDialogue(exercise.dialogue);
+
+// --- VALIDATION ---
+
+// Returns a cleaned exercise, or null when the item cannot be repaired
+export const validateExercise = (raw: unknown): Exercise | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const item = raw as Record<string, unknown>;
+
+  const type = normalizeExerciseType(item.type);
+  if (!type) return null;
+
+  let question = str(item.question) || DEFAULT_QUESTIONS[type] || '';
+  let answer = str(item.answer);
+  let options = strList(item.options);
+  const exercise: Exercise = { type, question };
+
+  const questionTranslation = str(item.questionTranslation);
+  if (questionTranslation) exercise.questionTranslation = questionTranslation;
+
+  // Some models give the index of the correct option instead of its text
+  const optionIndex = typeof item.correctOptionIndex === 'number' ? item.correctOptionIndex : -1;
+  if (!answer && optionIndex >= 0 && optionIndex < options.length) answer = options[optionIndex];
+
+  switch (type) {
+    case 'quiz': {
+      if (options.length < 2) return null;
+      const resolved = resolveOptionAnswer(answer, options);
+      if (!resolved) return null;
+      answer = resolved;
+      break;
+    }
+
+    case 'gap-fill': {
+      if (!answer) return null;
+      question = question.replace(/_{2,}|（\s*）|\(\s*\)/g, GAP_MARKER);
+      if (!question.includes(GAP_MARKER)) {
+        // Model wrote the full sentence: blank out the answer
+        if (!question.includes(answer)) return null;
+        question = question.replace(answer, GAP_MARKER);
+      }
+      if (options.length > 0 && !options.includes(answer)) {
+        options = [...options, answer];
+      }
+      break;
+    }
+
+    case 'reorder': {
+      const segments = Array.isArray(item.segments) ? item.segments.map(str).filter(Boolean) : [];
+      if (segments.length < 2) return null;
+      // Without an answer the segments are assumed to be in the correct order
+      if (!answer) answer = segments.join('');
+      const sortChars = (text: string) => normalizeText(text).split('').sort().join('');
+      if (sortChars(segments.join('')) !== sortChars(answer)) return null;
+      exercise.segments = segments;
+      options = [];
+      break;
+    }
+
+    case 'matching': {
+      const pairs: MatchingPair[] = [];
+      if (Array.isArray(item.pairs)) {
+        for (const p of item.pairs) {
+          const left = str((p as any)?.left);
+          const right = str((p as any)?.right);
+          if (left && right && !pairs.some(existing => existing.left === left)) {
+            pairs.push({ left, right });
+          }
+        }
+      }
+      if (pairs.length < 2) return null;
+      exercise.pairs = pairs;
+      answer = pairs.map(p => `${p.left} = ${p.right}`).join('; ');
+      options = [];
+      break;
+    }
+
+    case 'pinyin-to-character': {
+      const pinyin = str(item.pinyin) || (CHINESE_CHAR.test(question) ? '' : question);
+      if (!pinyin || !CHINESE_CHAR.test(answer)) return null;
+      exercise.pinyin = pinyin;
+      if (options.length > 0) {
+        const resolved = resolveOptionAnswer(answer, options);
+        if (!resolved) options = [...options, answer];
+        else answer = resolved;
+      }
+      break;
+    }
+
+    case 'pinyin-answer': {
+      // The model may put the characters in "answer" and the pinyin in "pinyin"
+      const expected = CHINESE_CHAR.test(answer) ? str(item.pinyin) : answer;
+      if (!expected || !hasTones(expected) || !isValidPinyin(expected)) return null;
+      answer = toMarkedPinyin(expected);
+      options = [];
+      break;
+    }
+
+    case 'tone': {
+      if (!answer) return null;
+      if (options.length >= 2) {
+        const resolved = resolveOptionAnswer(answer, options);
+        if (!resolved) return null;
+        answer = resolved;
+      } else {
+        // No options: answer is one tone digit per syllable, picked with the tone buttons
+        const digits = toneDigits(answer);
+        if (digits.length === 0) return null;
+        answer = digits.join(' ');
+        options = [];
+      }
+      break;
+    }
+
+    case 'reading': {
+      const passage = str(item.passage);
+      if (!passage || !answer) return null;
+      exercise.passage = passage;
+      const passageTranslation = str(item.passageTranslation);
+      if (passageTranslation) exercise.passageTranslation = passageTranslation;
+      if (options.length > 0) {
+        if (options.length < 2) return null;
+        const resolved = resolveOptionAnswer(answer, options);
+        if (!resolved) return null;
+        answer = resolved;
+      }
+      break;
+    }
+
+    case 'listening': {
+      // Audio is never taken from the model; it is rendered when the tutor saves or assigns the lesson
+      const dialogue = toDialogue(item.dialogue || item.audioScript || item.passage);
+      if (dialogue.length === 0 || !answer) return null;
+      exercise.dialogue = dialogue;
+      const passageTranslation = str(item.passageTranslation);
+      if (passageTranslation) exercise.passageTranslation = passageTranslation;
+      if (options.length > 0) {
+        if (options.length < 2) return null;
+        const resolved = resolveOptionAnswer(answer, options);
+        if (!resolved) return null;
+        answer = resolved;
+      }
+      break;
+    }
+
+    case 'translation':
+    case 'composition':
+    default:
+      options = [];
+      break;
+  }
+
+  if (!question) return null;
+  exercise.question = question;
+  if (answer) exercise.answer = answer;
+  if (options.length > 0) {
+    exercise.options = options;
+    if (options.includes(answer)) exercise.correctOptionIndex = options.indexOf(answer);
+  } else if (type !== 'matching' && type !== 'tone') {
+    const acceptedAnswers = strList(item.acceptedAnswers).filter(a => a !== answer);
+    if (acceptedAnswers.length > 0) exercise.acceptedAnswers = acceptedAnswers;
+  }
+  return exercise;
+};
+
+// Accepts an array or a wrapper object ({ exercises: [...] }) and drops unrepairable items
+export const validateExercises = (raw: unknown): Exercise[] => {
+  const list: unknown[] = Array.isArray(raw)
+    ? raw
+    : raw && typeof raw === 'object'
+      ? (Array.isArray((raw as any).exercises) ? (raw as any).exercises : Object.values(raw).find(Array.isArray) || [])
+      : [];
+  const valid = list.map(validateExercise).filter((e): e is Exercise => e !== null);
+  if (valid.length < list.length) {
+    console.warn(`[Exercises] Dropped ${list.length - valid.length} invalid exercise(s)`);
+  }
+  return valid;
+};
+
+// --- ANSWER ENCODING ---
+// Student answers are stored as strings; matching and reorder keep a JSON list.
+
+export const encodeListAnswer = (items: string[]): string => JSON.stringify(items);
+
+export const decodeListAnswer = (answer: string | undefined): string[] => {
+  if (!answer) return [];
+  try {
+    const parsed = JSON.parse(answer);
+    return Array.isArray(parsed) ? parsed.map(v => (typeof v === 'string' ? v : '')) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Whether the student has given a full answer (every pair matched, every segment placed...)
+export const isAnswerComplete = (exercise: Exercise, answer: string | undefined): boolean => {
+  if (!answer || !answer.trim()) return false;
+  switch (exercise.type) {
+    case 'matching': {
+      const choices = decodeListAnswer(answer);
+      return (exercise.pairs || []).every((_, i) => !!choices[i]);
+    }
+    case 'reorder':
+      return decodeListAnswer(answer).length === (exercise.segments || []).length;
+    case 'tone':
+      if (exercise.options && exercise.options.length > 0) return true;
+      return toneDigits(answer).length === toneDigits(exercise.answer || '').length;
+    default:
+      return true;
+  }
+};
+
+// Human readable form of a stored student answer
+export const formatAnswer = (exercise: Exercise, answer: string | undefined): string => {
+  if (!answer) return '';
+  switch (exercise.type) {
+    case 'matching': {
+      const choices = decodeListAnswer(answer);
+      return (exercise.pairs || []).map((p, i) => `${p.left} = ${choices[i] || '?'}`).join('; ');
+    }
+    case 'reorder':
+      return decodeListAnswer(answer).join('');
+    case 'pinyin-answer':
+      return hasTones(answer) ? toMarkedPinyin(answer) : answer;
+    default:
+      return answer;
+  }
+};
+
+// --- ACCEPTED ANSWERS ---
+
+export interface AnswerMatchOptions {
+  toSimplified?: (text: string) => string; // Accepts traditional characters (lib/dictionary)
+}
+
+const MAX_OPTIONAL_PARTS = 4;
+
+// "我吃饭[了]" -> ["我吃饭了", "我吃饭"]; at most 4 optional parts are expanded
+export const expandOptionalParts = (answer: string): string[] => {
+  const parts = answer.split(/\[([^\]]*)\]/);
+  let variants = [''];
+  parts.forEach((part, i) => {
+    const optional = i % 2 === 1 && i < MAX_OPTIONAL_PARTS * 2;
+    variants = variants.flatMap(v => (optional ? [v + part, v] : [v + part]));
+  });
+  return variants.filter(v => v.trim());
+};
+
+// The correct option's text, by index when the tutor or model gave one, else from the answer
+export const getCorrectOption = (exercise: Exercise): string | null => {
+  const options = exercise.options || [];
+  const index = exercise.correctOptionIndex;
+  if (typeof index === 'number' && index >= 0 && index < options.length) return options[index];
+  return resolveOptionAnswer(exercise.answer || '', options);
+};
+
+// Every answer that counts as correct, with optional parts expanded
+export const getAcceptedAnswers = (exercise: Exercise): string[] => {
+  if (exercise.options && exercise.options.length > 0) {
+    const option = getCorrectOption(exercise);
+    return option ? [option] : [];
+  }
+  const all = [exercise.answer || '', ...(exercise.acceptedAnswers || [])].flatMap(expandOptionalParts);
+  return Array.from(new Set(all));
+};
+
+const answerKey = (text: string, options: AnswerMatchOptions) =>
+  normalizeText(options.toSimplified ? options.toSimplified(text) : text);
+
+export const matchesAcceptedAnswer = (exercise: Exercise, answer: string, options: AnswerMatchOptions = {}): boolean => {
+  const key = answerKey(answer, options);
+  return getAcceptedAnswers(exercise).some(a => answerKey(a, options) === key);
+};
+
+// The accepted answer closest to the student's, to mark free-text answers against
+export const bestAcceptedAnswer = (exercise: Exercise, answer: string, options: AnswerMatchOptions = {}): string => {
+  const accepted = getAcceptedAnswers(exercise);
+  if (accepted.length <= 1) return accepted[0] || exercise.answer || '';
+  const given = options.toSimplified ? options.toSimplified(answer) : answer;
+  return accepted
+    .map(a => ({ a, score: diffAnswer(options.toSimplified ? options.toSimplified(a) : a, given).score }))
+    .sort((x, y) => y.score - x.score)[0].a;
+};
+
+// The model answer shown to a student: the accepted answer closest to theirs, with optional parts
+// resolved. Matching and tone answers are shown as the tutor wrote them.
+export const getModelAnswer = (exercise: Exercise, answer: string | undefined, options: AnswerMatchOptions = {}): string => {
+  const hasOptions = !!exercise.options && exercise.options.length > 0;
+  if (exercise.type === 'matching' || (exercise.type === 'tone' && !hasOptions)) return exercise.answer || '';
+  return bestAcceptedAnswer(exercise, formatAnswer(exercise, answer), options);
+};
+
+// --- LOCAL SCORING ---
+
+const binary = (isMatch: boolean) => ({
+  score: isMatch ? 100 : 0,
+  feedback: isMatch ? 'Correct! Great job!' : 'Incorrect. Please review the correct answer and try again.',
+});
+
+// Right syllables earn half the marks, the tones the other half
+const scorePinyinAnswer = (exercise: Exercise, answer: string, expected: string): { score: number; feedback: string } => {
+  // Characters in the question let 不/一 tone changes count as correct
+  const result = comparePinyin(answer, expected, CHINESE_CHAR.test(exercise.question) ? exercise.question : undefined);
+  if (result.correct) return binary(true);
+  if (!result.syllablesCorrect) {
+    return {
+      score: 0,
+      feedback: result.invalidSyllables.length > 0
+        ? `"${result.invalidSyllables.join('", "')}" ${result.invalidSyllables.length === 1 ? 'is' : 'are'} not valid pinyin. Please review the correct answer.`
+        : binary(false).feedback,
+    };
+  }
+  if (!result.tonesGiven) {
+    return { score: 50, feedback: 'The syllables are right, but add the tones (tone marks, or numbers such as ni3 hao3).' };
+  }
+  const total = parsePinyinSyllables(expected).length;
+  const wrong = result.toneErrors.length;
+  return {
+    score: 50 + Math.round(((total - wrong) / total) * 50),
+    feedback: `The syllables are right, but ${wrong} of ${total} tone${total === 1 ? '' : 's'} ${wrong === 1 ? 'is' : 'are'} wrong.`,
+  };
+};
+
+// Scores types with a single objective answer. Returns null for free-text types
+// (translation, composition, open reading questions) which go to evaluateAnswer,
+// unless a translation matches one of the accepted answers.
+export const scoreExerciseLocally = (
+  exercise: Exercise,
+  answer: string,
+  options: AnswerMatchOptions = {}
+): { score: number; feedback: string } | null => {
+  const correct = exercise.answer || '';
+  const hasOptions = !!exercise.options && exercise.options.length > 0;
+  const isCorrectOption = () => answer.trim() === (getCorrectOption(exercise) || correct).trim();
+
+  switch (exercise.type) {
+    case 'quiz':
+      return binary(isCorrectOption());
+
+    case 'gap-fill':
+    case 'pinyin-to-character':
+      return binary(hasOptions ? isCorrectOption() : matchesAcceptedAnswer(exercise, answer, options));
+
+    case 'reorder':
+      return binary(matchesAcceptedAnswer(exercise, formatAnswer(exercise, answer), options));
+
+    case 'matching': {
+      const pairs = exercise.pairs || [];
+      const choices = decodeListAnswer(answer);
+      const matched = pairs.filter((p, i) => choices[i] === p.right).length;
+      const score = pairs.length > 0 ? Math.round((matched / pairs.length) * 100) : 0;
+      return {
+        score,
+        feedback: matched === pairs.length
+          ? 'Correct! Great job!'
+          : `You matched ${matched} of ${pairs.length} pairs correctly.`,
+      };
+    }
+
+    case 'tone': {
+      if (hasOptions) return binary(isCorrectOption());
+      const expected = toneDigits(correct);
+      const given = toneDigits(answer);
+      const right = expected.filter((d, i) => given[i] === d).length;
+      const score = expected.length > 0 ? Math.round((right / expected.length) * 100) : 0;
+      return {
+        score,
+        feedback: right === expected.length
+          ? 'Correct! Great job!'
+          : `You got ${right} of ${expected.length} tones right.`,
+      };
+    }
+
+    case 'pinyin-answer': {
+      // Marked against whichever accepted pinyin scores best (e.g. a word with two readings)
+      const results = getAcceptedAnswers(exercise).map(expected => scorePinyinAnswer(exercise, answer, expected));
+      return results.sort((x, y) => y.score - x.score)[0] || binary(false);
+    }
+
+    case 'reading':
+    case 'listening':
+      return hasOptions ? binary(isCorrectOption()) : null;
+
+    case 'translation':
+      // An accepted answer (in either script, any punctuation) needs no marking
+      return matchesAcceptedAnswer(exercise, answer, options) ? binary(true) : null;
+
+    default:
+      return null;
+  }
+};
+
+// Stable shuffle (seeded) so segments and matching choices keep their order across re-renders
+export const shuffleForDisplay = <T>(items: T[], seed: string): T[] => {
+  const result = [...items];
+  let h = 0;
+  for (let i = 0; i < seed.length; i++) {
+    h = (h * 31 + seed.charCodeAt(i)) | 0;
+  }
+  for (let i = result.length - 1; i > 0; i--) {
+    h = (h * 1103515245 + 12345) | 0;
+    const j = Math.abs(h) % (i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
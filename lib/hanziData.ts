@@ -0,0 +1,70 @@
+// HanziWriter stroke data served by the app rather than the jsDelivr CDN, so writing practice
+// works without internet access. scripts/copy-vendor.mjs copies the hanzi-writer-data package
+// into public/hanzi-writer-data/; each character is fetched once and kept in Cache Storage.
+
+import type { CharacterJson } from 'hanzi-writer';
+
+export const HANZI_DATA_URL = '/hanzi-writer-data';
+const CACHE_NAME = 'hanzi-writer-data-v1';
+const PRELOAD_CONCURRENCY = 4;
+
+const loaded = new Map<string, Promise<CharacterJson>>();
+
+const characterUrl = (character: string) => `${HANZI_DATA_URL}/${encodeURIComponent(character)}.json`;
+
+// Cache Storage is missing on insecure origins and in some private-browsing modes
+const openCache = async (): Promise<Cache | null> => {
+  try {
+    return typeof caches === 'undefined' ? null : await caches.open(CACHE_NAME);
+  } catch {
+    return null;
+  }
+};
+
+const fetchCharacter = async (character: string): Promise<CharacterJson> => {
+  const url = characterUrl(character);
+  const cache = await openCache();
+  const cached = await cache?.match(url);
+  if (cached) return cached.json();
+
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`No stroke data for ${character} (${response.status})`);
+  if (cache) {
+    await cache.put(url, response.clone()).catch(error => console.warn('Could not cache stroke data:', error));
+  }
+  return response.json();
+};
+
+export const loadCharacterData = (character: string): Promise<CharacterJson> => {
+  const existing = loaded.get(character);
+  if (existing) return existing;
+  const promise = fetchCharacter(character);
+  loaded.set(character, promise);
+  // Let a failed load be retried once the connection is back
+  promise.catch(() => loaded.delete(character));
+  return promise;
+};
+
+// Pass as HanziWriter's charDataLoader option
+export const hanziCharDataLoader = (
+  character: string,
+  onLoad: (data: CharacterJson) => void,
+  onError: (error?: unknown) => void
+): void => {
+  loadCharacterData(character).then(onLoad, onError);
+};
+
+// Fetches stroke data for every character in the given words while the student is online,
+// so the list can be practised if the connection drops. Failures are ignored.
+export const preloadCharacters = async (words: string[]): Promise<void> => {
+  const characters = Array.from(new Set(words.flatMap(word => Array.from(word))))
+    .filter(ch => /[\u4e00-\u9fff]/.test(ch));
+  let next = 0;
+  const worker = async () => {
+    while (next < characters.length) {
+      const character = characters[next++];
+      await loadCharacterData(character).catch(() => undefined);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(PRELOAD_CONCURRENCY, characters.length) }, worker));
+};
@@ -0,0 +1,35 @@
+// Lesson bank helpers. Templates are keyed by curriculum point; each point can hold several versions.
+
+import { LessonTemplate } from '@/types';
+
+export const getPointKey = (point: { stageId: number; topicId: string; pointId: string }): string =>
+  `${point.stageId}/${point.topicId}/${point.pointId}`;
+
+const byVersionDesc = (a: LessonTemplate, b: LessonTemplate) => b.version - a.version;
+
+// All versions for each point, newest first
+export const groupTemplatesByPoint = (templates: LessonTemplate[]): Record<string, LessonTemplate[]> => {
+  const groups: Record<string, LessonTemplate[]> = {};
+  templates.forEach(t => {
+    const key = getPointKey(t);
+    (groups[key] = groups[key] || []).push(t);
+  });
+  Object.values(groups).forEach(versions => versions.sort(byVersionDesc));
+  return groups;
+};
+
+export const getNextVersion = (templates: LessonTemplate[]): number =>
+  templates.reduce((max, t) => Math.max(max, t.version), 0) + 1;
+
+// Case-insensitive match on the curriculum titles, the material and the exercise questions
+export const matchesTemplateSearch = (template: LessonTemplate, query: string): boolean => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [
+    template.pointDescription,
+    template.topicTitle,
+    template.stageTitle,
+    template.material,
+    ...template.exercises.map(ex => ex.question),
+  ].some(text => text?.toLowerCase().includes(q));
+};
@@ -0,0 +1,82 @@
+// GCSE-style marking criteria for free-text answers (translation and composition).
+// Shared by the generate function (AI marking) and the client (display and validation).
+
+import { CriterionScore, ExerciseType, MarkingCriterion } from '@/types';
+
+export const AI_MARKED_TYPES: ExerciseType[] = ['translation', 'composition'];
+
+export const isAiMarkable = (type?: string): boolean => AI_MARKED_TYPES.includes(type as ExerciseType);
+
+// Descriptors follow the GCSE Chinese writing/translation mark schemes, condensed
+export const MARKING_CRITERIA: { criterion: MarkingCriterion; label: string; descriptor: string }[] = [
+  {
+    criterion: 'meaning',
+    label: 'Meaning',
+    descriptor: 'Conveys the full meaning of the task (translation) or communicates the required content clearly and relevantly (composition). Minor omissions lose some credit; changes of meaning lose more.',
+  },
+  {
+    criterion: 'grammar',
+    label: 'Grammar',
+    descriptor: 'Accurate word order, measure words, aspect and structure particles (了/过/的/得/地), and sentence patterns. Errors that do not impede meaning are penalised less than ones that do.',
+  },
+  {
+    criterion: 'wordChoice',
+    label: 'Word Choice',
+    descriptor: 'Appropriate and accurate vocabulary and characters for the level, including correct characters (not homophones) and some variety where the task allows.',
+  },
+];
+
+// How much each criterion contributes to the overall score, by exercise type
+const CRITERION_WEIGHTS: Record<string, Record<MarkingCriterion, number>> = {
+  translation: { meaning: 0.5, grammar: 0.3, wordChoice: 0.2 },
+  composition: { meaning: 0.4, grammar: 0.3, wordChoice: 0.3 },
+};
+
+export const getCriterionLabel = (criterion: MarkingCriterion): string =>
+  MARKING_CRITERIA.find(c => c.criterion === criterion)?.label || criterion;
+
+export const getCriterionWeights = (type: string): Record<MarkingCriterion, number> =>
+  CRITERION_WEIGHTS[type] || CRITERION_WEIGHTS.translation;
+
+export const weightedScore = (criteria: CriterionScore[], type: string): number => {
+  const weights = getCriterionWeights(type);
+  const total = criteria.reduce((acc, c) => acc + c.score * (weights[c.criterion] || 0), 0);
+  return Math.round(total);
+};
+
+const clampScore = (value: unknown): number | null => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof n !== 'number' || !Number.isFinite(n)) return null;
+  return Math.max(0, Math.min(100, Math.round(n)));
+};
+
+// Check an AI marking response. Every criterion must be present with a usable score,
+// otherwise null so the caller falls back to rule-based marking.
+export const validateMarking = (
+  raw: unknown,
+  type: string
+): { score: number; feedback: string; criteria: CriterionScore[] } | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const obj = raw as Record<string, any>;
+  const items: any[] = Array.isArray(obj.criteria) ? obj.criteria : [];
+
+  const criteria: CriterionScore[] = [];
+  for (const { criterion } of MARKING_CRITERIA) {
+    const item = items.find(i => i && i.criterion === criterion);
+    const score = clampScore(item?.score);
+    if (score === null) return null;
+    criteria.push({
+      criterion,
+      score,
+      explanation: typeof item.explanation === 'string' ? item.explanation.trim() : '',
+    });
+  }
+
+  return {
+    score: weightedScore(criteria, type),
+    feedback: typeof obj.feedback === 'string' && obj.feedback.trim()
+      ? obj.feedback.trim()
+      : criteria.map(c => c.explanation).filter(Boolean).join(' '),
+    criteria,
+  };
+};
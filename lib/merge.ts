@@ -0,0 +1,143 @@
+// Conflict resolution for records edited on more than one device.
+// Base rule is last-writer-wins on updatedAt, with per-field exceptions so that
+// a submitted answer or a tutor review is never overwritten by an older copy.
+
+import { AssignedLesson, Curriculum, ExamAttempt, LessonTemplate, VocabList, VocabProgress } from '@/types';
+import { mergeWritingAttempts } from './writingAnalytics';
+
+const laterOf = (a?: string, b?: string): string | undefined => {
+  if (!a) return b;
+  if (!b) return a;
+  return a >= b ? a : b;
+};
+
+// Returns [newer, older]; ties go to the second argument (the cloud copy)
+const orderByUpdatedAt = <T extends { updatedAt?: string }>(local: T, remote: T): [T, T] =>
+  (local.updatedAt || '') > (remote.updatedAt || '') ? [local, remote] : [remote, local];
+
+export const mergeByUpdatedAt = <T extends { updatedAt?: string }>(local: T, remote: T): T =>
+  orderByUpdatedAt(local, remote)[0];
+
+export const mergeLesson = (local: AssignedLesson, remote: AssignedLesson): AssignedLesson => {
+  const [newer, older] = orderByUpdatedAt(local, remote);
+  const merged: AssignedLesson = { ...newer, updatedAt: laterOf(local.updatedAt, remote.updatedAt) };
+
+  // A submission made offline must survive a newer edit that predates it (e.g. a tutor fixing a typo)
+  if (!merged.completed && older.completed) {
+    merged.completed = true;
+    merged.userAnswers = older.userAnswers;
+    merged.score = older.score;
+    merged.exerciseScores = older.exerciseScores;
+    merged.exerciseFeedback = older.exerciseFeedback;
+    merged.exerciseCriteria = older.exerciseCriteria;
+    merged.rubricMarks = older.rubricMarks;
+  }
+
+  // Recording plays used on either device count
+  if (newer.listeningPlays || older.listeningPlays) {
+    merged.listeningPlays = newer.exercises.map((_, i) =>
+      Math.max(newer.listeningPlays?.[i] || 0, older.listeningPlays?.[i] || 0)
+    );
+  }
+
+  // Marks confirmed by the server replace the provisional ones worked out in the browser
+  if (!merged.markedAt && older.markedAt) {
+    merged.markedAt = older.markedAt;
+    merged.score = older.score;
+    merged.exerciseScores = older.exerciseScores;
+    merged.exerciseFeedback = older.exerciseFeedback;
+    merged.exerciseCriteria = older.exerciseCriteria;
+  }
+
+  // Likewise a tutor review, which also carries the adjusted overall score
+  if (!merged.tutorAdjustedScores && older.tutorAdjustedScores) {
+    merged.tutorAdjustedScores = older.tutorAdjustedScores;
+    merged.tutorComments = older.tutorComments;
+    merged.tutorOverallComment = older.tutorOverallComment;
+    merged.rubricMarks = older.rubricMarks;
+    merged.score = older.score;
+  }
+
+  return merged;
+};
+
+export const mergeVocabProgress = (local: VocabProgress, remote: VocabProgress): VocabProgress => {
+  const newer = mergeByUpdatedAt(local, remote);
+
+  // Practice counters only ever go up, so the larger count includes the other device's work
+  const practices = {
+    viewed: Math.max(local.practices.viewed, remote.practices.viewed),
+    writing: Math.max(local.practices.writing, remote.practices.writing),
+    pronunciation: Math.max(local.practices.pronunciation, remote.practices.pronunciation),
+  };
+
+  // Keep the schedule from the most recent review
+  const srs = (local.srs?.lastReviewed || '') > (remote.srs?.lastReviewed || '') ? local.srs : remote.srs;
+
+  // Likewise the latest pronunciation assessment
+  const toneAssessment = (local.toneAssessment?.assessedAt || '') > (remote.toneAssessment?.assessedAt || '')
+    ? local.toneAssessment
+    : remote.toneAssessment;
+  const bestToneScore = Math.max(local.bestToneScore ?? -1, remote.bestToneScore ?? -1);
+
+  return {
+    ...newer,
+    practices,
+    srs: srs || local.srs || remote.srs,
+    toneAssessment: toneAssessment || local.toneAssessment || remote.toneAssessment,
+    bestToneScore: bestToneScore >= 0 ? bestToneScore : undefined,
+    writingAttempts: local.writingAttempts || remote.writingAttempts
+      ? mergeWritingAttempts(local.writingAttempts, remote.writingAttempts)
+      : undefined,
+    savedAt: local.savedAt || remote.savedAt,
+    lastPracticed: laterOf(local.lastPracticed, remote.lastPracticed) || newer.lastPracticed,
+    updatedAt: laterOf(local.updatedAt, remote.updatedAt),
+  };
+};
+
+export const mergeExamAttempt = (local: ExamAttempt, remote: ExamAttempt): ExamAttempt => {
+  const [newer, older] = orderByUpdatedAt(local, remote);
+  const updatedAt = laterOf(local.updatedAt, remote.updatedAt);
+
+  // A submitted attempt is final; an in-progress copy from another device never replaces it
+  if (!newer.submittedAt && older.submittedAt) {
+    return { ...older, updatedAt };
+  }
+
+  const merged: ExamAttempt = { ...newer, updatedAt };
+
+  // Plays used on either device count
+  if (newer.listeningPlays || older.listeningPlays) {
+    merged.listeningPlays = newer.questions.map((_, i) =>
+      Math.max(newer.listeningPlays?.[i] || 0, older.listeningPlays?.[i] || 0)
+    );
+  }
+
+  // Marks from the generate function, then a tutor review, win over a copy saved without them
+  if (!merged.markedAt && older.markedAt) {
+    merged.markedAt = older.markedAt;
+    merged.questionMarks = older.questionMarks;
+    merged.questionFeedback = older.questionFeedback;
+    merged.rubricMarks = older.rubricMarks;
+    merged.rawMark = older.rawMark;
+    merged.maxMark = older.maxMark;
+    merged.grade = older.grade;
+  }
+
+  if (!merged.tutorAdjustedMarks && older.tutorAdjustedMarks) {
+    merged.tutorAdjustedMarks = older.tutorAdjustedMarks;
+    merged.rubricMarks = older.rubricMarks;
+    merged.tutorComment = older.tutorComment;
+    merged.grade = older.grade;
+    merged.rawMark = older.rawMark;
+  }
+
+  return merged;
+};
+
+export const mergeVocabList = (local: VocabList, remote: VocabList): VocabList => mergeByUpdatedAt(local, remote);
+
+export const mergeLessonTemplate = (local: LessonTemplate, remote: LessonTemplate): LessonTemplate =>
+  mergeByUpdatedAt(local, remote);
+
+export const mergeCurriculum = (local: Curriculum, remote: Curriculum): Curriculum => mergeByUpdatedAt(local, remote);
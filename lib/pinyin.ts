@@ -0,0 +1,312 @@
+// Pinyin toolkit: tone-number ("ni3 hao3", CC-CEDICT style) and tone-mark ("nǐ hǎo") conversion,
+// syllable splitting and validation, tone sandhi for display, and tolerant answer comparison.
+
+import { Tone } from '@/types';
+
+const TONE_VOWELS: Record<string, string> = {
+  a: 'āáǎà',
+  e: 'ēéěè',
+  i: 'īíǐì',
+  o: 'ōóǒò',
+  u: 'ūúǔù',
+  ü: 'ǖǘǚǜ',
+};
+
+// Marked vowel -> [plain vowel, tone]
+const TONE_MARKS: Record<string, [string, Tone]> = {};
+Object.entries(TONE_VOWELS).forEach(([base, marks]) => {
+  Array.from(marks).forEach((mark, i) => { TONE_MARKS[mark] = [base, (i + 1) as Tone]; });
+});
+
+// The mark goes on a or e if present, on the o of "ou", otherwise on the last vowel
+const markVowelIndex = (syllable: string): number => {
+  const lower = syllable.toLowerCase();
+  for (const vowel of ['a', 'e']) {
+    const index = lower.indexOf(vowel);
+    if (index >= 0) return index;
+  }
+  const ou = lower.indexOf('ou');
+  if (ou >= 0) return ou;
+  for (let i = lower.length - 1; i >= 0; i--) {
+    if (TONE_VOWELS[lower[i]]) return i;
+  }
+  return -1;
+};
+
+// One numbered syllable ("lu:4", "hao3", "ma5") with its tone mark; neutral tone (5 or none) is unmarked
+export const markSyllable = (numbered: string): string => {
+  const match = numbered.match(/^([a-zA-ZüÜ:]+?)([1-5])?$/);
+  if (!match) return numbered;
+  const syllable = match[1].replace(/u:|v/g, 'ü').replace(/U:|V/g, 'Ü');
+  const tone = match[2] ? parseInt(match[2], 10) : 5;
+  if (tone === 5) return syllable;
+
+  const index = markVowelIndex(syllable);
+  if (index < 0) return syllable;
+  const vowel = syllable[index];
+  const marked = TONE_VOWELS[vowel.toLowerCase()][tone - 1];
+  return syllable.slice(0, index) + (vowel === vowel.toUpperCase() ? marked.toUpperCase() : marked) + syllable.slice(index + 1);
+};
+
+// "ni3 hao3" -> "nǐ hǎo"; anything that isn't a numbered syllable (punctuation, "·") is kept
+export const numberedToMarked = (pinyin: string): string =>
+  pinyin.split(/\s+/).filter(Boolean).map(markSyllable).join(' ');
+
+// --- SYLLABLES ---
+
+// Every standard Mandarin syllable without tone, by initial ("" = no initial)
+const SYLLABLE_TABLE: Record<string, string> = {
+  '': 'a ai an ang ao e ei en eng er o ou m n ng hm',
+  b: 'a ai an ang ao ei en eng i ian iao ie in ing o u',
+  p: 'a ai an ang ao ei en eng i ian iao ie in ing o ou u',
+  m: 'a ai an ang ao e ei en eng i ian iao ie in ing iu o ou u',
+  f: 'a an ang ei en eng o ou u',
+  d: 'a ai an ang ao e ei en eng i ia ian iao ie ing iu ong ou u uan ui un uo',
+  t: 'a ai an ang ao e eng i ian iao ie ing ong ou u uan ui un uo',
+  n: 'a ai an ang ao e ei en eng i ian iang iao ie in ing iu ong ou u uan uo ü üe',
+  l: 'a ai an ang ao e ei eng i ia ian iang iao ie in ing iu o ong ou u uan un uo ü üe',
+  g: 'a ai an ang ao e ei en eng ong ou u ua uai uan uang ui un uo',
+  k: 'a ai an ang ao e ei en eng ong ou u ua uai uan uang ui un uo',
+  h: 'a ai an ang ao e ei en eng ong ou u ua uai uan uang ui un uo',
+  j: 'i ia ian iang iao ie in ing iong iu u uan ue un',
+  q: 'i ia ian iang iao ie in ing iong iu u uan ue un',
+  x: 'i ia ian iang iao ie in ing iong iu u uan ue un',
+  zh: 'a ai an ang ao e ei en eng i ong ou u ua uai uan uang ui un uo',
+  ch: 'a ai an ang ao e en eng i ong ou u ua uai uan uang ui un uo',
+  sh: 'a ai an ang ao e ei en eng i ou u ua uai uan uang ui un uo',
+  r: 'an ang ao e en eng i ong ou u ua uan ui un uo',
+  z: 'a ai an ang ao e ei en eng i ong ou u uan ui un uo',
+  c: 'a ai an ang ao e en eng i ong ou u uan ui un uo',
+  s: 'a ai an ang ao e en eng i ong ou u uan ui un uo',
+  y: 'a an ang ao e i in ing o ong ou u uan ue un',
+  w: 'a ai an ang ei en eng o u',
+};
+
+const PINYIN_SYLLABLES = new Set(
+  Object.entries(SYLLABLE_TABLE).flatMap(([initial, finals]) => finals.split(' ').map(final => initial + final))
+);
+
+const MAX_SYLLABLE_LENGTH = 6; // "zhuang", "chuang"
+
+// Spellings accepted for ü: "v" and "u:", and ü after j/q/x/y where it is written u
+const canonicalSyllable = (syllable: string): string =>
+  syllable.replace(/u:|v/g, 'ü').replace(/^([jqxy])ü/, '$1u');
+
+// A toneless syllable, also allowing erhua ("huar", "dianr")
+const isKnownSyllable = (syllable: string): boolean => {
+  const canonical = canonicalSyllable(syllable);
+  if (PINYIN_SYLLABLES.has(canonical)) return true;
+  return canonical.length > 2 && canonical.endsWith('r') && canonical !== 'er' && PINYIN_SYLLABLES.has(canonical.slice(0, -1));
+};
+
+// Splits toneless letters into syllables, longest syllable first with backtracking
+// ("xianzai" -> xian zai, "fangan" -> fang an). Null if no split into valid syllables exists.
+const segmentLetters = (letters: string): number[] | null => {
+  const memo = new Map<number, number[] | null>();
+  const from = (start: number): number[] | null => {
+    if (start === letters.length) return [];
+    if (memo.has(start)) return memo.get(start)!;
+    let result: number[] | null = null;
+    for (let length = Math.min(MAX_SYLLABLE_LENGTH + 1, letters.length - start); length >= 1 && !result; length--) {
+      if (!isKnownSyllable(letters.slice(start, start + length))) continue;
+      const rest = from(start + length);
+      if (rest) result = [length, ...rest];
+    }
+    memo.set(start, result);
+    return result;
+  };
+  return from(0);
+};
+
+// Initial consonants, a vowel cluster, then a final n/ng/r unless it starts the next syllable
+const SYLLABLE_PATTERN = /[^aeiouüv]*[aeiouüv]+(?:ng(?![aeiouüv])|n(?![aeiouüv])|r(?![aeiouüv]))?|[^aeiouüv]+$/g;
+
+export interface PinyinSyllable {
+  syllable: string; // As written, e.g. "nǐ" or "ni3"
+  base: string; // Toneless and lowercase, ü spelled as in standard pinyin
+  tone: Tone; // 5 when neutral or unmarked
+  valid: boolean;
+}
+
+const SEPARATORS = /[\s'’\-·,.;:!?，。！？、；：]+/;
+
+const hasToneMark = (text: string) => Array.from(text).some(ch => TONE_MARKS[ch]);
+
+// Whether the text carries any tone information (marks or numbers)
+export const hasTones = (pinyin: string): boolean => /[1-5]/.test(pinyin) || hasToneMark(pinyin.normalize('NFC').toLowerCase());
+
+const parseToken = (token: string): PinyinSyllable[] => {
+  // One entry per letter: its plain form, as written, and the tone of a marked vowel
+  const letters: { plain: string; written: string; tone?: Tone }[] = [];
+  const toneAfter = new Map<number, Tone>(); // Tone numbers, keyed by the letter count they follow
+  const chars = Array.from(token);
+  chars.forEach(ch => {
+    if (/[0-5]/.test(ch)) {
+      if (letters.length === 0) return;
+      toneAfter.set(letters.length, (ch === '0' ? 5 : parseInt(ch, 10)) as Tone);
+      letters[letters.length - 1].written += ch;
+    } else if (TONE_MARKS[ch]) {
+      letters.push({ plain: TONE_MARKS[ch][0], written: ch, tone: TONE_MARKS[ch][1] });
+    } else if (/[a-zü]/.test(ch)) {
+      letters.push({ plain: ch === 'v' ? 'ü' : ch, written: ch });
+    }
+  });
+
+  // Tone numbers always end a syllable, so segment the letters between them separately
+  const syllables: PinyinSyllable[] = [];
+  const ends = [...Array.from(toneAfter.keys()), letters.length].filter((end, i, all) => end > 0 && all.indexOf(end) === i);
+  let start = 0;
+  ends.forEach(end => {
+    if (end <= start) return;
+    const piece = letters.slice(start, end);
+    const plain = piece.map(l => l.plain).join('');
+    let lengths = segmentLetters(plain);
+    if (!lengths) lengths = Array.from(plain.matchAll(SYLLABLE_PATTERN), m => m[0].length);
+
+    let offset = 0;
+    lengths.forEach((length, i) => {
+      const part = piece.slice(offset, offset + length);
+      const base = canonicalSyllable(part.map(l => l.plain).join(''));
+      const marked = part.find(l => l.tone)?.tone;
+      const numbered = i === lengths!.length - 1 ? toneAfter.get(end) : undefined;
+      syllables.push({
+        syllable: part.map(l => l.written).join(''),
+        base,
+        tone: numbered || marked || 5,
+        valid: isKnownSyllable(base),
+      });
+      offset += length;
+    });
+    start = end;
+  });
+  return syllables;
+};
+
+// An erhua r after a tone number ("hua1r", or "hua1 r5" as in CC-CEDICT) joins the syllable before it
+const attachErhua = (syllables: PinyinSyllable[]): PinyinSyllable[] =>
+  syllables.reduce<PinyinSyllable[]>((joined, s) => {
+    const previous = joined[joined.length - 1];
+    if (s.base !== 'r' || !previous || previous.base.endsWith('r')) return [...joined, s];
+    const base = previous.base + 'r';
+    return [...joined.slice(0, -1), { ...previous, syllable: previous.syllable + s.syllable, base, valid: isKnownSyllable(base) }];
+  }, []);
+
+// Split pinyin with tone marks ("nǐhǎo", "xī'ān"), tone numbers ("ni3 hao3", "lv4", "lu:4") or no tones
+// into syllables. "u:" becomes ü first so the colon isn't taken for punctuation.
+export const parsePinyinSyllables = (pinyin: string): PinyinSyllable[] =>
+  attachErhua(pinyin.normalize('NFC').toLowerCase().replace(/u:/g, 'ü').split(SEPARATORS).filter(Boolean).flatMap(parseToken));
+
+// A single syllable, with or without its tone ("lǜ", "lv4", "zhuang")
+export const isValidSyllable = (syllable: string): boolean => {
+  const parsed = parsePinyinSyllables(syllable);
+  return parsed.length === 1 && parsed[0].valid;
+};
+
+// Whether every syllable of the text is valid pinyin
+export const isValidPinyin = (pinyin: string): boolean => {
+  const parsed = parsePinyinSyllables(pinyin);
+  return parsed.length > 0 && parsed.every(s => s.valid);
+};
+
+const joinSyllables = (syllables: { base: string; tone: Tone }[]): string =>
+  syllables.map(s => markSyllable(s.base + s.tone)).join(' ');
+
+// Any spelling as tone marks: "ni3hao3", "nǐ hǎo", "lv4" -> "nǐ hǎo", "lǜ"
+export const toMarkedPinyin = (pinyin: string): string => joinSyllables(parsePinyinSyllables(pinyin));
+
+// "nǐ hǎo" -> "ni3 hao3"; the neutral tone is written 5 and ü as "u:", as in CC-CEDICT
+export const markedToNumbered = (pinyin: string): string =>
+  parsePinyinSyllables(pinyin).map(s => `${s.base.replace(/ü/g, 'u:')}${s.tone}`).join(' ');
+
+// --- TONE SANDHI ---
+
+// A third tone before another third tone is spoken as a second tone (你好 → ní hǎo)
+export const applyThirdToneSandhi = (tones: Tone[]): Tone[] =>
+  tones.map((tone, i) => (tone === 3 && tones[i + 1] === 3 ? 2 : tone));
+
+// Tones as spoken. With the characters (one per syllable), 不 and 一 change too:
+// 不 bù → bú before a fourth tone; 一 yī → yí before a fourth tone and yì before the others,
+// except when counting (第一) or at the end of a word.
+export const applyToneSandhi = (tones: Tone[], characters?: string): Tone[] => {
+  const chars = Array.from((characters || '').replace(/[^\u4e00-\u9fff]/g, ''));
+  const aligned = chars.length === tones.length;
+  const spoken = applyThirdToneSandhi(tones);
+
+  return spoken.map((tone, i) => {
+    if (!aligned) return tone;
+    const next = tones[i + 1];
+    if (chars[i] === '不' && tones[i] === 4 && next === 4) return 2;
+    if (chars[i] === '一' && tones[i] === 1 && next && next !== 5 && chars[i - 1] !== '第') return next === 4 ? 2 : 4;
+    return tone;
+  });
+};
+
+// Tone-marked pinyin with the tones as spoken, e.g. "nǐ hǎo" -> "ní hǎo", "yī gòng" (一共) -> "yí gòng"
+export const displayWithSandhi = (pinyin: string, characters?: string): string => {
+  const syllables = parsePinyinSyllables(pinyin);
+  const spoken = applyToneSandhi(syllables.map(s => s.tone), characters);
+  return joinSyllables(syllables.map((s, i) => ({ base: s.base, tone: spoken[i] })));
+};
+
+// --- COMPARISON ---
+
+export interface PinyinComparison {
+  correct: boolean; // Syllables and tones all right
+  syllablesCorrect: boolean;
+  tonesGiven: boolean; // False when the answer has no tone marks or numbers at all
+  toneErrors: number[]; // Indexes of syllables with the wrong tone
+  invalidSyllables: string[]; // Parts of the answer that are not pinyin syllables
+}
+
+// Compares a typed answer with the expected pinyin, ignoring spacing, case, apostrophes and
+// punctuation, accepting v or u: for ü and tone numbers or marks. The spoken (sandhi) tone is
+// accepted as well as the citation tone, and any tone is accepted on a neutral-tone syllable.
+export const comparePinyin = (answer: string, expected: string, characters?: string): PinyinComparison => {
+  const given = parsePinyinSyllables(answer);
+  const target = parsePinyinSyllables(expected);
+  const tonesGiven = hasTones(answer);
+  const invalidSyllables = given.filter(s => !s.valid).map(s => s.syllable);
+
+  const syllablesCorrect = given.length === target.length && given.every((s, i) => s.base === target[i].base);
+  const spoken = applyToneSandhi(target.map(s => s.tone), characters);
+  const toneErrors = syllablesCorrect && tonesGiven
+    ? target
+      .map((s, i) => (s.tone === 5 || given[i].tone === s.tone || given[i].tone === spoken[i] ? -1 : i))
+      .filter(i => i >= 0)
+    : [];
+
+  return {
+    correct: syllablesCorrect && tonesGiven && toneErrors.length === 0,
+    syllablesCorrect,
+    tonesGiven,
+    toneErrors,
+    invalidSyllables,
+  };
+};
+
+// --- INPUT ---
+
+const LETTER = /[a-zA-Zü:vāáǎàēéěèīíǐìōóǒòūúǔùǖǘǚǜ]/;
+
+// Sets the tone of the syllable just before the cursor, for the on-screen tone keyboard:
+// ("ni hao", 6, 3) -> "ni hǎo". Typing "v" for ü is converted at the same time.
+export const setToneBeforeCursor = (text: string, cursor: number, tone: Tone): { text: string; cursor: number } => {
+  let start = cursor;
+  while (start > 0 && LETTER.test(text[start - 1])) start--;
+  const word = Array.from(text.slice(start, cursor).replace(/u:|v/g, 'ü').replace(/U:|V/g, 'Ü'));
+  if (word.length === 0) return { text, cursor };
+
+  const letters = word.map(ch => (TONE_MARKS[ch] ? TONE_MARKS[ch][0] : ch));
+  const plain = letters.join('').toLowerCase();
+  const lengths = segmentLetters(plain) || Array.from(plain.matchAll(SYLLABLE_PATTERN), m => m[0].length);
+  const lastLength = lengths[lengths.length - 1] || letters.length;
+
+  // Earlier syllables of the word keep their marks; the last one is re-marked
+  const keep = word.slice(0, letters.length - lastLength).join('');
+  const last = markSyllable(letters.slice(letters.length - lastLength).join('') + tone);
+  const replacement = keep + last;
+  return {
+    text: text.slice(0, start) + replacement + text.slice(cursor),
+    cursor: start + replacement.length,
+  };
+};
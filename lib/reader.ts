@@ -0,0 +1,63 @@
+// Graded reader: a passage split into words the student can tap for pinyin and meaning, and
+// the student's own "My Words" list of words saved while reading.
+
+import { VocabProgress } from '@/types';
+import { Dictionary, summariseDefinitions } from './dictionary';
+import { CJK_RUN, splitRun } from './vocabImport';
+
+export const MY_WORDS_CATEGORY = 'My Words';
+
+export interface ReaderToken {
+  text: string;
+  isWord: boolean; // False for punctuation, spaces and Latin text
+  pinyin?: string; // From the dictionary, when it has the word
+  meaning?: string;
+}
+
+const glossWord = (word: string, dictionary: Dictionary | null): ReaderToken => {
+  const reading = dictionary?.lookup(word)?.readings[0];
+  return {
+    text: word,
+    isWord: true,
+    ...(reading && { pinyin: reading.pinyin, meaning: summariseDefinitions(reading) }),
+  };
+};
+
+// Splits a passage into dictionary words (single characters without a dictionary),
+// keeping the text in between so the passage reads exactly as written
+export const segmentPassage = (passage: string, dictionary: Dictionary | null): ReaderToken[] => {
+  const tokens: ReaderToken[] = [];
+  let last = 0;
+  Array.from(passage.matchAll(CJK_RUN)).forEach(match => {
+    const start = match.index ?? 0;
+    if (start > last) tokens.push({ text: passage.slice(last, start), isWord: false });
+    splitRun(match[0], word => !!dictionary?.lookup(word))
+      .forEach(word => tokens.push(glossWord(word, dictionary)));
+    last = start + match[0].length;
+  });
+  if (last < passage.length) tokens.push({ text: passage.slice(last), isWord: false });
+  return tokens;
+};
+
+// A word saved to My Words. Words already in another list keep their category and progress.
+export const toSavedWord = (
+  token: ReaderToken,
+  studentId: string,
+  studentName: string,
+  existing?: VocabProgress
+): VocabProgress => {
+  const now = new Date().toISOString();
+  if (existing) return { ...existing, savedAt: existing.savedAt || now };
+  return {
+    id: `${studentId}_${token.text}`,
+    studentId,
+    studentName,
+    category: MY_WORDS_CATEGORY,
+    word: token.text,
+    pinyin: token.pinyin || '',
+    meaning: token.meaning || '',
+    practices: { viewed: 0, writing: 0, pronunciation: 0 },
+    lastPracticed: now,
+    savedAt: now,
+  };
+};
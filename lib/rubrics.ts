@@ -0,0 +1,156 @@
+// GCSE-style mark schemes for writing tasks.
+// Compositions with a rubric are marked per criterion in bands rather than against one model answer.
+
+import { CriterionScore, Rubric, RubricCriterion, RubricMark } from '@/types';
+
+export const RUBRICS: Rubric[] = [
+  {
+    id: 'gcse-40-word',
+    name: '40-word task (Foundation)',
+    wordCount: 40,
+    criteria: [
+      {
+        id: 'content',
+        label: 'Communication',
+        maxMark: 6,
+        bands: [
+          { minMark: 5, maxMark: 6, descriptor: 'All bullet points covered with clear, relevant information.' },
+          { minMark: 3, maxMark: 4, descriptor: 'Most bullet points covered; some information unclear.' },
+          { minMark: 1, maxMark: 2, descriptor: 'Some relevant information, but bullet points missed or hard to follow.' },
+          { minMark: 0, maxMark: 0, descriptor: 'Nothing relevant communicated.' },
+        ],
+      },
+      {
+        id: 'accuracy',
+        label: 'Accuracy',
+        maxMark: 4,
+        bands: [
+          { minMark: 4, maxMark: 4, descriptor: 'Generally accurate characters and word order.' },
+          { minMark: 2, maxMark: 3, descriptor: 'Some errors, but meaning is mostly clear.' },
+          { minMark: 1, maxMark: 1, descriptor: 'Frequent errors that often obscure meaning.' },
+          { minMark: 0, maxMark: 0, descriptor: 'Errors prevent communication.' },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'gcse-90-word',
+    name: '90-word task',
+    wordCount: 90,
+    criteria: [
+      {
+        id: 'content',
+        label: 'Content',
+        maxMark: 10,
+        bands: [
+          { minMark: 9, maxMark: 10, descriptor: 'All bullet points covered and developed; clear and detailed communication.' },
+          { minMark: 6, maxMark: 8, descriptor: 'All bullet points covered with some development.' },
+          { minMark: 3, maxMark: 5, descriptor: 'Most bullet points covered; limited development.' },
+          { minMark: 1, maxMark: 2, descriptor: 'Little relevant information; several bullet points missed.' },
+          { minMark: 0, maxMark: 0, descriptor: 'Nothing relevant communicated.' },
+        ],
+      },
+      {
+        id: 'range',
+        label: 'Range of language',
+        maxMark: 6,
+        bands: [
+          { minMark: 5, maxMark: 6, descriptor: 'Variety of vocabulary and structures, including some complex sentences and opinions with reasons.' },
+          { minMark: 3, maxMark: 4, descriptor: 'Some variety of vocabulary and structures; occasional linked sentences.' },
+          { minMark: 1, maxMark: 2, descriptor: 'Simple, repetitive vocabulary and structures.' },
+          { minMark: 0, maxMark: 0, descriptor: 'No creditable language.' },
+        ],
+      },
+      {
+        id: 'accuracy',
+        label: 'Accuracy',
+        maxMark: 4,
+        bands: [
+          { minMark: 4, maxMark: 4, descriptor: 'Generally accurate; time frames and particles mostly correct.' },
+          { minMark: 2, maxMark: 3, descriptor: 'Some errors, but the message is clear.' },
+          { minMark: 1, maxMark: 1, descriptor: 'Frequent errors that sometimes obscure meaning.' },
+          { minMark: 0, maxMark: 0, descriptor: 'Errors prevent communication.' },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'gcse-150-word',
+    name: '150-word task (Higher)',
+    wordCount: 150,
+    criteria: [
+      {
+        id: 'content',
+        label: 'Content',
+        maxMark: 15,
+        bands: [
+          { minMark: 13, maxMark: 15, descriptor: 'Both bullet points fully developed; ideas expanded with justified opinions.' },
+          { minMark: 10, maxMark: 12, descriptor: 'Both bullet points covered with good development.' },
+          { minMark: 7, maxMark: 9, descriptor: 'Both bullet points covered with some development.' },
+          { minMark: 4, maxMark: 6, descriptor: 'Bullet points covered briefly, or one covered well.' },
+          { minMark: 1, maxMark: 3, descriptor: 'Limited relevant content.' },
+          { minMark: 0, maxMark: 0, descriptor: 'Nothing relevant communicated.' },
+        ],
+      },
+      {
+        id: 'range',
+        label: 'Range of language',
+        maxMark: 12,
+        bands: [
+          { minMark: 10, maxMark: 12, descriptor: 'Wide range of vocabulary and complex structures used confidently.' },
+          { minMark: 7, maxMark: 9, descriptor: 'Good variety of vocabulary and some complex structures.' },
+          { minMark: 4, maxMark: 6, descriptor: 'Some variety; mostly simple structures with occasional complex ones.' },
+          { minMark: 1, maxMark: 3, descriptor: 'Limited, repetitive language.' },
+          { minMark: 0, maxMark: 0, descriptor: 'No creditable language.' },
+        ],
+      },
+      {
+        id: 'accuracy',
+        label: 'Accuracy',
+        maxMark: 5,
+        bands: [
+          { minMark: 5, maxMark: 5, descriptor: 'Highly accurate, including complex structures.' },
+          { minMark: 3, maxMark: 4, descriptor: 'Generally accurate; errors rarely affect meaning.' },
+          { minMark: 1, maxMark: 2, descriptor: 'Frequent errors, some of which obscure meaning.' },
+          { minMark: 0, maxMark: 0, descriptor: 'Errors prevent communication.' },
+        ],
+      },
+    ],
+  },
+];
+
+// AI marking criteria that best inform each rubric criterion when suggesting marks
+const AI_CRITERION_FOR_RUBRIC: Record<string, CriterionScore['criterion']> = {
+  content: 'meaning',
+  range: 'wordChoice',
+  accuracy: 'grammar',
+};
+
+export const getRubric = (id?: string): Rubric | null => RUBRICS.find(r => r.id === id) || null;
+
+export const getRubricMaxMark = (rubric: Rubric): number =>
+  rubric.criteria.reduce((acc, c) => acc + c.maxMark, 0);
+
+export const findBand = (criterion: RubricCriterion, mark: number) =>
+  criterion.bands.find(b => mark >= b.minMark && mark <= b.maxMark) || null;
+
+export const getRubricTotal = (rubric: Rubric, marks: RubricMark[]): number =>
+  rubric.criteria.reduce((acc, c) => acc + (marks.find(m => m.criterionId === c.id)?.mark || 0), 0);
+
+// Percentage used for lesson scores, so rubric-marked tasks average with everything else
+export const getRubricPercentage = (rubric: Rubric, marks: RubricMark[]): number => {
+  const max = getRubricMaxMark(rubric);
+  return max > 0 ? Math.round((getRubricTotal(rubric, marks) / max) * 100) : 0;
+};
+
+// Starting marks before the tutor reviews: from AI sub-scores where available, else the overall percentage
+export const suggestRubricMarks = (
+  rubric: Rubric,
+  percentage: number,
+  criteria?: CriterionScore[] | null
+): RubricMark[] =>
+  rubric.criteria.map(c => {
+    const aiScore = criteria?.find(s => s.criterion === AI_CRITERION_FOR_RUBRIC[c.id])?.score;
+    const fraction = (aiScore ?? percentage) / 100;
+    return { criterionId: c.id, mark: Math.max(0, Math.min(c.maxMark, Math.round(fraction * c.maxMark))) };
+  });
@@ -0,0 +1,154 @@
+// Authentication on top of Supabase Auth.
+// Tutors sign in with email/password or a magic link. Students sign in with a
+// login code issued by their tutor, exchanged for a session by the student-login function.
+// Roles live in app_metadata (only writable with the service role), so they can be trusted by RLS.
+
+import { User } from '@supabase/supabase-js';
+import { AuthSession, UserRole } from '@/types';
+import { getSupabase } from './supabaseClient';
+import { clearLocalData, discardParkedChanges, getPendingChangeCount, retrySyncNow } from './sync';
+
+const STUDENT_LOGIN_ENDPOINT = '/.netlify/functions/student-login';
+
+const toAuthSession = (user: User): AuthSession | null => {
+  const role = user.app_metadata?.role as UserRole | undefined;
+  if (role !== 'tutor' && role !== 'student') return null;
+
+  return {
+    userId: user.id,
+    role,
+    name: user.user_metadata?.name || user.email || 'User',
+    email: user.email,
+    studentId: role === 'student' ? user.app_metadata?.student_id : undefined,
+  };
+};
+
+// --- SESSION ---
+
+export const getCurrentSession = async (): Promise<AuthSession | null> => {
+  const supabase = getSupabase();
+  if (!supabase) return null;
+
+  const { data, error } = await supabase.auth.getSession();
+  if (error || !data.session) return null;
+  return toAuthSession(data.session.user);
+};
+
+export const onAuthSessionChange = (callback: (session: AuthSession | null) => void): (() => void) => {
+  const supabase = getSupabase();
+  if (!supabase) return () => {};
+
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+    callback(session ? toAuthSession(session.user) : null);
+  });
+  return () => data.subscription.unsubscribe();
+};
+
+export const getAccessToken = async (): Promise<string | null> => {
+  const supabase = getSupabase();
+  if (!supabase) return null;
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token || null;
+};
+
+// Refuses while the user's changes are still waiting to sync, so they are never left on a shared
+// device for the next person. Cached data is cleared afterwards.
+export const signOut = async (): Promise<void> => {
+  const supabase = getSupabase();
+  if (supabase) {
+    await retrySyncNow();
+    const pending = await getPendingChangeCount();
+    if (pending > 0) {
+      throw new Error(`${pending} change${pending === 1 ? " hasn't" : "s haven't"} been saved to the cloud yet. Connect to the internet and try again.`);
+    }
+    // The cloud refused these, so they would never sync; callers confirm with the user first
+    await discardParkedChanges();
+    await supabase.auth.signOut();
+  }
+  await clearLocalData();
+};
+
+// --- TUTOR ---
+
+export const signInTutor = async (email: string, password: string): Promise<AuthSession> => {
+  const supabase = getSupabase();
+  if (!supabase) throw new Error('Cloud database is not configured.');
+
+  const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+  if (error || !data.user) {
+    throw new Error(error?.message || 'Sign in failed.');
+  }
+
+  const session = toAuthSession(data.user);
+  if (!session || session.role !== 'tutor') {
+    await supabase.auth.signOut();
+    throw new Error('This account does not have tutor access.');
+  }
+  return session;
+};
+
+// Only existing tutor accounts can receive a link (no self sign-up)
+export const sendTutorMagicLink = async (email: string): Promise<void> => {
+  const supabase = getSupabase();
+  if (!supabase) throw new Error('Cloud database is not configured.');
+
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: {
+      shouldCreateUser: false,
+      emailRedirectTo: `${window.location.origin}/tutor/dashboard`,
+    },
+  });
+  if (error) {
+    throw new Error(error.message);
+  }
+};
+
+// --- STUDENT ---
+
+const callStudentLogin = async (body: Record<string, any>, accessToken?: string): Promise<any> => {
+  const response = await fetch(STUDENT_LOGIN_ENDPOINT, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data.result;
+};
+
+export const signInStudent = async (code: string): Promise<AuthSession> => {
+  const supabase = getSupabase();
+  if (!supabase) throw new Error('Cloud database is not configured.');
+
+  const tokens = await callStudentLogin({ action: 'login', code: code.trim().toUpperCase() });
+  const { data, error } = await supabase.auth.setSession({
+    access_token: tokens.accessToken,
+    refresh_token: tokens.refreshToken,
+  });
+  if (error || !data.user) {
+    throw new Error(error?.message || 'Sign in failed.');
+  }
+
+  const session = toAuthSession(data.user);
+  if (!session || session.role !== 'student') {
+    await supabase.auth.signOut();
+    throw new Error('Invalid login code.');
+  }
+  return session;
+};
+
+// Tutor only: issue (or replace) a student's login code. The code is shown once.
+export const issueStudentLoginCode = async (studentId: string): Promise<string> => {
+  const accessToken = await getAccessToken();
+  if (!accessToken) throw new Error('Please sign in again.');
+
+  const result = await callStudentLogin({ action: 'issue-code', studentId }, accessToken);
+  return result.code;
+};
@@ -1,15 +1,20 @@
 // All AI calls now go through Netlify function at /.netlify/functions/generate
 // API keys are stored securely on the server and never exposed to the client
 
-import { Exercise, VocabWord, WordDetails } from "@/types";
+import { AnswerEvaluation, AssignedLesson, DialogueAudio, DialogueLine, ExamAttempt, ExamPaper, ExamQuestion, ExamTier, Exercise, MarkingMode, VocabWord, WordDetails } from "@/types";
+import { isAiMarkable } from "@/lib/marking";
+import { scoreTextAnswer } from "@/lib/answerDiff";
+import { formatDialogue } from "@/lib/exercises";
+import { getAccessToken } from "./auth";
 
 // Helper to call the Netlify function
-const callNetlifyFunction = async (action: string, params: any): Promise<any> => {
+const callNetlifyFunction = async (action: string, params: any, accessToken?: string): Promise<any> => {
   try {
     const response = await fetch('/.netlify/functions/generate', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
       },
       body: JSON.stringify({ action, ...params }),
     });
@@ -64,6 +69,16 @@ export const generateExercises = async (
   }
 };
 
+export const generateMockPaper = async (paper: ExamPaper, tier: ExamTier): Promise<ExamQuestion[]> => {
+  try {
+    const result = await callNetlifyFunction('generateMockPaper', { paper, tier });
+    return Array.isArray(result) ? result : [];
+  } catch (error) {
+    console.error("Gemini API Error (Mock Paper):", error);
+    return [];
+  }
+};
+
 export const generateImage = async (context: string): Promise<string | null> => {
   try {
     const result = await callNetlifyFunction('generateImage', { context });
@@ -134,6 +149,18 @@ export const generateVocabularyList = async (category: string): Promise<VocabWor
   }
 };
 
+// Renders a listening dialogue with one voice per speaker (or finds the stored recording of the same script)
+export const generateDialogueAudio = async (dialogue: DialogueLine[]): Promise<DialogueAudio | null> => {
+  try {
+    const result = await callNetlifyFunction('generateDialogueAudio', { dialogue }, (await getAccessToken()) || undefined);
+    if (!result?.url) return null;
+    return { url: result.url, script: formatDialogue(dialogue) };
+  } catch (error) {
+    console.error("[TTS] Dialogue Error:", error);
+    return null;
+  }
+};
+
 export const generateWordDetails = async (word: string): Promise<WordDetails | null> => {
   try {
     const result = await callNetlifyFunction('generateWordDetails', { character: word });
@@ -144,6 +171,20 @@ export const generateWordDetails = async (word: string): Promise<WordDetails | n
   }
 };
 
+// Only the example sentence is generated; pinyin and meaning come from the offline dictionary
+export const generateExampleSentence = async (
+  word: string,
+  pinyin?: string,
+  meaning?: string
+): Promise<Pick<WordDetails, 'exampleSentenceCh' | 'exampleSentenceEn'> | null> => {
+  try {
+    return await callNetlifyFunction('generateExampleSentence', { word, pinyin, meaning });
+  } catch (error) {
+    console.error("Example Sentence Error:", error);
+    return null;
+  }
+};
+
 // Check API key status (for Settings view)
 export const checkApiKeys = async (): Promise<{ geminiConfigured: boolean; openaiConfigured: boolean }> => {
   try {
@@ -155,80 +196,70 @@ export const checkApiKeys = async (): Promise<{ geminiConfigured: boolean; opena
   }
 };
 
-// Rule-based scoring function for Chinese text evaluation (Client-side)
-const calculateRuleBasedScore = (correctAnswer: string, studentAnswer: string): { score: number; feedback: string } => {
-  // Normalize inputs
-  const correct = correctAnswer.trim();
-  const student = studentAnswer.trim();
-  
-  // 1. Exact match (text and punctuation) → 100%
-  if (correct === student) {
-    return {
-      score: 100,
-      feedback: 'Perfect! Your answer is exactly correct.'
-    };
-  }
-  
-  // Extract Chinese characters (remove punctuation, spaces, and non-Chinese characters for comparison)
-  const extractChineseChars = (text: string): string => {
-    return text.split('').filter(char => /[\u4e00-\u9fff]/.test(char)).join('');
-  };
-  
-  // Extract punctuation (Chinese and English punctuation)
-  const extractPunctuation = (text: string): string[] => {
-    return text.split('').filter(char => /[，。！？；：、""''（）【】《》,.!?;:\-"'()\[\]{}]/.test(char));
-  };
-  
-  const correctChars = extractChineseChars(correct);
-  const studentChars = extractChineseChars(student);
-  const correctPunctuation = extractPunctuation(correct);
-  const studentPunctuation = extractPunctuation(student);
-  
-  // Check if Chinese characters match
-  const charsMatch = correctChars.length > 0 && correctChars === studentChars;
-  
-  // Check for any overlap (at least one Chinese character in common)
-  const hasOverlap = correctChars.length > 0 && studentChars.length > 0 && 
-    [...correctChars].some(char => studentChars.includes(char));
-  
-  // Check if punctuation matches
-  const hasCorrectPunctuation = correctPunctuation.length > 0 && 
-    correctPunctuation.some(p => studentPunctuation.includes(p));
-  
-  const allPunctuationDifferent = correctPunctuation.length > 0 && 
-    !correctPunctuation.some(p => studentPunctuation.includes(p));
-  
-  const noPunctuationInCorrect = correctPunctuation.length === 0;
-  
-  // Apply scoring rules
-  if (charsMatch) {
-    if (noPunctuationInCorrect) {
-      if (studentPunctuation.length === 0) {
-        return { score: 100, feedback: 'Perfect! Your answer is correct.' };
-      } else {
-        return { score: 75, feedback: 'Excellent! Your Chinese characters are correct, but you have extra punctuation.' };
+// Tutor only: drop cached AI output on the server (all of it, or one action's) so it is generated afresh
+export const clearGenerationCache = async (targetAction?: string): Promise<number> => {
+  const accessToken = await getAccessToken();
+  if (!accessToken) throw new Error('Please sign in again.');
+  const result = await callNetlifyFunction('invalidateCache', { targetAction }, accessToken);
+  return result?.removed || 0;
+};
+
+// Student only: have the generate function mark a submitted lesson. Returns the confirmed marks.
+export const markLesson = async (lessonId: string): Promise<Pick<AssignedLesson, 'score' | 'exerciseScores' | 'exerciseFeedback' | 'exerciseCriteria' | 'rubricMarks' | 'markedAt'>> => {
+  const accessToken = await getAccessToken();
+  if (!accessToken) throw new Error('Please sign in again.');
+  return callNetlifyFunction('markLesson', { lessonId }, accessToken);
+};
+
+// Student only: have the generate function mark a submitted mock exam
+export const markExamAttempt = async (attemptId: string): Promise<Pick<ExamAttempt, 'questionMarks' | 'questionFeedback' | 'rubricMarks' | 'rawMark' | 'maxMark' | 'grade' | 'markedAt'>> => {
+  const accessToken = await getAccessToken();
+  if (!accessToken) throw new Error('Please sign in again.');
+  return callNetlifyFunction('markExamAttempt', { attemptId }, accessToken);
+};
+
+// Evaluate a student answer. Rule-based and local by default; with mode 'ai', translation and
+// composition answers are marked by the generate function, falling back to the rules when offline or on error.
+export const evaluateAnswer = async (
+  question: string,
+  correctAnswer: string,
+  studentAnswer: string,
+  questionType?: string,
+  options: { mode?: MarkingMode; lessonId?: string } = {}
+): Promise<AnswerEvaluation> => {
+  const online = typeof navigator === 'undefined' || navigator.onLine;
+  if (options.mode === 'ai' && isAiMarkable(questionType) && online) {
+    try {
+      const result = await callNetlifyFunction('evaluateAnswer', {
+        question,
+        correctAnswer,
+        studentAnswer,
+        questionType,
+        mode: 'ai',
+        lessonId: options.lessonId,
+      }, options.lessonId ? (await getAccessToken()) || undefined : undefined);
+      if (result && typeof result.score === 'number') {
+        return {
+          score: result.score,
+          feedback: result.feedback || '',
+          criteria: Array.isArray(result.criteria) ? result.criteria : undefined,
+          markedBy: result.markedBy === 'ai' ? 'ai' : 'rules',
+        };
       }
-    } else if (hasCorrectPunctuation) {
-      return { score: 75, feedback: 'Great! Your Chinese characters are correct and you have some correct punctuation.' };
-    } else if (allPunctuationDifferent) {
-      return { score: 50, feedback: 'Good! Your Chinese characters are correct, but the punctuation needs work.' };
-    } else {
-      return { score: 75, feedback: 'Excellent! Your Chinese characters are correct.' };
+    } catch (error) {
+      console.warn('[EvaluateAnswer] AI marking unavailable, using local rules', error);
     }
-  } else if (hasOverlap) {
-    return { score: 25, feedback: 'You have some correct characters, but the answer needs more work.' };
-  } else {
-    return { score: 0, feedback: 'Review the correct answer and try again.' };
   }
+
+  return { ...evaluateAnswerLocally(correctAnswer, studentAnswer, questionType), markedBy: 'rules' };
 };
 
 // Evaluate student answer locally WITHOUT AI or network requests
-export const evaluateAnswer = async (
-  _question: string, // Kept for signature compatibility
+const evaluateAnswerLocally = (
   correctAnswer: string,
   studentAnswer: string,
   questionType?: string
-): Promise<{ score: number; feedback: string }> => {
+): { score: number; feedback: string } => {
   try {
     // For choice questions (quiz type), use binary scoring
     if (questionType === 'quiz') {
@@ -242,7 +273,7 @@ export const evaluateAnswer = async (
       };
     } else {
       // For translation/composition, use the local rule-based engine
-      return calculateRuleBasedScore(correctAnswer, studentAnswer);
+      return scoreTextAnswer(correctAnswer, studentAnswer);
     }
   } catch (error) {
     console.error('[EvaluateAnswer] Local evaluation failed:', error);
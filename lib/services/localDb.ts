@@ -0,0 +1,103 @@
+// Local IndexedDB store used by the sync engine.
+// Falls back to an in-memory store where IndexedDB is unavailable (server render, private mode in some browsers).
+
+const DB_NAME = 'mandarin_master';
+const DB_VERSION = 4; // 2: exam_attempts, 3: lesson_templates, 4: curricula
+
+export type LocalStoreName = 'lessons' | 'vocab_progress' | 'vocab_lists' | 'exam_attempts' | 'lesson_templates' | 'curricula' | 'outbox' | 'meta';
+
+const STORE_NAMES: LocalStoreName[] = ['lessons', 'vocab_progress', 'vocab_lists', 'exam_attempts', 'lesson_templates', 'curricula', 'outbox', 'meta'];
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+const memoryStores = new Map<LocalStoreName, Map<string, any>>();
+
+const getMemoryStore = (store: LocalStoreName): Map<string, any> => {
+  let map = memoryStores.get(store);
+  if (!map) {
+    map = new Map();
+    memoryStores.set(store, map);
+  }
+  return map;
+};
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      STORE_NAMES.forEach(name => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'id' });
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn("IndexedDB unavailable, using in-memory storage", request.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+};
+
+// Wrap a single-store transaction; resolves once the transaction commits
+const withStore = async <T>(
+  store: LocalStoreName,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest | void
+): Promise<T | undefined> => {
+  const db = await openDb();
+  if (!db) throw new Error('IndexedDB not available');
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = run(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request ? (request.result as T) : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const localGetAll = async <T>(store: LocalStoreName): Promise<T[]> => {
+  if (!(await openDb())) return Array.from(getMemoryStore(store).values());
+  return (await withStore<T[]>(store, 'readonly', s => s.getAll())) || [];
+};
+
+export const localGet = async <T>(store: LocalStoreName, id: string): Promise<T | null> => {
+  if (!(await openDb())) return getMemoryStore(store).get(id) ?? null;
+  return (await withStore<T>(store, 'readonly', s => s.get(id))) ?? null;
+};
+
+export const localPutMany = async <T extends { id: string }>(store: LocalStoreName, values: T[]): Promise<void> => {
+  if (values.length === 0) return;
+  if (!(await openDb())) {
+    values.forEach(v => getMemoryStore(store).set(v.id, v));
+    return;
+  }
+  await withStore(store, 'readwrite', s => {
+    values.forEach(v => s.put(v));
+  });
+};
+
+export const localPut = <T extends { id: string }>(store: LocalStoreName, value: T): Promise<void> =>
+  localPutMany(store, [value]);
+
+export const localDeleteMany = async (store: LocalStoreName, ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  if (!(await openDb())) {
+    ids.forEach(id => getMemoryStore(store).delete(id));
+    return;
+  }
+  await withStore(store, 'readwrite', s => {
+    ids.forEach(id => s.delete(id));
+  });
+};
+
+export const localDelete = (store: LocalStoreName, id: string): Promise<void> => localDeleteMany(store, [id]);
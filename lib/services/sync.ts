@@ -0,0 +1,522 @@
+// Offline-first sync engine.
+// Every write lands in IndexedDB first and is queued in an outbox; the outbox is pushed to
+// Supabase in the background with retry and backoff. Reads come from IndexedDB after a
+// best-effort pull, so the app behaves the same with or without a connection.
+
+import { AssignedLesson, Curriculum, ExamAttempt, LessonTemplate, SyncStatus, VocabList, VocabProgress } from '@/types';
+import { mergeCurriculum, mergeExamAttempt, mergeLesson, mergeLessonTemplate, mergeVocabList, mergeVocabProgress } from '@/lib/merge';
+import { getPointKey } from '@/lib/lessonBank';
+import { getSupabase } from './supabaseClient';
+import { localDeleteMany, localGet, localGetAll, localPut, localPutMany, localDelete } from './localDb';
+
+export type SyncedTable = 'lessons' | 'vocab_progress' | 'vocab_lists' | 'exam_attempts' | 'lesson_templates' | 'curricula';
+
+type SyncedRecord = AssignedLesson | VocabProgress | VocabList | ExamAttempt | LessonTemplate | Curriculum;
+
+// insert: must not exist yet (students may not insert lessons, so no upsert there)
+// update: only touches an existing cloud row
+// upsert: insert or update
+type OutboxOp = 'insert' | 'update' | 'upsert' | 'delete';
+
+interface OutboxEntry {
+  id: string; // `${table}:${recordId}` so repeated edits to one record coalesce
+  table: SyncedTable;
+  recordId: string;
+  op: OutboxOp;
+  revision: number; // Bumped on every enqueue, to detect edits made while a push is in flight
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: number; // epoch ms
+  lastError?: string;
+  ownerId?: string; // Signed-in user who made the change; only their session pushes it
+  parked?: boolean; // Refused by row-level security: kept, shown to the user, never retried
+}
+
+interface TableConfig<T> {
+  toInsertRow: (record: T) => Record<string, any>;
+  toUpdateRow: (record: T) => Record<string, any>;
+  merge: (local: T, remote: T) => T;
+}
+
+const TABLES: Record<SyncedTable, TableConfig<any>> = {
+  lessons: {
+    toInsertRow: (lesson: AssignedLesson) => ({
+      id: lesson.id,
+      student_name: lesson.studentName,
+      student_id: lesson.studentId,
+      class_id: lesson.classId || null,
+      data: lesson,
+    }),
+    // Reassigning a lesson moves it between students, and row-level security follows these columns
+    toUpdateRow: (lesson: AssignedLesson) => ({
+      student_name: lesson.studentName,
+      student_id: lesson.studentId,
+      class_id: lesson.classId || null,
+      data: lesson,
+    }),
+    merge: mergeLesson,
+  },
+  vocab_progress: {
+    toInsertRow: (progress: VocabProgress) => ({
+      id: progress.id,
+      student_id: progress.studentId, // Used by row-level security
+      student_name: progress.studentName,
+      data: progress,
+    }),
+    toUpdateRow: (progress: VocabProgress) => ({
+      student_id: progress.studentId,
+      student_name: progress.studentName,
+      data: progress,
+      updated_at: new Date(),
+    }),
+    merge: mergeVocabProgress,
+  },
+  vocab_lists: {
+    toInsertRow: (list: VocabList) => ({ id: list.id, category: list.category, data: list }),
+    toUpdateRow: (list: VocabList) => ({ category: list.category, data: list, updated_at: new Date() }),
+    merge: mergeVocabList,
+  },
+  exam_attempts: {
+    toInsertRow: (attempt: ExamAttempt) => ({ id: attempt.id, student_id: attempt.studentId, data: attempt }),
+    toUpdateRow: (attempt: ExamAttempt) => ({ data: attempt, updated_at: new Date() }),
+    merge: mergeExamAttempt,
+  },
+  lesson_templates: {
+    toInsertRow: (template: LessonTemplate) => ({ id: template.id, point_key: getPointKey(template), data: template }),
+    toUpdateRow: (template: LessonTemplate) => ({ data: template, updated_at: new Date() }),
+    merge: mergeLessonTemplate,
+  },
+  curricula: {
+    toInsertRow: (curriculum: Curriculum) => ({ id: curriculum.id, data: curriculum }),
+    toUpdateRow: (curriculum: Curriculum) => ({ data: curriculum, updated_at: new Date() }),
+    merge: mergeCurriculum,
+  },
+};
+
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+const LEGACY_IMPORT_KEY = 'legacy_local_storage_import';
+const OWNER_KEY = 'local_data_owner';
+const LEGACY_KEYS: Partial<Record<SyncedTable, string>> = {
+  lessons: 'mandarin_master_lessons',
+  vocab_progress: 'mandarin_master_vocab',
+  vocab_lists: 'mandarin_master_vocab_lists',
+};
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+// Postgres insufficient_privilege: row-level security will never accept this write, so retrying is pointless
+const PERMISSION_DENIED = '42501';
+
+class SyncPushError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message);
+    this.name = 'SyncPushError';
+  }
+}
+
+const throwIfError = (error: { message: string; code?: string } | null) => {
+  if (error) throw new SyncPushError(error.message, error.code);
+};
+
+// --- STATUS ---
+
+let status: SyncStatus = { state: 'idle', pending: 0, parked: 0 };
+const listeners = new Set<(status: SyncStatus) => void>();
+
+const setStatus = (next: Partial<SyncStatus>) => {
+  status = { ...status, ...next };
+  listeners.forEach(listener => listener(status));
+};
+
+const getSessionUserId = async (): Promise<string | null> => {
+  const supabase = getSupabase();
+  if (!supabase) return null;
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id || null;
+};
+
+// Entries made before owners were recorded belong to whoever is signed in
+const isOwnedBy = (entry: OutboxEntry, userId: string | null) => !!userId && (entry.ownerId || userId) === userId;
+
+const refreshStatus = async () => {
+  const userId = await getSessionUserId();
+  const entries = (await localGetAll<OutboxEntry>('outbox')).filter(e => isOwnedBy(e, userId));
+  const active = entries.filter(e => !e.parked);
+  const failed = active.find(e => e.lastError);
+  setStatus({
+    pending: active.length,
+    parked: entries.length - active.length,
+    state: !isOnline() ? 'offline' : failed ? 'error' : 'idle',
+    lastError: failed?.lastError,
+  });
+};
+
+export const getSyncStatus = (): SyncStatus => status;
+
+export const subscribeSyncStatus = (listener: (status: SyncStatus) => void): (() => void) => {
+  startSync();
+  listeners.add(listener);
+  listener(status);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// --- STARTUP ---
+
+let started = false;
+let ready: Promise<void> | null = null;
+
+// Copy data saved by the old localStorage-only code into IndexedDB, once
+const importLegacyLocalStorage = async () => {
+  if (typeof localStorage === 'undefined') return;
+  if (await localGet('meta', LEGACY_IMPORT_KEY)) return;
+
+  for (const table of Object.keys(LEGACY_KEYS) as SyncedTable[]) {
+    try {
+      const raw = localStorage.getItem(LEGACY_KEYS[table]!);
+      const records: SyncedRecord[] = raw ? JSON.parse(raw) : [];
+      const existing = new Set((await localGetAll<SyncedRecord>(table)).map(r => r.id));
+      await localPutMany(table, records.filter(r => r && r.id && !existing.has(r.id)));
+    } catch (e) {
+      console.warn(`Failed to import legacy local data for ${table}`, e);
+    }
+  }
+  await localPut('meta', { id: LEGACY_IMPORT_KEY, importedAt: new Date().toISOString() });
+};
+
+// Wait for one-off local setup before any read or write
+const whenReady = (): Promise<void> => {
+  if (!ready) {
+    ready = importLegacyLocalStorage().catch(e => console.warn("Local data import failed", e));
+  }
+  return ready;
+};
+
+export const startSync = () => {
+  if (started || typeof window === 'undefined') return;
+  started = true;
+
+  window.addEventListener('online', () => {
+    // Connection is back: retry everything now rather than waiting out the backoff
+    resetBackoff().then(() => scheduleSync(0));
+  });
+  window.addEventListener('offline', () => setStatus({ state: 'offline' }));
+
+  whenReady().then(() => refreshStatus()).then(() => scheduleSync(0));
+};
+
+// --- OUTBOX ---
+
+const enqueue = async (table: SyncedTable, recordId: string, op: OutboxOp) => {
+  const id = `${table}:${recordId}`;
+  const existing = await localGet<OutboxEntry>('outbox', id);
+
+  let nextOp = op;
+  if (existing) {
+    if (op === 'delete' && existing.op === 'insert') {
+      // Never reached the cloud, so there is nothing to delete there
+      await localDelete('outbox', id);
+      await refreshStatus();
+      return;
+    }
+    // A pending insert stays an insert; the latest local copy is read at push time
+    if (existing.op === 'insert' && op !== 'delete') nextOp = 'insert';
+  }
+
+  await localPut<OutboxEntry>('outbox', {
+    id,
+    table,
+    recordId,
+    op: nextOp,
+    revision: (existing?.revision || 0) + 1,
+    createdAt: existing?.createdAt || new Date().toISOString(),
+    attempts: 0,
+    nextAttemptAt: 0,
+    ownerId: (await getSessionUserId()) || existing?.ownerId,
+  });
+  await refreshStatus();
+  scheduleSync(0);
+};
+
+const resetBackoff = async () => {
+  const entries = await localGetAll<OutboxEntry>('outbox');
+  await localPutMany('outbox', entries.map(e => ({ ...e, nextAttemptAt: 0 })));
+};
+
+const pushEntry = async (entry: OutboxEntry) => {
+  const supabase = getSupabase();
+  if (!supabase) throw new Error('Cloud database is not configured');
+  const config = TABLES[entry.table];
+
+  if (entry.op === 'delete') {
+    const { error } = await supabase.from(entry.table).delete().eq('id', entry.recordId);
+    throwIfError(error);
+    return;
+  }
+
+  const local = await localGet<SyncedRecord>(entry.table, entry.recordId);
+  if (!local) return; // Removed locally since it was queued
+
+  const { data: remoteRow, error: fetchError } = await supabase
+    .from(entry.table)
+    .select('data')
+    .eq('id', entry.recordId)
+    .maybeSingle();
+  throwIfError(fetchError);
+
+  if (remoteRow) {
+    // Also covers an insert whose response was lost on a previous attempt
+    const merged = config.merge(local, remoteRow.data);
+    const { error } = await supabase.from(entry.table).update(config.toUpdateRow(merged)).eq('id', entry.recordId);
+    throwIfError(error);
+    // Fold the merge back in without clobbering an edit made while this push was in flight
+    const latest = await localGet<SyncedRecord>(entry.table, entry.recordId);
+    await localPut(entry.table, latest ? config.merge(latest, merged) : merged);
+  } else if (entry.op === 'update') {
+    console.warn(`Skipping update for ${entry.table}/${entry.recordId}: no longer in the cloud`);
+  } else {
+    const { error } = await supabase.from(entry.table).insert(config.toInsertRow(local));
+    throwIfError(error);
+  }
+};
+
+let flushing: Promise<void> | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+const scheduleSync = (delayMs: number) => {
+  if (typeof window === 'undefined') return;
+  if (timer) clearTimeout(timer);
+  timer = setTimeout(() => {
+    timer = null;
+    flushOutbox();
+  }, delayMs);
+};
+
+// Push every due outbox entry, oldest first. Safe to call at any time.
+export const flushOutbox = (): Promise<void> => {
+  if (flushing) return flushing;
+
+  flushing = (async () => {
+    await whenReady();
+    if (!isOnline() || !getSupabase()) {
+      await refreshStatus();
+      return;
+    }
+
+    // Only this session's changes: another user's would be pushed under the wrong account
+    const userId = await getSessionUserId();
+    const entries = (await localGetAll<OutboxEntry>('outbox'))
+      .filter(e => isOwnedBy(e, userId) && !e.parked)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const due = entries.filter(e => e.nextAttemptAt <= Date.now());
+    if (due.length === 0) {
+      await refreshStatus();
+    } else {
+      setStatus({ state: 'syncing', pending: entries.length });
+    }
+
+    for (const entry of due) {
+      try {
+        await pushEntry(entry);
+        // Only clear the entry if it was not re-queued by an edit made during the push
+        const current = await localGet<OutboxEntry>('outbox', entry.id);
+        if (current && current.revision === entry.revision) {
+          await localDelete('outbox', entry.id);
+        }
+        setStatus({ lastSyncedAt: new Date().toISOString() });
+      } catch (e: any) {
+        if (e instanceof SyncPushError && e.code === PERMISSION_DENIED) {
+          // Retrying cannot help, but the change is kept so the user can see it and decide
+          console.warn(`Not permitted to sync ${entry.table}/${entry.recordId}, parking it`, e);
+          await localPut<OutboxEntry>('outbox', {
+            ...entry,
+            parked: true,
+            ownerId: entry.ownerId || userId || undefined,
+            lastError: `Not allowed to save this change to the cloud (${e.message})`,
+          });
+          continue;
+        }
+
+        const attempts = entry.attempts + 1;
+        const delay = Math.min(BASE_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS);
+        console.warn(`Sync failed for ${entry.table}/${entry.recordId} (attempt ${attempts}), retrying in ${delay}ms`, e);
+        // Keep the entry: student work is never dropped, only retried later
+        const current = await localGet<OutboxEntry>('outbox', entry.id);
+        if (current && current.revision === entry.revision) {
+          await localPut<OutboxEntry>('outbox', {
+            ...entry,
+            attempts,
+            nextAttemptAt: Date.now() + delay,
+            lastError: e?.message || 'Sync failed',
+          });
+        }
+        if (!isOnline()) break;
+      }
+    }
+
+    await refreshStatus();
+
+    const remaining = (await localGetAll<OutboxEntry>('outbox')).filter(e => isOwnedBy(e, userId) && !e.parked);
+    if (remaining.length > 0) {
+      const nextAt = Math.min(...remaining.map(e => e.nextAttemptAt));
+      scheduleSync(Math.max(nextAt - Date.now(), 0) || BASE_RETRY_MS);
+    }
+  })().finally(() => {
+    flushing = null;
+  });
+
+  return flushing;
+};
+
+// Push one record's pending change and report whether it reached the cloud. A flush that is already
+// running may have read the outbox before the change was queued, so another one follows it.
+export const syncRecord = async (table: SyncedTable, recordId: string): Promise<boolean> => {
+  const isPending = async () =>
+    (await localGetAll<OutboxEntry>('outbox')).some(e => e.table === table && e.recordId === recordId);
+  if (flushing) await flushing;
+  if (await isPending()) await flushOutbox();
+  return !(await isPending());
+};
+
+// Retry now, ignoring any backoff (e.g. the user tapped the sync indicator)
+export const retrySyncNow = async (): Promise<void> => {
+  await resetBackoff();
+  await flushOutbox();
+};
+
+// Changes of the signed-in user still waiting to reach the cloud. Parked ones are left out:
+// retrying won't save them, so they can only be discarded.
+export const getPendingChangeCount = async (): Promise<number> => {
+  await whenReady();
+  const userId = await getSessionUserId();
+  return (await localGetAll<OutboxEntry>('outbox')).filter(e => isOwnedBy(e, userId) && !e.parked).length;
+};
+
+// The user chose to give up changes the cloud refused; the cloud copy is fetched again on the next read
+export const discardParkedChanges = async (): Promise<void> => {
+  const userId = await getSessionUserId();
+  const parked = (await localGetAll<OutboxEntry>('outbox')).filter(e => isOwnedBy(e, userId) && e.parked);
+  for (const entry of parked) {
+    await localDelete('outbox', entry.id);
+    await localDelete(entry.table, entry.recordId);
+  }
+  await refreshStatus();
+};
+
+// --- PULL ---
+
+interface PullOptions<T> {
+  filter?: { column: string; value: string };
+  inScope?: (record: T) => boolean; // Local records covered by the filter, for pruning
+}
+
+// Refresh the local copy of a table from the cloud, keeping unsynced local edits
+const pullTable = async <T extends SyncedRecord>(table: SyncedTable, options: PullOptions<T> = {}) => {
+  const supabase = getSupabase();
+  if (!supabase || !isOnline()) return;
+
+  try {
+    let query = supabase.from(table).select('data');
+    if (options.filter) {
+      query = query.eq(options.filter.column, options.filter.value);
+    }
+    const { data, error } = await query;
+    if (error) {
+      console.warn(`Cloud fetch for ${table} failed, using local data`, error);
+      return;
+    }
+
+    const config = TABLES[table];
+    const pendingIds = new Set(
+      (await localGetAll<OutboxEntry>('outbox')).filter(e => e.table === table).map(e => e.recordId)
+    );
+    const local = new Map((await localGetAll<T>(table)).map(r => [r.id, r]));
+
+    const remote = (data || []).map((row: any) => row.data as T).filter(r => r && r.id);
+    const remoteIds = new Set(remote.map(r => r.id));
+
+    await localPutMany(table, remote.map(r => {
+      const existing = local.get(r.id);
+      return existing && pendingIds.has(r.id) ? config.merge(existing, r) : r;
+    }));
+
+    // Rows deleted in the cloud (or no longer visible to this user) go too, unless still being pushed
+    const stale = Array.from(local.values())
+      .filter(r => !remoteIds.has(r.id) && !pendingIds.has(r.id))
+      .filter(r => !options.inScope || options.inScope(r))
+      .map(r => r.id);
+    await localDeleteMany(table, stale);
+  } catch (e) {
+    console.warn(`Cloud fetch for ${table} failed, using local data`, e);
+  }
+};
+
+// --- REPOSITORY ---
+
+const stamp = <T extends SyncedRecord>(record: T): T => ({ ...record, updatedAt: new Date().toISOString() });
+
+export const readAll = async <T extends SyncedRecord>(table: SyncedTable, options: PullOptions<T> = {}): Promise<T[]> => {
+  startSync();
+  await whenReady();
+  await pullTable(table, options);
+  // Unsynced records of another user on this device stay hidden until they are pushed
+  const userId = await getSessionUserId();
+  const foreign = new Set(
+    (await localGetAll<OutboxEntry>('outbox')).filter(e => e.table === table && !!e.ownerId && e.ownerId !== userId).map(e => e.recordId)
+  );
+  const records = (await localGetAll<T>(table)).filter(r => !foreign.has(r.id));
+  return options.inScope ? records.filter(options.inScope) : records;
+};
+
+export const readOne = async <T extends SyncedRecord>(table: SyncedTable, id: string): Promise<T | null> => {
+  await whenReady();
+  return localGet<T>(table, id);
+};
+
+export const writeRecords = async <T extends SyncedRecord>(table: SyncedTable, records: T[], op: Exclude<OutboxOp, 'delete'>): Promise<T[]> => {
+  startSync();
+  await whenReady();
+  const stamped = records.map(stamp);
+  await localPutMany(table, stamped);
+  if (getSupabase()) {
+    for (const record of stamped) {
+      await enqueue(table, record.id, op);
+    }
+  }
+  return stamped;
+};
+
+export const deleteRecord = async (table: SyncedTable, id: string): Promise<void> => {
+  startSync();
+  await whenReady();
+  await localDelete(table, id);
+  if (getSupabase()) {
+    await enqueue(table, id, 'delete');
+  }
+};
+
+// Called after signing in: data cached for a different user on this device is dropped, so offline
+// reads only ever show the signed-in user's records
+export const claimLocalData = async (userId: string): Promise<void> => {
+  await whenReady();
+  const owner = await localGet<{ id: string; userId: string }>('meta', OWNER_KEY);
+  if (owner && owner.userId !== userId) {
+    await clearLocalData();
+  }
+  await localPut('meta', { id: OWNER_KEY, userId });
+  await refreshStatus();
+  scheduleSync(0);
+};
+
+// Drop cached cloud data from this browser. Unsynced changes are kept so nothing is lost.
+export const clearLocalData = async (): Promise<void> => {
+  await whenReady();
+  const pending = await localGetAll<OutboxEntry>('outbox');
+  for (const table of Object.keys(TABLES) as SyncedTable[]) {
+    const pendingIds = new Set(pending.filter(e => e.table === table).map(e => e.recordId));
+    const ids = (await localGetAll<SyncedRecord>(table)).map(r => r.id).filter(id => !pendingIds.has(id));
+    await localDeleteMany(table, ids);
+  }
+};
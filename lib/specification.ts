@@ -0,0 +1,102 @@
+// Exam-board specification lookups and coverage: which spec items a student's lessons have
+// taught (assigned) and assessed (completed), derived from their lesson history.
+
+import { AssignedLesson, Curriculum, SpecItem, SpecItemCategory, Specification, Stage } from '@/types';
+import { SPECIFICATIONS } from '@/data/specifications';
+
+export const DEFAULT_SPECIFICATION_ID = 'cambridge-igcse-0547';
+
+export const SPEC_CATEGORIES: { category: SpecItemCategory; label: string }[] = [
+  { category: 'theme', label: 'Themes' },
+  { category: 'topic-area', label: 'Topic Areas' },
+  { category: 'grammar', label: 'Grammar' },
+  { category: 'vocabulary', label: 'Vocabulary' },
+];
+
+export const getSpecification = (id: string | undefined): Specification | undefined =>
+  id ? SPECIFICATIONS.find(s => s.id === id) : undefined;
+
+export const getCurriculumSpecification = (curriculum: Curriculum): Specification | undefined =>
+  getSpecification(curriculum.specificationId);
+
+export const getSpecItem = (spec: Specification | undefined, id: string): SpecItem | undefined =>
+  spec?.items.find(item => item.id === id);
+
+// Refs in specification order, dropping any the specification doesn't define
+export const sortSpecRefs = (spec: Specification, refs: string[]): string[] =>
+  spec.items.filter(item => refs.includes(item.id)).map(item => item.id);
+
+// --- COVERAGE ---
+
+export interface SpecCoverage {
+  taught: number; // Lessons assigned
+  assessed: number; // Lessons completed
+  averageScore: number | null; // Over completed lessons, 0-100
+  lastAssigned?: string;
+}
+
+export type CoverageStatus = 'not-taught' | 'taught' | 'assessed';
+
+export const getCoverageStatus = (coverage: SpecCoverage | undefined): CoverageStatus =>
+  !coverage || coverage.taught === 0 ? 'not-taught' : coverage.assessed > 0 ? 'assessed' : 'taught';
+
+// Refs recorded on the lesson, or (for lessons assigned before tagging) the current refs of its point,
+// found by id or else by topic title and point description
+export const getLessonSpecRefs = (lesson: AssignedLesson, stages: Stage[]): string[] => {
+  if (lesson.specRefs) return lesson.specRefs;
+  for (const stage of stages) {
+    for (const topic of stage.topics) {
+      const point = topic.points.find(p =>
+        lesson.pointId
+          ? p.id === lesson.pointId && topic.id === lesson.topicId
+          : p.description === lesson.pointDescription && topic.title === lesson.topicTitle
+      );
+      if (point) return point.specRefs || [];
+    }
+  }
+  return [];
+};
+
+// Coverage per spec item id. A topic area also counts towards its theme.
+export const buildSpecCoverage = (
+  spec: Specification,
+  stages: Stage[],
+  lessons: AssignedLesson[]
+): Record<string, SpecCoverage> => {
+  const coverage: Record<string, SpecCoverage> = {};
+  const scores: Record<string, number[]> = {};
+
+  lessons.forEach(lesson => {
+    const ids = new Set<string>();
+    getLessonSpecRefs(lesson, stages).forEach(ref => {
+      const item = getSpecItem(spec, ref);
+      if (!item) return;
+      ids.add(item.id);
+      if (item.parentId) ids.add(item.parentId);
+    });
+
+    ids.forEach(id => {
+      const entry = coverage[id] || (coverage[id] = { taught: 0, assessed: 0, averageScore: null });
+      entry.taught += 1;
+      if (!entry.lastAssigned || lesson.assignedDate > entry.lastAssigned) entry.lastAssigned = lesson.assignedDate;
+      if (lesson.completed) {
+        entry.assessed += 1;
+        (scores[id] || (scores[id] = [])).push(lesson.score || 0);
+      }
+    });
+  });
+
+  Object.entries(scores).forEach(([id, list]) => {
+    coverage[id].averageScore = Math.round(list.reduce((acc, s) => acc + s, 0) / list.length);
+  });
+  return coverage;
+};
+
+// How many curriculum points are tagged with each spec item, to spot requirements nothing teaches
+export const countTaggedPoints = (stages: Stage[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  stages.forEach(s => s.topics.forEach(t => t.points.forEach(p => {
+    (p.specRefs || []).forEach(ref => { counts[ref] = (counts[ref] || 0) + 1; });
+  })));
+  return counts;
+};
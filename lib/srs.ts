@@ -0,0 +1,111 @@
+// Spaced-repetition scheduler (SM-2 variant with four answer grades)
+// Used by vocab practice to decide which characters a student should review today.
+
+import { ReviewGrade, SrsState, VocabProgress } from '@/types';
+import { getWritingAccuracy } from './writingAnalytics';
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_HISTORY = 50;
+const RELEARN_DELAY_MINUTES = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const REVIEW_GRADES: { grade: ReviewGrade; label: string }[] = [
+  { grade: 0, label: 'Again' },
+  { grade: 1, label: 'Hard' },
+  { grade: 2, label: 'Good' },
+  { grade: 3, label: 'Easy' },
+];
+
+export const createSrsState = (now: Date = new Date()): SrsState => ({
+  ease: DEFAULT_EASE,
+  interval: 0,
+  repetitions: 0,
+  lapses: 0,
+  due: now.toISOString(),
+  history: [],
+});
+
+// Apply a review grade and return the next schedule
+export const scheduleReview = (
+  state: SrsState | undefined,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): SrsState => {
+  const current = state || createSrsState(now);
+  let { ease, interval, repetitions, lapses } = current;
+  let dueDate: Date;
+
+  if (grade === 0) {
+    // Forgotten: restart the learning steps and see it again shortly
+    repetitions = 0;
+    lapses += 1;
+    interval = 0;
+    ease = Math.max(MIN_EASE, ease - 0.2);
+    dueDate = new Date(now.getTime() + RELEARN_DELAY_MINUTES * 60 * 1000);
+  } else {
+    if (grade === 1) {
+      ease = Math.max(MIN_EASE, ease - 0.15);
+      interval = repetitions === 0 ? 1 : Math.max(interval + 1, Math.round(interval * 1.2));
+    } else if (grade === 2) {
+      interval = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(interval * ease);
+    } else {
+      ease = ease + 0.15;
+      interval = repetitions === 0 ? 4 : repetitions === 1 ? 8 : Math.round(interval * ease * 1.3);
+    }
+    repetitions += 1;
+    dueDate = new Date(now.getTime() + interval * DAY_MS);
+  }
+
+  const history = [
+    ...current.history,
+    { reviewedAt: now.toISOString(), grade, interval, ease: Math.round(ease * 100) / 100 },
+  ].slice(-MAX_HISTORY);
+
+  return {
+    ease: Math.round(ease * 100) / 100,
+    interval,
+    repetitions,
+    lapses,
+    due: dueDate.toISOString(),
+    lastReviewed: now.toISOString(),
+    history,
+  };
+};
+
+const endOfDay = (now: Date): Date => {
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  return end;
+};
+
+// A record is due today if it has a schedule and its due date is before midnight
+export const isDueToday = (progress: VocabProgress, now: Date = new Date()): boolean => {
+  if (!progress.srs) return false;
+  return new Date(progress.srs.due).getTime() <= endOfDay(now).getTime();
+};
+
+// Days overdue, plus up to four days' worth of urgency for characters the student writes badly
+const reviewPriority = (progress: VocabProgress, now: Date): number => {
+  const overdueDays = (now.getTime() - new Date(progress.srs!.due).getTime()) / DAY_MS;
+  const accuracy = getWritingAccuracy(progress);
+  return overdueDays + (accuracy === undefined ? 0 : (100 - accuracy) / 25);
+};
+
+// Due records, most urgent first
+export const getDueReviews = (progress: VocabProgress[], now: Date = new Date()): VocabProgress[] => {
+  return progress
+    .filter(p => isDueToday(p, now))
+    .sort((a, b) => reviewPriority(b, now) - reviewPriority(a, now));
+};
+
+// Human readable "next review" hint, e.g. "in 6 days"
+export const describeNextReview = (state: SrsState, now: Date = new Date()): string => {
+  const diffMs = new Date(state.due).getTime() - now.getTime();
+  if (diffMs <= 0) return 'now';
+  const minutes = Math.round(diffMs / 60000);
+  if (minutes < 60) return `in ${minutes} min`;
+  const days = Math.round(diffMs / DAY_MS);
+  if (days <= 1) return 'tomorrow';
+  return `in ${days} days`;
+};
@@ -0,0 +1,236 @@
+// Local tone assessment for pronunciation recordings.
+// Extracts a pitch contour (YIN), splits it into one voiced segment per expected syllable and
+// classifies each segment's contour shape as a Mandarin tone. No cloud speech API is involved.
+
+import { SyllableToneResult, Tone, ToneAssessment } from '@/types';
+import { applyThirdToneSandhi, parsePinyinSyllables } from './pinyin';
+
+export interface PitchFrame {
+  time: number; // seconds
+  f0: number | null; // Hz, null when unvoiced or silent
+  energy: number; // RMS
+}
+
+const TARGET_SAMPLE_RATE = 16000;
+const FRAME_SECONDS = 0.04;
+const HOP_SECONDS = 0.01;
+const MIN_F0 = 70;
+const MAX_F0 = 450;
+const YIN_THRESHOLD = 0.15;
+const SILENCE_RATIO = 0.08; // Frames quieter than this share of the loudest frame are treated as silence
+const MAX_GAP_FRAMES = 3; // Unvoiced gaps up to 30ms stay inside one syllable
+const MIN_SEGMENT_FRAMES = 5;
+
+export const TONE_DESCRIPTIONS: Record<Tone, string> = {
+  1: 'high and level',
+  2: 'rising',
+  3: 'low, dipping',
+  4: 'sharply falling',
+  5: 'neutral',
+};
+
+// --- PITCH ---
+
+const downsample = (samples: Float32Array, sampleRate: number): { samples: Float32Array; sampleRate: number } => {
+  const factor = Math.max(1, Math.floor(sampleRate / TARGET_SAMPLE_RATE));
+  if (factor === 1) return { samples, sampleRate };
+  const out = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < out.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += samples[i * factor + j];
+    out[i] = sum / factor;
+  }
+  return { samples: out, sampleRate: sampleRate / factor };
+};
+
+// Fundamental frequency of one frame using the cumulative mean normalised difference (YIN)
+const detectF0 = (samples: Float32Array, start: number, windowSize: number, sampleRate: number): number | null => {
+  const minLag = Math.floor(sampleRate / MAX_F0);
+  const maxLag = Math.ceil(sampleRate / MIN_F0);
+  if (start + windowSize + maxLag > samples.length) return null;
+
+  const diff = new Float32Array(maxLag + 1);
+  for (let lag = 1; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let j = 0; j < windowSize; j++) {
+      const delta = samples[start + j] - samples[start + j + lag];
+      sum += delta * delta;
+    }
+    diff[lag] = sum;
+  }
+
+  let runningSum = 0;
+  for (let lag = 1; lag <= maxLag; lag++) {
+    runningSum += diff[lag];
+    const normalised = runningSum > 0 ? (diff[lag] * lag) / runningSum : 1;
+    if (lag >= minLag && normalised < YIN_THRESHOLD) {
+      // Walk down to the bottom of this dip
+      let best = lag;
+      while (best + 1 <= maxLag && diff[best + 1] < diff[best]) best++;
+      return sampleRate / best;
+    }
+  }
+  return null;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export const extractPitchContour = (input: Float32Array, inputSampleRate: number): PitchFrame[] => {
+  const { samples, sampleRate } = downsample(input, inputSampleRate);
+  const windowSize = Math.round(FRAME_SECONDS * sampleRate);
+  const hop = Math.round(HOP_SECONDS * sampleRate);
+  const frames: PitchFrame[] = [];
+
+  for (let start = 0; start + windowSize <= samples.length; start += hop) {
+    let sum = 0;
+    for (let j = 0; j < windowSize; j++) sum += samples[start + j] * samples[start + j];
+    frames.push({ time: start / sampleRate, f0: null, energy: Math.sqrt(sum / windowSize) });
+  }
+
+  const loudest = frames.reduce((max, f) => Math.max(max, f.energy), 0);
+  if (loudest === 0) return frames;
+  frames.forEach((frame, i) => {
+    if (frame.energy >= loudest * SILENCE_RATIO) frame.f0 = detectF0(samples, i * hop, windowSize, sampleRate);
+  });
+
+  // Median-smooth voiced frames to remove octave jumps and single-frame glitches
+  const raw = frames.map(f => f.f0);
+  frames.forEach((frame, i) => {
+    if (raw[i] === null) return;
+    const neighbours = raw.slice(Math.max(0, i - 2), i + 3).filter((f): f is number => f !== null);
+    frame.f0 = median(neighbours);
+  });
+
+  return frames;
+};
+
+// --- SEGMENTATION ---
+
+// Voiced stretches of the contour, adjusted to the number of syllables we expect to hear
+export const segmentSyllables = (frames: PitchFrame[], expectedCount: number): PitchFrame[][] => {
+  const segments: PitchFrame[][] = [];
+  let current: PitchFrame[] = [];
+  let gap = 0;
+
+  frames.forEach(frame => {
+    if (frame.f0 !== null) {
+      current.push(frame);
+      gap = 0;
+    } else if (current.length > 0 && ++gap > MAX_GAP_FRAMES) {
+      segments.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) segments.push(current);
+
+  const voiced = segments.filter(s => s.length >= MIN_SEGMENT_FRAMES);
+  if (voiced.length === 0 || expectedCount === 0) return [];
+
+  // Too many: fold the shortest segment into its nearest neighbour
+  while (voiced.length > expectedCount) {
+    const shortest = voiced.reduce((best, s, i) => (s.length < voiced[best].length ? i : best), 0);
+    const gapBefore = shortest > 0 ? voiced[shortest][0].time - voiced[shortest - 1][voiced[shortest - 1].length - 1].time : Infinity;
+    const gapAfter = shortest < voiced.length - 1 ? voiced[shortest + 1][0].time - voiced[shortest][voiced[shortest].length - 1].time : Infinity;
+    const target = gapBefore <= gapAfter ? shortest - 1 : shortest + 1;
+    const [first, second] = target < shortest ? [target, shortest] : [shortest, target];
+    voiced.splice(first, 2, [...voiced[first], ...voiced[second]]);
+  }
+
+  // Too few (syllables run together): split the longest segment at its quietest point
+  while (voiced.length < expectedCount) {
+    const longest = voiced.reduce((best, s, i) => (s.length > voiced[best].length ? i : best), 0);
+    const segment = voiced[longest];
+    if (segment.length < MIN_SEGMENT_FRAMES * 2) break;
+    const from = Math.floor(segment.length * 0.25);
+    const to = Math.ceil(segment.length * 0.75);
+    let split = from;
+    for (let i = from; i < to; i++) if (segment[i].energy < segment[split].energy) split = i;
+    voiced.splice(longest, 1, segment.slice(0, split), segment.slice(split));
+  }
+
+  return voiced;
+};
+
+// --- CLASSIFICATION ---
+
+const toSemitones = (f0: number, reference: number) => 12 * Math.log2(f0 / reference);
+
+const averageOf = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+// Classify one syllable's contour by shape, in semitones relative to the speaker's median pitch
+export const classifyTone = (segment: PitchFrame[], reference: number): Tone | null => {
+  const pitches = segment.map(f => f.f0).filter((f): f is number => f !== null);
+  if (pitches.length < 3) return null;
+
+  // Onsets and offsets wobble, so look at the middle 80%
+  const trim = Math.floor(pitches.length * 0.1);
+  const contour = pitches.slice(trim, pitches.length - trim).map(f => toSemitones(f, reference));
+  const edge = Math.max(1, Math.round(contour.length * 0.2));
+  const start = averageOf(contour.slice(0, edge));
+  const end = averageOf(contour.slice(-edge));
+  const level = averageOf(contour);
+  const low = Math.min(...contour);
+  const lowAt = contour.indexOf(low) / (contour.length - 1);
+  const range = Math.max(...contour) - low;
+
+  if (range < 2) return level >= -2 ? 1 : 3; // Level: high is tone 1, low is a half-third
+  if (lowAt > 0.2 && lowAt < 0.8 && start - low > 1.5 && end - low > 1.5) return 3;
+  if (end - start > 1.5) return lowAt < 0.35 ? 2 : 3;
+  if (start - end > 2) return start >= -1 ? 4 : 3; // A fall from low down is a half-third
+  return end >= start ? 2 : 4;
+};
+
+// --- ASSESSMENT ---
+
+// Compare a recording with the expected pinyin. Returns null if no speech was found.
+export const analyzeTones = (samples: Float32Array, sampleRate: number, pinyin: string): ToneAssessment | null => {
+  const expected = parsePinyinSyllables(pinyin);
+  if (expected.length === 0) return null;
+
+  const frames = extractPitchContour(samples, sampleRate);
+  const voicedPitches = frames.map(f => f.f0).filter((f): f is number => f !== null);
+  if (voicedPitches.length < MIN_SEGMENT_FRAMES) return null;
+
+  const reference = median(voicedPitches);
+  const segments = segmentSyllables(frames, expected.length);
+  const expectedTones = applyThirdToneSandhi(expected.map(s => s.tone));
+
+  const syllables: SyllableToneResult[] = expected.map((s, i) => {
+    const detectedTone = segments[i] ? classifyTone(segments[i], reference) : null;
+    return {
+      syllable: s.syllable,
+      expectedTone: expectedTones[i],
+      detectedTone,
+      // Neutral tones are short and unstressed, so any realisation is accepted
+      correct: expectedTones[i] === 5 || detectedTone === expectedTones[i],
+    };
+  });
+
+  const correct = syllables.filter(s => s.correct).length;
+  return {
+    score: Math.round((correct / syllables.length) * 100),
+    syllables,
+    assessedAt: new Date().toISOString(),
+  };
+};
+
+// Decode a MediaRecorder recording to mono samples and assess its tones
+export const assessRecording = async (recording: Blob, pinyin: string): Promise<ToneAssessment | null> => {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const ctx: AudioContext = new AudioContextClass();
+  try {
+    const buffer = await ctx.decodeAudioData(await recording.arrayBuffer());
+    const mono = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+    }
+    return analyzeTones(mono, buffer.sampleRate, pinyin);
+  } finally {
+    ctx.close().catch(() => {});
+  }
+};
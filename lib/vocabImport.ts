@@ -0,0 +1,249 @@
+// Word-level vocabulary import: CSV/TSV/JSON files are read into a table whose columns the
+// tutor maps to entry fields; free text (TXT, PDF) is segmented into words instead.
+
+import { VocabEntry, VocabList, VocabTier } from '@/types';
+
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export type VocabField = 'word' | 'pinyin' | 'meaning' | 'partOfSpeech' | 'tier' | 'theme';
+
+// Column index per field, or -1 when the file has no such column
+export type ColumnMapping = Record<VocabField, number>;
+
+export const VOCAB_FIELDS: { field: VocabField; label: string }[] = [
+  { field: 'word', label: 'Word' },
+  { field: 'pinyin', label: 'Pinyin' },
+  { field: 'meaning', label: 'Meaning' },
+  { field: 'partOfSpeech', label: 'Part of Speech' },
+  { field: 'tier', label: 'Tier' },
+  { field: 'theme', label: 'Theme' },
+];
+
+// Header names seen in exam-board and textbook lists, compared lowercased without punctuation
+const HEADER_SYNONYMS: Record<VocabField, string[]> = {
+  word: ['word', 'chinese', 'simplified', 'hanzi', 'characters', 'character', 'vocabulary', 'term', '汉字', '词语', '中文'],
+  pinyin: ['pinyin', '拼音', 'pronunciation'],
+  meaning: ['meaning', 'english', 'definition', 'translation', 'gloss', '英文', '意思'],
+  partOfSpeech: ['part of speech', 'pos', 'word class', 'word type', 'type', '词性'],
+  tier: ['tier', 'level', 'foundation higher', 'fh'],
+  theme: ['theme', 'topic', 'topic area', 'category', 'context', '主题'],
+};
+
+const CJK = /[\u4e00-\u9fa5\u3400-\u4dbf\uf900-\ufaff]/;
+export const CJK_RUN = /[\u4e00-\u9fa5\u3400-\u4dbf\uf900-\ufaff]+/g;
+
+export const hasChinese = (text: string) => CJK.test(text);
+
+// Entries of a list, reading character-only lists uploaded before word-level import
+export const getListWords = (list: VocabList): VocabEntry[] =>
+  list.words || (list.characters || []).map(word => ({ word }));
+
+// --- PARSING ---
+
+// RFC 4180-style: quoted fields may contain the delimiter, newlines and doubled quotes
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      if (row.some(Boolean)) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field.trim());
+  if (row.some(Boolean)) rows.push(row);
+  return rows;
+};
+
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const counts = ['\t', ',', ';'].map(d => ({ d, n: firstLine.split(d).length - 1 }));
+  return counts.sort((a, b) => b.n - a.n)[0].n > 0 ? counts[0].d : ',';
+};
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9\u4e00-\u9fa5]+/g, ' ').trim();
+
+const isHeaderCell = (cell: string) =>
+  !hasChinese(cell) || Object.values(HEADER_SYNONYMS).some(synonyms => synonyms.includes(normalizeHeader(cell)));
+
+// The first row is a header unless it holds vocabulary; without one the columns are numbered
+const toTable = (rows: string[][]): ImportTable => {
+  const width = Math.max(0, ...rows.map(r => r.length));
+  const pad = (r: string[]) => Array.from({ length: width }, (_, i) => r[i] || '');
+  if (rows.length > 0 && rows[0].every(isHeaderCell)) {
+    return { headers: pad(rows[0]), rows: rows.slice(1).map(pad) };
+  }
+  return { headers: Array.from({ length: width }, (_, i) => `Column ${i + 1}`), rows: rows.map(pad) };
+};
+
+const jsonToTable = (raw: unknown): ImportTable | null => {
+  const list = Array.isArray(raw)
+    ? raw
+    : raw && typeof raw === 'object'
+      ? (Object.values(raw as Record<string, unknown>).find(Array.isArray) as unknown[] | undefined)
+      : undefined;
+  if (!list || list.length === 0) return null;
+
+  // A bare list of words
+  if (list.every(item => typeof item === 'string')) {
+    return { headers: ['Word'], rows: (list as string[]).map(word => [word.trim()]) };
+  }
+
+  const headers: string[] = [];
+  list.forEach(item => {
+    if (item && typeof item === 'object') Object.keys(item).forEach(key => !headers.includes(key) && headers.push(key));
+  });
+  const rows = list
+    .filter(item => item && typeof item === 'object')
+    .map(item => headers.map(h => {
+      const value = (item as Record<string, unknown>)[h];
+      return value === undefined || value === null ? '' : String(value).trim();
+    }));
+  return { headers, rows };
+};
+
+// Structured file contents as a table, or null if the format isn't tabular
+export const parseImportTable = (text: string, extension: string): ImportTable | null => {
+  const clean = text.replace(/^\uFEFF/, '');
+  if (extension === 'json') {
+    try {
+      return jsonToTable(JSON.parse(clean));
+    } catch {
+      return null;
+    }
+  }
+  if (extension === 'csv' || extension === 'tsv') {
+    const rows = parseDelimited(clean, extension === 'tsv' ? '\t' : detectDelimiter(clean));
+    return rows.length > 0 ? toTable(rows) : null;
+  }
+  return null;
+};
+
+// --- COLUMN MAPPING ---
+
+export const guessColumnMapping = (table: ImportTable): ColumnMapping => {
+  const headers = table.headers.map(normalizeHeader);
+  const taken = new Set<number>();
+  const mapping = {} as ColumnMapping;
+
+  const find = (field: VocabField): number => {
+    const synonyms = HEADER_SYNONYMS[field];
+    let index = headers.findIndex((h, i) => !taken.has(i) && synonyms.includes(h));
+    if (index < 0) index = headers.findIndex((h, i) => !taken.has(i) && synonyms.some(s => s.length > 3 && h.includes(s)));
+    return index;
+  };
+
+  VOCAB_FIELDS.forEach(({ field }) => {
+    mapping[field] = find(field);
+    if (mapping[field] >= 0) taken.add(mapping[field]);
+  });
+
+  // Unlabelled word column: the first one holding Chinese
+  if (mapping.word < 0) {
+    const sample = table.rows.slice(0, 20);
+    mapping.word = table.headers.findIndex((_, i) => !taken.has(i) && sample.some(r => hasChinese(r[i] || '')));
+  }
+  return mapping;
+};
+
+export const normalizeTier = (value: string): VocabTier | undefined => {
+  const v = value.trim().toLowerCase();
+  if (!v) return undefined;
+  if (/^(h|higher)\b/.test(v) || v === 'ht') return 'higher';
+  if (/^(f|foundation)\b/.test(v) || v === 'ft' || v.includes('both')) return 'foundation';
+  return undefined;
+};
+
+// Mapped rows as entries: rows without Chinese in the word column are skipped, repeated words merged
+export const mapRowsToEntries = (table: ImportTable, mapping: ColumnMapping): VocabEntry[] => {
+  if (mapping.word < 0) return [];
+  const cell = (row: string[], field: VocabField) => (mapping[field] >= 0 ? row[mapping[field]] || '' : '');
+  const entries = new Map<string, VocabEntry>();
+
+  table.rows.forEach(row => {
+    const word = cell(row, 'word').replace(/\s+/g, '');
+    if (!hasChinese(word) || entries.has(word)) return;
+    const entry: VocabEntry = { word };
+    const pinyin = cell(row, 'pinyin');
+    const meaning = cell(row, 'meaning');
+    const partOfSpeech = cell(row, 'partOfSpeech');
+    const tier = normalizeTier(cell(row, 'tier'));
+    const theme = cell(row, 'theme');
+    if (pinyin) entry.pinyin = pinyin;
+    if (meaning) entry.meaning = meaning;
+    if (partOfSpeech) entry.partOfSpeech = partOfSpeech;
+    if (tier) entry.tier = tier;
+    if (theme) entry.theme = theme;
+    entries.set(word, entry);
+  });
+  return Array.from(entries.values());
+};
+
+// --- FREE TEXT ---
+
+const MAX_WORD_LENGTH = 6;
+// Runs this short between punctuation or spaces are taken as one word (lists, glossaries)
+const STANDALONE_WORD_LENGTH = 3;
+
+// Splits runs of Chinese into words: short standalone runs are kept whole, longer runs are
+// segmented by longest match against known words, falling back to single characters
+export const segmentText = (text: string, lexicon: Set<string>): VocabEntry[] => {
+  const words = new Set<string>();
+
+  (text.match(CJK_RUN) || []).forEach(run => {
+    if (run.length <= STANDALONE_WORD_LENGTH) {
+      words.add(run);
+      return;
+    }
+    splitRun(run, word => lexicon.has(word)).forEach(word => words.add(word));
+  });
+  return Array.from(words).map(word => ({ word }));
+};
+
+// Longest-match split of one run of Chinese characters
+export const splitRun = (run: string, isWord: (word: string) => boolean): string[] => {
+  const words: string[] = [];
+  let i = 0;
+  while (i < run.length) {
+    let length = Math.min(MAX_WORD_LENGTH, run.length - i);
+    while (length > 1 && !isWord(run.slice(i, i + length))) length--;
+    words.push(run.slice(i, i + length));
+    i += length;
+  }
+  return words;
+};
+
+// Entries grouped by theme, for splitting an exam-board list into one list per theme
+export const groupEntriesByTheme = (entries: VocabEntry[], fallback: string): Record<string, VocabEntry[]> =>
+  entries.reduce<Record<string, VocabEntry[]>>((acc, entry) => {
+    const theme = entry.theme || fallback;
+    (acc[theme] = acc[theme] || []).push(entry);
+    return acc;
+  }, {});
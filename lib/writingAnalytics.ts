@@ -0,0 +1,166 @@
+// Handwriting analytics from HanziWriter quizzes: per-stroke mistakes, hints and timing for
+// each attempt, a per-character writing accuracy, and the strokes a student keeps getting wrong.
+
+import { VocabProgress, WritingAttempt } from '@/types';
+
+const MAX_ATTEMPTS = 20; // Per character of a word, oldest dropped first
+const RECENT_ATTEMPTS = 5; // Attempts that count towards the current accuracy
+const MISTAKE_PENALTY = 0.5; // Share of a stroke's credit lost per mistake
+export const WEAK_WRITING_ACCURACY = 70;
+
+// Shape of the stroke data HanziWriter passes to onMistake / onCorrectStroke
+export interface QuizStrokeData {
+  strokeNum: number;
+  mistakesOnStroke: number;
+  strokesRemaining: number;
+}
+
+export interface StrokeRecorder {
+  onMistake: (data: QuizStrokeData) => void;
+  onCorrectStroke: (data: QuizStrokeData) => void;
+  finish: (radicalStrokes?: number[]) => WritingAttempt;
+}
+
+// Collects one quiz's stroke events. Hints are shown once a stroke reaches showHintAfterMisses.
+export const createStrokeRecorder = (character: string, showHintAfterMisses: number): StrokeRecorder => {
+  const startedAt = Date.now();
+  const mistakes: number[] = [];
+  let strokeCount = 0;
+
+  const record = (data: QuizStrokeData) => {
+    strokeCount = Math.max(strokeCount, data.strokeNum + 1 + data.strokesRemaining);
+    mistakes[data.strokeNum] = Math.max(mistakes[data.strokeNum] || 0, data.mistakesOnStroke);
+  };
+
+  return {
+    onMistake: record,
+    onCorrectStroke: record,
+    finish: (radicalStrokes) => {
+      const mistakesByStroke = Array.from({ length: strokeCount }, (_, i) => mistakes[i] || 0);
+      return {
+        character,
+        attemptedAt: new Date().toISOString(),
+        durationMs: Date.now() - startedAt,
+        strokeCount,
+        mistakesByStroke,
+        hintedStrokes: mistakesByStroke.map((m, i) => (m >= showHintAfterMisses ? i : -1)).filter(i => i >= 0),
+        ...(radicalStrokes && radicalStrokes.length > 0 && { radicalStrokes }),
+        accuracy: scoreStrokes(mistakesByStroke),
+      };
+    },
+  };
+};
+
+// Each stroke is worth the same; every mistake on it loses half its credit
+export const scoreStrokes = (mistakesByStroke: number[]): number => {
+  if (mistakesByStroke.length === 0) return 0;
+  const credit = mistakesByStroke.reduce((sum, m) => sum + Math.max(0, 1 - m * MISTAKE_PENALTY), 0);
+  return Math.round((credit / mistakesByStroke.length) * 100);
+};
+
+// Keeps the latest MAX_ATTEMPTS for each character, in time order
+const trimAttempts = (attempts: WritingAttempt[]): WritingAttempt[] => {
+  const seen = new Map<string, number>();
+  return attempts
+    .sort((x, y) => x.attemptedAt.localeCompare(y.attemptedAt))
+    .reverse()
+    .filter(a => {
+      const count = (seen.get(a.character) || 0) + 1;
+      seen.set(a.character, count);
+      return count <= MAX_ATTEMPTS;
+    })
+    .reverse();
+};
+
+// Multi-character words add one attempt per character
+export const addWritingAttempts = (progress: VocabProgress, attempts: WritingAttempt[]): WritingAttempt[] =>
+  trimAttempts([...(progress.writingAttempts || []), ...attempts]);
+
+// Attempts from two devices, without duplicates
+export const mergeWritingAttempts = (a: WritingAttempt[] = [], b: WritingAttempt[] = []): WritingAttempt[] => {
+  const byKey = new Map<string, WritingAttempt>();
+  [...a, ...b].forEach(attempt => byKey.set(`${attempt.character}_${attempt.attemptedAt}`, attempt));
+  return trimAttempts(Array.from(byKey.values()));
+};
+
+// Recent attempts weighted towards the latest, so improvement shows quickly
+const recentAccuracy = (attempts: WritingAttempt[]): number => {
+  const recent = attempts.slice(-RECENT_ATTEMPTS);
+  const weights = recent.map((_, i) => i + 1);
+  const total = recent.reduce((sum, a, i) => sum + a.accuracy * weights[i], 0);
+  return Math.round(total / weights.reduce((a, b) => a + b, 0));
+};
+
+// Accuracy for one character of the word, or for the whole word as the mean over its characters.
+// Undefined until the character (or any character of the word) has been written at least once.
+export const getWritingAccuracy = (progress: VocabProgress, character?: string): number | undefined => {
+  const attempts = progress.writingAttempts || [];
+  if (character) {
+    const own = attempts.filter(a => a.character === character);
+    return own.length > 0 ? recentAccuracy(own) : undefined;
+  }
+  const characters = Array.from(new Set(attempts.map(a => a.character)));
+  if (characters.length === 0) return undefined;
+  return Math.round(characters.reduce((sum, ch) => sum + recentAccuracy(attempts.filter(a => a.character === ch)), 0) / characters.length);
+};
+
+// Score for one run through a word, each character counting equally
+export const scoreWordAttempts = (attempts: WritingAttempt[]): number =>
+  attempts.length > 0 ? Math.round(attempts.reduce((sum, a) => sum + a.accuracy, 0) / attempts.length) : 0;
+
+// --- TUTOR SUMMARY ---
+
+export interface StrokeErrorSummary {
+  stroke: number; // 0-based stroke number
+  mistakes: number;
+  hints: number;
+  inRadical: boolean;
+}
+
+export interface CharacterWritingSummary {
+  character: string;
+  attempts: number;
+  accuracy: number; // Recent weighted accuracy
+  averageSeconds: number;
+  strokes: StrokeErrorSummary[]; // Strokes with mistakes, most first
+  radicalMistakes: number;
+  otherMistakes: number; // Mistakes outside the radical
+}
+
+// Characters a student has written, weakest first, with the strokes they keep getting wrong
+export const summariseWriting = (progress: VocabProgress[]): CharacterWritingSummary[] => {
+  const byCharacter = new Map<string, WritingAttempt[]>();
+  progress.forEach(p => (p.writingAttempts || []).forEach(attempt => {
+    const list = byCharacter.get(attempt.character);
+    if (list) list.push(attempt);
+    else byCharacter.set(attempt.character, [attempt]);
+  }));
+
+  return Array.from(byCharacter.entries()).map(([character, attempts]) => {
+    attempts.sort((a, b) => a.attemptedAt.localeCompare(b.attemptedAt));
+    const radical = new Set(attempts.find(a => a.radicalStrokes)?.radicalStrokes || []);
+    const strokes = new Map<number, StrokeErrorSummary>();
+    attempts.forEach(a => {
+      a.mistakesByStroke.forEach((mistakes, stroke) => {
+        const hinted = a.hintedStrokes.includes(stroke);
+        if (mistakes === 0 && !hinted) return;
+        const entry = strokes.get(stroke) || { stroke, mistakes: 0, hints: 0, inRadical: radical.has(stroke) };
+        entry.mistakes += mistakes;
+        if (hinted) entry.hints++;
+        strokes.set(stroke, entry);
+      });
+    });
+    const strokeList = Array.from(strokes.values()).sort((a, b) => b.mistakes - a.mistakes || a.stroke - b.stroke);
+    const radicalMistakes = strokeList.filter(s => s.inRadical).reduce((sum, s) => sum + s.mistakes, 0);
+
+    return {
+      character,
+      attempts: attempts.length,
+      accuracy: recentAccuracy(attempts),
+      averageSeconds: Math.round(attempts.reduce((sum, a) => sum + a.durationMs, 0) / attempts.length / 1000),
+      strokes: strokeList,
+      radicalMistakes,
+      otherMistakes: strokeList.reduce((sum, s) => sum + s.mistakes, 0) - radicalMistakes,
+    };
+  }).sort((a, b) => a.accuracy - b.accuracy);
+};
@@ -0,0 +1,197 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Content-addressed cache for generations that come out the same for every caller
+// (word details, example sentences, speech, vocabulary lists). The key hashes the action, the params that
+// shape the output, the provider/model and the prompt version, so bumping a prompt
+// version or switching model simply misses the old entries.
+// Configured with environment variables:
+//   GENERATION_CACHE            off | file (default: Supabase, falling back to file)
+//   GENERATION_CACHE_DIR        file store location (default: <tmp>/generation-cache)
+
+interface CachePolicy {
+  ttlDays: number;
+  promptVersion: number; // Bump when the prompt or post-processing changes
+  keyParams: (params: Record<string, any>) => Record<string, unknown> | null; // null = don't cache
+}
+
+export interface CacheEntry {
+  key: string;
+  action: string;
+  model: string;
+  result: unknown;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface CacheFilter {
+  key?: string;
+  action?: string;
+}
+
+export interface CacheStore {
+  name: 'supabase' | 'file';
+  get: (key: string) => Promise<CacheEntry | null>; // Expired entries count as missing
+  set: (entry: CacheEntry) => Promise<void>;
+  invalidate: (filter: CacheFilter) => Promise<number>; // Empty filter clears everything
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Same clean-up generateSpeech applies before synthesis, so equivalent requests share an entry
+export const normalizeSpeechText = (text: unknown): string =>
+  String(text || '').replace(/[*#_]/g, '').substring(0, 500).trim();
+
+const CACHE_POLICIES: Record<string, CachePolicy> = {
+  generateWordDetails: {
+    ttlDays: 90,
+    promptVersion: 1,
+    keyParams: ({ character }) => (character ? { character: String(character).trim() } : null),
+  },
+  generateSpeech: {
+    ttlDays: 365,
+    promptVersion: 1,
+    keyParams: ({ text }) => {
+      const speechText = normalizeSpeechText(text);
+      return speechText ? { text: speechText } : null;
+    },
+  },
+  generateExampleSentence: {
+    ttlDays: 90,
+    promptVersion: 2, // Keyed by reading too, so heteronyms (行 xíng / háng) get their own sentence
+    keyParams: ({ word, pinyin, meaning }) =>
+      (word ? {
+        word: String(word).trim(),
+        pinyin: String(pinyin || '').trim().toLowerCase(),
+        meaning: String(meaning || '').trim().toLowerCase(),
+      } : null),
+  },
+  generateVocabularyList: {
+    ttlDays: 30,
+    promptVersion: 1,
+    keyParams: ({ category }) => (category ? { category: String(category).trim().toLowerCase() } : null),
+  },
+};
+
+export const isCacheEnabled = () => process.env.GENERATION_CACHE?.trim().toLowerCase() !== 'off';
+
+// Cache key for a request, or null when the action isn't cached
+export const getCacheKey = (action: string, params: Record<string, any>, model: string): string | null => {
+  const policy = CACHE_POLICIES[action];
+  const keyParams = policy?.keyParams(params);
+  if (!policy || !keyParams) return null;
+  return createHash('sha256')
+    .update(JSON.stringify({ action, params: keyParams, model, promptVersion: policy.promptVersion }))
+    .digest('hex');
+};
+
+export const createCacheEntry = (key: string, action: string, model: string, result: unknown): CacheEntry => {
+  const now = Date.now();
+  return {
+    key,
+    action,
+    model,
+    result,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + CACHE_POLICIES[action].ttlDays * DAY_MS).toISOString(),
+  };
+};
+
+const isExpired = (entry: CacheEntry) => new Date(entry.expiresAt).getTime() <= Date.now();
+
+// --- SUPABASE STORE ---
+// generation_cache has row-level security with no policies: only the service role reads or writes it
+
+const createSupabaseStore = (supabase: SupabaseClient): CacheStore => ({
+  name: 'supabase',
+  get: async (key) => {
+    const { data, error } = await supabase
+      .from('generation_cache')
+      .select('key, action, model, result, created_at, expires_at')
+      .eq('key', key)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!data) return null;
+    const entry: CacheEntry = {
+      key: data.key,
+      action: data.action,
+      model: data.model,
+      result: data.result,
+      createdAt: data.created_at,
+      expiresAt: data.expires_at,
+    };
+    return isExpired(entry) ? null : entry;
+  },
+  set: async (entry) => {
+    const { error } = await supabase.from('generation_cache').upsert({
+      key: entry.key,
+      action: entry.action,
+      model: entry.model,
+      result: entry.result,
+      created_at: entry.createdAt,
+      expires_at: entry.expiresAt,
+    });
+    if (error) throw new Error(error.message);
+  },
+  invalidate: async ({ key, action }) => {
+    let query = supabase.from('generation_cache').delete({ count: 'exact' });
+    if (key) query = query.eq('key', key);
+    if (action) query = query.eq('action', action);
+    if (!key && !action) query = query.neq('key', ''); // Delete needs a filter
+    const { count, error } = await query;
+    if (error) throw new Error(error.message);
+    return count || 0;
+  },
+});
+
+// --- FILE STORE ---
+// One JSON file per key. On Netlify the tmp directory only lives as long as the function instance.
+
+const createFileStore = (dir: string): CacheStore => {
+  const pathFor = (key: string) => join(dir, `${key}.json`);
+
+  const read = async (path: string): Promise<CacheEntry | null> => {
+    try {
+      return JSON.parse(await fs.readFile(path, 'utf8'));
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    name: 'file',
+    get: async (key) => {
+      const entry = await read(pathFor(key));
+      return entry && !isExpired(entry) ? entry : null;
+    },
+    set: async (entry) => {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(pathFor(entry.key), JSON.stringify(entry));
+    },
+    invalidate: async ({ key, action }) => {
+      const files = await fs.readdir(dir).catch(() => [] as string[]);
+      let removed = 0;
+      for (const file of files.filter(f => f.endsWith('.json'))) {
+        const path = join(dir, file);
+        const entry = key || action ? await read(path) : null;
+        if (key && entry?.key !== key) continue;
+        if (action && entry?.action !== action) continue;
+        await fs.unlink(path).catch(() => undefined);
+        removed += 1;
+      }
+      return removed;
+    },
+  };
+};
+
+export const getCacheStore = (supabase: SupabaseClient | null): CacheStore => {
+  const forceFile = process.env.GENERATION_CACHE?.trim().toLowerCase() === 'file';
+  // Without the service role key the table is unreachable, so don't try it
+  if (supabase && !forceFile && process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return createSupabaseStore(supabase);
+  }
+  return createFileStore(process.env.GENERATION_CACHE_DIR || join(tmpdir(), 'generation-cache'));
+};
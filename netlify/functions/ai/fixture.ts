@@ -0,0 +1,246 @@
+import { AIProvider } from './types';
+
+// Deterministic offline provider: no network, same input -> same output.
+// Lets every action run in local dev and tests with AI_PROVIDER=fixture.
+
+const FIXTURE_SAMPLE_RATE = 24000;
+
+const FIXTURE_VOCAB = [
+  { character: '你好', pinyin: 'nǐ hǎo', meaning: 'hello' },
+  { character: '谢谢', pinyin: 'xiè xie', meaning: 'thank you' },
+  { character: '学校', pinyin: 'xué xiào', meaning: 'school' },
+  { character: '朋友', pinyin: 'péng you', meaning: 'friend' },
+  { character: '吃饭', pinyin: 'chī fàn', meaning: 'to eat a meal' },
+  { character: '喜欢', pinyin: 'xǐ huan', meaning: 'to like' },
+];
+
+const FIXTURE_EXERCISES = [
+  {
+    type: 'quiz',
+    question: '“你好”是什么意思？',
+    questionTranslation: 'What does "你好" mean?',
+    answer: 'Hello',
+    options: ['Hello', 'Goodbye', 'Thank you', 'Sorry'],
+  },
+  {
+    type: 'translation',
+    question: 'Thank you, teacher!',
+    questionTranslation: 'Translate into Chinese',
+    answer: '谢谢老师！',
+  },
+  {
+    type: 'composition',
+    question: '用“喜欢”写一个句子。',
+    questionTranslation: 'Write a sentence using "喜欢".',
+    answer: '我喜欢吃饭。',
+  },
+  {
+    type: 'gap-fill',
+    question: '我很___你。',
+    questionTranslation: 'I really like you.',
+    answer: '喜欢',
+    options: ['喜欢', '学校', '谢谢'],
+  },
+  {
+    type: 'reorder',
+    question: '把词语排成正确的句子。',
+    questionTranslation: 'Put the words in the correct order.',
+    segments: ['学校', '我', '去'],
+    answer: '我去学校',
+  },
+  {
+    type: 'matching',
+    question: '把中文和英文配对。',
+    questionTranslation: 'Match the Chinese with the English.',
+    pairs: FIXTURE_VOCAB.slice(0, 4).map(v => ({ left: v.character, right: v.meaning })),
+  },
+  {
+    type: 'pinyin-to-character',
+    question: '请写出汉字。',
+    questionTranslation: 'Write the characters.',
+    pinyin: 'péng you',
+    answer: '朋友',
+  },
+  {
+    type: 'pinyin-answer',
+    question: '你好',
+    questionTranslation: 'Write the pinyin with tones.',
+    answer: 'nǐ hǎo',
+  },
+  {
+    type: 'tone',
+    question: '你好',
+    questionTranslation: 'What are the tones of each syllable?',
+    answer: '3 3',
+  },
+  {
+    type: 'reading',
+    passage: '我叫小明。我是学生。我喜欢吃饭，也喜欢和朋友去学校。',
+    passageTranslation: 'My name is Xiaoming. I am a student. I like eating, and I also like going to school with friends.',
+    question: '小明喜欢和谁去学校？',
+    questionTranslation: 'Who does Xiaoming like going to school with?',
+    answer: '朋友',
+    options: ['老师', '朋友', '妈妈'],
+  },
+  {
+    type: 'listening',
+    dialogue: [
+      { speaker: 'A', text: '你好！你叫什么名字？' },
+      { speaker: 'B', text: '我叫小明。我是学生。' },
+      { speaker: 'A', text: '你喜欢去学校吗？' },
+      { speaker: 'B', text: '喜欢，我每天和朋友去学校。' },
+    ],
+    passageTranslation: "A: Hello! What's your name? B: I'm Xiaoming. I'm a student. A: Do you like going to school? B: Yes, I go to school with my friends every day.",
+    question: '小明每天和谁去学校？',
+    questionTranslation: 'Who does Xiaoming go to school with every day?',
+    answer: '朋友',
+    options: ['老师', '朋友', '妈妈'],
+  },
+];
+
+// One short paper per skill, reusing the exercise fixtures where they fit
+const FIXTURE_EXAM_PAPERS: Record<string, unknown[]> = {
+  listening: [
+    {
+      type: 'quiz',
+      audioScript: '我叫小明。我每天和朋友去学校。',
+      question: 'Who does Xiaoming go to school with?',
+      answer: 'His friends',
+      options: ['His teacher', 'His friends', 'His mother'],
+      marks: 1,
+    },
+    {
+      type: 'gap-fill',
+      audioScript: '我很喜欢吃饭。',
+      question: '我很___吃饭。',
+      questionTranslation: 'I really like eating.',
+      answer: '喜欢',
+      marks: 1,
+    },
+  ],
+  reading: FIXTURE_EXERCISES.filter(e => ['reading', 'quiz', 'gap-fill', 'matching'].includes(e.type)),
+  speaking: [
+    { passage: '你好，我叫小明。', pinyin: 'nǐ hǎo, wǒ jiào xiǎo míng.' },
+    { passage: '我喜欢吃饭。', pinyin: 'wǒ xǐ huan chī fàn.' },
+  ],
+  writing: [
+    ...FIXTURE_EXERCISES.filter(e => e.type === 'translation'),
+    { type: 'composition', question: '写一写你的学校。', questionTranslation: 'Write about your school.', answer: '我的学校很大。我有很多朋友。' },
+    { type: 'composition', question: '写一写你的周末。', questionTranslation: 'Write about your weekend.', answer: '周末我和朋友去公园。' },
+  ],
+};
+
+// Small stable hash so outputs vary with the input but never between runs
+const hash = (text: string): number => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) {
+    h = (h * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(h);
+};
+
+const fixtureJson = (action: string, params: Record<string, any> = {}): unknown => {
+  switch (action) {
+    case 'generateExercises':
+      return FIXTURE_EXERCISES;
+    case 'generateVocabularyList':
+      return FIXTURE_VOCAB;
+    case 'generateWordDetails': {
+      const character = params.character || '好';
+      const known = FIXTURE_VOCAB.find(v => v.character === character);
+      return {
+        character,
+        pinyin: known?.pinyin || 'hǎo',
+        meaning: known?.meaning || 'good',
+        exampleSentenceCh: `我会写“${character}”。`,
+        exampleSentenceEn: `I can write "${character}".`,
+      };
+    }
+    case 'generateExampleSentence': {
+      const word = params.word || '好';
+      return {
+        exampleSentenceCh: `我会写“${word}”。`,
+        exampleSentenceEn: `I can write "${word}".`,
+      };
+    }
+    case 'generateMockPaper':
+      return { questions: FIXTURE_EXAM_PAPERS[params.paper] || [] };
+    case 'evaluateAnswer': {
+      // Share of the model answer's characters present in the student's answer
+      const correct = Array.from(String(params.correctAnswer || ''));
+      const student = String(params.studentAnswer || '');
+      const overlap = correct.length > 0 ? correct.filter(c => student.includes(c)).length / correct.length : 0;
+      const score = Math.round(overlap * 100);
+      return {
+        criteria: [
+          { criterion: 'meaning', score, explanation: 'Fixture: meaning judged by character overlap.' },
+          { criterion: 'grammar', score: Math.min(100, score + 10), explanation: 'Fixture: grammar looks reasonable.' },
+          { criterion: 'wordChoice', score, explanation: 'Fixture: word choice judged by character overlap.' },
+        ],
+        feedback: `Fixture marking: ${score}% of the model answer's characters used.`,
+      };
+    }
+    default:
+      return {};
+  }
+};
+
+// 16-bit mono PCM sine tone whose pitch and length depend on the text
+const fixturePcm = (text: string): string => {
+  const seconds = Math.min(2, 0.3 + text.length * 0.1);
+  const samples = Math.floor(FIXTURE_SAMPLE_RATE * seconds);
+  const frequency = 220 + (hash(text) % 220);
+  const buffer = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const value = Math.sin((2 * Math.PI * frequency * i) / FIXTURE_SAMPLE_RATE) * 0.3;
+    buffer.writeInt16LE(Math.round(value * 32767), i * 2);
+  }
+  return buffer.toString('base64');
+};
+
+const fixtureSvg = (prompt: string): string => {
+  const hue = hash(prompt) % 360;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">` +
+    `<rect width="512" height="512" fill="#ffffff"/>` +
+    `<circle cx="256" cy="256" r="160" fill="hsl(${hue},70%,60%)"/>` +
+    `</svg>`;
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+};
+
+export const createFixtureProvider = (): AIProvider => ({
+  name: 'fixture',
+
+  isConfigured: () => true,
+
+  generateText: async ({ action, params }) => {
+    const { stage = 'Stage', topic = 'Topic', point = 'Learning point' } = params || {};
+    if (action === 'generateLearningMaterial') {
+      return [
+        `## ${point}`,
+        `Let's learn about **${topic}** (${stage})!`,
+        '---',
+        '### Examples',
+        ...FIXTURE_VOCAB.slice(0, 3).map(v => `- **${v.character} (${v.pinyin})** - *${v.meaning}*`),
+        '---',
+        '### Key Takeaway',
+        'Practice a little every day!',
+      ].join('\n');
+    }
+    return `Fixture response for ${action}.`;
+  },
+
+  generateJson: async ({ action, params }) => JSON.stringify(fixtureJson(action, params)),
+
+  generateImage: async ({ prompt }) => fixtureSvg(prompt),
+
+  generateSpeech: async ({ text }) => ({
+    audioData: fixturePcm(text),
+    format: 'pcm',
+    mimeType: 'audio/pcm',
+    sampleRate: FIXTURE_SAMPLE_RATE,
+  }),
+
+  dialogueVoices: () => ['fixture-a', 'fixture-b'],
+
+  chat: async ({ message }) => `(fixture tutor) You said: ${message}`,
+});
@@ -0,0 +1,115 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import { AIProvider } from './types';
+import { callWithRetry } from './retry';
+
+const TEXT_MODEL = () => process.env.GEMINI_TEXT_MODEL || 'gemini-2.5-flash';
+const IMAGE_MODEL = () => process.env.GEMINI_IMAGE_MODEL || 'gemini-2.5-flash-image';
+const TTS_MODEL = () => process.env.GEMINI_TTS_MODEL || 'gemini-2.5-flash-preview-tts';
+const TTS_VOICE = () => process.env.GEMINI_TTS_VOICE || 'Kore';
+const DIALOGUE_VOICES = () => (process.env.GEMINI_TTS_DIALOGUE_VOICES || 'Kore,Puck,Aoede,Charon').split(',').map(v => v.trim());
+const TTS_SAMPLE_RATE = 24000;
+
+export const createGeminiProvider = (apiKey: string | undefined = process.env.GEMINI_API_KEY): AIProvider => {
+  const client = () => new GoogleGenAI({ apiKey: apiKey! });
+
+  return {
+    name: 'gemini',
+
+    isConfigured: () => !!apiKey,
+
+    generateText: async ({ prompt, model, maxOutputTokens }) => {
+      return callWithRetry(async () => {
+        const response = await client().models.generateContent({
+          model: model || TEXT_MODEL(),
+          contents: prompt,
+          config: { maxOutputTokens },
+        });
+        return response.text || '';
+      });
+    },
+
+    generateJson: async ({ prompt, model, maxOutputTokens, schema }) => {
+      return callWithRetry(async () => {
+        const response = await client().models.generateContent({
+          model: model || TEXT_MODEL(),
+          contents: prompt,
+          config: {
+            responseMimeType: 'application/json',
+            responseSchema: schema,
+            maxOutputTokens,
+          },
+        });
+        return response.text || '';
+      });
+    },
+
+    generateImage: async ({ prompt, model }) => {
+      const result = await callWithRetry(async () => {
+        return client().models.generateContent({
+          model: model || IMAGE_MODEL(),
+          contents: prompt,
+        });
+      });
+
+      for (const part of result.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData) {
+          return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+        }
+      }
+      return null;
+    },
+
+    generateSpeech: async ({ text, voice, model }) => {
+      // Gemini TTS struggles with a lone character, so say it twice
+      const isSingleCharacter = text.length === 1 && /[一-龥]/.test(text);
+      const finalText = isSingleCharacter ? `${text}，${text}` : text;
+
+      const result = await callWithRetry(async () => {
+        return client().models.generateContent({
+          model: model || TTS_MODEL(),
+          contents: [{ parts: [{ text: finalText }] }],
+          config: {
+            responseModalities: [Modality.AUDIO],
+            speechConfig: {
+              voiceConfig: {
+                prebuiltVoiceConfig: { voiceName: voice || TTS_VOICE() },
+              },
+            },
+          },
+        });
+      }, 1);
+
+      if (!result.candidates || result.candidates.length === 0) {
+        throw new Error('No candidates in response');
+      }
+
+      const candidate = result.candidates[0];
+      if (candidate.finishReason && candidate.finishReason !== 'STOP') {
+        throw new Error(`TTS request finished with reason: ${candidate.finishReason}`);
+      }
+
+      const audioData = candidate.content?.parts?.[0]?.inlineData?.data;
+      if (!audioData) {
+        throw new Error('No audio data in response');
+      }
+
+      return { audioData, format: 'pcm', mimeType: 'audio/pcm', sampleRate: TTS_SAMPLE_RATE };
+    },
+
+    dialogueVoices: DIALOGUE_VOICES,
+
+    chat: async ({ systemInstruction, history, message, model }) => {
+      const chat = client().chats.create({
+        model: model || TEXT_MODEL(),
+        config: { systemInstruction },
+        history: history.map(h => ({
+          role: h.role,
+          parts: [{ text: h.text }]
+        }))
+      });
+
+      const result = await chat.sendMessage({ message });
+      return result.text || '';
+    },
+  };
+};
@@ -0,0 +1,92 @@
+import OpenAI from "openai";
+import { AIProvider } from './types';
+import { callWithRetry } from './retry';
+
+const TEXT_MODEL = () => process.env.OPENAI_TEXT_MODEL || 'gpt-4o-mini';
+const IMAGE_MODEL = () => process.env.OPENAI_IMAGE_MODEL || 'gpt-image-1';
+const TTS_MODEL = () => process.env.OPENAI_TTS_MODEL || 'tts-1';
+const TTS_VOICE = () => process.env.OPENAI_TTS_VOICE || 'alloy';
+const DIALOGUE_VOICES = () => (process.env.OPENAI_TTS_DIALOGUE_VOICES || 'nova,onyx,shimmer,echo').split(',').map(v => v.trim());
+
+export const createOpenAIProvider = (apiKey: string | undefined = process.env.OPENAI_API_KEY): AIProvider => {
+  const client = () => new OpenAI({ apiKey: apiKey! });
+
+  return {
+    name: 'openai',
+
+    isConfigured: () => !!apiKey,
+
+    generateText: async ({ prompt, model, maxOutputTokens }) => {
+      return callWithRetry(async () => {
+        const response = await client().chat.completions.create({
+          model: model || TEXT_MODEL(),
+          messages: [{ role: 'user', content: prompt }],
+          max_completion_tokens: maxOutputTokens,
+        });
+        return response.choices[0]?.message?.content || '';
+      });
+    },
+
+    generateJson: async ({ prompt, model, maxOutputTokens, schema }) => {
+      // JSON mode only guarantees an object, so the schema is spelled out in the prompt
+      const schemaHint = schema ? `\n\nThe JSON must match this schema:\n${JSON.stringify(schema)}` : '';
+      return callWithRetry(async () => {
+        const response = await client().chat.completions.create({
+          model: model || TEXT_MODEL(),
+          messages: [
+            { role: 'system', content: 'Respond with valid JSON only. Wrap top-level arrays in an object.' },
+            { role: 'user', content: prompt + schemaHint },
+          ],
+          response_format: { type: 'json_object' },
+          max_completion_tokens: maxOutputTokens,
+        });
+        return response.choices[0]?.message?.content || '';
+      });
+    },
+
+    generateImage: async ({ prompt, model }) => {
+      const response = await callWithRetry(async () => {
+        return client().images.generate({
+          model: model || IMAGE_MODEL(),
+          prompt,
+          size: '1024x1024',
+        });
+      });
+      const b64 = response.data?.[0]?.b64_json;
+      return b64 ? `data:image/png;base64,${b64}` : null;
+    },
+
+    generateSpeech: async ({ text, voice, model }) => {
+      const response = await client().audio.speech.create({
+        model: model || TTS_MODEL(),
+        voice: voice || TTS_VOICE(),
+        input: text,
+      });
+      const arrayBuffer = await response.arrayBuffer();
+      return {
+        audioData: Buffer.from(arrayBuffer).toString('base64'),
+        format: 'mp3',
+        mimeType: 'audio/mpeg',
+      };
+    },
+
+    dialogueVoices: DIALOGUE_VOICES,
+
+    chat: async ({ systemInstruction, history, message, model }) => {
+      const response = await callWithRetry(async () => {
+        return client().chat.completions.create({
+          model: model || TEXT_MODEL(),
+          messages: [
+            { role: 'system', content: systemInstruction },
+            ...history.map(h => ({
+              role: h.role === 'model' ? 'assistant' as const : 'user' as const,
+              content: h.text,
+            })),
+            { role: 'user', content: message },
+          ],
+        });
+      });
+      return response.choices[0]?.message?.content || '';
+    },
+  };
+};
@@ -0,0 +1,48 @@
+import { AIProvider, ProviderName } from './types';
+import { createGeminiProvider } from './gemini';
+import { createOpenAIProvider } from './openai';
+import { createFixtureProvider } from './fixture';
+
+// Provider selection is driven by environment variables:
+//   AI_PROVIDER                 default provider for every action (gemini | openai | fixture)
+//   AI_PROVIDER_<ACTION>        per-action override, e.g. AI_PROVIDER_GENERATE_SPEECH=openai
+//   AI_MODEL_<ACTION>           per-action model override, e.g. AI_MODEL_GENERATE_EXERCISES=gemini-2.5-pro
+// <ACTION> is the action name in UPPER_SNAKE_CASE.
+
+const PROVIDER_NAMES: ProviderName[] = ['gemini', 'openai', 'fixture'];
+const DEFAULT_PROVIDER: ProviderName = 'gemini';
+
+const toEnvKey = (action: string): string =>
+  action.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/[^A-Za-z0-9]/g, '_').toUpperCase();
+
+const parseProviderName = (value: string | undefined): ProviderName | null => {
+  const name = value?.trim().toLowerCase() as ProviderName | undefined;
+  return name && PROVIDER_NAMES.includes(name) ? name : null;
+};
+
+export const createProvider = (name: ProviderName): AIProvider => {
+  switch (name) {
+    case 'openai':
+      return createOpenAIProvider();
+    case 'fixture':
+      return createFixtureProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider();
+  }
+};
+
+// Provider explicitly configured for an action, if any
+export const getProviderOverride = (action: string): ProviderName | null =>
+  parseProviderName(process.env[`AI_PROVIDER_${toEnvKey(action)}`]);
+
+export const getDefaultProviderName = (): ProviderName =>
+  parseProviderName(process.env.AI_PROVIDER) || DEFAULT_PROVIDER;
+
+export const getProviderName = (action: string): ProviderName =>
+  getProviderOverride(action) || getDefaultProviderName();
+
+export const getProvider = (action: string): AIProvider => createProvider(getProviderName(action));
+
+export const getModelOverride = (action: string): string | undefined =>
+  process.env[`AI_MODEL_${toEnvKey(action)}`] || undefined;
@@ -0,0 +1,20 @@
+// Helper for exponential backoff retry
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export async function callWithRetry<T>(fn: () => Promise<T>, retries = 3, delay = 2000): Promise<T> {
+  try {
+    return await fn();
+  } catch (error: any) {
+    const isRateLimit = 
+      error?.status === 429 || 
+      error?.code === 429 || 
+      (error?.message && (error.message.includes('429') || error.message.includes('quota') || error.message.includes('RESOURCE_EXHAUSTED')));
+
+    if (retries > 0 && isRateLimit) {
+      console.warn(`Rate limit hit. Retrying in ${delay}ms...`);
+      await sleep(delay);
+      return callWithRetry(fn, retries - 1, delay * 2);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,89 @@
+import { Type, Schema } from "@google/genai";
+
+// Structured output schemas passed to providers as `schema`.
+// Responses are still validated at runtime (lib/exercises) since not every provider enforces them.
+
+export const EXERCISES_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      type: {
+        type: Type.STRING,
+        enum: ['quiz', 'translation', 'composition', 'gap-fill', 'reorder', 'matching', 'pinyin-to-character', 'pinyin-answer', 'tone', 'reading', 'listening'],
+      },
+      question: { type: Type.STRING },
+      questionTranslation: { type: Type.STRING },
+      answer: { type: Type.STRING },
+      acceptedAnswers: { type: Type.ARRAY, items: { type: Type.STRING } },
+      options: { type: Type.ARRAY, items: { type: Type.STRING } },
+      segments: { type: Type.ARRAY, items: { type: Type.STRING } },
+      pairs: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            left: { type: Type.STRING },
+            right: { type: Type.STRING },
+          },
+          required: ['left', 'right'],
+        },
+      },
+      pinyin: { type: Type.STRING },
+      passage: { type: Type.STRING },
+      passageTranslation: { type: Type.STRING },
+      dialogue: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            speaker: { type: Type.STRING },
+            text: { type: Type.STRING },
+          },
+          required: ['speaker', 'text'],
+        },
+      },
+    },
+    required: ['type', 'question'],
+  },
+};
+
+const EXERCISE_ITEM = EXERCISES_SCHEMA.items as Schema;
+
+export const EXAM_PAPER_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    questions: {
+      type: Type.ARRAY,
+      items: {
+        ...EXERCISE_ITEM,
+        properties: {
+          ...EXERCISE_ITEM.properties,
+          marks: { type: Type.INTEGER },
+          audioScript: { type: Type.STRING },
+        },
+      },
+    },
+  },
+  required: ['questions'],
+};
+
+export const MARKING_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    criteria: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          criterion: { type: Type.STRING, enum: ['meaning', 'grammar', 'wordChoice'] },
+          score: { type: Type.INTEGER },
+          explanation: { type: Type.STRING },
+        },
+        required: ['criterion', 'score', 'explanation'],
+      },
+    },
+    feedback: { type: Type.STRING },
+  },
+  required: ['criteria', 'feedback'],
+};
@@ -0,0 +1,58 @@
+import type { Schema } from "@google/genai";
+
+export type ProviderName = 'gemini' | 'openai' | 'fixture';
+
+// Every request carries the action it serves so providers (and the offline
+// fixture provider in particular) can tailor their behaviour per action.
+interface BaseRequest {
+  action: string;
+  params?: Record<string, any>;
+  model?: string; // Per-action model override (AI_MODEL_<ACTION>)
+}
+
+export interface TextRequest extends BaseRequest {
+  prompt: string;
+  maxOutputTokens?: number;
+}
+
+export interface JsonRequest extends TextRequest {
+  schema?: Schema; // Structured output schema (honoured by Gemini, described in the prompt otherwise)
+}
+
+export interface ImageRequest extends BaseRequest {
+  prompt: string;
+}
+
+export interface SpeechRequest extends BaseRequest {
+  text: string;
+  voice?: string;
+}
+
+export interface SpeechResult {
+  audioData: string; // base64
+  format: 'pcm' | 'mp3'; // pcm = 16-bit mono little-endian
+  mimeType: string;
+  sampleRate?: number;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface ChatRequest extends BaseRequest {
+  systemInstruction: string;
+  history: ChatMessage[];
+  message: string;
+}
+
+export interface AIProvider {
+  name: ProviderName;
+  isConfigured: () => boolean;
+  generateText: (req: TextRequest) => Promise<string>;
+  generateJson: (req: JsonRequest) => Promise<string>; // Raw JSON text, parsed by the caller
+  generateImage: (req: ImageRequest) => Promise<string | null>; // Data URL
+  generateSpeech: (req: SpeechRequest) => Promise<SpeechResult>;
+  dialogueVoices: () => string[]; // One per speaker in listening dialogues, in order
+  chat: (req: ChatRequest) => Promise<string>;
+}
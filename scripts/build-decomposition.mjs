@@ -0,0 +1,90 @@
+// Builds public/decomposition/characters.json from Make Me a Hanzi's dictionary.txt for
+// lib/decomposition.ts.
+//
+//   node scripts/build-decomposition.mjs [makemeahanzi/dictionary.txt]
+//
+// Runs before every build. Without an argument it downloads dictionary.txt at the commit pinned by
+// MAKEMEAHANZI_COMMIT and checks it against MAKEMEAHANZI_SHA256, both set in the build environment
+// (e.g. netlify.toml's [build.environment]). MAKEMEAHANZI_URL overrides the address, e.g. for a
+// mirror; the checksum still applies. The download is skipped once that commit has been built.
+// When the data isn't pinned, can't be downloaded or doesn't match, an empty file marked unavailable
+// is written instead and the build goes on; the app then says breakdowns are unavailable.
+//
+// Make Me a Hanzi: https://github.com/skishore/makemeahanzi (Arphic Public License)
+// Each line of dictionary.txt is a JSON object with character, definition, pinyin,
+// decomposition (an Ideographic Description Sequence), radical and an optional etymology.
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, mkdirSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const OUTPUT = join(dirname(fileURLToPath(import.meta.url)), '..', 'public', 'decomposition', 'characters.json');
+
+const COMMIT = process.env.MAKEMEAHANZI_COMMIT;
+const SHA256 = process.env.MAKEMEAHANZI_SHA256;
+const SOURCE_URL = process.env.MAKEMEAHANZI_URL
+  || `https://raw.githubusercontent.com/skishore/makemeahanzi/${COMMIT}/dictionary.txt`;
+
+const LICENSE = 'Arphic Public License, https://github.com/skishore/makemeahanzi';
+
+const writeOutput = (source, file) => {
+  mkdirSync(dirname(OUTPUT), { recursive: true });
+  writeFileSync(OUTPUT, JSON.stringify({ source, license: LICENSE, ...file }));
+};
+
+// Built from the pinned commit (or a local file when none is pinned)
+const isBuilt = () => {
+  try {
+    const { source, unavailable } = JSON.parse(readFileSync(OUTPUT, 'utf8'));
+    return !unavailable && (!COMMIT || source.endsWith(` at ${COMMIT}`));
+  } catch {
+    return false;
+  }
+};
+
+const [inputPath] = process.argv.slice(2);
+if (!inputPath && existsSync(OUTPUT) && isBuilt()) {
+  console.log(`${OUTPUT} already built; pass a dictionary.txt to rebuild it`);
+  process.exit(0);
+}
+
+const download = async () => {
+  if (!COMMIT || !SHA256) throw new Error('MAKEMEAHANZI_COMMIT and MAKEMEAHANZI_SHA256 are not set');
+  const res = await fetch(SOURCE_URL);
+  if (!res.ok) throw new Error(`Could not download ${SOURCE_URL}: HTTP ${res.status}`);
+  const buffer = Buffer.from(await res.arrayBuffer());
+  const digest = createHash('sha256').update(buffer).digest('hex');
+  if (digest !== SHA256.toLowerCase()) throw new Error(`${SOURCE_URL} has SHA-256 ${digest}, expected ${SHA256}`);
+  return buffer.toString('utf8');
+};
+
+let text;
+try {
+  text = inputPath ? readFileSync(inputPath, 'utf8') : await download();
+} catch (error) {
+  console.warn(`Warning: character breakdowns will be unavailable. ${error.message}`);
+  writeOutput('Make Me a Hanzi dictionary.txt', { unavailable: true, entries: [] });
+  process.exit(0);
+}
+
+const entries = [];
+text.split(/\r?\n/).forEach((line) => {
+  if (!line.trim()) return;
+  const item = JSON.parse(line);
+  const etymology = item.etymology || {};
+  entries.push([
+    item.character,
+    item.decomposition || '',
+    item.radical || '',
+    item.definition || '',
+    (item.pinyin || [])[0] || '',
+    etymology.type || '',
+    etymology.semantic || '',
+    etymology.phonetic || '',
+    etymology.hint || '',
+  ]);
+});
+
+writeOutput(`Make Me a Hanzi dictionary.txt${inputPath ? '' : ` at ${COMMIT}`}`, { entries });
+console.log(`Wrote ${entries.length} characters to ${OUTPUT}`);
@@ -0,0 +1,126 @@
+// Builds public/dictionary/ from a CC-CEDICT release for lib/dictionary.ts.
+// Runs before every build; without arguments it uses the release bundled in the cedict-json package
+// and ranks words by the counts in the jieba dictionary bundled in the jieba-js package.
+//
+// script.json maps single characters between the scripts. Words are split into words/<hex>.json by
+// the code point of their first simplified character, so a page only fetches the characters it shows;
+// a shard also lists the words starting with that character in traditional script when they are
+// filed elsewhere.
+//
+//   node scripts/build-dictionary.mjs [cedict_1_0_ts_utf-8_mdbg.txt[.gz]] [word-frequency.txt]
+//
+// CC-CEDICT: https://www.mdbg.net/chinese/dictionary?page=cc-cedict (CC BY-SA 4.0)
+// jieba dictionary: https://github.com/fxsjy/jieba (MIT)
+// A frequency list given instead has one word per line, most frequent first; anything after a tab
+// or space on the line (e.g. a count, as in SUBTLEX-CH exports) is ignored.
+
+import { readFileSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { gunzipSync } from 'zlib';
+import { createRequire } from 'module';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const require = createRequire(import.meta.url);
+
+const OUTPUT = join(dirname(fileURLToPath(import.meta.url)), '..', 'public', 'dictionary');
+
+// 傳統 传统 [chuan2 tong3] /tradition/traditional/
+const LINE = /^(\S+) (\S+) \[([^\]]*)\] \/(.*)\/\s*$/;
+
+const readText = (path) => {
+  const buffer = readFileSync(path);
+  return (path.endsWith('.gz') ? gunzipSync(buffer) : buffer).toString('utf8');
+};
+
+// cedict-json ships the release as JSON, versioned by its date (1.3.20251213)
+const readPackagedRelease = () => {
+  const packageDir = dirname(require.resolve('cedict-json'));
+  const { version } = JSON.parse(readFileSync(join(packageDir, 'package.json'), 'utf8'));
+  const date = version.split('.').pop();
+  const release = JSON.parse(readFileSync(join(packageDir, 'cedict.json'), 'utf8'));
+  return {
+    version: `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`,
+    entries: release.map((entry) => [entry.simplified, entry.traditional, entry.pinyin, entry.english.join('/')]),
+  };
+};
+
+const readRelease = (path) => {
+  let version = 'unknown';
+  const entries = [];
+  readText(path).split(/\r?\n/).forEach((line) => {
+    if (line.startsWith('#')) {
+      const date = line.match(/date=(\S+)/);
+      if (date) version = date[1];
+      return;
+    }
+    const match = line.match(LINE);
+    if (!match) return;
+    const [, traditional, simplified, pinyin, definitions] = match;
+    entries.push([simplified, traditional, pinyin, definitions]);
+  });
+  return { version, entries };
+};
+
+// Words of a frequency list, most frequent first
+const readFrequencyList = (path) =>
+  readText(path).split(/\r?\n/).map((line) => line.split(/[\t ]/)[0].trim()).filter(Boolean);
+
+// jieba's dictionary lists "word count tag" alphabetically, simplified and traditional alike
+const readPackagedFrequencies = () => {
+  const packageDir = dirname(require.resolve('jieba-js/package.json'));
+  return readText(join(packageDir, 'dict', 'dict.txt.big'))
+    .split(/\r?\n/)
+    .map((line) => line.split(' '))
+    .filter(([word, count]) => word && count)
+    .sort((a, b) => Number(b[1]) - Number(a[1]))
+    .map(([word]) => word);
+};
+
+const [cedictPath, frequencyPath] = process.argv.slice(2);
+
+const ranks = new Map();
+(frequencyPath ? readFrequencyList(frequencyPath) : readPackagedFrequencies()).forEach((word) => {
+  if (!ranks.has(word)) ranks.set(word, ranks.size + 1);
+});
+
+const release = cedictPath ? readRelease(cedictPath) : readPackagedRelease();
+const { version } = release;
+const entries = release.entries.map((entry) => [...entry, ranks.get(entry[0]) || 0]);
+
+// Single-character entries drive script conversion; the first (most common) form wins.
+// Only characters that differ between the scripts are listed.
+const toSimplified = {};
+const toTraditional = {};
+entries.forEach(([simplified, traditional]) => {
+  if (Array.from(simplified).length !== 1) return;
+  if (!(simplified in toTraditional)) toTraditional[simplified] = traditional;
+  if (!(traditional in toSimplified)) toSimplified[traditional] = simplified;
+});
+Object.keys(toTraditional).forEach((ch) => toTraditional[ch] === ch && delete toTraditional[ch]);
+Object.keys(toSimplified).forEach((ch) => toSimplified[ch] === ch && delete toSimplified[ch]);
+
+// Same file names as shardUrl in lib/dictionary.ts
+const shardName = (word) => `${word.codePointAt(0).toString(16)}.json`;
+const shards = new Map();
+const shardFor = (word) => {
+  const name = shardName(word);
+  if (!shards.has(name)) shards.set(name, { entries: [], traditional: [] });
+  return shards.get(name);
+};
+entries.forEach((entry) => {
+  const [simplified, traditional] = entry;
+  shardFor(simplified).entries.push(entry);
+  if (shardName(traditional) !== shardName(simplified)) {
+    const { traditional: pointers } = shardFor(traditional);
+    if (!pointers.some(([t, s]) => t === traditional && s === simplified)) pointers.push([traditional, simplified]);
+  }
+});
+
+const source = `CC-CEDICT ${version}`;
+const license = 'CC BY-SA 4.0, https://creativecommons.org/licenses/by-sa/4.0/';
+
+rmSync(OUTPUT, { recursive: true, force: true });
+mkdirSync(join(OUTPUT, 'words'), { recursive: true });
+writeFileSync(join(OUTPUT, 'script.json'), JSON.stringify({ source, license, toSimplified, toTraditional }));
+shards.forEach((shard, name) => writeFileSync(join(OUTPUT, 'words', name), JSON.stringify(shard)));
+console.log(`Wrote ${entries.length} entries (${ranks.size} ranked words) in ${shards.size} files to ${OUTPUT}`);
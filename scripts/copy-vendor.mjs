@@ -0,0 +1,52 @@
+// Copies browser libraries and HanziWriter stroke data from node_modules into public/ so the
+// app serves them itself instead of loading them from CDNs. Runs before `build` and `next-dev`.
+//
+//   public/vendor/hanzi-writer.min.js     (app/layout.tsx)
+//   public/vendor/pdfjs/pdf*.min.js        (components/VocabManagement.tsx)
+//   public/hanzi-writer-data/<char>.json   (lib/hanziData.ts)
+
+import { copyFileSync, existsSync, mkdirSync, readdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { createRequire } from 'module';
+import { fileURLToPath } from 'url';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const PUBLIC = join(ROOT, 'public');
+const require = createRequire(import.meta.url);
+
+const packageDir = (name) => {
+  try {
+    return dirname(require.resolve(`${name}/package.json`));
+  } catch {
+    console.error(`Missing package "${name}". Run npm install first.`);
+    process.exit(1);
+  }
+};
+
+const copy = (from, to) => {
+  mkdirSync(dirname(to), { recursive: true });
+  copyFileSync(from, to);
+};
+
+const hanziWriter = packageDir('hanzi-writer');
+copy(join(hanziWriter, 'dist', 'hanzi-writer.min.js'), join(PUBLIC, 'vendor', 'hanzi-writer.min.js'));
+
+const pdfjs = packageDir('pdfjs-dist');
+['pdf.min.js', 'pdf.worker.min.js'].forEach((file) => {
+  copy(join(pdfjs, 'build', file), join(PUBLIC, 'vendor', 'pdfjs', file));
+});
+
+// One file per character, named after the character (e.g. 我.json); skip all.json and package files
+const dataDir = packageDir('hanzi-writer-data');
+const dataOut = join(PUBLIC, 'hanzi-writer-data');
+mkdirSync(dataOut, { recursive: true });
+let copied = 0;
+readdirSync(dataDir)
+  .filter((file) => /^.\.json$/u.test(file))
+  .forEach((file) => {
+    const target = join(dataOut, file);
+    if (!existsSync(target)) copyFileSync(join(dataDir, file), target);
+    copied++;
+  });
+
+console.log(`Copied hanzi-writer, pdf.js and stroke data for ${copied} characters to ${PUBLIC}`);
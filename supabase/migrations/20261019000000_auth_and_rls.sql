@@ -0,0 +1,79 @@
+-- Supabase Auth roles and row-level security.
+--
+-- Roles are stored in auth.users.raw_app_meta_data (only writable with the service role):
+--   tutors:   { "role": "tutor" }                      (set when creating the tutor account)
+--   students: { "role": "student", "student_id": ... } (set by the student-login function)
+--
+-- Create a tutor account in the dashboard, then:
+--   update auth.users set raw_app_meta_data = raw_app_meta_data || '{"role":"tutor"}' where email = 'tutor@example.com';
+
+-- --- STUDENT LOGIN ---
+
+alter table public.students add column if not exists auth_user_id uuid references auth.users (id) on delete set null;
+alter table public.students add column if not exists login_code_hash text;
+alter table public.students add column if not exists login_code_issued_at timestamptz;
+
+create unique index if not exists students_login_code_hash_key on public.students (login_code_hash);
+
+-- vocab_progress previously only stored the student id inside the data blob
+alter table public.vocab_progress add column if not exists student_id text;
+update public.vocab_progress set student_id = data->>'studentId' where student_id is null;
+create index if not exists vocab_progress_student_id_idx on public.vocab_progress (student_id);
+
+-- --- HELPERS ---
+
+create or replace function public.is_tutor() returns boolean
+language sql stable as $$
+  select coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'tutor';
+$$;
+
+create or replace function public.current_student_id() returns text
+language sql stable as $$
+  select case
+    when auth.jwt() -> 'app_metadata' ->> 'role' = 'student'
+    then auth.jwt() -> 'app_metadata' ->> 'student_id'
+  end;
+$$;
+
+-- --- POLICIES ---
+
+alter table public.students enable row level security;
+alter table public.lessons enable row level security;
+alter table public.vocab_progress enable row level security;
+alter table public.vocab_lists enable row level security;
+
+-- Tutors manage everything
+create policy "tutors manage students" on public.students
+  for all to authenticated using (public.is_tutor()) with check (public.is_tutor());
+create policy "tutors manage lessons" on public.lessons
+  for all to authenticated using (public.is_tutor()) with check (public.is_tutor());
+create policy "tutors manage vocab progress" on public.vocab_progress
+  for all to authenticated using (public.is_tutor()) with check (public.is_tutor());
+create policy "tutors manage vocab lists" on public.vocab_lists
+  for all to authenticated using (public.is_tutor()) with check (public.is_tutor());
+
+-- Students see their own profile
+create policy "students read own profile" on public.students
+  for select to authenticated using (id::text = public.current_student_id());
+
+-- Students read and submit their own lessons
+create policy "students read own lessons" on public.lessons
+  for select to authenticated using (student_id::text = public.current_student_id());
+create policy "students update own lessons" on public.lessons
+  for update to authenticated
+  using (student_id::text = public.current_student_id())
+  with check (student_id::text = public.current_student_id());
+
+-- Students track their own vocab progress
+create policy "students read own vocab progress" on public.vocab_progress
+  for select to authenticated using (student_id = public.current_student_id());
+create policy "students insert own vocab progress" on public.vocab_progress
+  for insert to authenticated with check (student_id = public.current_student_id());
+create policy "students update own vocab progress" on public.vocab_progress
+  for update to authenticated
+  using (student_id = public.current_student_id())
+  with check (student_id = public.current_student_id());
+
+-- Vocab lists are shared practice material
+create policy "students read vocab lists" on public.vocab_lists
+  for select to authenticated using (public.current_student_id() is not null);
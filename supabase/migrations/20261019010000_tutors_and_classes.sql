@@ -0,0 +1,163 @@
+-- Tutor ownership, classes and enrolments.
+--
+-- Every student, lesson, class and vocab list now belongs to one tutor (tutor_id defaults to the
+-- signed-in user), and the blanket "tutors manage *" policies are replaced by owner-scoped ones,
+-- so a tutor only ever sees their own students and the lessons assigned to them.
+
+-- --- TUTORS ---
+
+create table if not exists public.tutors (
+  id uuid primary key references auth.users (id) on delete cascade,
+  name text not null default '',
+  email text,
+  created_at timestamptz not null default now()
+);
+
+-- Keep public.tutors in sync with auth users that carry the tutor role
+create or replace function public.sync_tutor_profile() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if coalesce(new.raw_app_meta_data ->> 'role', '') = 'tutor' then
+    insert into public.tutors (id, name, email)
+    values (new.id, coalesce(new.raw_user_meta_data ->> 'name', new.email, ''), new.email)
+    on conflict (id) do update set email = excluded.email;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_tutor_sync on auth.users;
+create trigger on_auth_user_tutor_sync
+  after insert or update of raw_app_meta_data on auth.users
+  for each row execute function public.sync_tutor_profile();
+
+insert into public.tutors (id, name, email)
+select id, coalesce(raw_user_meta_data ->> 'name', email, ''), email
+from auth.users
+where raw_app_meta_data ->> 'role' = 'tutor'
+on conflict (id) do nothing;
+
+-- --- OWNERSHIP ---
+
+alter table public.students add column if not exists tutor_id uuid references public.tutors (id) on delete cascade;
+alter table public.students alter column tutor_id set default auth.uid();
+create index if not exists students_tutor_id_idx on public.students (tutor_id);
+
+alter table public.lessons add column if not exists tutor_id uuid references public.tutors (id) on delete cascade;
+alter table public.lessons alter column tutor_id set default auth.uid();
+create index if not exists lessons_tutor_id_idx on public.lessons (tutor_id);
+
+alter table public.vocab_lists add column if not exists tutor_id uuid references public.tutors (id) on delete cascade;
+alter table public.vocab_lists alter column tutor_id set default auth.uid();
+
+-- Existing rows had no owner. With a single tutor account they all belong to that tutor;
+-- otherwise assign them by hand before tutors can see them again.
+update public.students set tutor_id = (select id from public.tutors)
+where tutor_id is null and (select count(*) from public.tutors) = 1;
+update public.vocab_lists set tutor_id = (select id from public.tutors)
+where tutor_id is null and (select count(*) from public.tutors) = 1;
+update public.lessons l set tutor_id = s.tutor_id
+from public.students s
+where l.tutor_id is null and l.student_id::text = s.id::text;
+
+-- --- CLASSES ---
+
+create table if not exists public.classes (
+  id uuid primary key default gen_random_uuid(),
+  tutor_id uuid not null default auth.uid() references public.tutors (id) on delete cascade,
+  name text not null,
+  created_at timestamptz not null default now()
+);
+create index if not exists classes_tutor_id_idx on public.classes (tutor_id);
+
+create table if not exists public.enrolments (
+  class_id uuid not null references public.classes (id) on delete cascade,
+  student_id uuid not null references public.students (id) on delete cascade,
+  enrolled_at timestamptz not null default now(),
+  primary key (class_id, student_id)
+);
+create index if not exists enrolments_student_id_idx on public.enrolments (student_id);
+
+-- Lessons assigned to a whole class remember which class they came from
+alter table public.lessons add column if not exists class_id uuid references public.classes (id) on delete set null;
+create index if not exists lessons_class_id_idx on public.lessons (class_id);
+
+-- --- HELPERS ---
+
+-- security definer so policies can check ownership without tripping over students' own RLS
+create or replace function public.owns_student(target_student_id text) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from public.students
+    where id::text = target_student_id and tutor_id = auth.uid()
+  );
+$$;
+
+create or replace function public.owns_class(target_class_id uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from public.classes
+    where id = target_class_id and tutor_id = auth.uid()
+  );
+$$;
+
+create or replace function public.current_student_tutor_id() returns uuid
+language sql stable security definer set search_path = public as $$
+  select tutor_id from public.students where id::text = public.current_student_id();
+$$;
+
+-- --- POLICIES ---
+
+alter table public.tutors enable row level security;
+alter table public.classes enable row level security;
+alter table public.enrolments enable row level security;
+
+drop policy if exists "tutors manage students" on public.students;
+drop policy if exists "tutors manage lessons" on public.lessons;
+drop policy if exists "tutors manage vocab progress" on public.vocab_progress;
+drop policy if exists "tutors manage vocab lists" on public.vocab_lists;
+drop policy if exists "students read vocab lists" on public.vocab_lists;
+
+create policy "tutors read own profile" on public.tutors
+  for select to authenticated using (id = auth.uid());
+create policy "tutors update own profile" on public.tutors
+  for update to authenticated using (id = auth.uid()) with check (id = auth.uid());
+
+-- Tutors manage only what they own
+create policy "tutors manage own students" on public.students
+  for all to authenticated
+  using (public.is_tutor() and tutor_id = auth.uid())
+  with check (public.is_tutor() and tutor_id = auth.uid());
+
+create policy "tutors manage own lessons" on public.lessons
+  for all to authenticated
+  using (public.is_tutor() and tutor_id = auth.uid())
+  with check (
+    public.is_tutor() and tutor_id = auth.uid()
+    and (student_id is null or public.owns_student(student_id::text))
+    and (class_id is null or public.owns_class(class_id))
+  );
+
+create policy "tutors manage own students' vocab progress" on public.vocab_progress
+  for all to authenticated
+  using (public.is_tutor() and public.owns_student(student_id))
+  with check (public.is_tutor() and public.owns_student(student_id));
+
+create policy "tutors manage own vocab lists" on public.vocab_lists
+  for all to authenticated
+  using (public.is_tutor() and tutor_id = auth.uid())
+  with check (public.is_tutor() and tutor_id = auth.uid());
+
+create policy "tutors manage own classes" on public.classes
+  for all to authenticated
+  using (public.is_tutor() and tutor_id = auth.uid())
+  with check (public.is_tutor() and tutor_id = auth.uid());
+
+create policy "tutors manage own enrolments" on public.enrolments
+  for all to authenticated
+  using (public.is_tutor() and public.owns_class(class_id))
+  with check (public.is_tutor() and public.owns_class(class_id) and public.owns_student(student_id::text));
+
+-- Students practise with their own tutor's vocab lists
+create policy "students read tutor vocab lists" on public.vocab_lists
+  for select to authenticated using (tutor_id = public.current_student_tutor_id());
@@ -0,0 +1,30 @@
+-- Mock exam attempts.
+--
+-- Students sit timed mock papers and write their own attempts (offline-first, like vocab progress);
+-- their tutor reads them and saves adjusted marks and comments.
+
+create table if not exists public.exam_attempts (
+  id text primary key,
+  student_id text not null,
+  data jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists exam_attempts_student_id_idx on public.exam_attempts (student_id);
+
+alter table public.exam_attempts enable row level security;
+
+create policy "students read own exam attempts" on public.exam_attempts
+  for select to authenticated using (student_id = public.current_student_id());
+create policy "students insert own exam attempts" on public.exam_attempts
+  for insert to authenticated with check (student_id = public.current_student_id());
+create policy "students update own exam attempts" on public.exam_attempts
+  for update to authenticated
+  using (student_id = public.current_student_id())
+  with check (student_id = public.current_student_id());
+
+create policy "tutors manage own students' exam attempts" on public.exam_attempts
+  for all to authenticated
+  using (public.is_tutor() and public.owns_student(student_id))
+  with check (public.is_tutor() and public.owns_student(student_id));
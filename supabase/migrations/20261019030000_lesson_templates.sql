@@ -0,0 +1,22 @@
+-- Lesson bank.
+--
+-- Tutors save generated lesson material and exercises as templates keyed by curriculum point
+-- (point_key = stage/topic/point), one row per version, and assign them again without regenerating.
+
+create table if not exists public.lesson_templates (
+  id text primary key,
+  tutor_id uuid not null default auth.uid() references public.tutors (id) on delete cascade,
+  point_key text not null,
+  data jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists lesson_templates_tutor_point_idx on public.lesson_templates (tutor_id, point_key);
+
+alter table public.lesson_templates enable row level security;
+
+create policy "tutors manage own lesson templates" on public.lesson_templates
+  for all to authenticated
+  using (public.is_tutor() and tutor_id = auth.uid())
+  with check (public.is_tutor() and tutor_id = auth.uid());
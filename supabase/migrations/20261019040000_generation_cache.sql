@@ -0,0 +1,19 @@
+-- Server-side generation cache.
+--
+-- The generate function stores shared AI output (word details, speech, vocabulary lists) here,
+-- keyed by a hash of the action, params, model and prompt version. Row-level security is on with
+-- no policies, so only the service role used by the function can read or write it.
+
+create table if not exists public.generation_cache (
+  key text primary key,
+  action text not null,
+  model text not null,
+  result jsonb not null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+create index if not exists generation_cache_action_idx on public.generation_cache (action);
+create index if not exists generation_cache_expires_at_idx on public.generation_cache (expires_at);
+
+alter table public.generation_cache enable row level security;
@@ -0,0 +1,19 @@
+-- Editable curricula.
+--
+-- Each tutor keeps one curriculum (id = their auth user id) with stages, topics and learning
+-- points in a jsonb document. Tutors without a row use the built-in curriculum from the app.
+
+create table if not exists public.curricula (
+  id text primary key,
+  tutor_id uuid not null default auth.uid() references public.tutors (id) on delete cascade,
+  data jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.curricula enable row level security;
+
+create policy "tutors manage own curriculum" on public.curricula
+  for all to authenticated
+  using (public.is_tutor() and tutor_id = auth.uid())
+  with check (public.is_tutor() and tutor_id = auth.uid() and id = auth.uid()::text);
@@ -0,0 +1,66 @@
+-- Student writes to lessons and login code throttling.
+--
+-- "students update own lessons" lets a student update their lesson row, but the data blob also
+-- holds the marks and the tutor's review. For students this trigger keeps everything but their
+-- answers as it was, so marks are only ever written by tutors and by the generate function's
+-- markLesson action (service role). Whole-record pushes from the offline outbox still succeed;
+-- the protected keys are simply left unchanged. Once submitted, the lesson is read-only to them.
+
+-- --- STUDENT LESSON WRITES ---
+
+create or replace function public.guard_student_lesson_update() returns trigger
+language plpgsql set search_path = public as $$
+declare
+  student_keys constant text[] := array['userAnswers', 'completed', 'updatedAt'];
+begin
+  if public.current_student_id() is null then
+    return new;
+  end if;
+
+  new.student_id := old.student_id;
+  new.student_name := old.student_name;
+  new.class_id := old.class_id;
+  new.tutor_id := old.tutor_id;
+
+  if coalesce((old.data ->> 'completed')::boolean, false) then
+    new.data := old.data;
+  else
+    new.data := old.data || coalesce(
+      (select jsonb_object_agg(key, value) from jsonb_each(new.data) where key = any (student_keys)),
+      '{}'::jsonb
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_student_lesson_update on public.lessons;
+create trigger guard_student_lesson_update
+  before update on public.lessons
+  for each row execute function public.guard_student_lesson_update();
+
+-- --- LOGIN ATTEMPTS ---
+
+-- Failed login code attempts per client address within the current window. Row-level security is
+-- on with no policies, so only the service role used by the student-login function can use it.
+create table if not exists public.login_attempts (
+  key text primary key,
+  failures integer not null default 0,
+  window_started_at timestamptz not null default now()
+);
+
+alter table public.login_attempts enable row level security;
+
+-- Count a failure and return the failures in the current window, starting a new window when the
+-- old one has passed
+create or replace function public.record_login_failure(attempt_key text, window_seconds integer) returns integer
+language sql set search_path = public as $$
+  insert into public.login_attempts as a (key, failures, window_started_at)
+  values (attempt_key, 1, now())
+  on conflict (key) do update set
+    failures = case when a.window_started_at < now() - make_interval(secs => window_seconds) then 1 else a.failures + 1 end,
+    window_started_at = case when a.window_started_at < now() - make_interval(secs => window_seconds) then now() else a.window_started_at end
+  returning failures;
+$$;
+
+revoke execute on function public.record_login_failure(text, integer) from public, anon, authenticated;
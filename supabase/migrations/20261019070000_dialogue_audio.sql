@@ -0,0 +1,43 @@
+-- Listening dialogue audio and plays.
+--
+-- The generate function renders each listening dialogue once, when the tutor saves or assigns the
+-- lesson, and stores it in the dialogue-audio bucket under a hash of its script. Exercises only
+-- keep the file's URL, so one recording serves every question and every student's copy of the
+-- lesson. The bucket is public to read; with no storage policies only the service role writes it.
+--
+-- Students may also save the recording plays they have used, so reopening a lesson doesn't hand
+-- out fresh ones.
+
+-- --- DIALOGUE AUDIO ---
+
+insert into storage.buckets (id, name, public)
+values ('dialogue-audio', 'dialogue-audio', true)
+on conflict (id) do update set public = true;
+
+-- --- STUDENT LESSON WRITES ---
+
+create or replace function public.guard_student_lesson_update() returns trigger
+language plpgsql set search_path = public as $$
+declare
+  student_keys constant text[] := array['userAnswers', 'listeningPlays', 'completed', 'updatedAt'];
+begin
+  if public.current_student_id() is null then
+    return new;
+  end if;
+
+  new.student_id := old.student_id;
+  new.student_name := old.student_name;
+  new.class_id := old.class_id;
+  new.tutor_id := old.tutor_id;
+
+  if coalesce((old.data ->> 'completed')::boolean, false) then
+    new.data := old.data;
+  else
+    new.data := old.data || coalesce(
+      (select jsonb_object_agg(key, value) from jsonb_each(new.data) where key = any (student_keys)),
+      '{}'::jsonb
+    );
+  end if;
+  return new;
+end;
+$$;
@@ -0,0 +1,31 @@
+-- Vocabulary lists generated for students.
+--
+-- When a category has no uploaded list, the practice screen generates one and saves it so every
+-- student of the same tutor gets the same words. Students may insert such lists only: the row is
+-- filed under their tutor, and the tutor keeps sole control over editing and deleting it.
+
+-- --- STUDENT VOCAB LIST INSERTS ---
+
+create or replace function public.assign_student_vocab_list_tutor() returns trigger
+language plpgsql set search_path = public as $$
+begin
+  if public.current_student_id() is not null then
+    new.tutor_id := public.current_student_tutor_id();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists assign_student_vocab_list_tutor on public.vocab_lists;
+create trigger assign_student_vocab_list_tutor
+  before insert on public.vocab_lists
+  for each row execute function public.assign_student_vocab_list_tutor();
+
+drop policy if exists "students add generated vocab lists" on public.vocab_lists;
+create policy "students add generated vocab lists" on public.vocab_lists
+  for insert to authenticated
+  with check (
+    public.current_student_id() is not null
+    and tutor_id = public.current_student_tutor_id()
+    and data ->> 'fileName' = 'AI Generated'
+  );
@@ -0,0 +1,46 @@
+-- Student writes to mock exam attempts.
+--
+-- Students create and update their own attempts from the offline outbox, but the data blob also
+-- holds the marks and the tutor's review. As for lessons (see student_lesson_writes), this trigger
+-- keeps everything but the student's answers as it was, so marks are only ever written by tutors
+-- and by the generate function's markExamAttempt action (service role). A new attempt starts
+-- without marks, and once submitted the attempt is read-only to the student.
+
+-- --- STUDENT EXAM WRITES ---
+
+create or replace function public.guard_student_exam_write() returns trigger
+language plpgsql set search_path = public as $$
+declare
+  student_keys constant text[] := array['answers', 'toneAssessments', 'listeningPlays', 'submittedAt', 'timedOut', 'updatedAt'];
+  mark_keys constant text[] := array[
+    'questionMarks', 'questionFeedback', 'rubricMarks', 'rawMark', 'maxMark', 'grade', 'markedAt',
+    'tutorAdjustedMarks', 'tutorComment'
+  ];
+begin
+  if public.current_student_id() is null then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.data := new.data - mark_keys;
+    return new;
+  end if;
+
+  new.student_id := old.student_id;
+
+  if old.data ? 'submittedAt' then
+    new.data := old.data;
+  else
+    new.data := old.data || coalesce(
+      (select jsonb_object_agg(key, value) from jsonb_each(new.data) where key = any (student_keys)),
+      '{}'::jsonb
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_student_exam_write on public.exam_attempts;
+create trigger guard_student_exam_write
+  before insert or update on public.exam_attempts
+  for each row execute function public.guard_student_exam_write();
@@ -2,6 +2,7 @@
 export interface LearningPoint {
   id: string;
   description: string;
+  specRefs?: string[]; // SpecItem ids in the curriculum's specification
 }
 
 export interface Topic {
@@ -18,12 +19,121 @@ export interface Stage {
   topics: Topic[];
 }
 
+// A tutor's editable course structure, seeded from data/curriculum.ts
+export interface Curriculum {
+  id: string; // The owning tutor's user id: one curriculum per tutor
+  name: string; // e.g. the exam board and specification it follows
+  specificationId?: string; // Specification that points' specRefs refer to
+  stages: Stage[]; // In teaching order
+  updatedAt?: string;
+}
+
+export type SpecItemCategory = 'theme' | 'topic-area' | 'grammar' | 'vocabulary';
+
+// One requirement of an exam-board specification; the id is the code shown to tutors (e.g. "B1", "G6")
+export interface SpecItem {
+  id: string;
+  category: SpecItemCategory;
+  title: string;
+  parentId?: string; // Topic areas belong to a theme
+}
+
+export interface Specification {
+  id: string;
+  board: string;
+  title: string;
+  items: SpecItem[];
+}
+
+export type ExerciseType =
+  | 'quiz'
+  | 'translation'
+  | 'composition'
+  | 'gap-fill' // question contains a ___ blank, answer fills it (options = optional word bank)
+  | 'reorder' // segments are shuffled pieces, answer is the full sentence
+  | 'matching' // pairs of Chinese <-> English to match up
+  | 'pinyin-to-character' // pinyin prompt, answer is the characters
+  | 'pinyin-answer' // Chinese or English prompt, answer is typed in pinyin (lib/pinyin)
+  | 'tone' // identify the tone(s) of the word in question
+  | 'reading' // passage plus a comprehension question
+  | 'listening'; // dialogue heard as audio, transcript shown only after answering
+
+export interface MatchingPair {
+  left: string;
+  right: string;
+}
+
+export interface RubricBand {
+  minMark: number;
+  maxMark: number;
+  descriptor: string;
+}
+
+export interface RubricCriterion {
+  id: string; // e.g. 'content', 'range', 'accuracy'
+  label: string;
+  maxMark: number;
+  bands: RubricBand[]; // Highest band first
+}
+
+export interface Rubric {
+  id: string;
+  name: string;
+  wordCount: number; // Approximate length the task asks for
+  criteria: RubricCriterion[];
+}
+
+export interface RubricMark {
+  criterionId: string;
+  mark: number;
+}
+
+// One line of a listening dialogue
+export interface DialogueLine {
+  speaker: string; // e.g. "A", "B" or a name; each speaker gets their own voice
+  text: string;
+}
+
+// Rendered dialogue, stored once in the dialogue-audio bucket and referenced by its questions
+export interface DialogueAudio {
+  url: string; // WAV or MP3 file
+  script: string; // The dialogue it was rendered from; regenerate when it no longer matches
+}
+
 export interface Exercise {
-  type: 'quiz' | 'translation' | 'composition';
+  type: ExerciseType;
   question: string;
   questionTranslation?: string;
   answer?: string;
+  acceptedAnswers?: string[]; // Other correct answers; [了] marks an optional part
   options?: string[];
+  correctOptionIndex?: number; // With options: index of the correct one (answer holds its text)
+  segments?: string[]; // reorder
+  pairs?: MatchingPair[]; // matching
+  pinyin?: string; // pinyin-to-character
+  passage?: string; // reading
+  passageTranslation?: string; // reading, listening (English translation of the dialogue)
+  dialogue?: DialogueLine[]; // listening
+  audio?: DialogueAudio; // listening
+  rubricId?: string; // composition: mark scheme from lib/rubrics
+}
+
+// 'ai' marks translation/composition answers against GCSE criteria; everything else is always rule-based
+export type MarkingMode = 'rules' | 'ai';
+
+export type MarkingCriterion = 'meaning' | 'grammar' | 'wordChoice';
+
+export interface CriterionScore {
+  criterion: MarkingCriterion;
+  score: number; // 0-100
+  explanation: string;
+}
+
+export interface AnswerEvaluation {
+  score: number; // 0-100
+  feedback: string;
+  criteria?: CriterionScore[]; // Only for AI marking
+  markedBy: MarkingMode;
 }
 
 export interface GeneratedContent {
@@ -35,20 +145,88 @@ export interface AssignedLesson {
   id: string;
   studentName: string;
   studentId?: string; // Add ID field
+  classId?: string; // Set when the lesson was assigned to a whole class
+  className?: string;
   stageTitle: string;
   topicTitle: string;
   pointDescription: string;
+  stageId?: number; // Curriculum point the lesson was planned from
+  topicId?: string;
+  pointId?: string;
+  specRefs?: string[]; // The point's spec references when the lesson was assigned
   material: string;
   exercises: Exercise[];
   assignedDate: string;
   completed: boolean;
   score?: number; // Total score (sum of exercise scores or count of correct answers)
   userAnswers?: string[]; // Added to store student's specific input
+  listeningPlays?: number[]; // Recording plays used per listening question (shared by questions on a dialogue)
   exerciseScores?: number[]; // Percentage score (0-100) for each exercise
   exerciseFeedback?: string[]; // AI-generated feedback for each exercise
+  markingMode?: MarkingMode; // Chosen by the tutor when assigning (default 'rules')
+  exerciseCriteria?: (CriterionScore[] | null)[]; // Per-criterion breakdown for AI-marked exercises
+  markedAt?: string; // Set when the generate function confirmed the marks of the submitted answers
+  rubricMarks?: (RubricMark[] | null)[]; // Band marks for exercises with a rubric: suggested when marked, the tutor's once reviewed
   tutorAdjustedScores?: number[]; // Tutor-adjusted scores (0-100) for each exercise
   tutorComments?: string[]; // Tutor comments for each exercise
   tutorOverallComment?: string; // Overall comment from tutor for the entire lesson
+  templateId?: string; // Set when assigned unchanged from the lesson bank
+  templateVersion?: number;
+  updatedAt?: string; // Last local or cloud write, used to merge offline edits
+}
+
+// Saved lesson in the tutor's bank. Saving a point's lesson again adds a new version rather than overwriting.
+export interface LessonTemplate {
+  id: string;
+  stageId: number;
+  topicId: string;
+  pointId: string;
+  stageTitle: string;
+  topicTitle: string;
+  pointDescription: string;
+  version: number; // 1, 2, ... per curriculum point
+  material: string;
+  exercises: Exercise[];
+  markingMode?: MarkingMode;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type ExamPaper = 'listening' | 'reading' | 'speaking' | 'writing';
+
+export type ExamTier = 'foundation' | 'higher';
+
+export interface ExamQuestion {
+  exercise: Exercise; // Speaking questions use passage (text to read aloud) and pinyin
+  marks: number;
+  audioScript?: string; // Listening: played as audio, only shown with the results
+}
+
+// One sitting of a mock exam paper
+export interface ExamAttempt {
+  id: string;
+  studentId: string;
+  studentName: string;
+  paper: ExamPaper;
+  tier: ExamTier;
+  durationMinutes: number;
+  questions: ExamQuestion[];
+  answers: string[];
+  toneAssessments?: (ToneAssessment | null)[]; // Speaking: one per read-aloud question
+  listeningPlays?: number[]; // Listening: recording plays used per question
+  startedAt: string;
+  submittedAt?: string; // Unset while the exam is in progress
+  timedOut?: boolean; // Submitted automatically when time ran out
+  questionMarks?: number[]; // Marks awarded per question
+  questionFeedback?: string[];
+  rubricMarks?: (RubricMark[] | null)[]; // Writing tasks marked against a rubric
+  rawMark?: number;
+  maxMark?: number;
+  grade?: number; // 1-9, 0 = U
+  markedAt?: string; // Set when the generate function marked the submitted paper
+  tutorAdjustedMarks?: number[];
+  tutorComment?: string;
+  updatedAt?: string;
 }
 
 export type ViewState = 
@@ -77,8 +255,59 @@ export interface VocabWord {
 }
 
 export interface WordDetails extends VocabWord {
-  exampleSentenceCh: string;
+  exampleSentenceCh: string; // Empty while the sentence is still being generated
   exampleSentenceEn: string;
+  traditional?: string; // Set by the offline dictionary when it differs from the simplified form
+  otherReadings?: { pinyin: string; meaning: string }[]; // Further dictionary readings (e.g. 行 háng)
+  frequencyRank?: number;
+  source?: 'dictionary' | 'ai';
+}
+
+// 0 = Again, 1 = Hard, 2 = Good, 3 = Easy
+export type ReviewGrade = 0 | 1 | 2 | 3;
+
+export interface ReviewLog {
+  reviewedAt: string;
+  grade: ReviewGrade;
+  interval: number; // Interval (days) scheduled after this review
+  ease: number; // Ease factor after this review
+}
+
+export interface SrsState {
+  ease: number; // SM-2 ease factor (>= 1.3)
+  interval: number; // Current interval in days (0 = relearning, due again today)
+  repetitions: number; // Consecutive successful reviews
+  lapses: number; // Times the card was forgotten
+  due: string; // ISO date when the next review is due
+  lastReviewed?: string;
+  history: ReviewLog[];
+}
+
+export type Tone = 1 | 2 | 3 | 4 | 5; // 5 = neutral tone
+
+export interface SyllableToneResult {
+  syllable: string; // Pinyin as written, e.g. "hǎo"
+  expectedTone: Tone; // After third-tone sandhi
+  detectedTone: Tone | null; // null when no voiced sound was found for the syllable
+  correct: boolean;
+}
+
+export interface ToneAssessment {
+  score: number; // 0-100, share of syllables with the expected tone
+  syllables: SyllableToneResult[];
+  assessedAt: string;
+}
+
+// One HanziWriter writing quiz on a single character
+export interface WritingAttempt {
+  character: string;
+  attemptedAt: string;
+  durationMs: number;
+  strokeCount: number;
+  mistakesByStroke: number[]; // Indexed by stroke number, in stroke order
+  hintedStrokes: number[]; // Strokes whose outline hint was shown after a miss
+  radicalStrokes?: number[]; // Strokes that belong to the radical, from the character data
+  accuracy: number; // 0-100
 }
 
 export interface VocabProgress {
@@ -95,14 +324,34 @@ export interface VocabProgress {
     pronunciation: number;
   };
   lastPracticed: string;
+  srs?: SrsState; // Spaced-repetition schedule (absent until first review)
+  toneAssessment?: ToneAssessment; // Most recent pronunciation recording
+  bestToneScore?: number;
+  writingAttempts?: WritingAttempt[]; // Most recent writing quizzes, oldest first
+  savedAt?: string; // When the student added the word to My Words from a reading passage
+  updatedAt?: string;
+}
+
+export type VocabTier = 'foundation' | 'higher';
+
+// One word (or single character) in a vocabulary list
+export interface VocabEntry {
+  word: string;
+  pinyin?: string;
+  meaning?: string;
+  partOfSpeech?: string;
+  tier?: VocabTier; // Higher-only words are marked 'higher'
+  theme?: string;
 }
 
 export interface VocabList {
   id: string;
   category: string;
-  characters: string[]; // Array of individual Chinese characters
+  words?: VocabEntry[]; // In list order
+  characters?: string[]; // Lists uploaded before word-level import: individual characters only
   uploadedAt: string;
   fileName?: string;
+  updatedAt?: string;
 }
 
 export interface Student {
@@ -111,4 +360,34 @@ export interface Student {
   age_years?: number;
   profile_id?: string;
   targets?: string[];
+  auth_user_id?: string | null; // Supabase Auth user created on first login
+  login_code_issued_at?: string | null;
+  tutor_id?: string; // Owning tutor (auth user id)
+}
+
+export interface ClassGroup {
+  id: string;
+  name: string;
+  studentIds: string[]; // Enrolled students
+  createdAt?: string;
+}
+
+export type UserRole = 'tutor' | 'student';
+
+export interface AuthSession {
+  userId: string; // Supabase Auth user id
+  role: UserRole;
+  name: string;
+  email?: string;
+  studentId?: string; // students.id (student sessions only)
+}
+
+export type SyncState = 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number; // Local changes not yet written to the cloud
+  parked: number; // Changes the cloud refused, kept until the user discards them
+  lastSyncedAt?: string;
+  lastError?: string;
 }